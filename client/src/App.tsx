@@ -13,8 +13,22 @@ import { AuthForm } from "@/components/auth/auth-form";
 import Dashboard from "@/pages/dashboard";
 import ReleasePlans from "@/pages/release-plans";
 import Settings from "@/pages/settings";
+import Audit from "@/pages/audit";
+import Users from "@/pages/users";
+import Preferences from "@/pages/preferences";
+import ApiTokens from "@/pages/api-tokens";
+import Notifications from "@/pages/notifications";
+import Webhooks from "@/pages/webhooks";
+import Acknowledge from "@/pages/acknowledge";
 import NotFound from "@/pages/not-found";
 
+// Emailed acknowledgement links work without signing in
+const PUBLIC_PATHS = ["/", "/acknowledge"];
+
+function isPublicPath(pathname: string) {
+  return PUBLIC_PATHS.includes(pathname);
+}
+
 function AuthWrapper({ children }: { readonly children: ReactNode }) {
   const { isAuthenticated, isLoading } = useAuth();
   const { toast } = useToast();
@@ -22,8 +36,8 @@ function AuthWrapper({ children }: { readonly children: ReactNode }) {
   // Handle unauthorized redirects
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
-      // Only show toast and redirect if we're not already on landing page
-      if (window.location.pathname !== "/" && !window.location.pathname.startsWith("/api/")) {
+      // Only show toast and redirect if we're not already on landing page or a public page
+      if (!isPublicPath(window.location.pathname) && !window.location.pathname.startsWith("/api/")) {
         toast({
           title: "Unauthorized",
           description: "You are logged out. Logging in again...",
@@ -45,6 +59,7 @@ function Router() {
   return (
     <Switch>
       {/* Public routes */}
+      <Route path="/acknowledge" component={Acknowledge} />
       {isLoading || !isAuthenticated ? (
         <Route path="/" component={AuthForm} />
       ) : (
@@ -53,6 +68,12 @@ function Router() {
           <Route path="/" component={Dashboard} />
           <Route path="/release-plans" component={ReleasePlans} />
           <Route path="/settings" component={Settings} />
+          <Route path="/users" component={Users} />
+          <Route path="/notifications" component={Notifications} />
+          <Route path="/webhooks" component={Webhooks} />
+          <Route path="/audit" component={Audit} />
+          <Route path="/preferences" component={Preferences} />
+          <Route path="/api-tokens" component={ApiTokens} />
         </>
       )}
       {/* Fallback to 404 */}
@@ -0,0 +1,155 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiTokenScopeLabels, apiTokenScopes, type ApiTokenScope } from "@shared/apiTokens";
+import type { ApiTokenWithUser } from "@shared/schema";
+
+interface ApiTokenTableProps {
+  tokens: ApiTokenWithUser[];
+  // Admins see whose token each one is
+  showOwner?: boolean;
+  emptyMessage: string;
+}
+
+function formatDate(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+function getTokenStatus(token: ApiTokenWithUser): { label: string; active: boolean } {
+  if (token.revokedAt) return { label: "Revoked", active: false };
+  if (token.expiresAt && new Date(token.expiresAt) < new Date()) return { label: "Expired", active: false };
+  return { label: "Active", active: true };
+}
+
+export function ApiTokenTable({ tokens, showOwner = false, emptyMessage }: ApiTokenTableProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const revokeMutation = useMutation({
+    mutationFn: async (tokenId: string) => {
+      return await apiRequest("DELETE", `/api/api-tokens/${tokenId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/api-tokens"] });
+      toast({ title: "Token Revoked", description: "Requests using it will be rejected from now on." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke API token",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRevoke = (token: ApiTokenWithUser) => {
+    if (window.confirm(`Revoke "${token.name}"? Anything using it will stop working immediately.`)) {
+      revokeMutation.mutate(token.id);
+    }
+  };
+
+  if (tokens.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">{emptyMessage}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          {showOwner && <TableHead>Owner</TableHead>}
+          <TableHead>Scopes</TableHead>
+          <TableHead>Last Used</TableHead>
+          <TableHead>Expires</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="text-right">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {tokens.map(token => {
+          const status = getTokenStatus(token);
+          return (
+            <TableRow key={token.id} data-testid={`api-token-row-${token.id}`}>
+              <TableCell>
+                <div className="font-medium">{token.name}</div>
+                <code className="text-xs text-muted-foreground">{token.tokenPrefix}…</code>
+              </TableCell>
+              {showOwner && (
+                <TableCell>
+                  {token.userName || "—"}
+                  {token.isServiceAccount && <Badge variant="outline" className="ml-2">Service account</Badge>}
+                </TableCell>
+              )}
+              <TableCell className="space-x-1">
+                {apiTokenScopes.filter(scope => token.scopes.includes(scope)).map((scope: ApiTokenScope) => (
+                  <Badge key={scope} variant="secondary">{apiTokenScopeLabels[scope]}</Badge>
+                ))}
+              </TableCell>
+              <TableCell className="text-sm">{token.lastUsedAt ? formatDate(token.lastUsedAt) : "Never"}</TableCell>
+              <TableCell className="text-sm">{token.expiresAt ? formatDate(token.expiresAt) : "Never"}</TableCell>
+              <TableCell>
+                <Badge variant={status.active ? "outline" : "secondary"}>{status.label}</Badge>
+              </TableCell>
+              <TableCell className="text-right">
+                {status.active && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => handleRevoke(token)}
+                    disabled={revokeMutation.isPending}
+                    data-testid={`button-revoke-api-token-${token.id}`}
+                  >
+                    Revoke
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
+
+interface ApiTokenSecretDialogProps {
+  secret: string | null;
+  onClose: () => void;
+}
+
+// Token secrets are only ever shown once
+export function ApiTokenSecretDialog({ secret, onClose }: ApiTokenSecretDialogProps) {
+  return (
+    <Dialog open={!!secret} onOpenChange={onClose}>
+      <DialogContent className="max-w-md" data-testid="api-token-secret-dialog">
+        <DialogHeader>
+          <DialogTitle>API Token Created</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">
+          Copy this token now; it will not be shown again. Send it as{" "}
+          <code>Authorization: Bearer &lt;token&gt;</code> with each request to the API.
+        </p>
+        <code className="block p-3 bg-muted rounded text-sm break-all" data-testid="text-api-token-secret">
+          {secret}
+        </code>
+        <div className="flex justify-end space-x-3 pt-4 border-t border-border">
+          <Button
+            variant="outline"
+            onClick={() => navigator.clipboard?.writeText(secret || "")}
+            data-testid="button-copy-api-token"
+          >
+            Copy
+          </Button>
+          <Button onClick={onClose} data-testid="button-close-api-token">
+            Done
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,52 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CreateApiTokenModal } from "@/components/modals/create-api-token-modal";
+import { ApiTokenSecretDialog, ApiTokenTable } from "@/components/api-tokens/api-token-table";
+import type { ApiTokenWithUser } from "@shared/schema";
+
+export function PersonalApiTokens() {
+  const queryClient = useQueryClient();
+
+  const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [secret, setSecret] = useState<string | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery<ApiTokenWithUser[]>({
+    queryKey: ["/api/api-tokens"],
+  });
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Personal Tokens</CardTitle>
+          <Button onClick={() => setIsCreateModalOpen(true)} data-testid="button-new-api-token">
+            <i className="fas fa-key mr-2" />
+            New Token
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="animate-pulse h-32 bg-muted rounded" />
+          ) : (
+            <ApiTokenTable tokens={tokens} emptyMessage="You have no API tokens yet." />
+          )}
+        </CardContent>
+      </Card>
+
+      <CreateApiTokenModal
+        isOpen={isCreateModalOpen}
+        url="/api/api-tokens"
+        onClose={() => setIsCreateModalOpen(false)}
+        onCreated={(_token, newSecret) => {
+          queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/admin/api-tokens"] });
+          setSecret(newSecret);
+        }}
+      />
+
+      <ApiTokenSecretDialog secret={secret} onClose={() => setSecret(null)} />
+    </>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CreateApiTokenModal } from "@/components/modals/create-api-token-modal";
+import { ApiTokenSecretDialog, ApiTokenTable } from "@/components/api-tokens/api-token-table";
+import { isUserRole, userRoleLabels, userRoles } from "@shared/permissions";
+import type { ApiTokenWithUser, PublicUser } from "@shared/schema";
+
+// Service accounts are managed here rather than on the Users page because
+// they only exist to hold API tokens
+export function ServiceAccountAdmin() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [name, setName] = useState("");
+  const [role, setRole] = useState("poc");
+  const [tokenAccount, setTokenAccount] = useState<PublicUser | null>(null);
+  const [secret, setSecret] = useState<string | null>(null);
+
+  const { data: accounts = [], isLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/admin/service-accounts"],
+  });
+
+  const { data: tokens = [], isLoading: isLoadingTokens } = useQuery<ApiTokenWithUser[]>({
+    queryKey: ["/api/admin/api-tokens"],
+  });
+
+  const createAccountMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/service-accounts", { name, role });
+      return await res.json() as PublicUser;
+    },
+    onSuccess: (account) => {
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/service-accounts"] });
+      queryClient.invalidateQueries({
+        predicate: query => String(query.queryKey[0]).startsWith("/api/admin/users"),
+      });
+      toast({ title: "Service Account Created", description: `Create a token for ${account.firstName} to start using it.` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create service account",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreateAccount = (e: React.FormEvent) => {
+    e.preventDefault();
+    createAccountMutation.mutate();
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Service Accounts</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Pipelines that use a service account's token are recorded under the service account, not the person who
+            set them up. Deactivate or change a service account's role on the Users page.
+          </p>
+
+          <form onSubmit={handleCreateAccount} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input
+              placeholder="Name, e.g. Deploy Pipeline"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              data-testid="input-service-account-name"
+            />
+            <Select value={role} onValueChange={setRole}>
+              <SelectTrigger data-testid="select-service-account-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {userRoles.map(value => (
+                  <SelectItem key={value} value={value}>{userRoleLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="submit"
+              disabled={createAccountMutation.isPending || !name.trim()}
+              data-testid="button-create-service-account"
+            >
+              {createAccountMutation.isPending ? "Creating..." : "Create Service Account"}
+            </Button>
+          </form>
+
+          {isLoading ? (
+            <div className="animate-pulse h-32 bg-muted rounded" />
+          ) : accounts.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No service accounts yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {accounts.map(account => (
+                  <TableRow key={account.id} data-testid={`service-account-row-${account.id}`}>
+                    <TableCell className="font-medium">{account.firstName || account.email}</TableCell>
+                    <TableCell>{isUserRole(account.role) ? userRoleLabels[account.role] : account.role}</TableCell>
+                    <TableCell>
+                      <Badge variant={account.isActive ? "outline" : "secondary"}>
+                        {account.isActive ? "Active" : "Deactivated"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setTokenAccount(account)}
+                        disabled={!account.isActive}
+                        data-testid={`button-new-service-account-token-${account.id}`}
+                      >
+                        New Token
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All API Tokens</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoadingTokens ? (
+            <div className="animate-pulse h-32 bg-muted rounded" />
+          ) : (
+            <ApiTokenTable tokens={tokens} showOwner emptyMessage="Nobody has created an API token yet." />
+          )}
+        </CardContent>
+      </Card>
+
+      <CreateApiTokenModal
+        isOpen={!!tokenAccount}
+        url={`/api/admin/service-accounts/${tokenAccount?.id}/api-tokens`}
+        ownerName={tokenAccount?.firstName || undefined}
+        onClose={() => setTokenAccount(null)}
+        onCreated={(_token, newSecret) => {
+          queryClient.invalidateQueries({ queryKey: ["/api/admin/api-tokens"] });
+          setSecret(newSecret);
+        }}
+      />
+
+      <ApiTokenSecretDialog secret={secret} onClose={() => setSecret(null)} />
+    </>
+  );
+}
@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { AuditLogWithActor, ReleasePlan } from "@shared/schema";
+
+const PAGE_SIZE = 50;
+const ALL = "all";
+
+const entityTypeLabels: Record<string, string> = {
+  release_plan: "Release Plan",
+  release_step: "Step",
+  release_plan_template: "Template",
+  scheduled_job: "Scheduled Trigger",
+  global_setting: "Setting",
+  shareable_link: "Share Link",
+  user: "User",
+  team: "Team",
+  notification_preference: "Notification Preferences",
+  notification: "Notification",
+  notification_template: "Notification Template",
+  release_gate: "Release Gate",
+  step_checklist_item: "Checklist Item",
+  comment: "Comment",
+  api_token: "API Token",
+  webhook_subscription: "Webhook",
+  webhook_delivery: "Webhook Delivery",
+};
+
+const actionLabels: Record<string, string> = {
+  create: "Created",
+  create_from_template: "Created from template",
+  clone: "Cloned",
+  update: "Updated",
+  status_change: "Status changed",
+  delete: "Deleted",
+  trigger: "Triggered",
+  acknowledge: "Acknowledged",
+  vote: "Voted",
+  reopen: "Reopened",
+  check: "Checked off",
+  uncheck: "Unchecked",
+  reorder_checklist: "Checklist reordered",
+  resolve: "Resolved",
+  login: "Logged in",
+  login_failed: "Failed login",
+  logout: "Logged out",
+  register: "Registered",
+  invite: "Invited",
+  role_change: "Role changed",
+  deactivate: "Deactivated",
+  reactivate: "Reactivated",
+  reset_password: "Password reset",
+  resend: "Resent",
+  revoke: "Revoked",
+  rotate_secret: "Secret rotated",
+  redeliver: "Redelivered",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export function AuditLog() {
+  const [entityType, setEntityType] = useState(ALL);
+  const [action, setAction] = useState(ALL);
+  const [releasePlanId, setReleasePlanId] = useState(ALL);
+  const [page, setPage] = useState(0);
+
+  const { data: releasePlans = [] } = useQuery<ReleasePlan[]>({
+    queryKey: ["/api/release-plans"],
+  });
+
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(page * PAGE_SIZE) });
+  if (entityType !== ALL) params.set("entityType", entityType);
+  if (action !== ALL) params.set("action", action);
+  if (releasePlanId !== ALL) params.set("releasePlanId", releasePlanId);
+
+  const { data: entries = [], isLoading } = useQuery<AuditLogWithActor[]>({
+    queryKey: [`/api/audit?${params.toString()}`],
+  });
+
+  // Any filter change starts again from the newest entries
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const planNames = new Map<string, string>(releasePlans.map(plan => [plan.id, plan.name]));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Activity</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Filters */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="audit-entity-type">Entity</Label>
+            <Select value={entityType} onValueChange={updateFilter(setEntityType)}>
+              <SelectTrigger id="audit-entity-type" data-testid="select-audit-entity-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All entities</SelectItem>
+                {Object.entries(entityTypeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-action">Action</Label>
+            <Select value={action} onValueChange={updateFilter(setAction)}>
+              <SelectTrigger id="audit-action" data-testid="select-audit-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All actions</SelectItem>
+                {Object.entries(actionLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-release-plan">Release Plan</Label>
+            <Select value={releasePlanId} onValueChange={updateFilter(setReleasePlanId)}>
+              <SelectTrigger id="audit-release-plan" data-testid="select-audit-release-plan">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All release plans</SelectItem>
+                {releasePlans.map(plan => (
+                  <SelectItem key={plan.id} value={plan.id}>{plan.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Entries */}
+        {isLoading ? (
+          <div className="animate-pulse h-64 bg-muted rounded" />
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No activity matches these filters.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-44">Time</TableHead>
+                <TableHead>Actor</TableHead>
+                <TableHead>Entity</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Changes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => {
+                const changes = Object.entries(entry.changes || {});
+                return (
+                  <TableRow key={entry.id} data-testid={`audit-entry-${entry.id}`}>
+                    <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                      {entry.createdAt ? new Date(entry.createdAt).toLocaleString() : "—"}
+                      {entry.ipAddress && <div>{entry.ipAddress}</div>}
+                    </TableCell>
+                    <TableCell>{entry.actorName || "System"}</TableCell>
+                    <TableCell>
+                      <div>{entityTypeLabels[entry.entityType] || entry.entityType}</div>
+                      {entry.releasePlanId && (
+                        <div className="text-xs text-muted-foreground">
+                          {planNames.get(entry.releasePlanId) || "Deleted release plan"}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{actionLabels[entry.action] || entry.action}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {changes.length === 0 ? (
+                        <span className="text-muted-foreground">—</span>
+                      ) : (
+                        <ul className="space-y-1 text-xs">
+                          {changes.map(([field, change]) => (
+                            <li key={field} className="break-all">
+                              <span className="font-medium">{field}:</span>{" "}
+                              <span className="text-muted-foreground line-through">{formatValue(change.before)}</span>
+                              {" → "}
+                              <span>{formatValue(change.after)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {/* Paging */}
+        <div className="flex justify-end space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page - 1)}
+            disabled={page === 0}
+            data-testid="button-audit-newer"
+          >
+            Newer
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page + 1)}
+            disabled={entries.length < PAGE_SIZE}
+            data-testid="button-audit-older"
+          >
+            Older
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,314 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
+import { apiRequest } from "@/lib/queryClient";
+import { renderMarkdown } from "@/lib/markdown";
+import { formatMention } from "@shared/comments";
+import type { CommentRevision, CommentWithAuthor, User } from "@shared/schema";
+
+interface CommentThreadProps {
+  releasePlanId: string;
+  // Without a step this is the plan's own thread
+  stepId?: string | null;
+}
+
+interface CommentComposerProps {
+  initialBody?: string;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (body: string) => void;
+  onCancel?: () => void;
+}
+
+function CommentComposer({ initialBody = "", submitLabel, isPending, onSubmit, onCancel }: CommentComposerProps) {
+  const [body, setBody] = useState(initialBody);
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const insertMention = (userId: string) => {
+    const user = users.find(u => u.id === userId);
+    if (!user) return;
+    setBody(prev => `${prev}${prev && !/\s$/.test(prev) ? " " : ""}${formatMention(user)} `);
+  };
+
+  const handleSubmit = () => {
+    onSubmit(body.trim());
+    if (!initialBody) setBody("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder="Write a comment. Markdown is supported."
+        rows={3}
+        data-testid="textarea-comment"
+      />
+      <div className="flex items-center justify-between gap-2">
+        <Select value="" onValueChange={insertMention}>
+          <SelectTrigger className="w-44 h-8 text-xs" data-testid="select-mention">
+            <SelectValue placeholder="@ Mention someone" />
+          </SelectTrigger>
+          <SelectContent>
+            {users.filter(user => user.isActive).map(user => (
+              <SelectItem key={user.id} value={user.id}>
+                {user.firstName} {user.lastName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button type="button" variant="outline" size="sm" onClick={onCancel} data-testid="button-cancel-comment">
+              Cancel
+            </Button>
+          )}
+          <Button
+            type="button"
+            size="sm"
+            onClick={handleSubmit}
+            disabled={isPending || !body.trim()}
+            data-testid="button-submit-comment"
+          >
+            {isPending ? "Saving..." : submitLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CommentRevisions({ commentId }: { commentId: string }) {
+  const { data: revisions = [], isLoading } = useQuery<CommentRevision[]>({
+    queryKey: ["/api/comments", commentId, "revisions"],
+  });
+
+  if (isLoading) return <p className="text-xs text-muted-foreground">Loading history...</p>;
+
+  return (
+    <div className="space-y-2 border-l-2 border-dashed border-border pl-3" data-testid={`comment-revisions-${commentId}`}>
+      {revisions.map(revision => (
+        <div key={revision.id} className="text-xs text-muted-foreground">
+          <p className="font-medium">
+            Before {revision.createdAt ? new Date(revision.createdAt).toLocaleString() : "an edit"}
+          </p>
+          <div className="space-y-1">{renderMarkdown(revision.body)}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function CommentThread({ releasePlanId, stepId = null }: CommentThreadProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const canComment = can("comment.create");
+  const canModerate = can("comment.moderate");
+
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [historyOpen, setHistoryOpen] = useState<string | null>(null);
+
+  const queryKey = stepId ? ["/api/steps", stepId, "comments"] : ["/api/release-plans", releasePlanId, "comments"];
+  const postUrl = stepId ? `/api/steps/${stepId}/comments` : `/api/release-plans/${releasePlanId}/comments`;
+
+  const { data: comments = [] } = useQuery<CommentWithAuthor[]>({
+    queryKey,
+    enabled: !!releasePlanId,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const postMutation = useMutation({
+    mutationFn: async ({ body, parentId }: { body: string; parentId: string | null }) => {
+      return await apiRequest("POST", postUrl, { body, parentId });
+    },
+    onSuccess: () => {
+      setReplyingTo(null);
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError,
+  });
+
+  const editMutation = useMutation({
+    mutationFn: async ({ commentId, body }: { commentId: string; body: string }) => {
+      return await apiRequest("PATCH", `/api/comments/${commentId}`, { body });
+    },
+    onSuccess: (_data, { commentId }) => {
+      setEditing(null);
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/comments", commentId, "revisions"] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (commentId: string) => {
+      return await apiRequest("DELETE", `/api/comments/${commentId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError,
+  });
+
+  const handleDelete = (comment: CommentWithAuthor) => {
+    if (window.confirm("Delete this comment? Replies to it will stay.")) {
+      deleteMutation.mutate(comment.id);
+    }
+  };
+
+  const repliesByParent = new Map<string | null, CommentWithAuthor[]>();
+  for (const comment of comments) {
+    const parentId = comment.parentId ?? null;
+    repliesByParent.set(parentId, [...(repliesByParent.get(parentId) || []), comment]);
+  }
+
+  const renderComment = (comment: CommentWithAuthor): JSX.Element => {
+    const isDeleted = !!comment.deletedAt;
+    const isAuthor = comment.authorId === user?.id;
+    const replies = repliesByParent.get(comment.id) || [];
+
+    return (
+      <div key={comment.id} className="space-y-2" data-testid={`comment-${comment.id}`}>
+        <div className="rounded-md border border-border p-3">
+          <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground mb-1">
+            <span>
+              <span className="font-medium text-foreground">{comment.authorName || "Unknown user"}</span>
+              {comment.createdAt && ` · ${new Date(comment.createdAt).toLocaleString()}`}
+              {comment.revisionCount > 0 && (!isDeleted || canModerate) && (
+                <button
+                  type="button"
+                  className="ml-1 underline"
+                  onClick={() => setHistoryOpen(historyOpen === comment.id ? null : comment.id)}
+                  data-testid={`button-comment-history-${comment.id}`}
+                >
+                  {isDeleted ? "(history)" : "(edited)"}
+                </button>
+              )}
+            </span>
+            {!isDeleted && (
+              <span className="flex gap-1">
+                {canComment && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
+                    data-testid={`button-reply-comment-${comment.id}`}
+                  >
+                    Reply
+                  </Button>
+                )}
+                {isAuthor && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => setEditing(comment.id)}
+                    data-testid={`button-edit-comment-${comment.id}`}
+                  >
+                    Edit
+                  </Button>
+                )}
+                {(isAuthor || canModerate) && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => handleDelete(comment)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-comment-${comment.id}`}
+                  >
+                    Delete
+                  </Button>
+                )}
+              </span>
+            )}
+          </div>
+
+          {isDeleted ? (
+            <p className="text-sm italic text-muted-foreground">This comment was deleted.</p>
+          ) : editing === comment.id ? (
+            <CommentComposer
+              initialBody={comment.body}
+              submitLabel="Save"
+              isPending={editMutation.isPending}
+              onSubmit={(body) => editMutation.mutate({ commentId: comment.id, body })}
+              onCancel={() => setEditing(null)}
+            />
+          ) : (
+            <div className="space-y-2 text-sm text-foreground break-words">{renderMarkdown(comment.body)}</div>
+          )}
+
+          {historyOpen === comment.id && (
+            <div className="mt-2">
+              <CommentRevisions commentId={comment.id} />
+            </div>
+          )}
+        </div>
+
+        {replyingTo === comment.id && (
+          <div className="ml-6">
+            <CommentComposer
+              submitLabel="Reply"
+              isPending={postMutation.isPending}
+              onSubmit={(body) => postMutation.mutate({ body, parentId: comment.id })}
+              onCancel={() => setReplyingTo(null)}
+            />
+          </div>
+        )}
+
+        {replies.length > 0 && (
+          <div className="ml-6 space-y-2 border-l border-border pl-3">
+            {replies.map(renderComment)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const topLevel = repliesByParent.get(null) || [];
+
+  return (
+    <div className="space-y-3" data-testid="comment-thread">
+      <h4 className="font-medium text-foreground">
+        Comments
+        {comments.length > 0 && <span className="ml-2 text-sm text-muted-foreground">({comments.length})</span>}
+      </h4>
+
+      {topLevel.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No comments yet.</p>
+      ) : (
+        <div className="space-y-3">{topLevel.map(renderComment)}</div>
+      )}
+
+      {canComment && replyingTo === null && (
+        <CommentComposer
+          submitLabel="Comment"
+          isPending={postMutation.isPending}
+          onSubmit={(body) => postMutation.mutate({ body, parentId: null })}
+        />
+      )}
+    </div>
+  );
+}
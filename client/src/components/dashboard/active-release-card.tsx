@@ -1,21 +1,35 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { StatusBadge } from "@/components/ui/status-badge";
 import { Progress } from "@/components/ui/progress";
-import type { ReleasePlan, ReleaseStep } from "@shared/schema";
+import type { ReleasePlan, ReleaseStep, Team } from "@shared/schema";
+import { isStepFinished, isStepHalted } from "@shared/stepStatus";
 
 interface ActiveReleaseCardProps {
   releasePlan: ReleasePlan;
   steps: ReleaseStep[];
+  teams: Team[];
 }
 
-export function ActiveReleaseCard({ releasePlan, steps }: ActiveReleaseCardProps) {
+export function ActiveReleaseCard({ releasePlan, steps, teams }: ActiveReleaseCardProps) {
   const totalSteps = steps.length;
-  const completedSteps = steps.filter(step => step.status === "completed").length;
+  const completedSteps = steps.filter(step => isStepFinished(step.status)).length;
   const inProgressSteps = steps.filter(step => step.status === "in_progress" || step.status === "started").length;
+  const haltedSteps = steps.filter(step => isStepHalted(step.status));
   const remainingSteps = totalSteps - completedSteps - inProgressSteps;
   
   const progressPercent = totalSteps > 0 ? Math.round((completedSteps / totalSteps) * 100) : 0;
 
+  // Per-team breakdown; steps without an owning team are grouped last
+  const teamProgress = [
+    ...teams.map(team => ({ id: team.id, name: team.name, steps: steps.filter(step => step.teamId === team.id) })),
+    { id: "none", name: "No Team", steps: steps.filter(step => !step.teamId || !teams.some(team => team.id === step.teamId)) },
+  ]
+    .filter(group => group.steps.length > 0)
+    .map(group => ({
+      ...group,
+      completed: group.steps.filter(step => isStepFinished(step.status)).length,
+    }));
+
   const formatDateTime = (date: Date | string | null) => {
     if (!date) return "Not scheduled";
     return new Date(date).toLocaleString();
@@ -58,6 +72,14 @@ export function ActiveReleaseCard({ releasePlan, steps }: ActiveReleaseCardProps
           </div>
         </div>
 
+        {haltedSteps.length > 0 && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-800" data-testid="halted-steps-alert">
+            <i className="fas fa-exclamation-triangle mr-2" />
+            {haltedSteps.length} step{haltedSteps.length === 1 ? " is" : "s are"} failed or blocked:{" "}
+            {haltedSteps.map(step => step.name).join(", ")}
+          </div>
+        )}
+
         {/* Progress Bar */}
         <div className="space-y-2">
           <Progress value={progressPercent} className="h-3" data-testid="release-progress" />
@@ -69,6 +91,24 @@ export function ActiveReleaseCard({ releasePlan, steps }: ActiveReleaseCardProps
           </div>
         </div>
 
+        {/* Team Progress - only useful once steps have owners */}
+        {teamProgress.length > 0 && teamProgress.some(group => group.id !== "none") && (
+          <div className="mt-4 pt-4 border-t border-border space-y-3" data-testid="team-progress">
+            <h4 className="text-sm font-medium text-foreground">Progress by Team</h4>
+            {teamProgress.map(group => (
+              <div key={group.id} className="space-y-1" data-testid={`team-progress-${group.id}`}>
+                <div className="flex justify-between text-sm">
+                  <span className="text-foreground">{group.name}</span>
+                  <span className="text-muted-foreground">
+                    {group.completed}/{group.steps.length} complete
+                  </span>
+                </div>
+                <Progress value={Math.round((group.completed / group.steps.length) * 100)} className="h-2" />
+              </div>
+            ))}
+          </div>
+        )}
+
         {releasePlan.description && (
           <div className="mt-4 pt-4 border-t border-border">
             <p className="text-sm text-muted-foreground" data-testid="release-description">
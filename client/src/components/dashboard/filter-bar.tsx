@@ -1,5 +1,6 @@
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Team } from "@shared/schema";
 
 interface FilterBarProps {
   filters: {
@@ -8,10 +9,11 @@ interface FilterBarProps {
     team: string;
     search: string;
   };
+  teams: Team[];
   onFilterChange: (key: string, value: string) => void;
 }
 
-export function FilterBar({ filters, onFilterChange }: FilterBarProps) {
+export function FilterBar({ filters, teams, onFilterChange }: FilterBarProps) {
   return (
     <div className="mb-6">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-4 sm:space-y-0">
@@ -44,6 +46,9 @@ export function FilterBar({ filters, onFilterChange }: FilterBarProps) {
               <SelectItem value="started">Started</SelectItem>
               <SelectItem value="in_progress">In Progress</SelectItem>
               <SelectItem value="completed">Completed</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+              <SelectItem value="blocked">Blocked</SelectItem>
+              <SelectItem value="skipped">Skipped</SelectItem>
             </SelectContent>
           </Select>
           
@@ -56,10 +61,10 @@ export function FilterBar({ filters, onFilterChange }: FilterBarProps) {
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Teams</SelectItem>
-              <SelectItem value="frontend">Frontend Team</SelectItem>
-              <SelectItem value="backend">Backend Team</SelectItem>
-              <SelectItem value="qa">QA Team</SelectItem>
-              <SelectItem value="devops">DevOps Team</SelectItem>
+              {teams.map(team => (
+                <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+              ))}
+              <SelectItem value="none">No Team</SelectItem>
             </SelectContent>
           </Select>
         </div>
@@ -0,0 +1,339 @@
+import { useEffect, useMemo, useState } from "react";
+import { useWebSocketMessages } from "@/hooks/useWebSocket";
+import type { ReleasePlan, ReleaseStep, StepDependency } from "@shared/schema";
+import { getEffectiveTriggerTime } from "@shared/stepScheduling";
+import { getPredecessorIds } from "@shared/stepDependencies";
+
+interface GanttChartProps {
+  steps: ReleaseStep[];
+  dependencies?: StepDependency[];
+  releasePlan?: ReleasePlan | null;
+}
+
+interface GanttBar {
+  start: number;
+  end: number;
+  estimated: boolean;
+}
+
+const LABEL_WIDTH = 200;
+const CHART_WIDTH = 900;
+const ROW_HEIGHT = 32;
+const GROUP_HEIGHT = 28;
+const AXIS_HEIGHT = 28;
+const BAR_HEIGHT = 16;
+const DEFAULT_EXPECTED_DURATION_MS = 30 * 60 * 1000;
+
+const categories = [
+  { key: "before_release", label: "Before Release" },
+  { key: "actual_release", label: "Actual Release" },
+  { key: "post_release", label: "Post Release" },
+];
+
+const barColors: Record<string, string> = {
+  not_started: "#9ca3af",
+  started: "#3b82f6",
+  in_progress: "#f59e0b",
+  completed: "#10b981",
+  failed: "#ef4444",
+  blocked: "#a855f7",
+  skipped: "#94a3b8",
+};
+
+const toTime = (date: Date | string | null) => (date ? new Date(date).getTime() : null);
+
+// Finish-to-start links, including a relative step's anchor step
+function getLinkedPredecessorIds(step: ReleaseStep, dependencies: StepDependency[]) {
+  const ids = getPredecessorIds(step, dependencies);
+  if (step.schedulingType === "relative" && step.relativeToStepId && !ids.includes(step.relativeToStepId)) {
+    ids.push(step.relativeToStepId);
+  }
+  return ids;
+}
+
+// Works out a bar for every step. Steps that have not started are placed after
+// their predecessors (or alongside their simultaneous step) and never before now.
+function computeBars(
+  steps: ReleaseStep[],
+  dependencies: StepDependency[],
+  releasePlan: ReleasePlan | null | undefined,
+  now: number,
+) {
+  const stepsById = new Map(steps.map(step => [step.id, step]));
+  const bars = new Map<string, GanttBar>();
+  const resolving = new Set<string>();
+
+  const resolve = (step: ReleaseStep): GanttBar => {
+    const cached = bars.get(step.id);
+    if (cached) return cached;
+    if (resolving.has(step.id)) {
+      return { start: now, end: now + DEFAULT_EXPECTED_DURATION_MS, estimated: true };
+    }
+    resolving.add(step.id);
+
+    const startedAt = toTime(step.startedAt);
+    const scheduledTime = toTime(getEffectiveTriggerTime(step, releasePlan, steps));
+    const relativeAnchor = step.schedulingType === "relative" && step.relativeToStepId
+      ? stepsById.get(step.relativeToStepId)
+      : undefined;
+    let start: number;
+
+    if (startedAt !== null) {
+      start = startedAt;
+    } else if (scheduledTime !== null) {
+      start = scheduledTime;
+    } else if (relativeAnchor) {
+      // The anchor has not finished yet, so offset from its projected end
+      start = Math.max(resolve(relativeAnchor).end + (step.relativeOffsetMinutes ?? 0) * 60 * 1000, now);
+    } else {
+      const simultaneousStep = step.simultaneousWithStepId ? stepsById.get(step.simultaneousWithStepId) : undefined;
+      const predecessorEnds = getLinkedPredecessorIds(step, dependencies)
+        .map(id => stepsById.get(id))
+        .filter((predecessor): predecessor is ReleaseStep => !!predecessor)
+        .map(predecessor => resolve(predecessor).end);
+
+      if (step.schedulingType === "simultaneous" && simultaneousStep) {
+        start = Math.max(resolve(simultaneousStep).start, now);
+      } else if (predecessorEnds.length > 0) {
+        start = Math.max(...predecessorEnds, now);
+      } else {
+        start = now;
+      }
+    }
+
+    const completedAt = toTime(step.completedAt);
+    let end: number;
+    if (completedAt !== null) {
+      end = completedAt;
+    } else if (startedAt !== null) {
+      end = Math.max(start + DEFAULT_EXPECTED_DURATION_MS, now);
+    } else {
+      end = start + DEFAULT_EXPECTED_DURATION_MS;
+    }
+
+    const bar = { start, end: Math.max(end, start), estimated: startedAt === null };
+    resolving.delete(step.id);
+    bars.set(step.id, bar);
+    return bar;
+  };
+
+  steps.forEach(resolve);
+  return bars;
+}
+
+export function GanttChart({ steps, dependencies = [], releasePlan }: GanttChartProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Move the "now" line whenever the server pushes an update, with a
+  // once-a-minute tick so it keeps moving during quiet periods
+  useWebSocketMessages(() => setNow(Date.now()));
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const bars = useMemo(
+    () => computeBars(steps, dependencies, releasePlan, now),
+    [steps, dependencies, releasePlan, now],
+  );
+
+  // Lay out rows grouped by category
+  const groups = categories
+    .map(category => ({
+      ...category,
+      steps: steps
+        .filter(step => step.category === category.key)
+        .sort((a, b) => a.order - b.order),
+    }))
+    .filter(group => group.steps.length > 0);
+
+  const rowPositions = new Map<string, number>();
+  let y = AXIS_HEIGHT;
+  const groupPositions = groups.map(group => {
+    const groupY = y;
+    y += GROUP_HEIGHT;
+    group.steps.forEach(step => {
+      rowPositions.set(step.id, y);
+      y += ROW_HEIGHT;
+    });
+    return { ...group, y: groupY };
+  });
+  const chartHeight = y;
+
+  // Time scale
+  const barValues = Array.from(bars.values());
+  let rangeStart = Math.min(now, ...barValues.map(bar => bar.start));
+  let rangeEnd = Math.max(now, ...barValues.map(bar => bar.end));
+  if (rangeEnd - rangeStart < 60 * 60 * 1000) {
+    rangeEnd = rangeStart + 60 * 60 * 1000;
+  }
+  const padding = (rangeEnd - rangeStart) * 0.05;
+  rangeStart -= padding;
+  rangeEnd += padding;
+
+  const xFor = (time: number) => ((time - rangeStart) / (rangeEnd - rangeStart)) * CHART_WIDTH;
+  const ticks = Array.from({ length: 6 }, (_, i) => rangeStart + ((rangeEnd - rangeStart) * i) / 5);
+  const spansDays = new Date(rangeStart).toDateString() !== new Date(rangeEnd).toDateString();
+
+  const formatTick = (time: number) => {
+    const date = new Date(time);
+    return spansDays
+      ? date.toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })
+      : date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  };
+
+  // Dependency arrows: finish-to-start for "after" links, start-to-start for "simultaneous"
+  const links: Array<{ key: string; path: string; dashed: boolean }> = [];
+  steps.forEach(step => {
+    const bar = bars.get(step.id);
+    const rowY = rowPositions.get(step.id);
+    if (!bar || rowY === undefined) return;
+    const toY = rowY + ROW_HEIGHT / 2;
+
+    getLinkedPredecessorIds(step, dependencies).forEach(predecessorId => {
+      const fromBar = bars.get(predecessorId);
+      const fromRowY = rowPositions.get(predecessorId);
+      if (!fromBar || fromRowY === undefined) return;
+      const fromX = xFor(fromBar.end);
+      const fromY = fromRowY + ROW_HEIGHT / 2;
+      const elbowX = fromX + 8;
+      links.push({
+        key: `${predecessorId}-${step.id}`,
+        path: `M ${fromX} ${fromY} H ${elbowX} V ${toY} H ${xFor(bar.start)}`,
+        dashed: false,
+      });
+    });
+
+    if (step.simultaneousWithStepId) {
+      const fromBar = bars.get(step.simultaneousWithStepId);
+      const fromRowY = rowPositions.get(step.simultaneousWithStepId);
+      if (!fromBar || fromRowY === undefined) return;
+      const fromX = xFor(fromBar.start);
+      const elbowX = Math.min(fromX, xFor(bar.start)) - 8;
+      links.push({
+        key: `${step.simultaneousWithStepId}-${step.id}-simultaneous`,
+        path: `M ${fromX} ${fromRowY + ROW_HEIGHT / 2} H ${elbowX} V ${toY} H ${xFor(bar.start)}`,
+        dashed: true,
+      });
+    }
+  });
+
+  const nowX = xFor(now);
+
+  return (
+    <div className="overflow-x-auto" data-testid="gantt-chart">
+      <div className="flex" style={{ width: LABEL_WIDTH + CHART_WIDTH }}>
+        {/* Row labels */}
+        <div className="shrink-0" style={{ width: LABEL_WIDTH, paddingTop: AXIS_HEIGHT }}>
+          {groupPositions.map(group => (
+            <div key={group.key}>
+              <div
+                className="flex items-center text-xs font-semibold uppercase text-muted-foreground"
+                style={{ height: GROUP_HEIGHT }}
+                data-testid={`gantt-group-${group.key}`}
+              >
+                {group.label}
+              </div>
+              {group.steps.map(step => (
+                <div
+                  key={step.id}
+                  className="flex items-center pr-2 text-sm text-foreground truncate"
+                  style={{ height: ROW_HEIGHT }}
+                  title={step.name}
+                  data-testid={`gantt-label-${step.id}`}
+                >
+                  <span className="truncate">{step.name}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        {/* Chart */}
+        <svg width={CHART_WIDTH} height={chartHeight} className="shrink-0">
+          <defs>
+            <marker id="gantt-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#64748b" />
+            </marker>
+          </defs>
+
+          {/* Axis and grid */}
+          {ticks.map(tick => (
+            <g key={tick}>
+              <line x1={xFor(tick)} x2={xFor(tick)} y1={AXIS_HEIGHT} y2={chartHeight} stroke="#e2e8f0" />
+              <text x={xFor(tick)} y={AXIS_HEIGHT - 10} textAnchor="middle" className="fill-muted-foreground" fontSize={11}>
+                {formatTick(tick)}
+              </text>
+            </g>
+          ))}
+
+          {/* Category bands */}
+          {groupPositions.map(group => (
+            <rect
+              key={group.key}
+              x={0}
+              y={group.y}
+              width={CHART_WIDTH}
+              height={GROUP_HEIGHT}
+              fill="#f1f5f9"
+              opacity={0.6}
+            />
+          ))}
+
+          {/* Bars */}
+          {steps.map(step => {
+            const bar = bars.get(step.id);
+            const rowY = rowPositions.get(step.id);
+            if (!bar || rowY === undefined) return null;
+            const x = xFor(bar.start);
+            const width = Math.max(xFor(bar.end) - x, 3);
+            return (
+              <rect
+                key={step.id}
+                x={x}
+                y={rowY + (ROW_HEIGHT - BAR_HEIGHT) / 2}
+                width={width}
+                height={BAR_HEIGHT}
+                rx={3}
+                fill={barColors[step.status] || barColors.not_started}
+                fillOpacity={bar.estimated ? 0.45 : 0.9}
+                stroke={bar.estimated ? barColors[step.status] || barColors.not_started : "none"}
+                strokeDasharray={bar.estimated ? "4 2" : undefined}
+                data-testid={`gantt-bar-${step.id}`}
+              >
+                <title>
+                  {`${step.name}\n${new Date(bar.start).toLocaleString()} – ${new Date(bar.end).toLocaleString()}${bar.estimated ? " (estimated)" : ""}`}
+                </title>
+              </rect>
+            );
+          })}
+
+          {/* Dependency arrows */}
+          {links.map(link => (
+            <path
+              key={link.key}
+              d={link.path}
+              fill="none"
+              stroke="#64748b"
+              strokeWidth={1.25}
+              strokeDasharray={link.dashed ? "3 3" : undefined}
+              markerEnd="url(#gantt-arrow)"
+            />
+          ))}
+
+          {/* Now line */}
+          <line x1={nowX} x2={nowX} y1={AXIS_HEIGHT - 4} y2={chartHeight} stroke="#ef4444" strokeWidth={1.5} data-testid="gantt-now-line" />
+          <text x={nowX + 4} y={AXIS_HEIGHT - 2} fontSize={10} fill="#ef4444">Now</text>
+        </svg>
+      </div>
+
+      <div className="flex flex-wrap gap-4 mt-4 text-xs text-muted-foreground">
+        <span className="flex items-center"><span className="inline-block w-3 h-3 rounded-sm mr-1" style={{ background: barColors.completed }} />Completed</span>
+        <span className="flex items-center"><span className="inline-block w-3 h-3 rounded-sm mr-1" style={{ background: barColors.started }} />Started</span>
+        <span className="flex items-center"><span className="inline-block w-3 h-3 rounded-sm mr-1" style={{ background: barColors.in_progress }} />In Progress</span>
+        <span className="flex items-center"><span className="inline-block w-3 h-3 rounded-sm mr-1 border border-dashed" style={{ background: barColors.not_started, opacity: 0.45 }} />Estimated</span>
+        <span className="flex items-center"><span className="inline-block w-4 border-t border-dashed border-slate-500 mr-1" />Simultaneous</span>
+      </div>
+    </div>
+  );
+}
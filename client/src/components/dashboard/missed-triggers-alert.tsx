@@ -0,0 +1,96 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useRealtimeTopics } from "@/hooks/useWebSocket";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { missedTriggersQueryKey, type MissedTrigger } from "@/lib/realtimeCache";
+
+// Triggers that came due while the scheduler was down and the catch-up policy
+// is "ask". Only release managers can see and resolve them.
+export function MissedTriggersAlert() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: missedTriggers = [] } = useQuery<MissedTrigger[]>({
+    queryKey: missedTriggersQueryKey,
+  });
+
+  useRealtimeTopics(["scheduler"]);
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ jobId, action }: { jobId: string; action: "fire" | "skip" }) => {
+      return await apiRequest("POST", `/api/scheduled-jobs/${jobId}/resolve`, { action });
+    },
+    onSuccess: (_res, { action }) => {
+      queryClient.invalidateQueries({ queryKey: missedTriggersQueryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/release-plans"] });
+      toast({
+        title: action === "fire" ? "Step Triggered" : "Trigger Skipped",
+        description: action === "fire"
+          ? "The missed trigger has been fired."
+          : "The step will wait for a manual trigger.",
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: missedTriggersQueryKey });
+      toast({
+        title: "Error",
+        description: error.message || "Failed to resolve missed trigger",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (missedTriggers.length === 0) return null;
+
+  return (
+    <Card className="mb-8 border-orange-300 bg-orange-50" data-testid="missed-triggers-alert">
+      <CardContent className="p-4">
+        <h3 className="font-semibold text-orange-900 mb-2">
+          <i className="fas fa-history mr-2" />
+          Missed Triggers
+        </h3>
+        <p className="text-sm text-orange-800 mb-3">
+          These steps were due while the scheduler was not running. Fire them now or leave them for a manual trigger.
+        </p>
+        <div className="space-y-2">
+          {missedTriggers.map(job => (
+            <div
+              key={job.id}
+              className="flex items-center justify-between bg-white border border-orange-200 rounded px-3 py-2"
+              data-testid={`missed-trigger-${job.id}`}
+            >
+              <div className="text-sm">
+                <span className="font-medium text-foreground">{job.step?.name || "Deleted step"}</span>
+                <span className="text-muted-foreground ml-2">
+                  was due {new Date(job.nextFireAt).toLocaleString()}
+                </span>
+              </div>
+              <div className="flex space-x-2">
+                <Button
+                  size="sm"
+                  onClick={() => resolveMutation.mutate({ jobId: job.id, action: "fire" })}
+                  disabled={resolveMutation.isPending}
+                  data-testid={`button-fire-missed-${job.id}`}
+                >
+                  <i className="fas fa-play mr-1" />
+                  Fire Now
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => resolveMutation.mutate({ jobId: job.id, action: "skip" })}
+                  disabled={resolveMutation.isPending}
+                  data-testid={`button-skip-missed-${job.id}`}
+                >
+                  Skip
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
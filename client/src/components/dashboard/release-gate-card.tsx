@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  releaseGateStatusLabels,
+  releaseGateVoteLabels,
+  type ReleaseGateStatus,
+  type ReleaseGateVoteValue,
+} from "@shared/releaseGates";
+import type { ReleaseGateWithVotes, User } from "@shared/schema";
+
+interface ReleaseGateCardProps {
+  gate: ReleaseGateWithVotes;
+  users: User[];
+  onEdit?: (gate: ReleaseGateWithVotes) => void;
+}
+
+const statusVariants: Record<ReleaseGateStatus, "default" | "secondary" | "destructive"> = {
+  pending: "secondary",
+  approved: "default",
+  rejected: "destructive",
+};
+
+export function ReleaseGateCard({ gate, users, onEdit }: ReleaseGateCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const canManage = can("gate.manage");
+  const [comment, setComment] = useState("");
+
+  const status = gate.status as ReleaseGateStatus;
+  const myVote = gate.votes.find(vote => vote.userId === user?.id);
+  const canVote = !!user && gate.approverIds.includes(user.id) && status === "pending";
+  const goVotes = gate.votes.filter(vote => vote.vote === "go" && gate.approverIds.includes(vote.userId)).length;
+
+  const invalidateGates = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/release-plans", gate.releasePlanId, "gates"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const voteMutation = useMutation({
+    mutationFn: async (vote: ReleaseGateVoteValue) => {
+      return await apiRequest("POST", `/api/gates/${gate.id}/votes`, { vote, comment: comment.trim() || undefined });
+    },
+    onSuccess: () => {
+      setComment("");
+      invalidateGates();
+    },
+    onError,
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/gates/${gate.id}/reopen`);
+    },
+    onSuccess: invalidateGates,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("DELETE", `/api/gates/${gate.id}`);
+    },
+    onSuccess: invalidateGates,
+    onError,
+  });
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete the "${gate.name}" gate? Steps it holds back will be free to trigger.`)) {
+      deleteMutation.mutate();
+    }
+  };
+
+  const getUserName = (userId: string) => {
+    const approver = users.find(u => u.id === userId);
+    return approver ? `${approver.firstName} ${approver.lastName}` : "Unknown user";
+  };
+
+  return (
+    <Card className="mb-4 border-dashed" data-testid={`release-gate-${gate.id}`}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <h4 className="font-medium text-foreground text-sm flex items-center">
+              <i className="fas fa-flag-checkered mr-2 text-muted-foreground" />
+              {gate.name}
+            </h4>
+            <p className="text-xs text-muted-foreground mt-1">
+              {goVotes} of {gate.quorum} Go vote{gate.quorum === 1 ? "" : "s"} from {gate.approverIds.length} approver
+              {gate.approverIds.length === 1 ? "" : "s"}
+              {gate.decidedAt && ` · decided ${new Date(gate.decidedAt).toLocaleString()}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            <Badge variant={statusVariants[status]} data-testid={`gate-status-${gate.id}`}>
+              {releaseGateStatusLabels[status]}
+            </Badge>
+            {canManage && status !== "pending" && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => reopenMutation.mutate()}
+                disabled={reopenMutation.isPending}
+                data-testid={`button-reopen-gate-${gate.id}`}
+              >
+                Reopen
+              </Button>
+            )}
+            {canManage && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onEdit?.(gate)}
+                  title="Edit gate"
+                  data-testid={`button-edit-gate-${gate.id}`}
+                >
+                  <i className="fas fa-edit" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleDelete}
+                  disabled={deleteMutation.isPending}
+                  title="Delete gate"
+                  data-testid={`button-delete-gate-${gate.id}`}
+                >
+                  <i className="fas fa-trash" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+
+        <ul className="space-y-1 text-sm">
+          {gate.approverIds.map(approverId => {
+            const vote = gate.votes.find(v => v.userId === approverId);
+            return (
+              <li key={approverId} data-testid={`gate-approver-${gate.id}-${approverId}`}>
+                <span className="text-foreground">{getUserName(approverId)}</span>
+                <span className="text-muted-foreground">
+                  {" — "}
+                  {vote ? releaseGateVoteLabels[vote.vote as ReleaseGateVoteValue] : "No vote yet"}
+                </span>
+                {vote?.comment && (
+                  <p className="text-xs text-muted-foreground ml-4 whitespace-pre-wrap">"{vote.comment}"</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        {canVote && (
+          <div className="space-y-2 pt-2 border-t border-border">
+            <Textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder={myVote ? "Change your vote. A No-Go needs a reason." : "Comment (required for No-Go)"}
+              rows={2}
+              data-testid={`textarea-gate-comment-${gate.id}`}
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={() => voteMutation.mutate("no_go")}
+                disabled={voteMutation.isPending || !comment.trim()}
+                data-testid={`button-vote-no-go-${gate.id}`}
+              >
+                No-Go
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => voteMutation.mutate("go")}
+                disabled={voteMutation.isPending}
+                data-testid={`button-vote-go-${gate.id}`}
+              >
+                Go
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
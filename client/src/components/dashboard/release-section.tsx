@@ -1,6 +1,8 @@
 import { Button } from "@/components/ui/button";
 import { StepCard } from "@/components/ui/step-card";
-import type { ReleaseStep, User } from "@shared/schema";
+import { ReleaseGateCard } from "@/components/dashboard/release-gate-card";
+import { usePermissions } from "@/hooks/usePermissions";
+import type { ReleaseGateWithVotes, ReleasePlan, ReleaseStep, StepChecklistItem, User } from "@shared/schema";
 
 interface ReleaseSectionProps {
   title: string;
@@ -8,12 +10,19 @@ interface ReleaseSectionProps {
   iconColor: string;
   steps: ReleaseStep[];
   users: User[];
+  releasePlan?: ReleasePlan | null;
+  planSteps?: ReleaseStep[];
+  checklistItems?: StepChecklistItem[];
   currentStepId?: string;
+  // Gates that hold back this section's steps; sections without gates leave onAddGate unset
+  gates?: ReleaseGateWithVotes[];
+  onAddGate?: () => void;
+  onEditGate?: (gate: ReleaseGateWithVotes) => void;
   onAddStep?: () => void;
   onEditStep?: (step: ReleaseStep) => void;
   onTriggerStep?: (stepId: string) => void;
+  onAcknowledgeStep?: (stepId: string) => void;
   onViewStepDetails?: (step: ReleaseStep) => void;
-  userRole?: string;
 }
 
 export function ReleaseSection({
@@ -22,14 +31,22 @@ export function ReleaseSection({
   iconColor,
   steps,
   users,
+  releasePlan,
+  planSteps,
+  checklistItems = [],
   currentStepId,
+  gates = [],
+  onAddGate,
+  onEditGate,
   onAddStep,
   onEditStep,
   onTriggerStep,
+  onAcknowledgeStep,
   onViewStepDetails,
-  userRole,
 }: ReleaseSectionProps) {
-  const canAddSteps = userRole === "release_manager";
+  const { can } = usePermissions();
+  const canAddSteps = can("step.create");
+  const canAddGates = !!onAddGate && can("gate.manage");
 
   return (
     <div data-testid={`release-section-${title.toLowerCase().replace(/\s+/g, "-")}`}>
@@ -41,20 +58,38 @@ export function ReleaseSection({
             {steps.length} steps
           </span>
         </h3>
-        {canAddSteps && (
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={onAddStep}
-            className="text-sm text-primary hover:text-primary/80"
-            data-testid="button-add-step"
-          >
-            <i className="fas fa-plus mr-1" />
-            Add Step
-          </Button>
-        )}
+        <div className="flex items-center">
+          {canAddGates && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onAddGate}
+              className="text-sm text-primary hover:text-primary/80"
+              data-testid="button-add-gate"
+            >
+              <i className="fas fa-flag-checkered mr-1" />
+              Add Gate
+            </Button>
+          )}
+          {canAddSteps && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onAddStep}
+              className="text-sm text-primary hover:text-primary/80"
+              data-testid="button-add-step"
+            >
+              <i className="fas fa-plus mr-1" />
+              Add Step
+            </Button>
+          )}
+        </div>
       </div>
 
+      {gates.map((gate) => (
+        <ReleaseGateCard key={gate.id} gate={gate} users={users} onEdit={onEditGate} />
+      ))}
+
       {steps.length === 0 ? (
         <div className="text-center py-8 text-muted-foreground" data-testid="empty-steps">
           <i className="fas fa-clipboard-list text-4xl mb-4" />
@@ -78,11 +113,14 @@ export function ReleaseSection({
               key={step.id}
               step={step}
               users={users}
+              releasePlan={releasePlan}
+              planSteps={planSteps}
+              checklistItems={checklistItems.filter(item => item.stepId === step.id)}
               isHighlighted={step.id === currentStepId}
               onEdit={onEditStep}
               onTrigger={onTriggerStep}
+              onAcknowledge={onAcknowledgeStep}
               onViewDetails={onViewStepDetails}
-              userRole={userRole}
             />
           ))}
         </div>
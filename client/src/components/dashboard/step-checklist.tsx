@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { apiRequest } from "@/lib/queryClient";
+import { getChecklistProgress } from "@shared/stepChecklist";
+import type { ReleaseStep, StepChecklistItem, User } from "@shared/schema";
+
+interface StepChecklistProps {
+  step: ReleaseStep;
+  users: User[];
+}
+
+export function StepChecklist({ step, users }: StepChecklistProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canEdit = can("step.edit", step);
+  const canCheck = can("step.update_status", step);
+
+  const [newLabel, setNewLabel] = useState("");
+  const [newIsRequired, setNewIsRequired] = useState(true);
+
+  const { data: items = [] } = useQuery<StepChecklistItem[]>({
+    queryKey: ["/api/steps", step.id, "checklist"],
+  });
+  const progress = getChecklistProgress(items);
+
+  const invalidateChecklist = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/steps", step.id, "checklist"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/release-plans", step.releasePlanId, "checklist-items"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/steps/${step.id}/checklist`, {
+        label: newLabel.trim(),
+        isRequired: newIsRequired,
+      });
+    },
+    onSuccess: () => {
+      setNewLabel("");
+      invalidateChecklist();
+    },
+    onError,
+  });
+
+  const checkMutation = useMutation({
+    mutationFn: async ({ itemId, checked }: { itemId: string; checked: boolean }) => {
+      return await apiRequest("POST", `/api/checklist-items/${itemId}/check`, { checked });
+    },
+    onSuccess: invalidateChecklist,
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ itemId, isRequired }: { itemId: string; isRequired: boolean }) => {
+      return await apiRequest("PATCH", `/api/checklist-items/${itemId}`, { isRequired });
+    },
+    onSuccess: invalidateChecklist,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (itemId: string) => {
+      return await apiRequest("DELETE", `/api/checklist-items/${itemId}`);
+    },
+    onSuccess: invalidateChecklist,
+    onError,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (itemIds: string[]) => {
+      return await apiRequest("PUT", `/api/steps/${step.id}/checklist/order`, { itemIds });
+    },
+    onSuccess: invalidateChecklist,
+    onError,
+  });
+
+  const moveItem = (index: number, offset: number) => {
+    const itemIds = items.map(item => item.id);
+    const [moved] = itemIds.splice(index, 1);
+    itemIds.splice(index + offset, 0, moved);
+    reorderMutation.mutate(itemIds);
+  };
+
+  // The checklist sits inside the step form, so Enter must not submit it
+  const handleAddKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== "Enter") return;
+    e.preventDefault();
+    if (newLabel.trim()) addMutation.mutate();
+  };
+
+  const getUserName = (userId: string | null) => {
+    const user = users.find(u => u.id === userId);
+    return user ? `${user.firstName} ${user.lastName}` : "Unknown user";
+  };
+
+  return (
+    <div className="space-y-3" data-testid="step-checklist">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-foreground">Checklist</h4>
+        {items.length > 0 && (
+          <span className="text-sm text-muted-foreground" data-testid="checklist-progress">
+            {progress.completed}/{progress.total} done
+            {progress.openRequired > 0 && ` · ${progress.openRequired} required open`}
+          </span>
+        )}
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No checklist items for this step.</p>
+      ) : (
+        <ul className="space-y-2">
+          {items.map((item, index) => (
+            <li key={item.id} className="flex items-start gap-2" data-testid={`checklist-item-${item.id}`}>
+              <Checkbox
+                id={`checklist-item-${item.id}`}
+                checked={!!item.completedAt}
+                disabled={!canCheck || checkMutation.isPending}
+                onCheckedChange={(checked) => checkMutation.mutate({ itemId: item.id, checked: !!checked })}
+                className="mt-0.5"
+                data-testid={`checkbox-checklist-item-${item.id}`}
+              />
+              <div className="flex-1 min-w-0">
+                <Label
+                  htmlFor={`checklist-item-${item.id}`}
+                  className={`text-sm font-normal ${item.completedAt ? "line-through text-muted-foreground" : ""}`}
+                >
+                  {item.label}
+                </Label>
+                {!item.isRequired && (
+                  <Badge variant="outline" className="ml-2 text-xs">Optional</Badge>
+                )}
+                {item.completedAt && (
+                  <p className="text-xs text-muted-foreground">
+                    {getUserName(item.completedBy)}, {new Date(item.completedAt).toLocaleString()}
+                  </p>
+                )}
+              </div>
+              {canEdit && (
+                <div className="flex items-center shrink-0">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => moveItem(index, -1)}
+                    disabled={index === 0 || reorderMutation.isPending}
+                    title="Move up"
+                    data-testid={`button-move-up-checklist-item-${item.id}`}
+                  >
+                    <i className="fas fa-arrow-up" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => moveItem(index, 1)}
+                    disabled={index === items.length - 1 || reorderMutation.isPending}
+                    title="Move down"
+                    data-testid={`button-move-down-checklist-item-${item.id}`}
+                  >
+                    <i className="fas fa-arrow-down" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateMutation.mutate({ itemId: item.id, isRequired: !item.isRequired })}
+                    disabled={updateMutation.isPending}
+                    title={item.isRequired ? "Make optional" : "Make required"}
+                    data-testid={`button-toggle-required-checklist-item-${item.id}`}
+                  >
+                    <i className={item.isRequired ? "fas fa-asterisk" : "far fa-circle"} />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(item.id)}
+                    disabled={deleteMutation.isPending}
+                    title="Remove item"
+                    data-testid={`button-delete-checklist-item-${item.id}`}
+                  >
+                    <i className="fas fa-trash" />
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canEdit && (
+        <div className="flex items-center gap-2">
+          <Input
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            onKeyDown={handleAddKeyDown}
+            placeholder="Add a checklist item"
+            data-testid="input-new-checklist-item"
+          />
+          <div className="flex items-center space-x-1 shrink-0">
+            <Checkbox
+              id="new-checklist-item-required"
+              checked={newIsRequired}
+              onCheckedChange={(checked) => setNewIsRequired(!!checked)}
+              data-testid="checkbox-new-checklist-item-required"
+            />
+            <Label htmlFor="new-checklist-item-required" className="text-sm font-normal">Required</Label>
+          </div>
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => addMutation.mutate()}
+            disabled={!newLabel.trim() || addMutation.isPending}
+            data-testid="button-add-checklist-item"
+          >
+            Add
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,18 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { StatusBadge } from "@/components/ui/status-badge";
+import { GanttChart } from "@/components/dashboard/gantt-chart";
 import { useState } from "react";
-import type { ReleaseStep } from "@shared/schema";
+import type { ReleasePlan, ReleaseStep, StepDependency } from "@shared/schema";
+import { getEffectiveTriggerTime } from "@shared/stepScheduling";
 
 interface TimelineViewProps {
   steps: ReleaseStep[];
+  dependencies?: StepDependency[];
+  releasePlan?: ReleasePlan | null;
 }
 
-export function TimelineView({ steps }: TimelineViewProps) {
+export function TimelineView({ steps, dependencies = [], releasePlan }: TimelineViewProps) {
   const [viewMode, setViewMode] = useState<"timeline" | "gantt">("timeline");
 
   // Sort steps by order and then by scheduled time
@@ -16,8 +20,10 @@ export function TimelineView({ steps }: TimelineViewProps) {
     if (a.order !== b.order) {
       return a.order - b.order;
     }
-    if (a.scheduledTime && b.scheduledTime) {
-      return new Date(a.scheduledTime).getTime() - new Date(b.scheduledTime).getTime();
+    const aTime = getEffectiveTriggerTime(a, releasePlan, steps);
+    const bTime = getEffectiveTriggerTime(b, releasePlan, steps);
+    if (aTime && bTime) {
+      return aTime.getTime() - bTime.getTime();
     }
     return 0;
   });
@@ -34,6 +40,12 @@ export function TimelineView({ steps }: TimelineViewProps) {
       case "started":
       case "in_progress":
         return { icon: "fas fa-rocket", color: "bg-primary", animation: "animate-pulse" };
+      case "failed":
+        return { icon: "fas fa-times", color: "bg-red-500", animation: "" };
+      case "blocked":
+        return { icon: "fas fa-ban", color: "bg-purple-500", animation: "" };
+      case "skipped":
+        return { icon: "fas fa-forward", color: "bg-slate-400", animation: "" };
       default:
         return { icon: "fas fa-clock", color: "bg-gray-300", animation: "" };
     }
@@ -46,8 +58,9 @@ export function TimelineView({ steps }: TimelineViewProps) {
     if ((step.status === "started" || step.status === "in_progress") && step.startedAt) {
       return formatDateTime(step.startedAt);
     }
-    if (step.scheduledTime) {
-      return `Scheduled: ${formatDateTime(step.scheduledTime)}`;
+    const triggerTime = getEffectiveTriggerTime(step, releasePlan, steps);
+    if (triggerTime) {
+      return `Scheduled: ${formatDateTime(triggerTime)}`;
     }
     return "Not scheduled";
   };
@@ -128,13 +141,7 @@ export function TimelineView({ steps }: TimelineViewProps) {
             </div>
           </div>
         ) : (
-          <div className="space-y-4">
-            <div className="text-center py-8 text-muted-foreground" data-testid="gantt-placeholder">
-              <i className="fas fa-chart-gantt text-4xl mb-4" />
-              <p>Gantt chart view coming soon...</p>
-              <p className="text-sm">This will show a visual timeline with step dependencies and durations.</p>
-            </div>
-          </div>
+          <GanttChart steps={steps} dependencies={dependencies} releasePlan={releasePlan} />
         )}
       </CardContent>
     </Card>
@@ -1,15 +1,36 @@
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
 import { Link, useLocation } from "wouter";
 
 export function Header() {
   const { user } = useAuth();
+  const { can } = usePermissions();
   const [location] = useLocation();
 
   const navigation = [
     { name: "Dashboard", href: "/", current: location === "/" },
     { name: "Release Plans", href: "/release-plans", current: location === "/release-plans" },
     { name: "Settings", href: "/settings", current: location === "/settings" },
+    ...(can("users.manage")
+      ? [{ name: "Users", href: "/users", current: location === "/users" }]
+      : []),
+    ...(can("notifications.manage")
+      ? [{ name: "Notifications", href: "/notifications", current: location === "/notifications" }]
+      : []),
+    ...(can("webhooks.manage")
+      ? [{ name: "Webhooks", href: "/webhooks", current: location === "/webhooks" }]
+      : []),
+    ...(can("audit.view")
+      ? [{ name: "Audit Log", href: "/audit", current: location === "/audit" }]
+      : []),
   ];
 
   const getUserInitials = (user: any) => {
@@ -77,39 +98,55 @@ export function Header() {
               </Button>
             </Link>
 
-            {/* User Profile */}
-            <div className="flex items-center space-x-3">
-              <div className="text-right">
-                <div className="text-sm font-medium text-foreground" data-testid="user-name">
-                  {user ? `${user.firstName || ""} ${user.lastName || ""}`.trim() || user.email : "User"}
-                </div>
-                <div className="text-xs text-muted-foreground" data-testid="user-role">
-                  {user ? getUserRole(user.role) : "Loading..."}
-                </div>
-              </div>
-              <div className="w-8 h-8 bg-primary rounded-full flex items-center justify-center">
-                <span className="text-primary-foreground text-sm font-medium" data-testid="user-initials">
-                  {getUserInitials(user)}
-                </span>
-              </div>
-              <Button 
-                variant="ghost" 
-                size="sm" 
-                onClick={async () => {
-                  try {
-                    await fetch("/api/logout", { method: "POST" });
-                    window.location.reload();
-                  } catch (error) {
-                    console.error("Logout failed:", error);
-                  }
-                }}
-                data-testid="button-logout"
-                className="ml-2"
-              >
-                <i className="fas fa-sign-out-alt mr-1" />
-                <span className="hidden sm:inline">Sign Out</span>
-              </Button>
-            </div>
+            {/* User Menu */}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button className="flex items-center space-x-3 rounded-md px-2 py-1 hover:bg-muted" data-testid="button-user-menu">
+                  <div className="text-right">
+                    <div className="text-sm font-medium text-foreground" data-testid="user-name">
+                      {user ? `${user.firstName || ""} ${user.lastName || ""}`.trim() || user.email : "User"}
+                    </div>
+                    <div className="text-xs text-muted-foreground" data-testid="user-role">
+                      {user ? getUserRole(user.role) : "Loading..."}
+                    </div>
+                  </div>
+                  <div className="w-8 h-8 bg-primary rounded-full flex items-center justify-center">
+                    <span className="text-primary-foreground text-sm font-medium" data-testid="user-initials">
+                      {getUserInitials(user)}
+                    </span>
+                  </div>
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-56">
+                <DropdownMenuItem asChild>
+                  <Link href="/preferences" data-testid="link-preferences">
+                    <i className="fas fa-bell mr-2" />
+                    Notification Preferences
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href="/api-tokens" data-testid="link-api-tokens">
+                    <i className="fas fa-key mr-2" />
+                    API Tokens
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onSelect={async () => {
+                    try {
+                      await fetch("/api/logout", { method: "POST" });
+                      window.location.reload();
+                    } catch (error) {
+                      console.error("Logout failed:", error);
+                    }
+                  }}
+                  data-testid="button-logout"
+                >
+                  <i className="fas fa-sign-out-alt mr-2" />
+                  Sign Out
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
         </div>
       </div>
@@ -0,0 +1,186 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { ReleasePlan, ReleasePlanTemplate } from "@shared/schema";
+
+interface CloneReleasePlanModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Clone this plan; when absent the user picks a template instead
+  sourcePlan?: ReleasePlan | null;
+  templateId?: string;
+}
+
+export function CloneReleasePlanModal({ isOpen, onClose, sourcePlan, templateId }: CloneReleasePlanModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Form state
+  const [formData, setFormData] = useState({
+    templateId: "",
+    name: "",
+    version: "",
+    description: "",
+    scheduledDate: "",
+  });
+
+  const { data: templates = [] } = useQuery<ReleasePlanTemplate[]>({
+    queryKey: ["/api/release-plan-templates"],
+    enabled: isOpen && !sourcePlan,
+  });
+
+  // Reset form when the source changes
+  useEffect(() => {
+    setFormData({
+      templateId: templateId || "",
+      name: sourcePlan?.name || "",
+      version: "",
+      description: sourcePlan?.description || "",
+      scheduledDate: "",
+    });
+  }, [sourcePlan, templateId, isOpen]);
+
+  const createPlanMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        name: formData.name,
+        version: formData.version,
+        description: formData.description,
+        scheduledDate: formData.scheduledDate,
+      };
+      if (sourcePlan) {
+        return await apiRequest("POST", `/api/release-plans/${sourcePlan.id}/clone`, data);
+      }
+      return await apiRequest("POST", `/api/release-plan-templates/${formData.templateId}/release-plans`, data);
+    },
+    onSuccess: async (res) => {
+      const plan = await res.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/release-plans"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/release-plans", "active"] });
+      toast({
+        title: sourcePlan ? "Release Plan Cloned" : "Release Plan Created",
+        description: `${plan.name} ${plan.version} was created with ${plan.stepCount} steps.`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create release plan",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createPlanMutation.mutate();
+  };
+
+  const handleInputChange = (field: string, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg" data-testid="clone-release-plan-modal">
+        <DialogHeader>
+          <DialogTitle>
+            {sourcePlan ? `Clone ${sourcePlan.name} ${sourcePlan.version}` : "New Release Plan from Template"}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {!sourcePlan && (
+            <div>
+              <Label htmlFor="template">Template *</Label>
+              <Select value={formData.templateId} onValueChange={(value) => handleInputChange("templateId", value)}>
+                <SelectTrigger data-testid="select-template">
+                  <SelectValue placeholder="Select a template" />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map(template => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="name">Release Name *</Label>
+            <Input
+              id="name"
+              value={formData.name}
+              onChange={(e) => handleInputChange("name", e.target.value)}
+              required
+              data-testid="input-clone-name"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="version">Version *</Label>
+              <Input
+                id="version"
+                value={formData.version}
+                onChange={(e) => handleInputChange("version", e.target.value)}
+                placeholder="e.g., v2.5.0"
+                required
+                data-testid="input-clone-version"
+              />
+            </div>
+            <div>
+              <Label htmlFor="scheduledDate">Scheduled Date *</Label>
+              <Input
+                id="scheduledDate"
+                type="date"
+                value={formData.scheduledDate}
+                onChange={(e) => handleInputChange("scheduledDate", e.target.value)}
+                required
+                data-testid="input-clone-scheduled-date"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="description">Description</Label>
+            <Textarea
+              id="description"
+              value={formData.description}
+              onChange={(e) => handleInputChange("description", e.target.value)}
+              rows={3}
+              data-testid="textarea-clone-description"
+            />
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Steps, assignments and dependencies are copied. Fixed times keep their offset from the scheduled date.
+          </p>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-border">
+            <Button type="button" variant="outline" onClick={onClose} data-testid="button-cancel">
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={createPlanMutation.isPending || (!sourcePlan && !formData.templateId)}
+              data-testid="button-create-from-source"
+            >
+              {createPlanMutation.isPending ? "Creating..." : sourcePlan ? "Clone Release" : "Create Release Plan"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
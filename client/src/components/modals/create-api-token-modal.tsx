@@ -0,0 +1,158 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  apiTokenScopeDescriptions,
+  apiTokenScopeLabels,
+  apiTokenScopes,
+  type ApiTokenInput,
+  type ApiTokenScope,
+} from "@shared/apiTokens";
+import type { PublicApiToken } from "@shared/schema";
+
+interface CreateApiTokenModalProps {
+  isOpen: boolean;
+  // Personal tokens and service-account tokens are created at different URLs
+  url: string;
+  // Whose token this is, when it is not the current user's
+  ownerName?: string;
+  onClose: () => void;
+  onCreated: (token: PublicApiToken, secret: string) => void;
+}
+
+const NEVER = "never";
+
+const expiryOptions = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: NEVER, label: "No expiry" },
+];
+
+const emptyForm = {
+  name: "",
+  scopes: ["read"] as ApiTokenScope[],
+  expiry: "90",
+};
+
+export function CreateApiTokenModal({ isOpen, url, ownerName, onClose, onCreated }: CreateApiTokenModalProps) {
+  const { toast } = useToast();
+
+  // Form state
+  const [formData, setFormData] = useState(emptyForm);
+
+  // Start from a blank form every time the modal opens
+  useEffect(() => {
+    if (isOpen) setFormData(emptyForm);
+  }, [isOpen]);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const input: ApiTokenInput = {
+        name: formData.name,
+        scopes: formData.scopes,
+        expiresInDays: formData.expiry === NEVER ? null : Number(formData.expiry),
+      };
+      const res = await apiRequest("POST", url, input);
+      return await res.json() as { token: PublicApiToken; secret: string };
+    },
+    onSuccess: ({ token, secret }) => {
+      onClose();
+      onCreated(token, secret);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create API token",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      scopes: checked ? [...prev.scopes, scope] : prev.scopes.filter(value => value !== scope),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg" data-testid="create-api-token-modal">
+        <DialogHeader>
+          <DialogTitle>{ownerName ? `New API Token for ${ownerName}` : "New API Token"}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="api-token-name">Name *</Label>
+            <Input
+              id="api-token-name"
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="e.g. Production deploy pipeline"
+              required
+              data-testid="input-api-token-name"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Scopes *</Label>
+            {apiTokenScopes.map(scope => (
+              <label key={scope} className="flex items-start gap-3 text-sm" data-testid={`scope-${scope}`}>
+                <Checkbox
+                  checked={formData.scopes.includes(scope)}
+                  onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                  className="mt-0.5"
+                />
+                <span>
+                  <span className="font-medium">{apiTokenScopeLabels[scope]}</span>
+                  <span className="block text-muted-foreground">{apiTokenScopeDescriptions[scope]}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <Label htmlFor="api-token-expiry">Expires</Label>
+            <Select value={formData.expiry} onValueChange={(value) => setFormData(prev => ({ ...prev, expiry: value }))}>
+              <SelectTrigger id="api-token-expiry" data-testid="select-api-token-expiry">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {expiryOptions.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-border">
+            <Button type="button" variant="outline" onClick={onClose} data-testid="button-cancel">
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={createMutation.isPending || formData.scopes.length === 0}
+              data-testid="button-create-api-token"
+            >
+              {createMutation.isPending ? "Creating..." : "Create Token"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { allUsersQueryKey } from "@/lib/realtimeCache";
+import { userRoleLabels, userRoles } from "@shared/permissions";
+import type { PublicUser } from "@shared/schema";
+
+interface InviteUserModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onInvited: (user: PublicUser, temporaryPassword: string) => void;
+}
+
+const emptyForm = {
+  email: "",
+  firstName: "",
+  lastName: "",
+  role: "viewer",
+};
+
+export function InviteUserModal({ isOpen, onClose, onInvited }: InviteUserModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Form state
+  const [formData, setFormData] = useState(emptyForm);
+
+  // Start from a blank form every time the modal opens
+  useEffect(() => {
+    if (isOpen) setFormData(emptyForm);
+  }, [isOpen]);
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/users", formData);
+      return await res.json() as { user: PublicUser; temporaryPassword: string };
+    },
+    onSuccess: ({ user, temporaryPassword }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: allUsersQueryKey });
+      toast({
+        title: "User Invited",
+        description: `${user.email} has been invited.`,
+      });
+      onClose();
+      onInvited(user, temporaryPassword);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to invite user",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    inviteMutation.mutate();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg" data-testid="invite-user-modal">
+        <DialogHeader>
+          <DialogTitle>Invite User</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="invite-email">Email *</Label>
+            <Input
+              id="invite-email"
+              type="email"
+              value={formData.email}
+              onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+              required
+              data-testid="input-invite-email"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="invite-first-name">First Name *</Label>
+              <Input
+                id="invite-first-name"
+                value={formData.firstName}
+                onChange={(e) => setFormData(prev => ({ ...prev, firstName: e.target.value }))}
+                required
+                data-testid="input-invite-first-name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="invite-last-name">Last Name *</Label>
+              <Input
+                id="invite-last-name"
+                value={formData.lastName}
+                onChange={(e) => setFormData(prev => ({ ...prev, lastName: e.target.value }))}
+                required
+                data-testid="input-invite-last-name"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="invite-role">Role</Label>
+            <Select value={formData.role} onValueChange={(value) => setFormData(prev => ({ ...prev, role: value }))}>
+              <SelectTrigger id="invite-role" data-testid="select-invite-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {userRoles.map(role => (
+                  <SelectItem key={role} value={role}>{userRoleLabels[role]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-border">
+            <Button type="button" variant="outline" onClick={onClose} data-testid="button-cancel">
+              Cancel
+            </Button>
+            <Button type="submit" disabled={inviteMutation.isPending} data-testid="button-send-invite">
+              {inviteMutation.isPending ? "Inviting..." : "Send Invite"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,311 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  notificationChannelConfigSchema,
+  notificationChannelTypeLabels,
+  notificationChannelTypes,
+  notificationEventLabels,
+  notificationEvents,
+  type NotificationChannelConfig,
+  type NotificationChannelType,
+  type NotificationEvent,
+} from "@shared/notificationChannels";
+
+interface NotificationChannelModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  channel?: NotificationChannelConfig | null;
+  onSave: (channel: NotificationChannelConfig) => void;
+}
+
+const emptyForm = {
+  name: "",
+  type: "smtp" as NotificationChannelType,
+  events: [] as NotificationEvent[],
+  host: "",
+  port: "587",
+  secure: false,
+  user: "",
+  passwordEnv: "",
+  from: "",
+  url: "",
+  secretEnv: "",
+  directory: "",
+};
+
+function channelToForm(channel: NotificationChannelConfig): typeof emptyForm {
+  return {
+    ...emptyForm,
+    name: channel.name,
+    type: channel.type,
+    events: channel.events,
+    ...(channel.type === "smtp" ? {
+      host: channel.host,
+      port: String(channel.port),
+      secure: channel.secure,
+      user: channel.user || "",
+      passwordEnv: channel.passwordEnv || "",
+      from: channel.from || "",
+    } : {}),
+    ...("url" in channel ? { url: channel.url } : {}),
+    ...(channel.type === "webhook" ? { secretEnv: channel.secretEnv || "" } : {}),
+    ...(channel.type === "file" ? { directory: channel.directory } : {}),
+  };
+}
+
+export function NotificationChannelModal({ isOpen, onClose, channel, onSave }: NotificationChannelModalProps) {
+  const { toast } = useToast();
+
+  // Form state; every driver's fields live side by side and only the chosen type's are saved
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFormData(channel ? channelToForm(channel) : emptyForm);
+  }, [isOpen, channel]);
+
+  const handleInputChange = (field: keyof typeof emptyForm, value: any) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const toggleEvent = (event: NotificationEvent, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      events: checked ? [...prev.events, event] : prev.events.filter(e => e !== event),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const base = {
+      id: channel?.id || crypto.randomUUID(),
+      name: formData.name.trim(),
+      type: formData.type,
+      enabled: channel?.enabled ?? true,
+      events: formData.events,
+    };
+    const optional = (value: string) => value.trim() || undefined;
+    const driverFields: Record<NotificationChannelType, object> = {
+      smtp: {
+        host: formData.host.trim(),
+        port: Number(formData.port),
+        secure: formData.secure,
+        user: optional(formData.user),
+        passwordEnv: optional(formData.passwordEnv),
+        from: optional(formData.from),
+      },
+      slack: { url: formData.url.trim() },
+      teams: { url: formData.url.trim() },
+      webhook: { url: formData.url.trim(), secretEnv: optional(formData.secretEnv) },
+      file: { directory: formData.directory.trim() },
+      console: {},
+    };
+
+    const result = notificationChannelConfigSchema.safeParse({ ...base, ...driverFields[formData.type] });
+    if (!result.success) {
+      toast({
+        title: "Invalid Channel",
+        description: result.error.errors.map(error => `${error.path.join(".")}: ${error.message}`).join("; "),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    onSave(result.data);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto" data-testid="notification-channel-modal">
+        <DialogHeader>
+          <DialogTitle>{channel ? "Edit Notification Channel" : "Add Notification Channel"}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="channel-name">Name *</Label>
+              <Input
+                id="channel-name"
+                value={formData.name}
+                onChange={(e) => handleInputChange("name", e.target.value)}
+                placeholder="Release channel"
+                required
+                data-testid="input-channel-name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="channel-type">Type</Label>
+              <Select value={formData.type} onValueChange={(value) => handleInputChange("type", value)}>
+                <SelectTrigger id="channel-type" data-testid="select-channel-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {notificationChannelTypes.map(type => (
+                    <SelectItem key={type} value={type}>{notificationChannelTypeLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {formData.type === "smtp" && (
+            <>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <Label htmlFor="channel-host">Host *</Label>
+                  <Input
+                    id="channel-host"
+                    value={formData.host}
+                    onChange={(e) => handleInputChange("host", e.target.value)}
+                    placeholder="smtp.yourcompany.com"
+                    data-testid="input-channel-host"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="channel-port">Port</Label>
+                  <Input
+                    id="channel-port"
+                    type="number"
+                    value={formData.port}
+                    onChange={(e) => handleInputChange("port", e.target.value)}
+                    data-testid="input-channel-port"
+                  />
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="channel-secure"
+                  checked={formData.secure}
+                  onCheckedChange={(checked) => handleInputChange("secure", !!checked)}
+                  data-testid="checkbox-channel-secure"
+                />
+                <Label htmlFor="channel-secure" className="text-sm font-normal">Use TLS from the start (usually port 465)</Label>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="channel-user">Username</Label>
+                  <Input
+                    id="channel-user"
+                    value={formData.user}
+                    onChange={(e) => handleInputChange("user", e.target.value)}
+                    data-testid="input-channel-user"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="channel-password-env">Password Variable</Label>
+                  <Input
+                    id="channel-password-env"
+                    value={formData.passwordEnv}
+                    onChange={(e) => handleInputChange("passwordEnv", e.target.value)}
+                    placeholder="NOTIFY_SMTP_PASSWORD"
+                    data-testid="input-channel-password-env"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Name of the server environment variable holding the password, starting with NOTIFY_; passwords are never stored in settings
+              </p>
+              <div>
+                <Label htmlFor="channel-from">From Address</Label>
+                <Input
+                  id="channel-from"
+                  type="email"
+                  value={formData.from}
+                  onChange={(e) => handleInputChange("from", e.target.value)}
+                  placeholder="Defaults to the global From address"
+                  data-testid="input-channel-from"
+                />
+              </div>
+            </>
+          )}
+
+          {(formData.type === "slack" || formData.type === "teams" || formData.type === "webhook") && (
+            <div>
+              <Label htmlFor="channel-url">Webhook URL *</Label>
+              <Input
+                id="channel-url"
+                type="url"
+                value={formData.url}
+                onChange={(e) => handleInputChange("url", e.target.value)}
+                placeholder="https://"
+                data-testid="input-channel-url"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Every matching notification is posted here; invitations and password resets never are
+              </p>
+            </div>
+          )}
+
+          {formData.type === "webhook" && (
+            <div>
+              <Label htmlFor="channel-secret-env">Signing Secret Variable</Label>
+              <Input
+                id="channel-secret-env"
+                value={formData.secretEnv}
+                onChange={(e) => handleInputChange("secretEnv", e.target.value)}
+                placeholder="NOTIFY_WEBHOOK_SECRET"
+                data-testid="input-channel-secret-env"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                A server environment variable starting with NOTIFY_; when set, payloads carry an X-IPlan-Signature HMAC-SHA256 header
+              </p>
+            </div>
+          )}
+
+          {formData.type === "file" && (
+            <div>
+              <Label htmlFor="channel-directory">Folder</Label>
+              <Input
+                id="channel-directory"
+                value={formData.directory}
+                onChange={(e) => handleInputChange("directory", e.target.value)}
+                data-testid="input-channel-directory"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Each message is written as a JSON file in this folder of the server's notification directory; leave empty to use the directory itself
+              </p>
+            </div>
+          )}
+
+          <div>
+            <Label>Events</Label>
+            <p className="text-xs text-muted-foreground">Leave all unchecked to receive every event</p>
+            <div className="mt-2 grid grid-cols-2 gap-2">
+              {notificationEvents.map(event => (
+                <div key={event} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`channel-event-${event}`}
+                    checked={formData.events.includes(event)}
+                    onCheckedChange={(checked) => toggleEvent(event, !!checked)}
+                    data-testid={`checkbox-channel-event-${event}`}
+                  />
+                  <Label htmlFor={`channel-event-${event}`} className="text-sm font-normal">
+                    {notificationEventLabels[event]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-border">
+            <Button type="button" variant="outline" onClick={onClose} data-testid="button-cancel">
+              Cancel
+            </Button>
+            <Button type="submit" data-testid="button-save-channel">
+              {channel ? "Save Changes" : "Add Channel"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { allUsersQueryKey } from "@/lib/realtimeCache";
+import { gatedPhaseLabels, type GatedPhase } from "@shared/releaseGates";
+import type { ReleaseGateWithVotes, User } from "@shared/schema";
+
+interface ReleaseGateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  releasePlanId: string;
+  phase: GatedPhase;
+  gate?: ReleaseGateWithVotes | null;
+}
+
+const emptyForm = {
+  name: "",
+  quorum: 1,
+  approverIds: [] as string[],
+};
+
+export function ReleaseGateModal({ isOpen, onClose, releasePlanId, phase, gate }: ReleaseGateModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const gatePhase = (gate?.phase as GatedPhase | undefined) ?? phase;
+
+  // Form state
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: allUsersQueryKey,
+    enabled: isOpen,
+  });
+
+  // Load the gate being edited, or start with a name that says what it holds back
+  useEffect(() => {
+    if (!isOpen) return;
+    setFormData(gate ? {
+      name: gate.name,
+      quorum: gate.quorum,
+      approverIds: gate.approverIds,
+    } : { ...emptyForm, name: `Go/No-Go before ${gatedPhaseLabels[gatePhase].toLowerCase()}` });
+  }, [isOpen, gate, gatePhase]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        name: formData.name.trim(),
+        phase: gatePhase,
+        quorum: formData.quorum,
+        approverIds: formData.approverIds,
+      };
+      return gate
+        ? await apiRequest("PUT", `/api/gates/${gate.id}`, data)
+        : await apiRequest("POST", `/api/release-plans/${releasePlanId}/gates`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/release-plans", releasePlanId, "gates"] });
+      toast({
+        title: gate ? "Gate Updated" : "Gate Created",
+        description: `${formData.name.trim()} has been saved.`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save gate",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleApprover = (userId: string, checked: boolean) => {
+    setFormData(prev => {
+      const approverIds = checked
+        ? [...prev.approverIds, userId]
+        : prev.approverIds.filter(id => id !== userId);
+      return { ...prev, approverIds, quorum: Math.max(1, Math.min(prev.quorum, approverIds.length)) };
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  // Deactivated people stay listed only while they are still approvers
+  const approverOptions = users.filter(user => user.isActive || formData.approverIds.includes(user.id));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto" data-testid="release-gate-modal">
+        <DialogHeader>
+          <DialogTitle>
+            {gate ? "Edit Gate" : "Add Gate"} — before {gatedPhaseLabels[gatePhase]}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="gate-name">Name *</Label>
+            <Input
+              id="gate-name"
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              required
+              data-testid="input-gate-name"
+            />
+          </div>
+
+          <div>
+            <Label>Approvers *</Label>
+            <div className="mt-2 max-h-48 overflow-y-auto border rounded-md p-3 space-y-2">
+              {approverOptions.map(user => (
+                <div key={user.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`gate-approver-${user.id}`}
+                    checked={formData.approverIds.includes(user.id)}
+                    onCheckedChange={(checked) => toggleApprover(user.id, !!checked)}
+                    data-testid={`checkbox-gate-approver-${user.id}`}
+                  />
+                  <Label htmlFor={`gate-approver-${user.id}`} className="text-sm font-normal">
+                    {user.firstName} {user.lastName} ({user.email})
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="gate-quorum">Go votes required *</Label>
+            <Input
+              id="gate-quorum"
+              type="number"
+              min={1}
+              max={Math.max(1, formData.approverIds.length)}
+              value={formData.quorum}
+              onChange={(e) => setFormData(prev => ({ ...prev, quorum: parseInt(e.target.value) || 1 }))}
+              required
+              data-testid="input-gate-quorum"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Out of {formData.approverIds.length} approver{formData.approverIds.length === 1 ? "" : "s"}. Steps in this
+              phase will not trigger until the gate is approved.
+            </p>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-border">
+            <Button type="button" variant="outline" onClick={onClose} data-testid="button-cancel">
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={saveMutation.isPending || formData.approverIds.length === 0}
+              data-testid="button-save-gate"
+            >
+              {saveMutation.isPending ? "Saving..." : gate ? "Save Changes" : "Add Gate"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
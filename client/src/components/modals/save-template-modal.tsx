@@ -0,0 +1,107 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { ReleasePlan } from "@shared/schema";
+
+interface SaveTemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  releasePlan: ReleasePlan | null;
+}
+
+export function SaveTemplateModal({ isOpen, onClose, releasePlan }: SaveTemplateModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Form state
+  const [formData, setFormData] = useState({
+    name: "",
+    description: "",
+  });
+
+  // Reset form when release plan changes
+  useEffect(() => {
+    setFormData({
+      name: releasePlan ? `${releasePlan.name} template` : "",
+      description: releasePlan?.description || "",
+    });
+  }, [releasePlan]);
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/release-plan-templates", {
+        ...formData,
+        sourceReleasePlanId: releasePlan?.id,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/release-plan-templates"] });
+      toast({
+        title: "Template Saved",
+        description: "The release plan's steps have been saved as a template.",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save template",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveTemplateMutation.mutate();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg" data-testid="save-template-modal">
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="template-name">Template Name *</Label>
+            <Input
+              id="template-name"
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              required
+              data-testid="input-template-name"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea
+              id="template-description"
+              value={formData.description}
+              onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              rows={3}
+              data-testid="textarea-template-description"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-border">
+            <Button type="button" variant="outline" onClick={onClose} data-testid="button-cancel">
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveTemplateMutation.isPending} data-testid="button-save-template">
+              {saveTemplateMutation.isPending ? "Saving..." : "Save Template"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
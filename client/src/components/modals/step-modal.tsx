@@ -6,11 +6,24 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import type { ReleaseStep, User, InsertReleaseStep } from "@shared/schema";
+import { allUsersQueryKey } from "@/lib/realtimeCache";
+import { StepChecklist } from "@/components/dashboard/step-checklist";
+import { CommentThread } from "@/components/comments/comment-thread";
+import type { ReleaseStep, User, InsertReleaseStep, StepDependency, TeamWithMembers } from "@shared/schema";
+import {
+  getAllowedStepTransitions,
+  isRecoveryTransition,
+  stepStatusLabels,
+  type StepStatus,
+} from "@shared/stepStatus";
+
+type StepPayload = Partial<InsertReleaseStep> & { dependsOnStepIds?: string[]; notes?: string };
 
 interface StepModalProps {
   isOpen: boolean;
@@ -26,79 +39,120 @@ export function StepModal({ isOpen, onClose, step, releasePlanId, category, acti
   const { user } = useAuth();
   const queryClient = useQueryClient();
   
+  const { can } = usePermissions();
+  
   const userRole = (user as any)?.role;
   const isTeamLead = userRole === "team_lead";
-  const isReleaseManager = userRole === "release_manager";
-  const isPoc = userRole === "poc";
-  const canUpdateStatus = isReleaseManager || isTeamLead || isPoc;
+  const canUpdateStatus = !!step && can("step.update_status", step);
+  const canRecover = !!step && can("step.recover", step);
+  // New steps are only created by release managers, who assign team leads
+  const canAssignTeamLead = step ? can("step.assign_team_lead", step) : can("step.create");
   
   // Form state
   const [formData, setFormData] = useState({
     name: "",
     description: "",
     category: category || "before_release",
+    teamId: "",
     teamLeadId: "",
     primaryPocId: "",
     backupPocId: "",
     schedulingType: "manual",
     scheduledTime: "",
     timezone: "UTC",
-    dependsOnStepId: "",
+    dependsOnStepIds: [] as string[],
     simultaneousWithStepId: "",
+    relativeTo: "release_start",
+    relativeOffsetMinutes: "",
+    relativeToStepId: "",
+    expectedDurationMinutes: "",
     order: 0,
     status: "not_started",
+    notes: "",
   });
 
   // Fetch users for team lead and POC assignment
   const { data: users = [] } = useQuery<User[]>({
-    queryKey: ["/api/users"],
+    queryKey: allUsersQueryKey,
+  });
+
+  // Fetch teams so assignment pickers can default to the owning team
+  const { data: teams = [] } = useQuery<TeamWithMembers[]>({
+    queryKey: ["/api/teams"],
   });
+  const [showAllAssignees, setShowAllAssignees] = useState(false);
 
   // Fetch other steps for dependency selection
   const { data: allSteps = [] } = useQuery<ReleaseStep[]>({
     queryKey: ["/api/release-plans", releasePlanId, "steps"],
   });
 
+  // Fetch predecessor links for the plan so the picker can show every predecessor
+  const { data: dependencies = [] } = useQuery<StepDependency[]>({
+    queryKey: ["/api/release-plans", releasePlanId, "step-dependencies"],
+    enabled: !!releasePlanId,
+  });
+
+  const stepDependencyIds = step
+    ? dependencies.filter(d => d.stepId === step.id).map(d => d.dependsOnStepId)
+    : [];
+  const stepDependencyKey = stepDependencyIds.join(",");
+
   // Reset form when step changes
   useEffect(() => {
+    setShowAllAssignees(false);
     if (step) {
       setFormData({
         name: step.name,
         description: step.description || "",
         category: step.category,
+        teamId: step.teamId || "",
         teamLeadId: step.teamLeadId || "",
         primaryPocId: step.primaryPocId || "",
         backupPocId: step.backupPocId || "",
         schedulingType: step.schedulingType,
         scheduledTime: step.scheduledTime ? new Date(step.scheduledTime).toISOString().slice(0, 16) : "",
         timezone: step.timezone || "UTC",
-        dependsOnStepId: step.dependsOnStepId || "",
+        dependsOnStepIds: stepDependencyIds.length > 0
+          ? stepDependencyIds
+          : (step.dependsOnStepId ? [step.dependsOnStepId] : []),
         simultaneousWithStepId: step.simultaneousWithStepId || "",
+        relativeTo: step.relativeTo || "release_start",
+        relativeOffsetMinutes: step.relativeOffsetMinutes !== null ? String(step.relativeOffsetMinutes) : "",
+        relativeToStepId: step.relativeToStepId || "",
+        expectedDurationMinutes: step.expectedDurationMinutes !== null ? String(step.expectedDurationMinutes) : "",
         order: step.order,
         status: step.status,
+        notes: "",
       });
     } else {
       setFormData({
         name: "",
         description: "",
         category: category || "before_release",
+        teamId: "",
         teamLeadId: "",
         primaryPocId: "",
         backupPocId: "",
         schedulingType: "manual",
         scheduledTime: "",
         timezone: "UTC",
-        dependsOnStepId: "",
+        dependsOnStepIds: [],
         simultaneousWithStepId: "",
+        relativeTo: "release_start",
+        relativeOffsetMinutes: "",
+        relativeToStepId: "",
+        expectedDurationMinutes: "",
         order: allSteps.length,
         status: "not_started",
+        notes: "",
       });
     }
-  }, [step, category, allSteps.length]);
+  }, [step, category, allSteps.length, stepDependencyKey]);
 
   // Create/Update step mutation
   const stepMutation = useMutation({
-    mutationFn: async (data: Partial<InsertReleaseStep>) => {
+    mutationFn: async (data: StepPayload) => {
       if (step) {
         return await apiRequest("PATCH", `/api/steps/${step.id}`, data);
       } else {
@@ -107,6 +161,7 @@ export function StepModal({ isOpen, onClose, step, releasePlanId, category, acti
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/release-plans", releasePlanId, "steps"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/release-plans", releasePlanId, "step-dependencies"] });
       queryClient.invalidateQueries({ queryKey: ["/api/release-plans", "active"] });
       toast({
         title: step ? "Step Updated" : "Step Created",
@@ -124,10 +179,22 @@ export function StepModal({ isOpen, onClose, step, releasePlanId, category, acti
     },
   });
 
+  // Relative fields are only sent for relative steps so switching type clears them
+  const getRelativeScheduling = (): StepPayload => {
+    if (formData.schedulingType !== "relative") {
+      return { relativeTo: null, relativeOffsetMinutes: null, relativeToStepId: null };
+    }
+    return {
+      relativeTo: formData.relativeTo,
+      relativeOffsetMinutes: formData.relativeOffsetMinutes === "" ? null : Number(formData.relativeOffsetMinutes),
+      relativeToStepId: formData.relativeTo === "step_completion" ? formData.relativeToStepId || null : null,
+    };
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    let data: Partial<InsertReleaseStep>;
+    let data: StepPayload;
     
     if (step) {
       // Editing existing step based on action
@@ -136,6 +203,9 @@ export function StepModal({ isOpen, onClose, step, releasePlanId, category, acti
         data = {
           status: formData.status,
         };
+        if (formData.notes.trim()) {
+          data.notes = formData.notes.trim();
+        }
       } else if (action === "reassign") {
         // Only update POC assignments
         data = {};
@@ -151,17 +221,23 @@ export function StepModal({ isOpen, onClose, step, releasePlanId, category, acti
           name: formData.name,
           description: formData.description,
           category: formData.category,
+          teamId: formData.teamId || null,
           teamLeadId: formData.teamLeadId || null,
           primaryPocId: formData.primaryPocId || null,
           backupPocId: formData.backupPocId || null,
           schedulingType: formData.schedulingType,
           scheduledTime: formData.scheduledTime ? new Date(formData.scheduledTime) : null,
           timezone: formData.timezone,
-          dependsOnStepId: formData.dependsOnStepId || null,
+          dependsOnStepIds: formData.schedulingType === "after_step" ? formData.dependsOnStepIds : [],
           simultaneousWithStepId: formData.simultaneousWithStepId || null,
+          ...getRelativeScheduling(),
+          expectedDurationMinutes: formData.expectedDurationMinutes === "" ? null : Number(formData.expectedDurationMinutes),
           order: formData.order,
           status: formData.status,
         };
+        if (formData.notes.trim()) {
+          data.notes = formData.notes.trim();
+        }
       }
     } else {
       // Creating new step (only Release Managers can do this)
@@ -170,14 +246,17 @@ export function StepModal({ isOpen, onClose, step, releasePlanId, category, acti
         name: formData.name,
         description: formData.description,
         category: formData.category,
+        teamId: formData.teamId || null,
         teamLeadId: formData.teamLeadId || null,
         primaryPocId: formData.primaryPocId || null,
         backupPocId: formData.backupPocId || null,
         schedulingType: formData.schedulingType,
         scheduledTime: formData.scheduledTime ? new Date(formData.scheduledTime) : null,
         timezone: formData.timezone,
-        dependsOnStepId: formData.dependsOnStepId || null,
+        dependsOnStepIds: formData.schedulingType === "after_step" ? formData.dependsOnStepIds : [],
         simultaneousWithStepId: formData.simultaneousWithStepId || null,
+        ...getRelativeScheduling(),
+        expectedDurationMinutes: formData.expectedDurationMinutes === "" ? null : Number(formData.expectedDurationMinutes),
         order: formData.order,
         status: formData.status,
       };
@@ -191,9 +270,48 @@ export function StepModal({ isOpen, onClose, step, releasePlanId, category, acti
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
-  const teamLeads = users.filter(user => user.role === "team_lead" || user.role === "release_manager");
-  const pocs = users.filter(user => user.role === "poc" || user.role === "team_lead");
+  // Picking an owning team fills in its lead unless one was already chosen
+  const handleTeamChange = (teamId: string) => {
+    const team = teams.find(t => t.id === teamId);
+    setFormData(prev => ({
+      ...prev,
+      teamId: team ? team.id : "",
+      teamLeadId: prev.teamLeadId || (canAssignTeamLead && team?.leadId) || "",
+    }));
+  };
+
+  const toggleDependency = (stepId: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      dependsOnStepIds: checked
+        ? [...prev.dependsOnStepIds, stepId]
+        : prev.dependsOnStepIds.filter(id => id !== stepId),
+    }));
+  };
+
+  // Offer only the transitions the server will accept for this user
+  const statusOptions: StepStatus[] = step
+    ? [
+        step.status as StepStatus,
+        ...getAllowedStepTransitions(step.status).filter(
+          status => canRecover || !isRecoveryTransition(step.status, status)
+        ),
+      ]
+    : [];
+  const noteRequired = !!step && formData.status !== step.status && isRecoveryTransition(step.status, formData.status);
+
+  // Deactivated users keep their existing assignments but cannot be picked.
+  // With an owning team, pickers offer its members unless asked to show everyone.
+  const owningTeam = teams.find(t => t.id === formData.teamId);
+  const isAssignable = (user: User) => {
+    if (!user.isActive) return false;
+    if (!owningTeam || showAllAssignees) return true;
+    return user.id === owningTeam.leadId || owningTeam.memberIds.includes(user.id);
+  };
+  const teamLeads = users.filter(user => isAssignable(user) && (user.role === "team_lead" || user.role === "release_manager"));
+  const pocs = users.filter(user => isAssignable(user) && (user.role === "poc" || user.role === "team_lead"));
   const eligibleSteps = allSteps.filter(s => s.id !== step?.id && s.category === formData.category);
+  const otherSteps = allSteps.filter(s => s.id !== step?.id);
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -233,17 +351,39 @@ export function StepModal({ isOpen, onClose, step, releasePlanId, category, acti
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="not_started">Not Started</SelectItem>
-                    <SelectItem value="started">Started</SelectItem>
-                    <SelectItem value="in_progress">In Progress</SelectItem>
-                    <SelectItem value="completed">Completed</SelectItem>
-                    <SelectItem value="failed">Failed</SelectItem>
+                    {statusOptions.map(status => (
+                      <SelectItem key={status} value={status}>
+                        {stepStatusLabels[status] || status}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
+              {formData.status !== step.status && (
+                <div>
+                  <Label htmlFor="status-notes">{noteRequired ? "Reason *" : "Notes"}</Label>
+                  <Textarea
+                    id="status-notes"
+                    value={formData.notes}
+                    onChange={(e) => handleInputChange("notes", e.target.value)}
+                    placeholder={noteRequired ? "Explain why this step is being retried, unblocked or skipped" : "Optional note for the step history"}
+                    required={noteRequired}
+                    rows={2}
+                    data-testid="textarea-status-notes"
+                  />
+                </div>
+              )}
             </div>
           )}
           
+          {/* Checklist and comments (existing steps only; both are saved as they change) */}
+          {(action === "update-status" || action === "edit") && step && (
+            <>
+              <StepChecklist step={step} users={users} />
+              <CommentThread releasePlanId={step.releasePlanId} stepId={step.id} />
+            </>
+          )}
+
           {/* Full Step Details (only for edit action or when creating new step) */}
           {(action === "edit" || !step) && (
             <>
@@ -295,10 +435,32 @@ export function StepModal({ isOpen, onClose, step, releasePlanId, category, acti
             </div>
           </div>
 
+          {/* Owning Team */}
+          <div>
+            <Label htmlFor="team">Owning Team</Label>
+            <Select value={formData.teamId || "none"} onValueChange={handleTeamChange}>
+              <SelectTrigger data-testid="select-step-team">
+                <SelectValue placeholder="Select team" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No team</SelectItem>
+                {teams.map(team => (
+                  <SelectItem key={team.id} value={team.id}>
+                    {team.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Team Lead Assignment (Release Managers only) */}
           <div>
             <Label htmlFor="teamLead">Team Lead</Label>
-            <Select value={formData.teamLeadId} onValueChange={(value) => handleInputChange("teamLeadId", value)}>
+            <Select
+              value={formData.teamLeadId}
+              onValueChange={(value) => handleInputChange("teamLeadId", value)}
+              disabled={!canAssignTeamLead}
+            >
               <SelectTrigger data-testid="select-team-lead">
                 <SelectValue placeholder="Select team lead" />
               </SelectTrigger>
@@ -353,22 +515,26 @@ export function StepModal({ isOpen, onClose, step, releasePlanId, category, acti
               
               <div className="flex items-center space-x-2">
                 <RadioGroupItem value="after_step" id="after_step" />
-                <Label htmlFor="after_step">After Previous Step</Label>
+                <Label htmlFor="after_step">After Previous Steps</Label>
               </div>
               {formData.schedulingType === "after_step" && (
-                <div className="ml-6">
-                  <Select value={formData.dependsOnStepId} onValueChange={(value) => handleInputChange("dependsOnStepId", value)}>
-                    <SelectTrigger data-testid="select-depends-on-step">
-                      <SelectValue placeholder="Select previous step" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {eligibleSteps.map(s => (
-                        <SelectItem key={s.id} value={s.id}>
-                          {s.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                <div className="ml-6 space-y-2 border rounded-md p-3" data-testid="select-depends-on-steps">
+                  <p className="text-xs text-muted-foreground">Starts once all selected steps are completed</p>
+                  {eligibleSteps.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No other steps in this category</p>
+                  ) : (
+                    eligibleSteps.map(s => (
+                      <div key={s.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`depends-on-${s.id}`}
+                          checked={formData.dependsOnStepIds.includes(s.id)}
+                          onCheckedChange={(checked) => toggleDependency(s.id, checked === true)}
+                          data-testid={`checkbox-depends-on-${s.id}`}
+                        />
+                        <Label htmlFor={`depends-on-${s.id}`} className="font-normal">{s.name}</Label>
+                      </div>
+                    ))
+                  )}
                 </div>
               )}
               
@@ -392,17 +558,98 @@ export function StepModal({ isOpen, onClose, step, releasePlanId, category, acti
                   </Select>
                 </div>
               )}
+
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="relative" id="relative" />
+                <Label htmlFor="relative">Relative Offset</Label>
+              </div>
+              {formData.schedulingType === "relative" && (
+                <div className="ml-6 space-y-2">
+                  <div className="grid grid-cols-2 gap-4">
+                    <Select value={formData.relativeTo} onValueChange={(value) => handleInputChange("relativeTo", value)}>
+                      <SelectTrigger data-testid="select-relative-to">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="release_start">Release start</SelectItem>
+                        <SelectItem value="step_completion">Another step's completion</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      step={1}
+                      min={formData.relativeTo === "step_completion" ? 0 : undefined}
+                      value={formData.relativeOffsetMinutes}
+                      onChange={(e) => handleInputChange("relativeOffsetMinutes", e.target.value)}
+                      placeholder="Offset in minutes"
+                      required
+                      data-testid="input-relative-offset"
+                    />
+                  </div>
+                  {formData.relativeTo === "step_completion" && (
+                    <Select value={formData.relativeToStepId} onValueChange={(value) => handleInputChange("relativeToStepId", value)}>
+                      <SelectTrigger data-testid="select-relative-step">
+                        <SelectValue placeholder="Select step" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {otherSteps.map(s => (
+                          <SelectItem key={s.id} value={s.id}>
+                            {s.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {formData.relativeTo === "release_start"
+                      ? "Minutes from the release's scheduled date; use a negative number to start before it (e.g. -120 for T-2h)"
+                      : "Minutes after the selected step completes"}
+                  </p>
+                </div>
+              )}
             </RadioGroup>
           </div>
+
+          <div>
+            <Label htmlFor="expectedDuration">Expected Duration (minutes)</Label>
+            <Input
+              id="expectedDuration"
+              type="number"
+              step={1}
+              min={1}
+              value={formData.expectedDurationMinutes}
+              onChange={(e) => handleInputChange("expectedDurationMinutes", e.target.value)}
+              placeholder="No limit"
+              data-testid="input-expected-duration"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              The step is flagged as overdue and escalated once it runs longer than this
+            </p>
+          </div>
           </>
           )}
 
           {/* POC Assignment Section (only for reassign or edit actions, or when creating new step) */}
           {(action === "reassign" || action === "edit" || !step) && (
           <div className="space-y-4 border-t pt-4">
-            <h4 className="font-medium text-foreground">
-              {isTeamLead ? "Assign POCs from your team" : "Team Assignment"}
-            </h4>
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium text-foreground">
+                {isTeamLead ? "Assign POCs from your team" : "Team Assignment"}
+              </h4>
+              {owningTeam && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="show-all-assignees"
+                    checked={showAllAssignees}
+                    onCheckedChange={(checked) => setShowAllAssignees(!!checked)}
+                    data-testid="checkbox-show-all-assignees"
+                  />
+                  <Label htmlFor="show-all-assignees" className="text-sm font-normal">
+                    Show people outside {owningTeam.name}
+                  </Label>
+                </div>
+              )}
+            </div>
             
             <div className="grid grid-cols-2 gap-4">
               <div>
@@ -0,0 +1,181 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { allUsersQueryKey } from "@/lib/realtimeCache";
+import type { TeamWithMembers, User } from "@shared/schema";
+
+interface TeamModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  team?: TeamWithMembers | null;
+}
+
+const emptyForm = {
+  name: "",
+  description: "",
+  leadId: "",
+  memberIds: [] as string[],
+};
+
+export function TeamModal({ isOpen, onClose, team }: TeamModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Form state
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: allUsersQueryKey,
+    enabled: isOpen,
+  });
+
+  // Load the team being edited, or start blank
+  useEffect(() => {
+    if (!isOpen) return;
+    setFormData(team ? {
+      name: team.name,
+      description: team.description || "",
+      leadId: team.leadId || "",
+      memberIds: team.memberIds,
+    } : emptyForm);
+  }, [isOpen, team]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        name: formData.name.trim(),
+        description: formData.description.trim() || null,
+        leadId: formData.leadId || null,
+        memberIds: formData.memberIds,
+      };
+      return team
+        ? await apiRequest("PATCH", `/api/teams/${team.id}`, data)
+        : await apiRequest("POST", "/api/teams", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/teams"] });
+      toast({
+        title: team ? "Team Updated" : "Team Created",
+        description: `${formData.name.trim()} has been saved.`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save team",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMember = (userId: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      memberIds: checked
+        ? [...prev.memberIds, userId]
+        : prev.memberIds.filter(id => id !== userId),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  // Deactivated people stay listed only while they are still on the team
+  const leadOptions = users.filter(user =>
+    (user.isActive && (user.role === "team_lead" || user.role === "release_manager")) || user.id === formData.leadId
+  );
+  const memberOptions = users.filter(user => user.isActive || formData.memberIds.includes(user.id));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto" data-testid="team-modal">
+        <DialogHeader>
+          <DialogTitle>{team ? "Edit Team" : "Create Team"}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="team-name">Name *</Label>
+            <Input
+              id="team-name"
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              required
+              data-testid="input-team-name"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="team-description">Description</Label>
+            <Textarea
+              id="team-description"
+              value={formData.description}
+              onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              rows={2}
+              data-testid="textarea-team-description"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="team-lead">Lead</Label>
+            <Select
+              value={formData.leadId || "none"}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, leadId: value === "none" ? "" : value }))}
+            >
+              <SelectTrigger id="team-lead" data-testid="select-team-lead">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No lead</SelectItem>
+                {leadOptions.map(user => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {user.firstName} {user.lastName} ({user.email})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label>Members</Label>
+            <div className="mt-2 max-h-48 overflow-y-auto border rounded-md p-3 space-y-2">
+              {memberOptions.map(user => (
+                <div key={user.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`team-member-${user.id}`}
+                    checked={formData.memberIds.includes(user.id)}
+                    onCheckedChange={(checked) => toggleMember(user.id, !!checked)}
+                    data-testid={`checkbox-team-member-${user.id}`}
+                  />
+                  <Label htmlFor={`team-member-${user.id}`} className="text-sm font-normal">
+                    {user.firstName} {user.lastName} ({user.email})
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-border">
+            <Button type="button" variant="outline" onClick={onClose} data-testid="button-cancel">
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-team">
+              {saveMutation.isPending ? "Saving..." : team ? "Save Changes" : "Create Team"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,199 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { formatWebhookEventType, webhookEventTypes } from "@shared/webhooks";
+import type { PublicWebhookSubscription, ReleasePlan } from "@shared/schema";
+
+interface WebhookModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  webhook?: PublicWebhookSubscription | null;
+  // Called with the signing secret, which is only returned when a webhook is created
+  onCreated: (secret: string) => void;
+}
+
+const ALL_PLANS = "all";
+
+const emptyForm = {
+  name: "",
+  url: "",
+  releasePlanId: ALL_PLANS,
+  eventTypes: ["step_triggered", "release_completed"] as string[],
+  isActive: true,
+};
+
+export function WebhookModal({ isOpen, onClose, webhook, onCreated }: WebhookModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Form state
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { data: plans = [] } = useQuery<ReleasePlan[]>({
+    queryKey: ["/api/release-plans"],
+    enabled: isOpen,
+  });
+
+  // Load the webhook being edited, or start blank
+  useEffect(() => {
+    if (!isOpen) return;
+    setFormData(webhook ? {
+      name: webhook.name,
+      url: webhook.url,
+      releasePlanId: webhook.releasePlanId || ALL_PLANS,
+      eventTypes: webhook.eventTypes,
+      isActive: webhook.isActive,
+    } : emptyForm);
+  }, [isOpen, webhook]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        name: formData.name.trim(),
+        url: formData.url.trim(),
+        releasePlanId: formData.releasePlanId === ALL_PLANS ? null : formData.releasePlanId,
+        eventTypes: formData.eventTypes,
+        isActive: formData.isActive,
+      };
+      const res = webhook
+        ? await apiRequest("PATCH", `/api/webhooks/${webhook.id}`, data)
+        : await apiRequest("POST", "/api/webhooks", data);
+      return await res.json() as { secret?: string };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      toast({
+        title: webhook ? "Webhook Updated" : "Webhook Created",
+        description: `${formData.name.trim()} has been saved.`,
+      });
+      onClose();
+      if (result.secret) onCreated(result.secret);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save webhook",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleEventType = (type: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      eventTypes: checked
+        ? [...prev.eventTypes, type]
+        : prev.eventTypes.filter(value => value !== type),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto" data-testid="webhook-modal">
+        <DialogHeader>
+          <DialogTitle>{webhook ? "Edit Webhook" : "Add Webhook"}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="webhook-name">Name *</Label>
+            <Input
+              id="webhook-name"
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="e.g. Deploy bot"
+              required
+              data-testid="input-webhook-name"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="webhook-url">Payload URL *</Label>
+            <Input
+              id="webhook-url"
+              type="url"
+              value={formData.url}
+              onChange={(e) => setFormData(prev => ({ ...prev, url: e.target.value }))}
+              placeholder="https://example.com/hooks/iplan"
+              required
+              data-testid="input-webhook-url"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="webhook-plan">Release Plan</Label>
+            <Select
+              value={formData.releasePlanId}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, releasePlanId: value }))}
+            >
+              <SelectTrigger id="webhook-plan" data-testid="select-webhook-plan">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_PLANS}>All plans</SelectItem>
+                {plans.map(plan => (
+                  <SelectItem key={plan.id} value={plan.id}>{plan.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label>Events *</Label>
+            <div className="mt-2 max-h-48 overflow-y-auto border rounded-md p-3 grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {webhookEventTypes.map(type => (
+                <div key={type} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`webhook-event-${type}`}
+                    checked={formData.eventTypes.includes(type)}
+                    onCheckedChange={(checked) => toggleEventType(type, !!checked)}
+                    data-testid={`checkbox-webhook-event-${type}`}
+                  />
+                  <Label htmlFor={`webhook-event-${type}`} className="text-sm font-normal">
+                    {formatWebhookEventType(type)}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="webhook-active">Active</Label>
+            <Switch
+              id="webhook-active"
+              checked={formData.isActive}
+              onCheckedChange={(checked) => setFormData(prev => ({ ...prev, isActive: checked }))}
+              data-testid="switch-webhook-active"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-border">
+            <Button type="button" variant="outline" onClick={onClose} data-testid="button-cancel">
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={saveMutation.isPending || formData.eventTypes.length === 0}
+              data-testid="button-save-webhook"
+            >
+              {saveMutation.isPending ? "Saving..." : webhook ? "Save Changes" : "Add Webhook"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
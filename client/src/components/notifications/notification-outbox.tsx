@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  notificationEventLabels,
+  notificationEvents,
+  notificationOutboxStatusLabels,
+  notificationOutboxStatuses,
+  type NotificationEvent,
+  type NotificationOutboxStatus,
+  type NotificationRecipientStatus,
+} from "@shared/notificationChannels";
+import type { NotificationOutboxEntry } from "@shared/schema";
+
+const PAGE_SIZE = 50;
+const ALL = "all";
+
+const statusVariants: Record<NotificationOutboxStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "secondary",
+  sending: "secondary",
+  sent: "outline",
+  dead: "destructive",
+};
+
+const recipientStatusClasses: Record<NotificationRecipientStatus["status"], string> = {
+  pending: "text-muted-foreground",
+  sent: "text-green-600",
+  failed: "text-destructive",
+};
+
+export function NotificationOutbox() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState(ALL);
+  const [event, setEvent] = useState(ALL);
+  const [page, setPage] = useState(0);
+
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(page * PAGE_SIZE) });
+  if (status !== ALL) params.set("status", status);
+  if (event !== ALL) params.set("event", event);
+
+  const { data: entries = [], isLoading } = useQuery<NotificationOutboxEntry[]>({
+    queryKey: [`/api/notifications/outbox?${params.toString()}`],
+  });
+
+  const invalidateOutbox = () => {
+    queryClient.invalidateQueries({
+      predicate: query => String(query.queryKey[0]).startsWith("/api/notifications/outbox"),
+    });
+  };
+
+  const resendMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("POST", `/api/notifications/outbox/${id}/resend`);
+    },
+    onSuccess: () => {
+      invalidateOutbox();
+      toast({ title: "Notification Queued", description: "The notification will be sent again shortly." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to resend notification",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Any filter change starts again from the newest entries
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(0);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Outbox</CardTitle>
+        <Button variant="outline" size="sm" onClick={invalidateOutbox} data-testid="button-refresh-outbox">
+          <i className="fas fa-sync-alt mr-2" />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Filters */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="outbox-status">Status</Label>
+            <Select value={status} onValueChange={updateFilter(setStatus)}>
+              <SelectTrigger id="outbox-status" data-testid="select-outbox-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                {notificationOutboxStatuses.map(value => (
+                  <SelectItem key={value} value={value}>{notificationOutboxStatusLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="outbox-event">Event</Label>
+            <Select value={event} onValueChange={updateFilter(setEvent)}>
+              <SelectTrigger id="outbox-event" data-testid="select-outbox-event">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All events</SelectItem>
+                {notificationEvents.map(value => (
+                  <SelectItem key={value} value={value}>{notificationEventLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Entries */}
+        {isLoading ? (
+          <div className="animate-pulse h-64 bg-muted rounded" />
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No notifications match these filters.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-44">Queued</TableHead>
+                <TableHead>Notification</TableHead>
+                <TableHead>Channel</TableHead>
+                <TableHead>Recipients</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => {
+                const entryStatus = entry.status as NotificationOutboxStatus;
+                return (
+                  <TableRow key={entry.id} data-testid={`outbox-entry-${entry.id}`}>
+                    <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                      {entry.createdAt ? new Date(entry.createdAt).toLocaleString() : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{entry.message.subject}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {notificationEventLabels[entry.event as NotificationEvent] || entry.event}
+                      </div>
+                    </TableCell>
+                    <TableCell>{entry.channelName}</TableCell>
+                    <TableCell>
+                      {entry.recipients.length === 0 ? (
+                        <span className="text-muted-foreground">—</span>
+                      ) : (
+                        <ul className="space-y-1 text-xs">
+                          {entry.recipients.map(recipient => (
+                            <li key={recipient.address} className="break-all">
+                              <span>{recipient.address}</span>{" "}
+                              <span className={recipientStatusClasses[recipient.status]}>({recipient.status})</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariants[entryStatus] || "outline"}>
+                        {notificationOutboxStatusLabels[entryStatus] || entry.status}
+                      </Badge>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {entry.attempts} attempt{entry.attempts === 1 ? "" : "s"}
+                        {entryStatus === "pending" && entry.attempts > 0 && (
+                          <> · retrying {new Date(entry.nextAttemptAt).toLocaleTimeString()}</>
+                        )}
+                        {entryStatus === "sent" && entry.sentAt && (
+                          <> · {new Date(entry.sentAt).toLocaleString()}</>
+                        )}
+                      </div>
+                      {entry.lastError && (
+                        <div className="text-xs text-destructive mt-1 break-all">{entry.lastError}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {entryStatus === "dead" && !entry.message.sensitive && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => resendMutation.mutate(entry.id)}
+                          disabled={resendMutation.isPending}
+                          data-testid={`button-resend-${entry.id}`}
+                        >
+                          <i className="fas fa-redo mr-2" />
+                          Resend
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {/* Paging */}
+        <div className="flex justify-end space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page - 1)}
+            disabled={page === 0}
+            data-testid="button-outbox-newer"
+          >
+            Newer
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page + 1)}
+            disabled={entries.length < PAGE_SIZE}
+            data-testid="button-outbox-older"
+          >
+            Older
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  getNotificationDelivery,
+  notificationCategories,
+  notificationCategoryLabels,
+  notificationChannelTypeLabels,
+  notificationDeliveries,
+  notificationDeliveryLabels,
+  type NotificationChannelType,
+  type NotificationDeliveries,
+} from "@shared/notificationChannels";
+
+interface NotificationPreferencesData {
+  channelId: string | null;
+  deliveries: NotificationDeliveries;
+}
+
+interface PersonalChannel {
+  id: string;
+  name: string;
+  type: NotificationChannelType;
+}
+
+const ALL_CHANNELS = "all";
+
+export function NotificationPreferences() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Form state
+  const [channelId, setChannelId] = useState(ALL_CHANNELS);
+  const [deliveries, setDeliveries] = useState<NotificationDeliveries>({});
+
+  const { data: preferences, isLoading } = useQuery<NotificationPreferencesData>({
+    queryKey: ["/api/notification-preferences"],
+  });
+
+  const { data: channels = [] } = useQuery<PersonalChannel[]>({
+    queryKey: ["/api/notification-channels"],
+  });
+
+  useEffect(() => {
+    if (!preferences) return;
+    setChannelId(preferences.channelId || ALL_CHANNELS);
+    setDeliveries(preferences.deliveries);
+  }, [preferences]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", "/api/notification-preferences", {
+        channelId: channelId === ALL_CHANNELS ? null : channelId,
+        deliveries,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notification-preferences"] });
+      toast({ title: "Preferences Saved", description: "Your notification preferences have been updated." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save notification preferences",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  if (isLoading) {
+    return <div className="animate-pulse h-64 bg-muted rounded" />;
+  }
+
+  return (
+    <Card data-testid="notification-preferences">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <i className="fas fa-bell mr-2 text-primary" />
+          Notifications
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <Label htmlFor="preference-channel">Deliver To</Label>
+            <Select value={channelId} onValueChange={setChannelId}>
+              <SelectTrigger id="preference-channel" className="md:w-1/2" data-testid="select-preference-channel">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CHANNELS}>Every available channel</SelectItem>
+                {channels.map(channel => (
+                  <SelectItem key={channel.id} value={channel.id}>
+                    {channel.name} ({notificationChannelTypeLabels[channel.type]})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">
+              Team chat channels set up by release managers are not affected by these preferences
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            {notificationCategories.map(category => (
+              <div key={category} className="flex items-center justify-between gap-4">
+                <Label htmlFor={`preference-${category}`} className="font-normal">
+                  {notificationCategoryLabels[category]}
+                </Label>
+                <Select
+                  value={getNotificationDelivery(deliveries, category)}
+                  onValueChange={(value) => setDeliveries(prev => ({ ...prev, [category]: value }))}
+                >
+                  <SelectTrigger id={`preference-${category}`} className="w-48" data-testid={`select-preference-${category}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {notificationDeliveries.map(delivery => (
+                      <SelectItem key={delivery} value={delivery}>{notificationDeliveryLabels[delivery]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Hourly digests go out on the hour; daily digests at 08:00 UTC. Invitations and password resets always arrive immediately.
+            </p>
+          </div>
+
+          <div className="flex justify-end pt-4 border-t border-border">
+            <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-preferences">
+              <i className="fas fa-save mr-2" />
+              {saveMutation.isPending ? "Saving..." : "Save Preferences"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,9 +8,23 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import type { GlobalSetting, InsertGlobalSetting } from "@shared/schema";
+import { CATCH_UP_POLICY_SETTING, catchUpPolicies, catchUpPolicyLabels } from "@shared/stepScheduling";
+import {
+  ACKNOWLEDGEMENT_WINDOW_SETTING,
+  DEFAULT_ACKNOWLEDGEMENT_WINDOW_MINUTES,
+  DEFAULT_SLA_ESCALATION_INTERVAL_MINUTES,
+  DEFAULT_SLA_PICKUP_MINUTES,
+  SLA_ESCALATION_INTERVAL_SETTING,
+  SLA_PICKUP_SETTING,
+} from "@shared/stepSla";
+import { NotificationChannels } from "@/components/settings/notification-channels";
+import { NotificationTemplates } from "@/components/settings/notification-templates";
+import { DEFAULT_PRODUCT_NAME, PRODUCT_NAME_SETTING } from "@shared/notificationTemplates";
 
 interface SettingsForm {
+  product_name: string;
   email_default_from: string;
   email_default_cc: string;
   email_default_bcc: string;
@@ -23,11 +37,16 @@ export function GlobalSettings() {
 
   // Form state
   const [formData, setFormData] = useState<SettingsForm>({
+    product_name: DEFAULT_PRODUCT_NAME,
     email_default_from: "",
     email_default_cc: "",
     email_default_bcc: "",
     notification_enabled: "true",
   });
+  const [catchUpPolicy, setCatchUpPolicy] = useState("fire");
+  const [slaPickupMinutes, setSlaPickupMinutes] = useState(String(DEFAULT_SLA_PICKUP_MINUTES));
+  const [slaEscalationMinutes, setSlaEscalationMinutes] = useState(String(DEFAULT_SLA_ESCALATION_INTERVAL_MINUTES));
+  const [acknowledgementMinutes, setAcknowledgementMinutes] = useState(String(DEFAULT_ACKNOWLEDGEMENT_WINDOW_MINUTES));
 
   // Fetch global settings
   const { data: settings = [], isLoading } = useQuery<GlobalSetting[]>({
@@ -48,11 +67,16 @@ export function GlobalSettings() {
     }, {} as Record<string, string>);
 
     setFormData({
+      product_name: settingsMap[PRODUCT_NAME_SETTING] || DEFAULT_PRODUCT_NAME,
       email_default_from: settingsMap.email_default_from || "",
       email_default_cc: settingsMap.email_default_cc || "",
       email_default_bcc: settingsMap.email_default_bcc || "",
       notification_enabled: settingsMap.notification_enabled || "true",
     });
+    setCatchUpPolicy(settingsMap[CATCH_UP_POLICY_SETTING] || "fire");
+    setSlaPickupMinutes(settingsMap[SLA_PICKUP_SETTING] || String(DEFAULT_SLA_PICKUP_MINUTES));
+    setSlaEscalationMinutes(settingsMap[SLA_ESCALATION_INTERVAL_SETTING] || String(DEFAULT_SLA_ESCALATION_INTERVAL_MINUTES));
+    setAcknowledgementMinutes(settingsMap[ACKNOWLEDGEMENT_WINDOW_SETTING] || String(DEFAULT_ACKNOWLEDGEMENT_WINDOW_MINUTES));
   }, [settings]);
 
   // Save settings mutation
@@ -98,6 +122,11 @@ export function GlobalSettings() {
     e.preventDefault();
 
     const settingsToSave: Array<InsertGlobalSetting> = [
+      {
+        key: PRODUCT_NAME_SETTING,
+        value: formData.product_name,
+        description: "Product name shown in notifications",
+      },
       {
         key: "email_default_from",
         value: formData.email_default_from,
@@ -123,8 +152,35 @@ export function GlobalSettings() {
     saveSettingsMutation.mutate(settingsToSave);
   };
 
+  const handleSchedulerSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveSettingsMutation.mutate([
+      {
+        key: CATCH_UP_POLICY_SETTING,
+        value: catchUpPolicy,
+        description: "What the scheduler does with triggers missed while it was not running",
+      },
+      {
+        key: SLA_PICKUP_SETTING,
+        value: slaPickupMinutes,
+        description: "Minutes a fixed-time step may go untouched after it is triggered before it is overdue",
+      },
+      {
+        key: SLA_ESCALATION_INTERVAL_SETTING,
+        value: slaEscalationMinutes,
+        description: "Minutes between escalation stages for an overdue step",
+      },
+      {
+        key: ACKNOWLEDGEMENT_WINDOW_SETTING,
+        value: acknowledgementMinutes,
+        description: "Minutes the POC of a triggered step has to acknowledge it before the backup POC takes over",
+      },
+    ]);
+  };
+
   const resetToDefaults = () => {
     setFormData({
+      product_name: DEFAULT_PRODUCT_NAME,
       email_default_from: "noreply@iplan.com",
       email_default_cc: "",
       email_default_bcc: "",
@@ -164,6 +220,20 @@ export function GlobalSettings() {
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="product_name">Product Name</Label>
+              <Input
+                id="product_name"
+                value={formData.product_name}
+                onChange={(e) => handleInputChange("product_name", e.target.value)}
+                placeholder={DEFAULT_PRODUCT_NAME}
+                data-testid="input-product-name"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Available to notification templates as {"{{productName}}"}
+              </p>
+            </div>
+
             <div>
               <Label htmlFor="email_default_from">Default From Address</Label>
               <Input
@@ -242,6 +312,103 @@ export function GlobalSettings() {
         </CardContent>
       </Card>
 
+      {/* Notification Channels */}
+      <NotificationChannels />
+
+      {/* Scheduler */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <i className="fas fa-clock mr-2 text-orange-500" />
+            Scheduler
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSchedulerSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="scheduler_catch_up_policy">Missed Trigger Policy</Label>
+              <Select value={catchUpPolicy} onValueChange={setCatchUpPolicy}>
+                <SelectTrigger id="scheduler_catch_up_policy" data-testid="select-catch-up-policy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {catchUpPolicies.map(policy => (
+                    <SelectItem key={policy} value={policy}>
+                      {catchUpPolicyLabels[policy]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Applies to scheduled steps that came due while the server was down
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="acknowledgement_window_minutes">Acknowledgement Window (minutes)</Label>
+                <Input
+                  id="acknowledgement_window_minutes"
+                  type="number"
+                  step={1}
+                  min={1}
+                  value={acknowledgementMinutes}
+                  onChange={(e) => setAcknowledgementMinutes(e.target.value)}
+                  required
+                  data-testid="input-acknowledgement-window"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  A triggered step not acknowledged by its POC in time is handed to the backup POC
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="sla_pickup_minutes">Pickup Window (minutes)</Label>
+                <Input
+                  id="sla_pickup_minutes"
+                  type="number"
+                  step={1}
+                  min={1}
+                  value={slaPickupMinutes}
+                  onChange={(e) => setSlaPickupMinutes(e.target.value)}
+                  required
+                  data-testid="input-sla-pickup-minutes"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  A fixed-time step not picked up this long after it is triggered is overdue
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="sla_escalation_interval_minutes">Escalation Interval (minutes)</Label>
+                <Input
+                  id="sla_escalation_interval_minutes"
+                  type="number"
+                  step={1}
+                  min={1}
+                  value={slaEscalationMinutes}
+                  onChange={(e) => setSlaEscalationMinutes(e.target.value)}
+                  required
+                  data-testid="input-sla-escalation-interval"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Overdue steps escalate from the primary POC to the backup POC, team lead and release managers
+                </p>
+              </div>
+            </div>
+
+            <div className="flex justify-end pt-4 border-t border-border">
+              <Button
+                type="submit"
+                disabled={saveSettingsMutation.isPending}
+                data-testid="button-save-scheduler-settings"
+              >
+                <i className="fas fa-save mr-2" />
+                Save Scheduler Settings
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
       {/* System Information */}
       <Card>
         <CardHeader>
@@ -253,9 +420,9 @@ export function GlobalSettings() {
         <CardContent className="space-y-4">
           <div className="grid grid-cols-2 gap-4 text-sm">
             <div>
-              <span className="font-medium text-foreground">Email Service:</span>
+              <span className="font-medium text-foreground">Delivery:</span>
               <span className="text-muted-foreground ml-2">
-                {import.meta.env.VITE_EMAIL_PROVIDER || "SendGrid"}
+                Notification channels
               </span>
             </div>
             <div>
@@ -282,23 +449,7 @@ export function GlobalSettings() {
       </Card>
 
       {/* Notification Templates */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center">
-            <i className="fas fa-template mr-2 text-purple-500" />
-            Notification Templates
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="text-center py-8 text-muted-foreground">
-            <i className="fas fa-envelope-open-text text-4xl mb-4" />
-            <p className="text-sm">Email template customization coming soon...</p>
-            <p className="text-xs mt-2">
-              Currently using default system templates for all notifications
-            </p>
-          </div>
-        </CardContent>
-      </Card>
+      <NotificationTemplates />
     </div>
   );
 }
@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { NotificationChannelModal } from "@/components/modals/notification-channel-modal";
+import type { GlobalSetting } from "@shared/schema";
+import {
+  NOTIFICATION_CHANNELS_SETTING,
+  notificationChannelTypeLabels,
+  notificationEventLabels,
+  parseNotificationChannels,
+  type NotificationChannelConfig,
+} from "@shared/notificationChannels";
+
+function readChannels(settings: GlobalSetting[]): { channels: NotificationChannelConfig[]; invalid: boolean } {
+  const value = settings.find(setting => setting.key === NOTIFICATION_CHANNELS_SETTING)?.value;
+  try {
+    return { channels: parseNotificationChannels(value), invalid: false };
+  } catch {
+    return { channels: [], invalid: true };
+  }
+}
+
+export function NotificationChannels() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [isChannelModalOpen, setIsChannelModalOpen] = useState(false);
+  const [selectedChannel, setSelectedChannel] = useState<NotificationChannelConfig | null>(null);
+
+  const { data: settings = [] } = useQuery<GlobalSetting[]>({
+    queryKey: ["/api/settings"],
+  });
+  const { channels, invalid } = readChannels(settings);
+  const isConfigured = settings.some(setting => setting.key === NOTIFICATION_CHANNELS_SETTING);
+
+  // The whole list is saved as one setting
+  const saveChannelsMutation = useMutation({
+    mutationFn: async (updated: NotificationChannelConfig[]) => {
+      return await apiRequest("POST", "/api/settings", {
+        key: NOTIFICATION_CHANNELS_SETTING,
+        value: JSON.stringify(updated),
+        description: "Channels notifications are delivered through",
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({ title: "Channels Saved", description: "Notification channels have been updated." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save notification channels",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const testChannelMutation = useMutation({
+    mutationFn: async (channel: NotificationChannelConfig) => {
+      return await apiRequest("POST", `/api/settings/notification-channels/${channel.id}/test`);
+    },
+    onSuccess: (_, channel) => {
+      toast({ title: "Test Sent", description: `A test notification was sent through ${channel.name}.` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Test Failed",
+        description: error.message || "Failed to send test notification",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveChannel = (channel: NotificationChannelConfig) => {
+    const exists = channels.some(c => c.id === channel.id);
+    saveChannelsMutation.mutate(exists
+      ? channels.map(c => (c.id === channel.id ? channel : c))
+      : [...channels, channel]);
+  };
+
+  const toggleChannel = (channel: NotificationChannelConfig, enabled: boolean) => {
+    saveChannelsMutation.mutate(channels.map(c => (c.id === channel.id ? { ...c, enabled } : c)));
+  };
+
+  const deleteChannel = (channel: NotificationChannelConfig) => {
+    if (window.confirm(`Remove the ${channel.name} channel?`)) {
+      saveChannelsMutation.mutate(channels.filter(c => c.id !== channel.id));
+    }
+  };
+
+  const openChannelModal = (channel: NotificationChannelConfig | null) => {
+    setSelectedChannel(channel);
+    setIsChannelModalOpen(true);
+  };
+
+  return (
+    <>
+      <Card data-testid="notification-channels">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center">
+            <i className="fas fa-bullhorn mr-2 text-green-600" />
+            Notification Channels
+          </CardTitle>
+          <Button onClick={() => openChannelModal(null)} data-testid="button-add-channel">
+            <i className="fas fa-plus mr-2" />
+            Add Channel
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {invalid && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-800">
+              <i className="fas fa-exclamation-triangle mr-2" />
+              The saved channel configuration is invalid, so no notifications are being sent. Adding a channel replaces it.
+            </div>
+          )}
+
+          {channels.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              {isConfigured
+                ? "No channels configured; notifications are not being sent."
+                : "No channels configured; notifications go through Gmail when GMAIL_USER and GMAIL_APP_PASSWORD are set."}
+            </p>
+          ) : (
+            channels.map(channel => (
+              <div
+                key={channel.id}
+                className="flex items-center justify-between p-3 border border-border rounded-lg"
+                data-testid={`channel-${channel.id}`}
+              >
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-foreground">{channel.name}</span>
+                    <Badge variant="outline">{notificationChannelTypeLabels[channel.type]}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {channel.events.length === 0
+                      ? "All events"
+                      : channel.events.map(event => notificationEventLabels[event]).join(", ")}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    checked={channel.enabled}
+                    onCheckedChange={(checked) => toggleChannel(channel, checked)}
+                    disabled={saveChannelsMutation.isPending}
+                    data-testid={`switch-channel-${channel.id}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => testChannelMutation.mutate(channel)}
+                    disabled={testChannelMutation.isPending}
+                    data-testid={`button-test-channel-${channel.id}`}
+                  >
+                    Test
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => openChannelModal(channel)}
+                    data-testid={`button-edit-channel-${channel.id}`}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => deleteChannel(channel)}
+                    disabled={saveChannelsMutation.isPending}
+                    data-testid={`button-delete-channel-${channel.id}`}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <NotificationChannelModal
+        isOpen={isChannelModalOpen}
+        onClose={() => setIsChannelModalOpen(false)}
+        channel={selectedChannel}
+        onSave={saveChannel}
+      />
+    </>
+  );
+}
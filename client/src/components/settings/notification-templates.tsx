@@ -0,0 +1,301 @@
+import { useState, useEffect, useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { GlobalSetting, NotificationTemplate } from "@shared/schema";
+import { notificationEventLabels, notificationEvents, type NotificationEvent } from "@shared/notificationChannels";
+import {
+  DEFAULT_PRODUCT_NAME,
+  PRODUCT_NAME_SETTING,
+  defaultNotificationTemplates,
+  notificationTemplateSamples,
+  notificationTemplateVariables,
+  renderNotificationTemplate,
+  validateNotificationTemplate,
+  type NotificationTemplateContent,
+  type NotificationTemplateVariable,
+} from "@shared/notificationTemplates";
+
+type ActiveTemplate = NotificationTemplateContent & {
+  event: NotificationEvent;
+  version: number;
+  isDefault: boolean;
+};
+
+const DEFAULT_VERSION = "default";
+
+// Flattens the variable tree into the tags a template can use
+function describeVariables(variables: NotificationTemplateVariable[], prefix = "", depth = 0): Array<{ tag: string; description: string; depth: number }> {
+  return variables.flatMap(variable => {
+    const path = `${prefix}${variable.name}`;
+    if (variable.list) {
+      return [
+        { tag: `{{#each ${path}}} … {{/each}}`, description: variable.description, depth },
+        ...describeVariables(variable.fields || [], "", depth + 1),
+      ];
+    }
+    if (variable.fields) return describeVariables(variable.fields, `${path}.`, depth);
+    return [{ tag: `{{${path}}}`, description: variable.description, depth }];
+  });
+}
+
+export function NotificationTemplates() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [event, setEvent] = useState<NotificationEvent>(notificationEvents[0]);
+  const [draft, setDraft] = useState<NotificationTemplateContent>(defaultNotificationTemplates[event]);
+
+  const { data: templates = [], isLoading } = useQuery<ActiveTemplate[]>({
+    queryKey: ["/api/notification-templates"],
+  });
+
+  const { data: versions = [] } = useQuery<NotificationTemplate[]>({
+    queryKey: ["/api/notification-templates", event, "versions"],
+  });
+
+  const { data: settings = [] } = useQuery<GlobalSetting[]>({
+    queryKey: ["/api/settings"],
+  });
+  const productName = settings.find(setting => setting.key === PRODUCT_NAME_SETTING)?.value || DEFAULT_PRODUCT_NAME;
+
+  const active = templates.find(template => template.event === event);
+
+  // Switching events, or a save, loads the template in use
+  useEffect(() => {
+    if (!active) return;
+    setDraft({ subject: active.subject, html: active.html, text: active.text });
+  }, [active?.event, active?.version]);
+
+  const errors = useMemo(() => validateNotificationTemplate(event, draft), [event, draft]);
+
+  const preview = useMemo(() => {
+    if (errors.length > 0) return null;
+    return renderNotificationTemplate(draft, { ...notificationTemplateSamples[event], productName });
+  }, [event, draft, errors, productName]);
+
+  const isChanged = !active || draft.subject !== active.subject || draft.html !== active.html || draft.text !== active.text;
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", `/api/notification-templates/${event}`, draft);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notification-templates"] });
+      toast({ title: "Template Saved", description: `A new version of the ${notificationEventLabels[event]} template is now in use.` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save notification template",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/notification-templates/${event}/test`, draft);
+    },
+    onSuccess: () => {
+      toast({ title: "Test Sent", description: "The template was sent to you with sample data." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Test Failed",
+        description: error.message || "Failed to send test notification",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Older versions are loaded into the editor; saving them makes a new version
+  const loadVersion = (value: string) => {
+    if (value === DEFAULT_VERSION) {
+      setDraft(defaultNotificationTemplates[event]);
+      return;
+    }
+    const version = versions.find(candidate => String(candidate.version) === value);
+    if (version) setDraft({ subject: version.subject, html: version.html, text: version.text });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  return (
+    <Card data-testid="notification-templates">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <i className="fas fa-envelope-open-text mr-2 text-purple-500" />
+          Notification Templates
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="animate-pulse h-64 bg-muted rounded" />
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="template-event">Notification</Label>
+                <Select value={event} onValueChange={(value) => setEvent(value as NotificationEvent)}>
+                  <SelectTrigger id="template-event" data-testid="select-template-event">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {notificationEvents.map(value => (
+                      <SelectItem key={value} value={value}>{notificationEventLabels[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="text-xs text-muted-foreground mt-1">
+                  In use:{" "}
+                  <Badge variant="outline">{active && !active.isDefault ? `Version ${active.version}` : "Built-in default"}</Badge>
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="template-version">Load Version</Label>
+                <Select value="" onValueChange={loadVersion}>
+                  <SelectTrigger id="template-version" data-testid="select-template-version">
+                    <SelectValue placeholder="Load a previous version into the editor" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map(version => (
+                      <SelectItem key={version.id} value={String(version.version)}>
+                        Version {version.version}
+                        {version.createdAt ? ` — ${new Date(version.createdAt).toLocaleString()}` : ""}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value={DEFAULT_VERSION}>Built-in default</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Editor */}
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="template-subject">Subject</Label>
+                  <Input
+                    id="template-subject"
+                    value={draft.subject}
+                    onChange={(e) => setDraft(prev => ({ ...prev, subject: e.target.value }))}
+                    data-testid="input-template-subject"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="template-html">HTML Body</Label>
+                  <Textarea
+                    id="template-html"
+                    value={draft.html}
+                    onChange={(e) => setDraft(prev => ({ ...prev, html: e.target.value }))}
+                    rows={14}
+                    className="font-mono text-xs"
+                    data-testid="textarea-template-html"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="template-text">Plain-Text Body</Label>
+                  <Textarea
+                    id="template-text"
+                    value={draft.text}
+                    onChange={(e) => setDraft(prev => ({ ...prev, text: e.target.value }))}
+                    rows={8}
+                    className="font-mono text-xs"
+                    data-testid="textarea-template-text"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Leave empty to generate the plain-text part from the HTML
+                  </p>
+                </div>
+
+                {errors.length > 0 && (
+                  <ul className="text-sm text-destructive space-y-1" data-testid="template-errors">
+                    {errors.map(error => <li key={error}>{error}</li>)}
+                  </ul>
+                )}
+
+                <div className="rounded-lg border border-border p-3">
+                  <h4 className="text-sm font-medium mb-2">Variables</h4>
+                  <ul className="text-xs space-y-1">
+                    {describeVariables(notificationTemplateVariables[event]).map(variable => (
+                      <li key={`${variable.depth}-${variable.tag}`} style={{ paddingLeft: `${variable.depth * 16}px` }}>
+                        <code className="text-primary">{variable.tag}</code>{" "}
+                        <span className="text-muted-foreground">{variable.description}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Values are HTML-escaped. Use {"{{#if name}} … {{else}} … {{/if}}"} for optional parts.
+                  </p>
+                </div>
+              </div>
+
+              {/* Preview */}
+              <div className="space-y-4">
+                <div>
+                  <Label>Preview</Label>
+                  {preview ? (
+                    <div className="rounded-lg border border-border overflow-hidden">
+                      <div className="px-3 py-2 border-b border-border bg-muted text-sm font-medium" data-testid="template-preview-subject">
+                        {preview.subject}
+                      </div>
+                      <iframe
+                        title="Notification preview"
+                        sandbox=""
+                        srcDoc={preview.html}
+                        className="w-full h-96 bg-white"
+                        data-testid="template-preview-html"
+                      />
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground py-8 text-center">Fix the errors to see a preview.</p>
+                  )}
+                </div>
+                {preview && (
+                  <div>
+                    <Label>Plain-Text Preview</Label>
+                    <pre className="rounded-lg border border-border p-3 text-xs whitespace-pre-wrap" data-testid="template-preview-text">
+                      {preview.text || "Generated from the HTML when sent"}
+                    </pre>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="flex justify-between pt-4 border-t border-border">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => testMutation.mutate()}
+                disabled={errors.length > 0 || testMutation.isPending}
+                data-testid="button-test-template"
+              >
+                <i className="fas fa-paper-plane mr-2" />
+                {testMutation.isPending ? "Sending..." : "Send Test to Me"}
+              </Button>
+              <Button
+                type="submit"
+                disabled={errors.length > 0 || !isChanged || saveMutation.isPending}
+                data-testid="button-save-template"
+              >
+                <i className="fas fa-save mr-2" />
+                {saveMutation.isPending ? "Saving..." : "Save as New Version"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -27,6 +27,21 @@ const statusConfig = {
     className: "bg-green-100 text-green-700 border-green-200 hover:bg-green-100",
     icon: "fas fa-check-circle",
   },
+  failed: {
+    label: "Failed",
+    className: "bg-red-100 text-red-700 border-red-200 hover:bg-red-100",
+    icon: "fas fa-exclamation-circle",
+  },
+  blocked: {
+    label: "Blocked",
+    className: "bg-purple-100 text-purple-700 border-purple-200 hover:bg-purple-100",
+    icon: "fas fa-ban",
+  },
+  skipped: {
+    label: "Skipped",
+    className: "bg-slate-100 text-slate-600 border-slate-200 hover:bg-slate-100",
+    icon: "fas fa-forward",
+  },
   planning: {
     label: "Planning",
     className: "bg-purple-100 text-purple-700 border-purple-200 hover:bg-purple-100",
@@ -37,6 +52,11 @@ const statusConfig = {
     className: "bg-blue-100 text-blue-700 border-blue-200 hover:bg-blue-100",
     icon: "fas fa-rocket",
   },
+  at_risk: {
+    label: "At Risk",
+    className: "bg-amber-100 text-amber-800 border-amber-200 hover:bg-amber-100",
+    icon: "fas fa-exclamation-triangle",
+  },
   cancelled: {
     label: "Cancelled",
     className: "bg-red-100 text-red-700 border-red-200 hover:bg-red-100",
@@ -1,37 +1,63 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { StatusBadge } from "@/components/ui/status-badge";
+import { Progress } from "@/components/ui/progress";
 import { cn } from "@/lib/utils";
-import type { ReleaseStep, User } from "@shared/schema";
+import { usePermissions } from "@/hooks/usePermissions";
+import type { ReleasePlan, ReleaseStep, StepChecklistItem, User } from "@shared/schema";
+import { getAllowedStepTransitions, isRecoveryTransition, isStepHalted } from "@shared/stepStatus";
+import { formatRelativeOffset, getEffectiveTriggerTime } from "@shared/stepScheduling";
+import { escalationStageLabels, escalationStages, isAwaitingAcknowledgement, isStepOverdue } from "@shared/stepSla";
+import { getChecklistProgress } from "@shared/stepChecklist";
 
 interface StepCardProps {
   step: ReleaseStep;
   users?: User[];
+  releasePlan?: ReleasePlan | null;
+  planSteps?: ReleaseStep[];
+  checklistItems?: StepChecklistItem[];
   isHighlighted?: boolean;
   onEdit?: (step: ReleaseStep, action?: string) => void;
   onTrigger?: (stepId: string) => void;
+  onAcknowledge?: (stepId: string) => void;
   onViewDetails?: (step: ReleaseStep) => void;
-  userRole?: string;
   className?: string;
 }
 
 export function StepCard({ 
   step, 
   users = [], 
+  releasePlan,
+  planSteps = [],
+  checklistItems = [],
   isHighlighted = false, 
   onEdit, 
   onTrigger, 
+  onAcknowledge,
   onViewDetails,
-  userRole,
   className 
 }: StepCardProps) {
   const teamLead = users.find(u => u.id === step.teamLeadId);
   const primaryPoc = users.find(u => u.id === step.primaryPocId);
   
-  const canTrigger = userRole === "release_manager";
-  const canEdit = userRole === "release_manager";
-  const canReassign = userRole === "team_lead";
-  const canUpdateStatus = userRole === "release_manager" || userRole === "team_lead" || userRole === "poc";
+  const { can } = usePermissions();
+  const canTrigger = can("step.trigger", step);
+  const canEdit = can("step.edit", step);
+  // Release managers reassign through the full edit form
+  const canReassign = can("step.assign_poc", step) && !can("step.assign_team_lead", step);
+  const canUpdateStatus = can("step.update_status", step);
+  const isUnacknowledged = isAwaitingAcknowledgement(step);
+  const canAcknowledge = isUnacknowledged && can("step.acknowledge", step);
+  const hasStatusOptions = getAllowedStepTransitions(step.status).some(
+    status => can("step.recover", step) || !isRecoveryTransition(step.status, status)
+  );
+  const isHalted = isStepHalted(step.status);
+  const isOverdue = isStepOverdue(step);
+  const checklist = getChecklistProgress(checklistItems);
+  const escalatedTo = step.escalationLevel > 0
+    ? escalationStageLabels[escalationStages[Math.min(step.escalationLevel, escalationStages.length) - 1]]
+    : null;
 
   const formatDateTime = (date: Date | string | null) => {
     if (!date) return null;
@@ -45,6 +71,17 @@ export function StepCard({
       return "After previous step";
     } else if (step.schedulingType === "simultaneous") {
       return "With other step";
+    } else if (step.schedulingType === "relative") {
+      const offset = formatRelativeOffset(step.relativeOffsetMinutes ?? 0, step.relativeTo);
+      const triggerTime = getEffectiveTriggerTime(step, releasePlan, planSteps);
+      if (triggerTime) {
+        return `${formatDateTime(triggerTime)} (${offset})`;
+      }
+      if (step.relativeTo === "step_completion") {
+        const anchorStep = planSteps.find(s => s.id === step.relativeToStepId);
+        return `${offset} after ${anchorStep ? `"${anchorStep.name}"` : "another step"} completes`;
+      }
+      return `${offset} from release start`;
     }
     return "Manual trigger";
   };
@@ -54,6 +91,7 @@ export function StepCard({
       className={cn(
         "transition-all duration-200 hover:shadow-lg hover:-translate-y-1",
         isHighlighted && "border-2 border-primary shadow-lg",
+        (isHalted || isOverdue) && "border-destructive/50",
         className
       )}
       data-testid={`step-card-${step.id}`}
@@ -63,7 +101,31 @@ export function StepCard({
           <h4 className="font-medium text-foreground text-sm line-clamp-2" data-testid={`step-name-${step.id}`}>
             {step.name}
           </h4>
-          <StatusBadge status={step.status} />
+          <div className="flex items-center gap-1 shrink-0">
+            {isUnacknowledged && (
+              <Badge
+                variant="outline"
+                className="text-xs"
+                title={`${primaryPoc ? `${primaryPoc.firstName} ${primaryPoc.lastName}` : "The POC"} must acknowledge by ${formatDateTime(step.acknowledgementDueAt)}`}
+                data-testid={`step-unacknowledged-${step.id}`}
+              >
+                <i className="fas fa-hourglass-half mr-1" />
+                Unacknowledged
+              </Badge>
+            )}
+            {isOverdue && (
+              <Badge
+                variant="destructive"
+                className="text-xs"
+                title={`Overdue since ${formatDateTime(step.overdueSince)}${escalatedTo ? `; escalated to ${escalatedTo}` : ""}`}
+                data-testid={`step-overdue-${step.id}`}
+              >
+                <i className="fas fa-clock mr-1" />
+                Overdue
+              </Badge>
+            )}
+            <StatusBadge status={step.status} />
+          </div>
         </div>
 
         {isHighlighted && step.schedulingType === "fixed_time" && (
@@ -106,6 +168,19 @@ export function StepCard({
                 : getTriggerText()}
             </span>
           </div>
+
+          {checklist.total > 0 && (
+            <div
+              title={checklist.openRequired > 0 ? `${checklist.openRequired} required item(s) still open` : "All required items done"}
+              data-testid={`step-checklist-progress-${step.id}`}
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-muted-foreground">Checklist:</span>
+                <span className="text-foreground">{checklist.completed}/{checklist.total}</span>
+              </div>
+              <Progress value={(checklist.completed / checklist.total) * 100} className="h-1.5" />
+            </div>
+          )}
         </div>
 
         <div className="mt-3 pt-3 border-t border-border flex space-x-2">
@@ -131,16 +206,29 @@ export function StepCard({
             </Button>
           )}
 
-          {canUpdateStatus && step.status !== "completed" && (
+          {canAcknowledge && (
             <Button
-              variant="outline"
+              variant="default"
+              size="sm"
+              className="flex-1 text-xs"
+              onClick={() => onAcknowledge?.(step.id)}
+              data-testid={`button-acknowledge-${step.id}`}
+            >
+              <i className="fas fa-check mr-1" />
+              <span>Acknowledge</span>
+            </Button>
+          )}
+
+          {canUpdateStatus && hasStatusOptions && (
+            <Button
+              variant={isHalted ? "destructive" : "outline"}
               size="sm"
               className="flex-1 text-xs"
               onClick={() => onEdit?.(step, "update-status")}
               data-testid={`button-update-status-${step.id}`}
             >
-              <i className="fas fa-tasks mr-1" />
-              <span>Update Status</span>
+              <i className={`fas ${isHalted ? "fa-redo" : "fa-tasks"} mr-1`} />
+              <span>{isHalted ? "Retry / Skip" : "Update Status"}</span>
             </Button>
           )}
 
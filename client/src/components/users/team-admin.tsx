@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { allUsersQueryKey } from "@/lib/realtimeCache";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { TeamModal } from "@/components/modals/team-modal";
+import type { TeamWithMembers, User } from "@shared/schema";
+
+export function TeamAdmin() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [isTeamModalOpen, setIsTeamModalOpen] = useState(false);
+  const [selectedTeam, setSelectedTeam] = useState<TeamWithMembers | null>(null);
+
+  const { data: teams = [], isLoading } = useQuery<TeamWithMembers[]>({
+    queryKey: ["/api/teams"],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: allUsersQueryKey,
+  });
+
+  const deleteTeamMutation = useMutation({
+    mutationFn: async (teamId: string) => {
+      return await apiRequest("DELETE", `/api/teams/${teamId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/teams"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/release-plans"] });
+      toast({ title: "Team Deleted", description: "Its steps no longer have an owning team." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete team",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openTeamModal = (team: TeamWithMembers | null) => {
+    setSelectedTeam(team);
+    setIsTeamModalOpen(true);
+  };
+
+  const handleDelete = (team: TeamWithMembers) => {
+    if (window.confirm(`Delete ${team.name}? Steps it owns will be left without a team.`)) {
+      deleteTeamMutation.mutate(team.id);
+    }
+  };
+
+  const userName = (userId: string | null) => {
+    const user = users.find(u => u.id === userId);
+    return user ? [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email : "—";
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Teams</CardTitle>
+          <Button onClick={() => openTeamModal(null)} data-testid="button-create-team">
+            <i className="fas fa-users mr-2" />
+            Create Team
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="animate-pulse h-32 bg-muted rounded" />
+          ) : teams.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              No teams yet. Create one to give steps an owning team.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Lead</TableHead>
+                  <TableHead>Members</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {teams.map(team => (
+                  <TableRow key={team.id} data-testid={`team-row-${team.id}`}>
+                    <TableCell>
+                      <div className="font-medium">{team.name}</div>
+                      {team.description && (
+                        <div className="text-xs text-muted-foreground">{team.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{userName(team.leadId)}</TableCell>
+                    <TableCell className="text-sm">
+                      {team.memberIds.length === 0 ? "—" : team.memberIds.map(userName).join(", ")}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2 whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openTeamModal(team)}
+                        data-testid={`button-edit-team-${team.id}`}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => handleDelete(team)}
+                        disabled={deleteTeamMutation.isPending}
+                        data-testid={`button-delete-team-${team.id}`}
+                      >
+                        Delete
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <TeamModal
+        isOpen={isTeamModalOpen}
+        onClose={() => setIsTeamModalOpen(false)}
+        team={selectedTeam}
+      />
+    </>
+  );
+}
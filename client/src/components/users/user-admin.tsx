@@ -0,0 +1,280 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import { allUsersQueryKey } from "@/lib/realtimeCache";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { InviteUserModal } from "@/components/modals/invite-user-modal";
+import { userRoleLabels, userRoles } from "@shared/permissions";
+import type { PublicUser } from "@shared/schema";
+
+const ALL = "all";
+
+type UserAction = "deactivate" | "reactivate" | "reset-password";
+
+interface TemporaryPassword {
+  email: string;
+  password: string;
+}
+
+export function UserAdmin() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const queryClient = useQueryClient();
+
+  const [search, setSearch] = useState("");
+  const [role, setRole] = useState(ALL);
+  const [status, setStatus] = useState("active");
+  const [isInviteModalOpen, setIsInviteModalOpen] = useState(false);
+  const [temporaryPassword, setTemporaryPassword] = useState<TemporaryPassword | null>(null);
+
+  const params = new URLSearchParams({ status });
+  if (search.trim()) params.set("search", search.trim());
+  if (role !== ALL) params.set("role", role);
+
+  const { data: users = [], isLoading } = useQuery<PublicUser[]>({
+    queryKey: [`/api/admin/users?${params.toString()}`],
+  });
+
+  const invalidateUsers = () => {
+    queryClient.invalidateQueries({
+      predicate: query => String(query.queryKey[0]).startsWith("/api/admin/users"),
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    queryClient.invalidateQueries({ queryKey: allUsersQueryKey });
+  };
+
+  const changeRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: string }) => {
+      return await apiRequest("PATCH", `/api/admin/users/${userId}`, { role });
+    },
+    onSuccess: () => {
+      invalidateUsers();
+      toast({ title: "Role Updated", description: "The user's role has been changed." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change role",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const userActionMutation = useMutation({
+    mutationFn: async ({ user, action }: { user: PublicUser; action: UserAction }) => {
+      const res = await apiRequest("POST", `/api/admin/users/${user.id}/${action}`);
+      return await res.json();
+    },
+    onSuccess: (result, { user, action }) => {
+      invalidateUsers();
+      if (action === "reset-password") {
+        setTemporaryPassword({ email: user.email, password: result.temporaryPassword });
+        return;
+      }
+      toast({
+        title: action === "deactivate" ? "User Deactivated" : "User Reactivated",
+        description: action === "deactivate"
+          ? `${user.email} can no longer sign in or be assigned to steps.`
+          : `${user.email} can sign in again.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update user",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAction = (user: PublicUser, action: UserAction) => {
+    const confirmations: Record<UserAction, string> = {
+      deactivate: `Deactivate ${user.email}? They will be signed out and stop receiving notifications.`,
+      reactivate: `Reactivate ${user.email}?`,
+      "reset-password": `Reset the password for ${user.email}? Their current password will stop working.`,
+    };
+    if (window.confirm(confirmations[action])) {
+      userActionMutation.mutate({ user, action });
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Users</CardTitle>
+          <Button onClick={() => setIsInviteModalOpen(true)} data-testid="button-invite-user">
+            <i className="fas fa-user-plus mr-2" />
+            Invite User
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Filters */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input
+              placeholder="Search by name or email"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              data-testid="input-user-search"
+            />
+            <Select value={role} onValueChange={setRole}>
+              <SelectTrigger data-testid="select-user-role-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All roles</SelectItem>
+                {userRoles.map(value => (
+                  <SelectItem key={value} value={value}>{userRoleLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger data-testid="select-user-status-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="inactive">Deactivated</SelectItem>
+                <SelectItem value="all">All users</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Users */}
+          {isLoading ? (
+            <div className="animate-pulse h-64 bg-muted rounded" />
+          ) : users.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No users match these filters.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead className="w-48">Role</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map(user => {
+                  const isCurrentUser = user.id === currentUser?.id;
+                  return (
+                    <TableRow key={user.id} data-testid={`user-row-${user.id}`}>
+                      <TableCell className="font-medium">
+                        {[user.firstName, user.lastName].filter(Boolean).join(" ") || "—"}
+                        {isCurrentUser && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                      </TableCell>
+                      <TableCell>{user.email}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={user.role}
+                          onValueChange={(value) => changeRoleMutation.mutate({ userId: user.id, role: value })}
+                          disabled={isCurrentUser || !user.isActive || changeRoleMutation.isPending}
+                        >
+                          <SelectTrigger className="h-8" data-testid={`select-role-${user.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {userRoles.map(value => (
+                              <SelectItem key={value} value={value}>{userRoleLabels[value]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        {user.isActive ? (
+                          <Badge variant="outline">Active</Badge>
+                        ) : (
+                          <Badge variant="secondary">
+                            Deactivated
+                            {user.deactivatedAt && ` ${new Date(user.deactivatedAt).toLocaleDateString()}`}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right space-x-2 whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleAction(user, "reset-password")}
+                          disabled={userActionMutation.isPending}
+                          data-testid={`button-reset-password-${user.id}`}
+                        >
+                          Reset Password
+                        </Button>
+                        {user.isActive ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive hover:text-destructive"
+                            onClick={() => handleAction(user, "deactivate")}
+                            disabled={isCurrentUser || userActionMutation.isPending}
+                            data-testid={`button-deactivate-${user.id}`}
+                          >
+                            Deactivate
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleAction(user, "reactivate")}
+                            disabled={userActionMutation.isPending}
+                            data-testid={`button-reactivate-${user.id}`}
+                          >
+                            Reactivate
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <InviteUserModal
+        isOpen={isInviteModalOpen}
+        onClose={() => setIsInviteModalOpen(false)}
+        onInvited={(user, password) => setTemporaryPassword({ email: user.email, password })}
+      />
+
+      {/* Temporary passwords are only ever shown once */}
+      <Dialog open={!!temporaryPassword} onOpenChange={() => setTemporaryPassword(null)}>
+        <DialogContent className="max-w-md" data-testid="temporary-password-dialog">
+          <DialogHeader>
+            <DialogTitle>Temporary Password</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            The password has been emailed to {temporaryPassword?.email}. Share it another way if email is not set up;
+            it will not be shown again.
+          </p>
+          <code className="block p-3 bg-muted rounded text-sm break-all" data-testid="text-temporary-password">
+            {temporaryPassword?.password}
+          </code>
+          <div className="flex justify-end space-x-3 pt-4 border-t border-border">
+            <Button
+              variant="outline"
+              onClick={() => navigator.clipboard?.writeText(temporaryPassword?.password || "")}
+              data-testid="button-copy-password"
+            >
+              Copy
+            </Button>
+            <Button onClick={() => setTemporaryPassword(null)} data-testid="button-close-password">
+              Done
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
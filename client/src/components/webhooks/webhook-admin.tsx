@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { WebhookModal } from "@/components/modals/webhook-modal";
+import { WebhookDeliveries, webhookDeliveriesQueryKey } from "@/components/webhooks/webhook-deliveries";
+import type { PublicWebhookSubscription, ReleasePlan, WebhookDelivery } from "@shared/schema";
+
+export function WebhookAdmin() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [isWebhookModalOpen, setIsWebhookModalOpen] = useState(false);
+  const [editingWebhook, setEditingWebhook] = useState<PublicWebhookSubscription | null>(null);
+  const [selectedWebhookId, setSelectedWebhookId] = useState<string | null>(null);
+  const [secret, setSecret] = useState<string | null>(null);
+
+  const { data: webhooks = [], isLoading } = useQuery<PublicWebhookSubscription[]>({
+    queryKey: ["/api/webhooks"],
+  });
+
+  const { data: plans = [] } = useQuery<ReleasePlan[]>({
+    queryKey: ["/api/release-plans"],
+  });
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const testMutation = useMutation({
+    mutationFn: async (webhook: PublicWebhookSubscription) => {
+      const res = await apiRequest("POST", `/api/webhooks/${webhook.id}/test`);
+      return await res.json() as WebhookDelivery;
+    },
+    onSuccess: (delivery, webhook) => {
+      setSelectedWebhookId(webhook.id);
+      queryClient.invalidateQueries({ queryKey: webhookDeliveriesQueryKey(webhook.id) });
+      if (delivery.status === "sent") {
+        toast({ title: "Test Event Delivered", description: `${webhook.url} responded with HTTP ${delivery.responseStatus}.` });
+      } else {
+        toast({
+          title: "Test Event Failed",
+          description: delivery.lastError || "The receiver did not accept the test event.",
+          variant: "destructive",
+        });
+      }
+    },
+    onError: onError("Failed to send test event"),
+  });
+
+  const rotateSecretMutation = useMutation({
+    mutationFn: async (webhookId: string) => {
+      const res = await apiRequest("POST", `/api/webhooks/${webhookId}/rotate-secret`);
+      return await res.json() as { secret: string };
+    },
+    onSuccess: (result) => setSecret(result.secret),
+    onError: onError("Failed to rotate secret"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (webhookId: string) => {
+      return await apiRequest("DELETE", `/api/webhooks/${webhookId}`);
+    },
+    onSuccess: (_data, webhookId) => {
+      if (selectedWebhookId === webhookId) setSelectedWebhookId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      toast({ title: "Webhook Deleted", description: "It will not receive any more events." });
+    },
+    onError: onError("Failed to delete webhook"),
+  });
+
+  const handleRotateSecret = (webhook: PublicWebhookSubscription) => {
+    if (window.confirm(`Rotate the secret for ${webhook.name}? Signatures made with the current secret will stop verifying.`)) {
+      rotateSecretMutation.mutate(webhook.id);
+    }
+  };
+
+  const handleDelete = (webhook: PublicWebhookSubscription) => {
+    if (window.confirm(`Delete ${webhook.name}? Its delivery history will be deleted too.`)) {
+      deleteMutation.mutate(webhook.id);
+    }
+  };
+
+  const openWebhookModal = (webhook: PublicWebhookSubscription | null) => {
+    setEditingWebhook(webhook);
+    setIsWebhookModalOpen(true);
+  };
+
+  const getPlanName = (releasePlanId: string | null) => {
+    if (!releasePlanId) return "All plans";
+    return plans.find(plan => plan.id === releasePlanId)?.name || "Unknown plan";
+  };
+
+  const selectedWebhook = webhooks.find(webhook => webhook.id === selectedWebhookId);
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Subscriptions</CardTitle>
+          <Button onClick={() => openWebhookModal(null)} data-testid="button-add-webhook">
+            <i className="fas fa-plus mr-2" />
+            Add Webhook
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="animate-pulse h-32 bg-muted rounded" />
+          ) : webhooks.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No webhooks yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Plan</TableHead>
+                  <TableHead>Events</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {webhooks.map(webhook => (
+                  <TableRow key={webhook.id} data-testid={`webhook-row-${webhook.id}`}>
+                    <TableCell>
+                      <div className="font-medium">{webhook.name}</div>
+                      <div className="text-xs text-muted-foreground break-all">{webhook.url}</div>
+                    </TableCell>
+                    <TableCell>{getPlanName(webhook.releasePlanId)}</TableCell>
+                    <TableCell>{webhook.eventTypes.length}</TableCell>
+                    <TableCell>
+                      <Badge variant={webhook.isActive ? "outline" : "secondary"}>
+                        {webhook.isActive ? "Active" : "Disabled"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right space-x-2 whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => testMutation.mutate(webhook)}
+                        disabled={testMutation.isPending}
+                        data-testid={`button-test-webhook-${webhook.id}`}
+                      >
+                        Send Test
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setSelectedWebhookId(selectedWebhookId === webhook.id ? null : webhook.id)}
+                        data-testid={`button-webhook-deliveries-${webhook.id}`}
+                      >
+                        Deliveries
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openWebhookModal(webhook)}
+                        data-testid={`button-edit-webhook-${webhook.id}`}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRotateSecret(webhook)}
+                        disabled={rotateSecretMutation.isPending}
+                        data-testid={`button-rotate-webhook-secret-${webhook.id}`}
+                      >
+                        Rotate Secret
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => handleDelete(webhook)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-webhook-${webhook.id}`}
+                      >
+                        Delete
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedWebhook && <WebhookDeliveries webhook={selectedWebhook} />}
+
+      <WebhookModal
+        isOpen={isWebhookModalOpen}
+        onClose={() => setIsWebhookModalOpen(false)}
+        webhook={editingWebhook}
+        onCreated={setSecret}
+      />
+
+      {/* Secrets are only ever shown once */}
+      <Dialog open={!!secret} onOpenChange={() => setSecret(null)}>
+        <DialogContent className="max-w-md" data-testid="webhook-secret-dialog">
+          <DialogHeader>
+            <DialogTitle>Signing Secret</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Each delivery carries an <code>X-IPlan-Signature</code> header: <code>sha256=</code> followed by the
+            HMAC-SHA256 of the request body with this secret. Copy it now; it will not be shown again.
+          </p>
+          <code className="block p-3 bg-muted rounded text-sm break-all" data-testid="text-webhook-secret">
+            {secret}
+          </code>
+          <div className="flex justify-end space-x-3 pt-4 border-t border-border">
+            <Button
+              variant="outline"
+              onClick={() => navigator.clipboard?.writeText(secret || "")}
+              data-testid="button-copy-webhook-secret"
+            >
+              Copy
+            </Button>
+            <Button onClick={() => setSecret(null)} data-testid="button-close-webhook-secret">
+              Done
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  formatWebhookEventType,
+  webhookDeliveryStatusLabels,
+  type WebhookDeliveryStatus,
+} from "@shared/webhooks";
+import type { PublicWebhookSubscription, WebhookDelivery } from "@shared/schema";
+
+const statusVariants: Record<WebhookDeliveryStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "secondary",
+  sending: "secondary",
+  sent: "outline",
+  dead: "destructive",
+};
+
+export function webhookDeliveriesQueryKey(webhookId: string) {
+  return ["/api/webhooks", webhookId, "deliveries"];
+}
+
+interface WebhookDeliveriesProps {
+  webhook: PublicWebhookSubscription;
+}
+
+export function WebhookDeliveries({ webhook }: WebhookDeliveriesProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const queryKey = webhookDeliveriesQueryKey(webhook.id);
+
+  const { data: deliveries = [], isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey,
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (deliveryId: string) => {
+      return await apiRequest("POST", `/api/webhook-deliveries/${deliveryId}/redeliver`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Redelivery Queued", description: "The event will be sent again shortly." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to redeliver event",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card data-testid={`webhook-deliveries-${webhook.id}`}>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Recent Deliveries: {webhook.name}</CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => queryClient.invalidateQueries({ queryKey })}
+          data-testid="button-refresh-deliveries"
+        >
+          <i className="fas fa-sync-alt mr-2" />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="animate-pulse h-32 bg-muted rounded" />
+        ) : deliveries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Nothing has been sent to this webhook yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-44">Queued</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map(delivery => {
+                const status = delivery.status as WebhookDeliveryStatus;
+                return (
+                  <TableRow key={delivery.id} data-testid={`webhook-delivery-${delivery.id}`}>
+                    <TableCell className="text-xs text-muted-foreground whitespace-nowrap align-top">
+                      {delivery.createdAt ? new Date(delivery.createdAt).toLocaleString() : "—"}
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <div className="font-medium">
+                        {formatWebhookEventType(delivery.eventType)}
+                        {delivery.isTest && <Badge variant="outline" className="ml-2">Test</Badge>}
+                        {delivery.redeliveryOf && <Badge variant="outline" className="ml-2">Redelivery</Badge>}
+                      </div>
+                      <button
+                        type="button"
+                        className="text-xs text-muted-foreground underline"
+                        onClick={() => setExpanded(expanded === delivery.id ? null : delivery.id)}
+                        data-testid={`button-webhook-payload-${delivery.id}`}
+                      >
+                        {expanded === delivery.id ? "Hide payload" : "Show payload"}
+                      </button>
+                      {expanded === delivery.id && (
+                        <pre className="mt-2 max-h-64 overflow-auto rounded bg-muted p-2 text-xs">
+                          {JSON.stringify(delivery.payload.data, null, 2)}
+                        </pre>
+                      )}
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <Badge variant={statusVariants[status] || "outline"}>
+                        {webhookDeliveryStatusLabels[status] || delivery.status}
+                      </Badge>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {delivery.attempts} attempt{delivery.attempts === 1 ? "" : "s"}
+                        {delivery.responseStatus !== null && <> · HTTP {delivery.responseStatus}</>}
+                        {status === "pending" && delivery.attempts > 0 && (
+                          <> · retrying {new Date(delivery.nextAttemptAt).toLocaleTimeString()}</>
+                        )}
+                        {status === "sent" && delivery.deliveredAt && (
+                          <> · {new Date(delivery.deliveredAt).toLocaleString()}</>
+                        )}
+                      </div>
+                      {delivery.lastError && (
+                        <div className="text-xs text-destructive mt-1 break-all">{delivery.lastError}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right align-top">
+                      {(status === "sent" || status === "dead") && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => redeliverMutation.mutate(delivery.id)}
+                          disabled={redeliverMutation.isPending}
+                          data-testid={`button-redeliver-${delivery.id}`}
+                        >
+                          <i className="fas fa-redo mr-2" />
+                          Redeliver
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
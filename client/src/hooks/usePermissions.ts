@@ -0,0 +1,16 @@
+import { useCallback } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { can as canUser, type Permission, type StepPermissionScope } from "@shared/permissions";
+
+// The shared access policy applied to the signed-in user. Pass the step for
+// step permissions, since team leads and POCs only hold those on their own steps.
+export function usePermissions() {
+  const { user } = useAuth();
+
+  const can = useCallback(
+    (permission: Permission, step?: StepPermissionScope | null) => canUser(user, permission, step),
+    [user],
+  );
+
+  return { can };
+}
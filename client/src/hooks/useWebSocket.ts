@@ -1,29 +1,179 @@
 import { useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { applyRealtimeEvent } from '@/lib/realtimeCache';
+import type { ClientMessage } from '@shared/realtime';
+import {
+  isRealtimeEvent,
+  parseServerMessage,
+  type RealtimeEventType,
+  type ServerMessage,
+} from '@shared/realtimeEvents';
 
-interface WebSocketMessage {
-  type: string;
-  data?: any;
-  message?: string;
+type MessageListener = (message: ServerMessage) => void;
+
+// Components subscribe here so they share the single app-wide connection
+const messageListeners = new Set<MessageListener>();
+
+// The server only sends updates for subscribed topics. Counted per topic so
+// two components watching the same plan do not unsubscribe each other.
+const topicCounts = new Map<string, number>();
+let activeSocket: WebSocket | null = null;
+// Sequence numbers come from one counter shared by every server instance,
+// but events relayed between instances can arrive out of order. Every event
+// up to lowWaterSeq has been handled; seenSeqs holds the ones above it, with
+// when they arrived.
+let lowWaterSeq: number | null = null;
+const seenSeqs = new Map<number, number>();
+// A gap below an event that arrived is either an event still on its way or
+// one for a topic this page does not watch; after this long it is taken to
+// be the latter
+const GAP_SETTLE_MS = 10000;
+
+// Events from a newer protocol version cannot be trusted, so the cache is
+// refetched instead, at most this often
+const REFETCH_THROTTLE_MS = 5000;
+let refetchTimeout: ReturnType<typeof setTimeout> | null = null;
+
+function advanceLowWater(seq: number) {
+  if (lowWaterSeq !== null && seq <= lowWaterSeq) return;
+  lowWaterSeq = seq;
+  Array.from(seenSeqs.keys()).forEach(seen => {
+    if (seen <= seq) seenSeqs.delete(seen);
+  });
+}
+
+// Moves the low-water mark over the events that arrived in order and over
+// gaps that have settled
+function settleSeqs(now = Date.now()) {
+  while (lowWaterSeq !== null && seenSeqs.size > 0) {
+    const next = Math.min(...Array.from(seenSeqs.keys()));
+    if (next !== lowWaterSeq + 1 && now - seenSeqs.get(next)! < GAP_SETTLE_MS) return;
+    seenSeqs.delete(next);
+    lowWaterSeq = next;
+  }
+}
+
+// False when the event was already handled, live or in a replay
+function markSeen(seq: number): boolean {
+  if ((lowWaterSeq !== null && seq <= lowWaterSeq) || seenSeqs.has(seq)) return false;
+  seenSeqs.set(seq, Date.now());
+  settleSeqs();
+  return true;
+}
+
+function sendClientMessage(message: ClientMessage) {
+  if (activeSocket?.readyState === WebSocket.OPEN) {
+    activeSocket.send(JSON.stringify(message));
+  }
+}
+
+function sendSubscription(type: "subscribe" | "unsubscribe", topics: string[]) {
+  if (topics.length > 0) sendClientMessage({ type, topics });
+}
+
+export function useRealtimeTopics(topics: (string | null | undefined)[]) {
+  const key = topics.filter(Boolean).sort().join(",");
+
+  useEffect(() => {
+    const wanted = key ? key.split(",") : [];
+    const added = wanted.filter(topic => !topicCounts.has(topic));
+    wanted.forEach(topic => topicCounts.set(topic, (topicCounts.get(topic) || 0) + 1));
+    sendSubscription("subscribe", added);
+
+    return () => {
+      const removed = wanted.filter(topic => {
+        const count = (topicCounts.get(topic) || 1) - 1;
+        if (count > 0) {
+          topicCounts.set(topic, count);
+          return false;
+        }
+        topicCounts.delete(topic);
+        return true;
+      });
+      sendSubscription("unsubscribe", removed);
+    };
+  }, [key]);
+}
+
+export function useWebSocketMessages(listener: MessageListener) {
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => {
+    const forward: MessageListener = (message) => listenerRef.current(message);
+    messageListeners.add(forward);
+    return () => {
+      messageListeners.delete(forward);
+    };
+  }, []);
+}
+
+// Calls the handler for the given broadcast types, with their payloads typed
+export function useReleaseEvents<T extends RealtimeEventType>(
+  types: T | T[],
+  handler: (event: ServerMessage<T>) => void,
+) {
+  const typeList: string[] = Array.isArray(types) ? types : [types];
+  useWebSocketMessages((message) => {
+    if (typeList.includes(message.type)) handler(message as ServerMessage<T>);
+  });
 }
 
 export function useWebSocket() {
   const [isConnected, setIsConnected] = useState(false);
-  const [lastMessage, setLastMessage] = useState<WebSocketMessage | null>(null);
+  const [lastMessage, setLastMessage] = useState<ServerMessage | null>(null);
   const wsRef = useRef<WebSocket | null>(null);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
+  const { user, isAuthenticated } = useAuth();
+  // Read from the long-lived socket handler, so kept in a ref
+  const currentUserIdRef = useRef<string | undefined>();
+  currentUserIdRef.current = user?.id;
+  const unsupportedNoticeShownRef = useRef(false);
+
+  // Plan list changes and completions are wanted on every page
+  useRealtimeTopics(["release_plans", "directory"]);
+
+  const handleUnsupportedVersion = () => {
+    if (!unsupportedNoticeShownRef.current) {
+      unsupportedNoticeShownRef.current = true;
+      toast({
+        title: "New Version Available",
+        description: "Reload the page to get live updates again. Until then the dashboard refreshes itself.",
+      });
+    }
+    if (!refetchTimeout) {
+      refetchTimeout = setTimeout(() => {
+        refetchTimeout = null;
+        queryClient.invalidateQueries();
+      }, REFETCH_THROTTLE_MS);
+    }
+  };
 
   const connect = () => {
     try {
       const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
       const wsUrl = `${protocol}//${window.location.host}/ws`;
       
-      wsRef.current = new WebSocket(wsUrl);
+      const ws = new WebSocket(wsUrl);
+      wsRef.current = ws;
+      activeSocket = ws;
 
       wsRef.current.onopen = () => {
         console.log('WebSocket connected');
         setIsConnected(true);
+        // A new connection starts with no subscriptions, then catches up on
+        // whatever was broadcast while disconnected. It resumes from below
+        // any gap that has not settled, so a late event is replayed rather
+        // than lost; the events above it are skipped as duplicates.
+        sendSubscription("subscribe", Array.from(topicCounts.keys()));
+        settleSeqs();
+        if (lowWaterSeq !== null) {
+          sendClientMessage({ type: "resume", lastSeq: lowWaterSeq });
+        }
         
         // Clear any existing reconnect timeout
         if (reconnectTimeoutRef.current) {
@@ -33,8 +183,39 @@ export function useWebSocket() {
 
       wsRef.current.onmessage = (event) => {
         try {
-          const message: WebSocketMessage = JSON.parse(event.data);
+          const parsed = parseServerMessage(JSON.parse(event.data));
+          // A replay can overlap with events that arrived live
+          if (typeof parsed.seq === "number" && !markSeen(parsed.seq)) return;
+
+          if (parsed.status === "unsupported") {
+            handleUnsupportedVersion();
+            return;
+          }
+          // Types added after this client was built are skipped
+          if (parsed.status === "ignored") return;
+
+          const message = parsed.message;
+          if (message.type === "connected" && lowWaterSeq === null) {
+            advanceLowWater(message.data.seq);
+          }
+          // Every watched event up to here has now been sent
+          if (message.type === "replayed") {
+            advanceLowWater(message.data.seq);
+          }
+          // Too much was missed to replay, so everything is fetched again
+          if (message.type === "resync") {
+            lowWaterSeq = message.data.seq;
+            seenSeqs.clear();
+            queryClient.invalidateQueries();
+          }
+          if (isRealtimeEvent(message)) {
+            applyRealtimeEvent(queryClient, message);
+          }
+
           setLastMessage(message);
+          messageListeners.forEach((listener) => listener(message));
+          // Catching up should not replay a burst of old toasts
+          if (message.replayed) return;
           
           // Handle different message types
           switch (message.type) {
@@ -42,21 +223,56 @@ export function useWebSocket() {
             case 'step_triggered':
               toast({
                 title: "Step Updated",
-                description: `Step "${message.data?.name}" has been updated`,
+                description: `Step "${message.data.name}" has been updated`,
               });
               break;
             
+            case 'step_failover':
+              toast({
+                title: "Handed to Backup POC",
+                description: `Step "${message.data.step.name}" was not acknowledged in time and moved to its backup POC`,
+              });
+              break;
+
+            case 'comment_created':
+              // Only the people mentioned hear about a new comment
+              if (currentUserIdRef.current && message.data.mentionedUserIds.includes(currentUserIdRef.current)) {
+                toast({
+                  title: "You Were Mentioned",
+                  description: "Someone mentioned you in a comment",
+                });
+              }
+              break;
+
+            case 'release_gate_decided':
+              toast({
+                title: message.data.status === "approved" ? "Gate Approved" : "Gate Rejected",
+                description: message.data.status === "approved"
+                  ? `"${message.data.name}" is a Go; the steps it held back can now trigger`
+                  : `"${message.data.name}" is a No-Go; the steps it holds back stay on hold`,
+                variant: message.data.status === "approved" ? "default" : "destructive",
+              });
+              break;
+
+            case 'step_overdue':
+              toast({
+                title: "Step Overdue",
+                description: `Step "${message.data.step.name}" is ${message.data.reason}`,
+                variant: "destructive",
+              });
+              break;
+
             case 'release_completed':
               toast({
                 title: "Release Completed! 🎉",
-                description: `Release ${message.data?.name} ${message.data?.version} has been completed`,
+                description: `Release ${message.data.name} ${message.data.version} has been completed`,
               });
               break;
             
             case 'step_created':
               toast({
                 title: "New Step Added",
-                description: `Step "${message.data?.name}" has been added`,
+                description: `Step "${message.data.name}" has been added`,
               });
               break;
           }
@@ -68,6 +284,9 @@ export function useWebSocket() {
       wsRef.current.onclose = () => {
         console.log('WebSocket disconnected');
         setIsConnected(false);
+        if (activeSocket === ws) activeSocket = null;
+        // Closed on purpose, e.g. after logging out
+        if (wsRef.current !== ws) return;
         
         // Attempt to reconnect after 3 seconds
         reconnectTimeoutRef.current = setTimeout(() => {
@@ -87,7 +306,9 @@ export function useWebSocket() {
     }
   };
 
+  // Only logged-in users can open the socket
   useEffect(() => {
+    if (!isAuthenticated) return;
     connect();
 
     return () => {
@@ -96,12 +317,14 @@ export function useWebSocket() {
       }
       
       if (wsRef.current) {
-        wsRef.current.close();
+        const ws = wsRef.current;
+        wsRef.current = null;
+        ws.close();
       }
     };
-  }, []);
+  }, [isAuthenticated]);
 
-  const sendMessage = (message: WebSocketMessage) => {
+  const sendMessage = (message: ClientMessage) => {
     if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
       wsRef.current.send(JSON.stringify(message));
     }
@@ -0,0 +1,184 @@
+import { Fragment, type ReactNode } from "react";
+import { splitMentions } from "@shared/comments";
+
+// A small Markdown subset for comments: paragraphs, line breaks, headings,
+// bullet and numbered lists, quotes, fenced code, inline code, bold, italic,
+// links and @mentions. Everything becomes React elements, so comment text is
+// never injected as HTML.
+
+type Block =
+  | { type: "paragraph"; lines: string[] }
+  | { type: "heading"; level: number; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "quote"; lines: string[] }
+  | { type: "code"; text: string };
+
+const SAFE_LINK = /^(https?:\/\/|mailto:)/i;
+
+function parseBlocks(source: string): Block[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (line.trim() === "") {
+      index++;
+      continue;
+    }
+
+    if (line.trimStart().startsWith("```")) {
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].trimStart().startsWith("```")) {
+        code.push(lines[index]);
+        index++;
+      }
+      index++;
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, text: heading[2] });
+      index++;
+      continue;
+    }
+
+    const listItem = /^\s*([-*]|\d+[.)])\s+/;
+    const listMatch = line.match(listItem);
+    if (listMatch) {
+      const ordered = /\d/.test(listMatch[1]);
+      const items: string[] = [];
+      while (index < lines.length && listItem.test(lines[index])) {
+        items.push(lines[index].replace(listItem, ""));
+        index++;
+      }
+      blocks.push({ type: "list", ordered, items });
+      continue;
+    }
+
+    if (line.startsWith(">")) {
+      const quote: string[] = [];
+      while (index < lines.length && lines[index].startsWith(">")) {
+        quote.push(lines[index].replace(/^>\s?/, ""));
+        index++;
+      }
+      blocks.push({ type: "quote", lines: quote });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      index < lines.length &&
+      lines[index].trim() !== "" &&
+      !lines[index].trimStart().startsWith("```") &&
+      !/^(#{1,3})\s/.test(lines[index]) &&
+      !listItem.test(lines[index]) &&
+      !lines[index].startsWith(">")
+    ) {
+      paragraph.push(lines[index]);
+      index++;
+    }
+    blocks.push({ type: "paragraph", lines: paragraph });
+  }
+
+  return blocks;
+}
+
+// Code spans first so their contents are left alone, then links, bold and italic
+const INLINE_PATTERN = /(`[^`\n]+`)|\[([^\]\n]+)\]\(([^)\s]+)\)|\*\*([^*\n]+)\*\*|(?:\*|_)([^*_\n]+)(?:\*|_)/g;
+
+function renderMention(name: string, key: string): ReactNode {
+  return (
+    <span key={key} className="rounded bg-primary/10 px-1 font-medium text-primary">
+      @{name}
+    </span>
+  );
+}
+
+function renderInline(text: string, keyPrefix: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let count = 0;
+
+  // Mentions look like links, so they are split out before inline formatting
+  for (const segment of splitMentions(text)) {
+    if (segment.type === "mention") {
+      nodes.push(renderMention(segment.name, `${keyPrefix}-${count++}`));
+      continue;
+    }
+
+    let lastIndex = 0;
+    for (const match of Array.from(segment.text.matchAll(INLINE_PATTERN))) {
+      const key = `${keyPrefix}-${count++}`;
+      if (match.index! > lastIndex) {
+        nodes.push(<Fragment key={`${key}-t`}>{segment.text.slice(lastIndex, match.index)}</Fragment>);
+      }
+      const [whole, code, linkText, href, bold, italic] = match;
+      if (code) {
+        nodes.push(<code key={key} className="rounded bg-muted px-1 font-mono text-xs">{code.slice(1, -1)}</code>);
+      } else if (linkText) {
+        nodes.push(
+          SAFE_LINK.test(href) ? (
+            <a key={key} href={href} target="_blank" rel="noopener noreferrer" className="text-primary underline">
+              {linkText}
+            </a>
+          ) : (
+            <Fragment key={key}>{whole}</Fragment>
+          ),
+        );
+      } else if (bold) {
+        nodes.push(<strong key={key}>{bold}</strong>);
+      } else if (italic) {
+        nodes.push(<em key={key}>{italic}</em>);
+      }
+      lastIndex = match.index! + whole.length;
+    }
+    if (lastIndex < segment.text.length) {
+      nodes.push(<Fragment key={`${keyPrefix}-${count++}-t`}>{segment.text.slice(lastIndex)}</Fragment>);
+    }
+  }
+
+  return nodes;
+}
+
+function renderLines(lines: string[], keyPrefix: string): ReactNode[] {
+  return lines.flatMap((line, index) => [
+    ...(index > 0 ? [<br key={`${keyPrefix}-br-${index}`} />] : []),
+    ...renderInline(line, `${keyPrefix}-${index}`),
+  ]);
+}
+
+export function renderMarkdown(source: string): ReactNode {
+  return parseBlocks(source).map((block, index) => {
+    const key = `block-${index}`;
+    switch (block.type) {
+      case "heading":
+        return <p key={key} className="font-semibold">{renderInline(block.text, key)}</p>;
+      case "list": {
+        const items = block.items.map((item, itemIndex) => (
+          <li key={`${key}-${itemIndex}`}>{renderInline(item, `${key}-${itemIndex}`)}</li>
+        ));
+        return block.ordered
+          ? <ol key={key} className="list-decimal pl-5">{items}</ol>
+          : <ul key={key} className="list-disc pl-5">{items}</ul>;
+      }
+      case "quote":
+        return (
+          <blockquote key={key} className="border-l-2 border-border pl-3 text-muted-foreground">
+            {renderLines(block.lines, key)}
+          </blockquote>
+        );
+      case "code":
+        return (
+          <pre key={key} className="overflow-x-auto rounded bg-muted p-2 font-mono text-xs">
+            <code>{block.text}</code>
+          </pre>
+        );
+      default:
+        return <p key={key}>{renderLines(block.lines, key)}</p>;
+    }
+  });
+}
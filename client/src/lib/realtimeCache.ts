@@ -0,0 +1,162 @@
+import type { QueryClient, QueryKey } from "@tanstack/react-query";
+import type {
+  CommentWithAuthor,
+  ReleaseGateWithVotes,
+  ReleasePlan,
+  ReleaseStep,
+  ScheduledJob,
+  StepChecklistItem,
+  TeamWithMembers,
+  User,
+} from "@shared/schema";
+import type { RealtimeEvent } from "@shared/realtimeEvents";
+
+export type MissedTrigger = ScheduledJob & { step?: ReleaseStep };
+
+export const missedTriggersQueryKey = ["/api/scheduled-jobs?status=awaiting_decision"];
+
+// Deactivated users too, for views that show existing assignments
+export const allUsersQueryKey = ["/api/users?includeInactive=true"];
+
+type Identified = { id: string };
+
+// Replaces the matching row in a cached list, or adds it when it is new
+function upsert<T extends Identified>(queryClient: QueryClient, queryKey: QueryKey, row: T, prepend = false) {
+  queryClient.setQueryData<T[]>(queryKey, (rows) => {
+    if (!rows) return rows;
+    if (!rows.some(existing => existing.id === row.id)) return prepend ? [row, ...rows] : [...rows, row];
+    return rows.map(existing => (existing.id === row.id ? row : existing));
+  });
+}
+
+// Updates only rows the list already holds, for lists that are filtered server-side
+function replace<T extends Identified>(queryClient: QueryClient, queryKey: QueryKey, changes: Partial<T> & Identified) {
+  queryClient.setQueryData<T[]>(queryKey, (rows) =>
+    rows?.map(existing => (existing.id === changes.id ? { ...existing, ...changes } : existing)));
+}
+
+function remove<T extends Identified>(queryClient: QueryClient, queryKey: QueryKey, id: string) {
+  queryClient.setQueryData<T[]>(queryKey, (rows) => rows?.filter(row => row.id !== id));
+}
+
+function upsertStep(queryClient: QueryClient, step: ReleaseStep) {
+  queryClient.setQueryData<ReleaseStep[]>(["/api/release-plans", step.releasePlanId, "steps"], (steps) => {
+    if (!steps) return steps;
+    const others = steps.filter(existing => existing.id !== step.id);
+    return [...others, step].sort((a, b) => a.order - b.order);
+  });
+}
+
+function commentThreadKey(comment: Pick<CommentWithAuthor, "stepId" | "releasePlanId">): QueryKey {
+  return comment.stepId
+    ? ["/api/steps", comment.stepId, "comments"]
+    : ["/api/release-plans", comment.releasePlanId, "comments"];
+}
+
+// The active plan is chosen on the server, so it is refetched whenever a plan
+// it could depend on changes, unless the change is to that plan itself
+function updateActivePlan(queryClient: QueryClient, plan: ReleasePlan) {
+  const active = queryClient.getQueryData<ReleasePlan | null>(["/api/release-plans/active"]);
+  if (active?.id === plan.id && active.status === plan.status) {
+    queryClient.setQueryData(["/api/release-plans/active"], plan);
+  } else {
+    queryClient.invalidateQueries({ queryKey: ["/api/release-plans/active"] });
+  }
+}
+
+// Applies a broadcast to the React Query cache using the data it carries, so
+// screens update without refetching. Live and replayed events both come here.
+// Events from a newer protocol version never reach this point.
+export function applyRealtimeEvent(queryClient: QueryClient, event: RealtimeEvent) {
+  switch (event.type) {
+    case "release_plan_created":
+      upsert<ReleasePlan>(queryClient, ["/api/release-plans"], event.data, true);
+      updateActivePlan(queryClient, event.data);
+      break;
+
+    case "release_plan_updated":
+    case "release_completed":
+      upsert<ReleasePlan>(queryClient, ["/api/release-plans"], event.data);
+      updateActivePlan(queryClient, event.data);
+      break;
+
+    case "release_plan_deleted":
+      remove<ReleasePlan>(queryClient, ["/api/release-plans"], event.data.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/release-plans/active"] });
+      break;
+
+    case "step_created":
+    case "step_updated":
+    case "step_triggered":
+      upsertStep(queryClient, event.data);
+      break;
+
+    case "step_failover":
+    case "step_overdue":
+      upsertStep(queryClient, event.data.step);
+      break;
+
+    case "step_deleted":
+      if (!event.data.releasePlanId) break;
+      remove<ReleaseStep>(queryClient, ["/api/release-plans", event.data.releasePlanId, "steps"], event.data.id);
+      // Its dependencies are deleted with it
+      queryClient.invalidateQueries({ queryKey: ["/api/release-plans", event.data.releasePlanId, "step-dependencies"] });
+      break;
+
+    case "step_checklist_updated": {
+      const { items } = event.data;
+      queryClient.setQueryData(["/api/steps", event.data.stepId, "checklist"], items);
+      queryClient.setQueryData<StepChecklistItem[]>(
+        ["/api/release-plans", event.data.releasePlanId, "checklist-items"],
+        (planItems) => planItems && [...planItems.filter(item => item.stepId !== event.data.stepId), ...items],
+      );
+      break;
+    }
+
+    case "release_gate_updated":
+    case "release_gate_decided":
+      upsert<ReleaseGateWithVotes>(queryClient, ["/api/release-plans", event.data.releasePlanId, "gates"], event.data);
+      break;
+
+    case "release_gate_deleted":
+      remove<ReleaseGateWithVotes>(queryClient, ["/api/release-plans", event.data.releasePlanId, "gates"], event.data.id);
+      break;
+
+    case "comment_created":
+      upsert<CommentWithAuthor>(queryClient, commentThreadKey(event.data), event.data);
+      break;
+
+    case "comment_updated":
+    case "comment_deleted":
+      // Both keep the previous body as a revision
+      queryClient.setQueryData<CommentWithAuthor[]>(commentThreadKey(event.data), (comments) =>
+        comments?.map(comment => (comment.id === event.data.id
+          ? { ...comment, ...event.data, revisionCount: comment.revisionCount + 1 }
+          : comment)));
+      queryClient.invalidateQueries({ queryKey: ["/api/comments", event.data.id, "revisions"] });
+      break;
+
+    case "team_updated":
+      upsert<TeamWithMembers>(queryClient, ["/api/teams"], event.data);
+      break;
+
+    case "team_deleted":
+      remove<TeamWithMembers>(queryClient, ["/api/teams"], event.data.id);
+      break;
+
+    case "user_updated":
+      replace<User>(queryClient, ["/api/users"], event.data);
+      replace<User>(queryClient, allUsersQueryKey, event.data);
+      break;
+
+    case "scheduled_trigger_missed":
+      if (event.data.job.status === "awaiting_decision") {
+        upsert<MissedTrigger>(queryClient, missedTriggersQueryKey, { ...event.data.job, step: event.data.step });
+      }
+      break;
+
+    case "scheduled_trigger_resolved":
+      remove<MissedTrigger>(queryClient, missedTriggersQueryKey, event.data.id);
+      break;
+  }
+}
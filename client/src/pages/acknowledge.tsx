@@ -0,0 +1,70 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+interface AcknowledgementResult {
+  stepName: string;
+  acknowledgedAt: string;
+}
+
+// Opened from the link in a step trigger email. The signed token identifies the
+// POC, so this works without signing in.
+export default function Acknowledge() {
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (): Promise<AcknowledgementResult> => {
+      const response = await fetch("/api/acknowledgements", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ token }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to acknowledge step");
+      }
+
+      return response.json();
+    },
+  });
+
+  useEffect(() => {
+    if (token) acknowledgeMutation.mutate();
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-md" data-testid="acknowledge-result">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">
+            {acknowledgeMutation.isSuccess ? "Step Acknowledged" : "Acknowledge Step"}
+          </CardTitle>
+          {acknowledgeMutation.isSuccess && (
+            <CardDescription>"{acknowledgeMutation.data.stepName}" stays with you.</CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="text-center space-y-4">
+          {!token ? (
+            <p className="text-sm text-destructive">This acknowledgement link is incomplete.</p>
+          ) : acknowledgeMutation.isError ? (
+            <p className="text-sm text-destructive">{acknowledgeMutation.error.message}</p>
+          ) : acknowledgeMutation.isSuccess ? (
+            <p className="text-sm text-muted-foreground">
+              Acknowledged at {new Date(acknowledgeMutation.data.acknowledgedAt).toLocaleString()}. Please go ahead
+              with the step and keep its status up to date.
+            </p>
+          ) : (
+            <p className="text-sm text-muted-foreground">Acknowledging...</p>
+          )}
+          <Button variant="outline" onClick={() => (window.location.href = "/")} data-testid="button-open-dashboard">
+            Open Dashboard
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
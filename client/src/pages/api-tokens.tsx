@@ -0,0 +1,46 @@
+import { Header } from "@/components/layout/header";
+import { PersonalApiTokens } from "@/components/api-tokens/personal-api-tokens";
+import { ServiceAccountAdmin } from "@/components/api-tokens/service-account-admin";
+import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
+
+export default function ApiTokens() {
+  const { isLoading } = useAuth();
+  const { can } = usePermissions();
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="animate-pulse space-y-8">
+            <div className="h-8 bg-muted rounded w-1/3"></div>
+            <div className="h-64 bg-muted rounded"></div>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Page Header */}
+        <div className="mb-8">
+          <h2 className="text-2xl font-bold">API Tokens</h2>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Let scripts and CI/CD pipelines call the API as you, limited to the scopes you choose
+          </p>
+        </div>
+
+        <div className="space-y-8">
+          <PersonalApiTokens />
+          {can("users.manage") && <ServiceAccountAdmin />}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { Header } from "@/components/layout/header";
+import { AuditLog } from "@/components/audit/audit-log";
+import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
+
+export default function Audit() {
+  const { isAuthenticated, isLoading } = useAuth();
+  const { can } = usePermissions();
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="animate-pulse space-y-8">
+            <div className="h-8 bg-muted rounded w-1/3"></div>
+            <div className="h-64 bg-muted rounded"></div>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  // Access denied state
+  if (!isAuthenticated || !can("audit.view")) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="text-center py-12">
+            <div className="text-4xl mb-4">🔒</div>
+            <h2 className="text-xl font-semibold mb-2">Access Restricted</h2>
+            <p className="text-muted-foreground">
+              Only Release Managers have access to the audit log.
+            </p>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Page Header */}
+        <div className="mb-8">
+          <h2 className="text-2xl font-bold">Audit Log</h2>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Every change to release plans, steps, settings and share links, with who made it and when
+          </p>
+        </div>
+
+        <AuditLog />
+      </main>
+    </div>
+  );
+}
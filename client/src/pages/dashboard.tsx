@@ -2,6 +2,7 @@ import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { allUsersQueryKey } from "@/lib/realtimeCache";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { Header } from "@/components/layout/header";
 import { Button } from "@/components/ui/button";
@@ -9,13 +10,30 @@ import { ActiveReleaseCard } from "@/components/dashboard/active-release-card";
 import { FilterBar } from "@/components/dashboard/filter-bar";
 import { ReleaseSection } from "@/components/dashboard/release-section";
 import { TimelineView } from "@/components/dashboard/timeline-view";
+import { MissedTriggersAlert } from "@/components/dashboard/missed-triggers-alert";
+import { CommentThread } from "@/components/comments/comment-thread";
+import { Card, CardContent } from "@/components/ui/card";
 import { StepModal } from "@/components/modals/step-modal";
 import { ReleasePlanModal } from "@/components/modals/release-plan-modal";
+import { ReleaseGateModal } from "@/components/modals/release-gate-modal";
 import { useAuth } from "@/hooks/useAuth";
-import type { ReleasePlan, ReleaseStep, User } from "@shared/schema";
+import { useRealtimeTopics, useReleaseEvents } from "@/hooks/useWebSocket";
+import { usePermissions } from "@/hooks/usePermissions";
+import { planTopic } from "@shared/realtime";
+import type { GatedPhase } from "@shared/releaseGates";
+import type {
+  ReleaseGateWithVotes,
+  ReleasePlan,
+  ReleaseStep,
+  StepChecklistItem,
+  StepDependency,
+  TeamWithMembers,
+  User,
+} from "@shared/schema";
 
 export default function Dashboard() {
-  const { user, isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading } = useAuth();
+  const { can } = usePermissions();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -25,6 +43,8 @@ export default function Dashboard() {
   const [selectedStep, setSelectedStep] = useState<ReleaseStep | null>(null);
   const [stepCategory, setStepCategory] = useState<string>("");
   const [modalAction, setModalAction] = useState<string>("");
+  const [gatePhase, setGatePhase] = useState<GatedPhase | null>(null);
+  const [selectedGate, setSelectedGate] = useState<ReleaseGateWithVotes | null>(null);
 
   // Filter states
   const [filters, setFilters] = useState({
@@ -61,9 +81,55 @@ export default function Dashboard() {
     enabled: !!activeReleasePlan?.id,
   });
 
+  // Fetch checklist items for progress on the step cards
+  const { data: checklistItems = [] } = useQuery<StepChecklistItem[]>({
+    queryKey: ["/api/release-plans", activeReleasePlan?.id, "checklist-items"],
+    enabled: !!activeReleasePlan?.id,
+  });
+
+  // Fetch Go/No-Go gates holding back later phases
+  const { data: gates = [] } = useQuery<ReleaseGateWithVotes[]>({
+    queryKey: ["/api/release-plans", activeReleasePlan?.id, "gates"],
+    enabled: !!activeReleasePlan?.id,
+  });
+
+  // Updates only arrive for the plan on screen, and go straight into the query cache
+  useRealtimeTopics([activeReleasePlan?.id && planTopic(activeReleasePlan.id)]);
+
+  const closeStepModal = () => {
+    setIsStepModalOpen(false);
+    setSelectedStep(null);
+    setModalAction("");
+    setStepCategory("");
+  };
+
+  // Someone else deleting the step being edited closes its modal
+  useReleaseEvents("step_deleted", ({ data }) => {
+    if (isStepModalOpen && selectedStep?.id === data.id) {
+      closeStepModal();
+      toast({
+        title: "Step Deleted",
+        description: `Step "${selectedStep.name}" was deleted by someone else`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Fetch step dependencies for the timeline
+  const { data: stepDependencies = [] } = useQuery<StepDependency[]>({
+    queryKey: ["/api/release-plans", activeReleasePlan?.id, "step-dependencies"],
+    enabled: !!activeReleasePlan?.id,
+  });
+
   // Fetch users for step assignments
   const { data: users = [] } = useQuery<User[]>({
-    queryKey: ["/api/users"],
+    queryKey: allUsersQueryKey,
+    enabled: isAuthenticated,
+  });
+
+  // Fetch teams for filtering and the per-team breakdown
+  const { data: teams = [] } = useQuery<TeamWithMembers[]>({
+    queryKey: ["/api/teams"],
     enabled: isAuthenticated,
   });
 
@@ -99,6 +165,27 @@ export default function Dashboard() {
     },
   });
 
+  // Step acknowledgement mutation
+  const acknowledgeStepMutation = useMutation({
+    mutationFn: async (stepId: string) => {
+      return await apiRequest("POST", `/api/steps/${stepId}/acknowledge`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/release-plans", activeReleasePlan?.id, "steps"] });
+      toast({
+        title: "Step Acknowledged",
+        description: "The step will stay with you.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to acknowledge step",
+        variant: "destructive",
+      });
+    },
+  });
+
   if (isLoading || isLoadingReleasePlan) {
     return (
       <div className="min-h-screen bg-background">
@@ -124,7 +211,8 @@ export default function Dashboard() {
     if (filters.status !== "all" && step.status !== filters.status) return false;
     if (filters.search && !step.name.toLowerCase().includes(filters.search.toLowerCase()) && 
         !step.description?.toLowerCase().includes(filters.search.toLowerCase())) return false;
-    // Team filtering would require additional data mapping
+    if (filters.team === "none" && step.teamId) return false;
+    if (filters.team !== "all" && filters.team !== "none" && step.teamId !== filters.team) return false;
     return true;
   });
 
@@ -173,6 +261,20 @@ export default function Dashboard() {
     triggerStepMutation.mutate(stepId);
   };
 
+  const handleAcknowledgeStep = (stepId: string) => {
+    acknowledgeStepMutation.mutate(stepId);
+  };
+
+  const handleAddGate = (phase: GatedPhase) => {
+    setSelectedGate(null);
+    setGatePhase(phase);
+  };
+
+  const handleEditGate = (gate: ReleaseGateWithVotes) => {
+    setSelectedGate(gate);
+    setGatePhase(gate.phase as GatedPhase);
+  };
+
   const handleShareDashboard = () => {
     // TODO: Implement shareable link creation
     toast({
@@ -210,10 +312,13 @@ export default function Dashboard() {
           </div>
         </div>
 
+        {/* Triggers missed while the scheduler was down */}
+        {can("scheduler.resolve") && <MissedTriggersAlert />}
+
         {/* Active Release Overview */}
         {activeReleasePlan ? (
           <div className="mb-8">
-            <ActiveReleaseCard releasePlan={activeReleasePlan} steps={steps} />
+            <ActiveReleaseCard releasePlan={activeReleasePlan} steps={steps} teams={teams} />
           </div>
         ) : (
           <div className="mb-8 text-center py-12 bg-card border border-border rounded-lg">
@@ -230,7 +335,7 @@ export default function Dashboard() {
         {activeReleasePlan && (
           <>
             {/* Filters and Search */}
-            <FilterBar filters={filters} onFilterChange={handleFilterChange} />
+            <FilterBar filters={filters} teams={teams} onFilterChange={handleFilterChange} />
 
             {/* Release Categories */}
             <div className="space-y-8">
@@ -241,12 +346,15 @@ export default function Dashboard() {
                 iconColor="text-blue-500"
                 steps={beforeReleaseSteps}
                 users={users}
+                releasePlan={activeReleasePlan}
+                planSteps={steps}
+                checklistItems={checklistItems}
                 currentStepId={currentStep?.id}
                 onAddStep={() => handleAddStep("before_release")}
                 onEditStep={handleEditStep}
                 onTriggerStep={handleTriggerStep}
+                onAcknowledgeStep={handleAcknowledgeStep}
                 onViewStepDetails={handleViewStepDetails}
-                userRole={user?.role}
               />
 
               {/* Actual Release Section */}
@@ -256,12 +364,18 @@ export default function Dashboard() {
                 iconColor="text-green-500"
                 steps={actualReleaseSteps}
                 users={users}
+                releasePlan={activeReleasePlan}
+                planSteps={steps}
+                checklistItems={checklistItems}
                 currentStepId={currentStep?.id}
+                gates={gates.filter(gate => gate.phase === "actual_release")}
+                onAddGate={() => handleAddGate("actual_release")}
+                onEditGate={handleEditGate}
                 onAddStep={() => handleAddStep("actual_release")}
                 onEditStep={handleEditStep}
                 onTriggerStep={handleTriggerStep}
+                onAcknowledgeStep={handleAcknowledgeStep}
                 onViewStepDetails={handleViewStepDetails}
-                userRole={user?.role}
               />
 
               {/* Post Release Section */}
@@ -271,33 +385,41 @@ export default function Dashboard() {
                 iconColor="text-purple-500"
                 steps={postReleaseSteps}
                 users={users}
+                releasePlan={activeReleasePlan}
+                planSteps={steps}
+                checklistItems={checklistItems}
                 currentStepId={currentStep?.id}
+                gates={gates.filter(gate => gate.phase === "post_release")}
+                onAddGate={() => handleAddGate("post_release")}
+                onEditGate={handleEditGate}
                 onAddStep={() => handleAddStep("post_release")}
                 onEditStep={handleEditStep}
                 onTriggerStep={handleTriggerStep}
+                onAcknowledgeStep={handleAcknowledgeStep}
                 onViewStepDetails={handleViewStepDetails}
-                userRole={user?.role}
               />
             </div>
 
             {/* Timeline View */}
             {steps.length > 0 && (
               <div className="mt-8">
-                <TimelineView steps={steps} />
+                <TimelineView steps={steps} dependencies={stepDependencies} releasePlan={activeReleasePlan} />
               </div>
             )}
+
+            {/* Release plan discussion */}
+            <Card className="mt-8" data-testid="release-plan-discussion">
+              <CardContent className="p-6">
+                <CommentThread releasePlanId={activeReleasePlan.id} />
+              </CardContent>
+            </Card>
           </>
         )}
 
         {/* Modals */}
         <StepModal
           isOpen={isStepModalOpen}
-          onClose={() => {
-            setIsStepModalOpen(false);
-            setSelectedStep(null);
-            setModalAction("");
-            setStepCategory("");
-          }}
+          onClose={closeStepModal}
           step={selectedStep}
           releasePlanId={activeReleasePlan?.id || ""}
           category={stepCategory}
@@ -308,6 +430,19 @@ export default function Dashboard() {
           isOpen={isReleasePlanModalOpen}
           onClose={() => setIsReleasePlanModalOpen(false)}
         />
+
+        {gatePhase && (
+          <ReleaseGateModal
+            isOpen={!!gatePhase}
+            onClose={() => {
+              setGatePhase(null);
+              setSelectedGate(null);
+            }}
+            releasePlanId={activeReleasePlan?.id || ""}
+            phase={gatePhase}
+            gate={selectedGate}
+          />
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,40 @@
+import { Header } from "@/components/layout/header";
+import { NotificationPreferences } from "@/components/preferences/notification-preferences";
+import { useAuth } from "@/hooks/useAuth";
+
+export default function Preferences() {
+  const { isLoading } = useAuth();
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="animate-pulse space-y-8">
+            <div className="h-8 bg-muted rounded w-1/3"></div>
+            <div className="h-64 bg-muted rounded"></div>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Page Header */}
+        <div className="mb-8">
+          <h2 className="text-2xl font-bold">Notification Preferences</h2>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Choose which notifications you receive, where, and whether they arrive straight away or in a digest
+          </p>
+        </div>
+
+        <NotificationPreferences />
+      </main>
+    </div>
+  );
+}
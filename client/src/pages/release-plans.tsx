@@ -8,18 +8,26 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { StatusBadge } from "@/components/ui/status-badge";
 import { ReleasePlanModal } from "@/components/modals/release-plan-modal";
+import { CloneReleasePlanModal } from "@/components/modals/clone-release-plan-modal";
+import { SaveTemplateModal } from "@/components/modals/save-template-modal";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
 import { Link } from "wouter";
-import type { ReleasePlan } from "@shared/schema";
+import type { ReleasePlan, ReleasePlanTemplate } from "@shared/schema";
 
 export default function ReleasePlans() {
-  const { user, isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading } = useAuth();
+  const { can } = usePermissions();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   // Modal states
   const [isReleasePlanModalOpen, setIsReleasePlanModalOpen] = useState(false);
   const [selectedReleasePlan, setSelectedReleasePlan] = useState<ReleasePlan | null>(null);
+  const [isCloneModalOpen, setIsCloneModalOpen] = useState(false);
+  const [cloneSourcePlan, setCloneSourcePlan] = useState<ReleasePlan | null>(null);
+  const [cloneTemplateId, setCloneTemplateId] = useState<string | undefined>(undefined);
+  const [templateSourcePlan, setTemplateSourcePlan] = useState<ReleasePlan | null>(null);
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -42,6 +50,12 @@ export default function ReleasePlans() {
     enabled: isAuthenticated,
   });
 
+  // Fetch release plan templates
+  const { data: templates = [] } = useQuery<ReleasePlanTemplate[]>({
+    queryKey: ["/api/release-plan-templates"],
+    enabled: isAuthenticated,
+  });
+
   // Delete release plan mutation
   const deleteReleasePlanMutation = useMutation({
     mutationFn: async (planId: string) => {
@@ -75,6 +89,27 @@ export default function ReleasePlans() {
     },
   });
 
+  // Delete template mutation
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      return await apiRequest("DELETE", `/api/release-plan-templates/${templateId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/release-plan-templates"] });
+      toast({
+        title: "Template Deleted",
+        description: "Template has been deleted successfully.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete template",
+        variant: "destructive",
+      });
+    },
+  });
+
   if (isLoading || isLoadingPlans) {
     return (
       <div className="min-h-screen bg-background">
@@ -109,7 +144,27 @@ export default function ReleasePlans() {
     }
   };
 
-  const canManagePlans = user?.role === "release_manager";
+  const handleClonePlan = (plan: ReleasePlan) => {
+    setCloneSourcePlan(plan);
+    setCloneTemplateId(undefined);
+    setIsCloneModalOpen(true);
+  };
+
+  const handleCreateFromTemplate = (templateId?: string) => {
+    setCloneSourcePlan(null);
+    setCloneTemplateId(templateId);
+    setIsCloneModalOpen(true);
+  };
+
+  const handleDeleteTemplate = (template: ReleasePlanTemplate) => {
+    if (window.confirm(`Are you sure you want to delete the template "${template.name}"?`)) {
+      deleteTemplateMutation.mutate(template.id);
+    }
+  };
+
+  const canCreatePlans = can("release_plan.create");
+  const canManagePlans = can("release_plan.update");
+  const canManageTemplates = can("template.manage");
 
   return (
     <div className="min-h-screen bg-background">
@@ -123,8 +178,18 @@ export default function ReleasePlans() {
               <h2 className="text-2xl font-bold text-foreground">Release Plans</h2>
               <p className="mt-1 text-sm text-muted-foreground">Manage all your release plans and their lifecycle</p>
             </div>
-            {canManagePlans && (
-              <div className="mt-4 sm:mt-0">
+            {canCreatePlans && (
+              <div className="mt-4 sm:mt-0 flex space-x-2">
+                {templates.length > 0 && (
+                  <Button
+                    variant="outline"
+                    onClick={() => handleCreateFromTemplate()}
+                    data-testid="button-new-from-template"
+                  >
+                    <i className="fas fa-layer-group mr-2" />
+                    New from Template
+                  </Button>
+                )}
                 <Button 
                   onClick={() => {
                     setSelectedReleasePlan(null);
@@ -146,7 +211,7 @@ export default function ReleasePlans() {
             <i className="fas fa-clipboard-list text-4xl text-muted-foreground mb-4" />
             <h3 className="text-lg font-medium text-foreground mb-2">No Release Plans Yet</h3>
             <p className="text-muted-foreground mb-4">Create your first release plan to start managing releases.</p>
-            {canManagePlans && (
+            {canCreatePlans && (
               <Button 
                 onClick={() => {
                   setSelectedReleasePlan(null);
@@ -228,6 +293,28 @@ export default function ReleasePlans() {
                           <i className="fas fa-edit" />
                         </Button>
 
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleClonePlan(plan)}
+                          className="px-3 text-xs"
+                          title="Clone release"
+                          data-testid={`button-clone-plan-${plan.id}`}
+                        >
+                          <i className="fas fa-clone" />
+                        </Button>
+
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setTemplateSourcePlan(plan)}
+                          className="px-3 text-xs"
+                          title="Save as template"
+                          data-testid={`button-save-template-${plan.id}`}
+                        >
+                          <i className="fas fa-save" />
+                        </Button>
+
                         <Button
                           variant="ghost"
                           size="sm"
@@ -247,12 +334,74 @@ export default function ReleasePlans() {
           </div>
         )}
 
+        {/* Templates */}
+        {templates.length > 0 && (
+          <div className="mt-12" data-testid="release-plan-templates">
+            <h3 className="text-lg font-semibold text-foreground mb-4">Templates</h3>
+            <div className="bg-card border border-border rounded-lg divide-y divide-border">
+              {templates.map((template) => (
+                <div
+                  key={template.id}
+                  className="flex items-center justify-between px-4 py-3"
+                  data-testid={`template-row-${template.id}`}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-foreground">{template.name}</p>
+                    {template.description && (
+                      <p className="text-xs text-muted-foreground line-clamp-1">{template.description}</p>
+                    )}
+                  </div>
+                  {canManageTemplates && (
+                    <div className="flex space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-xs"
+                        onClick={() => handleCreateFromTemplate(template.id)}
+                        data-testid={`button-use-template-${template.id}`}
+                      >
+                        <i className="fas fa-plus mr-1" />
+                        Use
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="px-3 text-xs text-destructive hover:text-destructive"
+                        onClick={() => handleDeleteTemplate(template)}
+                        disabled={deleteTemplateMutation.isPending}
+                        data-testid={`button-delete-template-${template.id}`}
+                      >
+                        <i className="fas fa-trash" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Release Plan Modal */}
         <ReleasePlanModal
           isOpen={isReleasePlanModalOpen}
           onClose={() => setIsReleasePlanModalOpen(false)}
           releasePlan={selectedReleasePlan}
         />
+
+        {/* Clone / From Template Modal */}
+        <CloneReleasePlanModal
+          isOpen={isCloneModalOpen}
+          onClose={() => setIsCloneModalOpen(false)}
+          sourcePlan={cloneSourcePlan}
+          templateId={cloneTemplateId}
+        />
+
+        {/* Save as Template Modal */}
+        <SaveTemplateModal
+          isOpen={!!templateSourcePlan}
+          onClose={() => setTemplateSourcePlan(null)}
+          releasePlan={templateSourcePlan}
+        />
       </main>
     </div>
   );
@@ -4,9 +4,11 @@ import { isUnauthorizedError } from "@/lib/authUtils";
 import { Header } from "@/components/layout/header";
 import { GlobalSettings } from "@/components/settings/global-settings";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
 
 export default function Settings() {
-  const { user, isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading } = useAuth();
+  const { can } = usePermissions();
   const { toast } = useToast();
 
   // Step 2: Add authentication logic
@@ -23,7 +25,7 @@ export default function Settings() {
       return;
     }
 
-    if (!isLoading && isAuthenticated && (user as any)?.role !== "release_manager") {
+    if (!isLoading && isAuthenticated && !can("settings.manage")) {
       toast({
         title: "Access Denied",
         description: "You don't have permission to access settings. Only Release Managers can modify settings.",
@@ -31,7 +33,7 @@ export default function Settings() {
       });
       return;
     }
-  }, [isAuthenticated, isLoading, user, toast]);
+  }, [isAuthenticated, isLoading, can, toast]);
 
   // Loading state
   if (isLoading) {
@@ -49,7 +51,7 @@ export default function Settings() {
   }
 
   // Access denied state
-  if (!isAuthenticated || (user as any)?.role !== "release_manager") {
+  if (!isAuthenticated || !can("settings.manage")) {
     return (
       <div className="min-h-screen bg-background">
         <Header />
@@ -0,0 +1,64 @@
+import { Header } from "@/components/layout/header";
+import { UserAdmin } from "@/components/users/user-admin";
+import { TeamAdmin } from "@/components/users/team-admin";
+import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
+
+export default function Users() {
+  const { isAuthenticated, isLoading } = useAuth();
+  const { can } = usePermissions();
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="animate-pulse space-y-8">
+            <div className="h-8 bg-muted rounded w-1/3"></div>
+            <div className="h-64 bg-muted rounded"></div>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  // Access denied state
+  if (!isAuthenticated || !can("users.manage")) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="text-center py-12">
+            <div className="text-4xl mb-4">🔒</div>
+            <h2 className="text-xl font-semibold mb-2">Access Restricted</h2>
+            <p className="text-muted-foreground">
+              Only Release Managers can manage users.
+            </p>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Page Header */}
+        <div className="mb-8">
+          <h2 className="text-2xl font-bold">Users</h2>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Invite people, change their roles, organise them into teams and deactivate accounts for people who have left
+          </p>
+        </div>
+
+        <div className="space-y-8">
+          <UserAdmin />
+          {can("teams.manage") && <TeamAdmin />}
+        </div>
+      </main>
+    </div>
+  );
+}
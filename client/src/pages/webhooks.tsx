@@ -0,0 +1,60 @@
+import { Header } from "@/components/layout/header";
+import { WebhookAdmin } from "@/components/webhooks/webhook-admin";
+import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
+
+export default function Webhooks() {
+  const { isAuthenticated, isLoading } = useAuth();
+  const { can } = usePermissions();
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="animate-pulse space-y-8">
+            <div className="h-8 bg-muted rounded w-1/3"></div>
+            <div className="h-64 bg-muted rounded"></div>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  // Access denied state
+  if (!isAuthenticated || !can("webhooks.manage")) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="text-center py-12">
+            <div className="text-4xl mb-4">🔒</div>
+            <h2 className="text-xl font-semibold mb-2">Access Restricted</h2>
+            <p className="text-muted-foreground">
+              Only Release Managers can manage webhooks.
+            </p>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Page Header */}
+        <div className="mb-8">
+          <h2 className="text-2xl font-bold">Webhooks</h2>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Send signed release events to external systems such as deploy bots and status pages, for one plan or all of them
+          </p>
+        </div>
+
+        <WebhookAdmin />
+      </main>
+    </div>
+  );
+}
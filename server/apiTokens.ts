@@ -0,0 +1,85 @@
+import { createHash, randomBytes } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import { storage } from './storage';
+import {
+  API_TOKEN_PREFIX,
+  getAcceptedApiTokenScopes,
+  type ApiTokenInput,
+} from '@shared/apiTokens';
+import type { ApiToken } from '@shared/schema';
+
+// Writing lastUsedAt on every request would cost a write per pipeline call
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export function hashApiToken(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+// The secret is returned once, to be shown to whoever created the token; only
+// its hash is kept
+export async function issueApiToken(
+  userId: string,
+  input: ApiTokenInput,
+  createdBy: string,
+): Promise<{ token: ApiToken; secret: string }> {
+  const secret = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const token = await storage.createApiToken({
+    userId,
+    name: input.name,
+    tokenHash: hashApiToken(secret),
+    tokenPrefix: secret.slice(0, API_TOKEN_PREFIX.length + 6),
+    scopes: input.scopes,
+    expiresAt: input.expiresInDays
+      ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+      : null,
+    createdBy,
+  });
+  return { token, secret };
+}
+
+function getBearerSecret(req: Request): string | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '');
+  return match ? match[1] : null;
+}
+
+// Accepts `Authorization: Bearer <token>` on /api routes. A valid token within
+// its scopes logs the request in as the token's user for that request only,
+// so isAuthenticated and the permission guards treat it like a session.
+// Requests without the header fall through to the session.
+export async function authenticateApiToken(req: Request, res: Response, next: NextFunction) {
+  const secret = getBearerSecret(req);
+  if (!secret) return next();
+
+  try {
+    const token = await storage.getApiTokenByHash(hashApiToken(secret));
+    if (!token || token.revokedAt || (token.expiresAt && new Date() > token.expiresAt)) {
+      return res.status(401).json({ message: "Invalid or expired API token" });
+    }
+
+    const user = await storage.getUser(token.userId);
+    if (!user?.isActive) {
+      return res.status(401).json({ message: "This account has been deactivated" });
+    }
+
+    const accepted = getAcceptedApiTokenScopes(req.method, `${req.baseUrl}${req.path}`, req.body);
+    if (!accepted) {
+      return res.status(403).json({ message: "API tokens cannot be used for this request" });
+    }
+    if (!accepted.some(scope => token.scopes.includes(scope))) {
+      return res.status(403).json({ message: `This API token needs the ${accepted.join(" or ")} scope` });
+    }
+
+    if (!token.lastUsedAt || Date.now() - token.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      storage.touchApiToken(token.id).catch((error) => {
+        console.error('Error recording API token use:', error);
+      });
+    }
+
+    const { password: _, ...userWithoutPassword } = user;
+    req.user = userWithoutPassword as any;
+    next();
+  } catch (error) {
+    console.error('Error authenticating API token:', error);
+    res.status(500).json({ message: "Failed to authenticate API token" });
+  }
+}
@@ -0,0 +1,69 @@
+import type { Request } from 'express';
+import { storage } from './storage';
+import type { AuditChanges } from '@shared/schema';
+
+// Bookkeeping columns that change on every write and would only add noise
+const IGNORED_FIELDS = new Set(['updatedAt', 'createdAt']);
+// Secrets are recorded as changed without their values
+const REDACTED_FIELDS = new Set(['password', 'token', 'tokenHash', 'secret']);
+
+interface AuditEntry {
+  entityType: string;
+  entityId?: string | null;
+  releasePlanId?: string | null;
+  action: string;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  // Defaults to the signed-in user; login and register pass it explicitly
+  actorId?: string | null;
+}
+
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  return value === undefined ? null : value;
+}
+
+// Field-by-field before/after for every value that differs. A create has no
+// "before" and a delete has no "after", so every field shows up for those.
+export function diffRecords(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined,
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const field of Array.from(fields)) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const beforeValue = normalize(before?.[field]);
+    const afterValue = normalize(after?.[field]);
+    if (JSON.stringify(beforeValue) === JSON.stringify(afterValue)) continue;
+
+    changes[field] = REDACTED_FIELDS.has(field)
+      ? { before: beforeValue === null ? null : '[redacted]', after: afterValue === null ? null : '[redacted]' }
+      : { before: beforeValue, after: afterValue };
+  }
+  return changes;
+}
+
+// Only the parts of a request an audit row needs, so both the session request
+// and the route handlers' AuthenticatedRequest fit
+type AuditRequest = Pick<Request, 'ip'> & { user?: { id?: string } };
+
+// Writes an audit row for a request. Auditing never fails the request it
+// describes, so errors are logged and swallowed.
+export async function recordAudit(req: AuditRequest, entry: AuditEntry): Promise<void> {
+  try {
+    await storage.addAuditLog({
+      actorId: entry.actorId !== undefined ? entry.actorId : req.user?.id ?? null,
+      entityType: entry.entityType,
+      entityId: entry.entityId ?? null,
+      releasePlanId: entry.releasePlanId ?? null,
+      action: entry.action,
+      changes: diffRecords(entry.before, entry.after),
+      ipAddress: req.ip ?? null,
+    });
+  } catch (error) {
+    console.error(`Error recording audit entry for ${entry.entityType} ${entry.action}:`, error);
+  }
+}
@@ -0,0 +1,21 @@
+import type { NextFunction, Request, Response } from 'express';
+import { storage } from './storage';
+import { can, type Permission } from '@shared/permissions';
+
+// Route guard for permissions that are not scoped to a step. The role is read
+// from the database so a demotion takes effect on the next request.
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = (req.user as { id?: string } | undefined)?.id;
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!can(user, permission)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      next();
+    } catch (error) {
+      console.error(`Error checking ${permission} permission:`, error);
+      res.status(500).json({ message: "Failed to check permissions" });
+    }
+  };
+}
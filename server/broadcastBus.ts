@@ -0,0 +1,120 @@
+import { randomUUID } from 'crypto';
+import { Client } from 'pg';
+import { connectionString, pool } from './db';
+import { storage } from './storage';
+import type { RealtimeEvent } from '@shared/realtimeEvents';
+
+const CHANNEL = 'release_events';
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+const MAX_PAYLOAD_BYTES = 7900;
+const RECONNECT_DELAY_MS = 5000;
+// How many recent events are kept for reconnecting clients to replay
+const REPLAY_LOG_SIZE = 1000;
+const PRUNE_INTERVAL = 100;
+
+// Relays WebSocket broadcasts between server instances over Postgres
+// LISTEN/NOTIFY, so clients see every update whichever instance made it.
+// Each broadcast is first numbered and stored in the replay log.
+export type NumberedEvent = RealtimeEvent & { seq?: number };
+
+class BroadcastBus {
+  private readonly instanceId = randomUUID();
+  private listener: Client | null = null;
+  private deliverFn: ((event: NumberedEvent) => void) | null = null;
+  private publishing: Promise<void> = Promise.resolve();
+
+  async start(deliverFn: (event: NumberedEvent) => void) {
+    this.deliverFn = deliverFn;
+    await this.listen();
+  }
+
+  // Delivers to this instance's clients straight away and to the others via
+  // NOTIFY. Queued so this instance's events are numbered in the order sent.
+  publish(data: RealtimeEvent) {
+    this.publishing = this.publishing.then(() => this.send(data));
+  }
+
+  private async send(data: RealtimeEvent) {
+    let event: NumberedEvent = data;
+    try {
+      const stored = await storage.appendBroadcastEvent(data.type, data.data);
+      event = { ...data, seq: stored.seq };
+      if (stored.seq % PRUNE_INTERVAL === 0) {
+        await storage.pruneBroadcastEvents(stored.seq - REPLAY_LOG_SIZE);
+      }
+    } catch (error) {
+      // Still delivered live; it just cannot be replayed
+      console.error('Error recording broadcast:', error);
+    }
+
+    this.deliverFn?.(event);
+
+    let payload = JSON.stringify({ origin: this.instanceId, data: event });
+    if (Buffer.byteLength(payload) >= MAX_PAYLOAD_BYTES) {
+      if (event.seq === undefined) {
+        console.warn(`Broadcast ${data.type} is too large to relay to other instances`);
+        return;
+      }
+      // Too big for NOTIFY, so the other instances read it back from the log
+      payload = JSON.stringify({ origin: this.instanceId, seq: event.seq });
+    }
+
+    try {
+      await pool.query('SELECT pg_notify($1, $2)', [CHANNEL, payload]);
+    } catch (error) {
+      console.error('Error relaying broadcast:', error);
+    }
+  }
+
+  private async receive(seq: number) {
+    const [event] = await storage.getBroadcastEventsAfter(seq - 1, 1);
+    if (event?.seq === seq) {
+      this.deliverFn?.({ type: event.type, data: event.data, seq: event.seq } as NumberedEvent);
+    }
+  }
+
+  private async listen() {
+    const client = new Client({ connectionString });
+    this.listener = client;
+
+    client.on('notification', (notification) => {
+      if (notification.channel !== CHANNEL || !notification.payload) return;
+      try {
+        const { origin, data, seq } = JSON.parse(notification.payload);
+        if (origin === this.instanceId) return;
+        if (data) {
+          this.deliverFn?.(data);
+        } else if (typeof seq === 'number') {
+          this.receive(seq).catch(error => console.error('Error reading relayed broadcast:', error));
+        }
+      } catch (error) {
+        console.error('Error parsing relayed broadcast:', error);
+      }
+    });
+
+    client.on('error', (error) => {
+      console.error('Broadcast listener error:', error);
+      this.scheduleReconnect(client);
+    });
+    client.on('end', () => this.scheduleReconnect(client));
+
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${CHANNEL}`);
+      console.log('Broadcast bus listening for other instances');
+    } catch (error) {
+      console.error('Error starting broadcast listener:', error);
+      this.scheduleReconnect(client);
+    }
+  }
+
+  private scheduleReconnect(client: Client) {
+    // Only the current listener reconnects; stale clients are ignored
+    if (this.listener !== client) return;
+    this.listener = null;
+    client.end().catch(() => {});
+    setTimeout(() => this.listen(), RECONNECT_DELAY_MS);
+  }
+}
+
+export const broadcastBus = new BroadcastBus();
@@ -11,7 +11,7 @@ const DB_PASSWORD = process.env.DB_PASSWORD || 'release123';
 const DB_MAX_CONNECTIONS = parseInt(process.env.DB_MAX_CONNECTIONS || '20');
 
 // Create connection string for local PostgreSQL
-const connectionString = `postgresql://${DB_USER}:${DB_PASSWORD}@${DB_HOST}:${DB_PORT}/${DB_NAME}`;
+export const connectionString = `postgresql://${DB_USER}:${DB_PASSWORD}@${DB_HOST}:${DB_PORT}/${DB_NAME}`;
 
 export const pool = new Pool({
   connectionString,
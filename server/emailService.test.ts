@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { emailService } from "./emailService";
+import { notificationOutbox } from "./notificationOutbox";
+import { isSharedChannel } from "./notificationChannels";
+import { storage } from "./storage";
+import type { NotificationChannelConfig, NotificationMessage } from "@shared/notificationChannels";
+import type { ReleaseStep, User } from "@shared/schema";
+
+const ACKNOWLEDGE_URL = "https://iplan.example.com/acknowledge?token=secret-token";
+
+const channels: NotificationChannelConfig[] = [
+  { id: "slack", name: "Slack", type: "slack", enabled: true, events: [], url: "https://hooks.slack.com/x" },
+  { id: "teams", name: "Teams", type: "teams", enabled: true, events: [], url: "https://teams.example.com/x" },
+  { id: "webhook", name: "Webhook", type: "webhook", enabled: true, events: [], url: "https://example.com/x" },
+  { id: "smtp", name: "SMTP", type: "smtp", enabled: true, events: [], host: "smtp.example.com", port: 587, secure: false },
+];
+
+const poc = { id: "user-1", email: "poc@example.com", isActive: true } as User;
+
+const step = {
+  id: "step-1",
+  name: "Deploy",
+  description: null,
+  category: "actual_release",
+  status: "started",
+  scheduledTime: null,
+  acknowledgementDueAt: new Date(),
+} as unknown as ReleaseStep;
+
+let sent: { message: NotificationMessage; channels: NotificationChannelConfig[] }[];
+
+beforeEach(() => {
+  sent = [];
+  mock.method(storage, "getGlobalSetting", async (key: string) =>
+    key === "email_default_cc" ? { key, value: "cc@example.com" } : undefined);
+  mock.method(storage, "getUsersByEmails", async () => [poc]);
+  mock.method(storage, "getNotificationPreferences", async () => []);
+  mock.method(storage, "addNotificationDigestItems", async () => undefined);
+  mock.method(storage, "getActiveNotificationTemplate", async () => undefined);
+  mock.method(notificationOutbox, "dispatch", async (
+    message: NotificationMessage,
+    accepts: (config: NotificationChannelConfig) => boolean = () => true,
+  ) => {
+    sent.push({ message, channels: channels.filter(accepts) });
+  });
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+function assertNoSharedChannelGetsTheLink() {
+  const shared = sent.filter(copy => copy.channels.some(isSharedChannel));
+  assert.ok(shared.length > 0, "shared channels still hear about the step");
+  for (const copy of shared) {
+    assert.ok(!JSON.stringify(copy.message).includes("secret-token"));
+    assert.deepEqual(copy.message.cc, []);
+  }
+
+  const personal = sent.filter(copy => copy.message.text.includes("secret-token"));
+  assert.ok(personal.length > 0, "the POC gets the link");
+  for (const copy of personal) {
+    assert.ok(copy.channels.every(channel => !isSharedChannel(channel)));
+    assert.deepEqual([...copy.message.cc, ...copy.message.bcc], []);
+  }
+}
+
+test("the acknowledgement link in a trigger notification stays off shared channels", async () => {
+  await emailService.sendStepTriggerNotification([poc.email], step, ACKNOWLEDGE_URL);
+  assertNoSharedChannelGetsTheLink();
+});
+
+test("the acknowledgement link in a failover notification stays off shared channels", async () => {
+  await emailService.sendPocFailoverNotification(
+    [poc.email],
+    step,
+    { previousPoc: "Alex", newPoc: "Sam", windowMinutes: "10m" },
+    ACKNOWLEDGE_URL,
+  );
+  assertNoSharedChannelGetsTheLink();
+});
@@ -1,208 +1,321 @@
-import nodemailer from 'nodemailer';
 import { storage } from './storage';
-import type { ReleaseStep, ReleasePlan } from '@shared/schema';
+import { htmlToText, isSharedChannel } from './notificationChannels';
+import { notificationOutbox } from './notificationOutbox';
+import type { InsertNotificationDigestItem, ReleaseStep, ReleasePlan } from '@shared/schema';
+import {
+  getNotificationDelivery,
+  notificationCategoryByEvent,
+  type NotificationEvent,
+  type NotificationMessage,
+} from '@shared/notificationChannels';
+import {
+  DEFAULT_PRODUCT_NAME,
+  PRODUCT_NAME_SETTING,
+  defaultNotificationTemplates,
+  notificationTemplateSamples,
+  renderNotificationTemplate,
+  type NotificationTemplateContent,
+  type TemplateContext,
+} from '@shared/notificationTemplates';
+import { isStepFinished } from '@shared/stepStatus';
+
+interface OutgoingEmail {
+  event: NotificationEvent;
+  to: string | string[];
+  subject: string;
+  html: string;
+  // Generated from the HTML when empty
+  text?: string;
+  // Credentials go out as sensitive so the global CC/BCC and shared channels never see them
+  sensitive?: boolean;
+  // For a message carrying a link only its recipients may use: what shared
+  // channels get instead. The global CC/BCC get neither.
+  sharedCopy?: RenderedNotification;
+}
 
-class EmailService {
-  private initialized = false;
-  private transporter: nodemailer.Transporter | null = null;
+type RenderedNotification = Pick<OutgoingEmail, 'subject' | 'html' | 'text'>;
 
-  constructor() {
-    this.initialize();
-  }
+const statusColors: Record<string, string> = {
+  not_started: '#6b7280',
+  started: '#3b82f6',
+  in_progress: '#f59e0b',
+  completed: '#10b981',
+  failed: '#ef4444',
+  blocked: '#a855f7',
+  skipped: '#94a3b8',
+};
 
-  private async initialize() {
-    const gmailUser = process.env.GMAIL_USER;
-    const gmailPass = process.env.GMAIL_APP_PASSWORD;
-    
-    if (!gmailUser || !gmailPass) {
-      console.warn('GMAIL_USER or GMAIL_APP_PASSWORD not found, email notifications will be disabled');
-      console.log('To enable Gmail notifications:');
-      console.log('1. Set GMAIL_USER to your Gmail address');
-      console.log('2. Set GMAIL_APP_PASSWORD to your Gmail App Password');
-      console.log('3. Enable 2FA and generate an App Password in your Google Account settings');
-      return;
-    }
+const DEFAULT_STATUS_COLOR = '#6b7280';
 
-    this.transporter = nodemailer.createTransport({
-      service: 'gmail',
-      host: 'smtp.gmail.com',
-      port: 587,
-      secure: false,
-      auth: {
-        user: gmailUser,
-        pass: gmailPass,
-      },
-      tls: {
-        rejectUnauthorized: false
-      }
-    });
+// "in_progress" -> "In Progress"
+function formatLabel(value: string): string {
+  return value.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+}
 
-    try {
-      // Use a shorter timeout for verification
-      await Promise.race([
-        this.transporter.verify(),
-        new Promise((_, reject) => setTimeout(() => reject(new Error('Connection timeout')), 10000))
-      ]);
-      this.initialized = true;
-      console.log('✅ Email service initialized with Gmail successfully');
-    } catch (error) {
-      // Don't completely disable email service - just warn and continue
-      console.warn('⚠️ Gmail verification failed during startup:', error instanceof Error ? error.message : String(error));
-      console.log('📧 Email service will attempt to send emails anyway (lazy verification)');
-      console.log('If emails fail, check your Gmail App Password and internet connection');
-      
-      // Set as initialized but mark as unverified
-      this.initialized = true;
-    }
-  }
+function stepTemplateContext(step: ReleaseStep) {
+  return {
+    name: step.name,
+    description: step.description || '',
+    category: formatLabel(step.category),
+    status: formatLabel(step.status),
+    scheduledTime: step.scheduledTime ? new Date(step.scheduledTime).toLocaleString() : '',
+  };
+}
 
-  private async sendEmail(to: string | string[], subject: string, html: string, cc?: string[], bcc?: string[]) {
-    console.log(`📧 Attempting to send email: "${subject}" to ${Array.isArray(to) ? to.join(', ') : to}`);
-    
-    if (!this.transporter) {
-      console.warn('⚠️ Email service not available (no transporter), skipping email');
-      return;
-    }
+// Renders notifications and hands them to the configured notification channels
+class EmailService {
+  private async sendEmail({ event, to, subject, html, text, sensitive = false, sharedCopy }: OutgoingEmail) {
+    console.log(`📧 Attempting to send notification: "${subject}" to ${Array.isArray(to) ? to.join(', ') : to}`);
 
     try {
       const settings = await this.getEmailSettings();
-      
-      const mailOptions = {
+      if (!settings.enabled && !sensitive) {
+        console.log(`ℹ️ Skipping notification "${subject}": notifications are disabled`);
+        return;
+      }
+
+      // Deactivated users no longer receive notifications
+      const recipients = Array.isArray(to) ? to : [to];
+      const recipientUsers = await storage.getUsersByEmails(recipients);
+      const deactivated = new Set(recipientUsers.filter(user => !user.isActive).map(user => user.email));
+      const activeRecipients = recipients.filter(email => !deactivated.has(email));
+      if (activeRecipients.length === 0) {
+        console.log(`ℹ️ Skipping notification "${subject}": every recipient has been deactivated`);
+        return;
+      }
+
+      const message: NotificationMessage = {
+        event,
         from: settings.from,
-        to: Array.isArray(to) ? to.join(', ') : to,
+        to: activeRecipients,
+        cc: sensitive || sharedCopy ? [] : settings.cc,
+        bcc: sensitive || sharedCopy ? [] : settings.bcc,
         subject,
         html,
-        cc: [...(cc || []), ...settings.cc].join(', ') || undefined,
-        bcc: [...(bcc || []), ...settings.bcc].join(', ') || undefined,
+        text: text || htmlToText(html),
+        sensitive,
       };
 
-      console.log(`📤 Sending with from: ${mailOptions.from}, to: ${mailOptions.to}`);
+      const category = notificationCategoryByEvent[event];
+      if (!category) {
+        await notificationOutbox.dispatch(message);
+        return;
+      }
+
+      // Shared chat and webhook channels are not anyone's preference
+      await notificationOutbox.dispatch(
+        sharedCopy
+          ? { ...message, ...sharedCopy, text: sharedCopy.text || htmlToText(sharedCopy.html) }
+          : message,
+        isSharedChannel,
+      );
+
+      // Everyone else goes out now on their chosen channel, into a digest, or nowhere
+      const userIdsByEmail = new Map(recipientUsers.map(user => [user.email, user.id]));
+      const preferences = new Map(
+        (await storage.getNotificationPreferences(recipientUsers.map(user => user.id)))
+          .map(preference => [preference.userId, preference])
+      );
+      const immediateByChannel = new Map<string | null, string[]>();
+      const digestItems: InsertNotificationDigestItem[] = [];
+
+      for (const email of activeRecipients) {
+        const userId = userIdsByEmail.get(email);
+        const preference = userId ? preferences.get(userId) : undefined;
+        const delivery = getNotificationDelivery(preference?.deliveries, category);
+
+        if (delivery === 'off') continue;
+        if ((delivery === 'hourly' || delivery === 'daily') && userId) {
+          digestItems.push({ userId, event, frequency: delivery, subject, body: message.text });
+          continue;
+        }
+
+        const channelId = preference?.channelId ?? null;
+        immediateByChannel.set(channelId, [...(immediateByChannel.get(channelId) || []), email]);
+      }
+
+      await storage.addNotificationDigestItems(digestItems);
 
-      await this.transporter.sendMail(mailOptions);
-      console.log(`✅ Email sent successfully to: ${Array.isArray(to) ? to.join(', ') : to}`);
+      // The global CC/BCC ride along with the first copy, or get one of their own
+      const groups = Array.from(immediateByChannel.entries());
+      if (groups.length === 0 && (message.cc.length > 0 || message.bcc.length > 0)) {
+        groups.push([null, []]);
+      }
+      for (let index = 0; index < groups.length; index++) {
+        const [channelId, emails] = groups[index];
+        await notificationOutbox.dispatch(
+          {
+            ...message,
+            to: emails.length > 0 ? emails : message.cc,
+            cc: index === 0 && emails.length > 0 ? message.cc : [],
+            bcc: index === 0 ? message.bcc : [],
+          },
+          config => !isSharedChannel(config) && (channelId === null || config.id === channelId),
+        );
+      }
     } catch (error) {
-      console.error('❌ Failed to send email:', error instanceof Error ? error.message : String(error));
+      console.error('❌ Failed to send notification:', error instanceof Error ? error.message : String(error));
       console.error('Recipients:', Array.isArray(to) ? to.join(', ') : to);
       console.error('Subject:', subject);
       // Don't throw - just log the error so the app continues working
     }
   }
 
+  // Digests bypass preferences; they are already the result of them
+  async sendNotificationDigest(to: string, channelId: string | null, context: TemplateContext) {
+    try {
+      const settings = await this.getEmailSettings();
+      const { subject, html, text } = await this.renderTemplate('digest', context);
+      await notificationOutbox.dispatch(
+        {
+          event: 'digest',
+          from: settings.from,
+          to: [to],
+          cc: [],
+          bcc: [],
+          subject,
+          html,
+          text: text || htmlToText(html),
+          sensitive: false,
+        },
+        config => !isSharedChannel(config) && (channelId === null || config.id === channelId),
+      );
+    } catch (error) {
+      console.error('Failed to send notification digest:', error);
+    }
+  }
+
+  // Renders an unsaved template with sample data and sends it to the editor
+  // through the channels that address them directly
+  async sendTemplateTest(to: string, event: NotificationEvent, template: NotificationTemplateContent) {
+    const settings = await this.getEmailSettings();
+    const { subject, html, text } = renderNotificationTemplate(template, {
+      ...notificationTemplateSamples[event],
+      productName: await this.getProductName(),
+    });
+    await notificationOutbox.dispatch(
+      {
+        event,
+        from: settings.from,
+        to: [to],
+        cc: [],
+        bcc: [],
+        subject: `[Test] ${subject}`,
+        html,
+        text: text || htmlToText(html),
+        sensitive: false,
+      },
+      config => !isSharedChannel(config),
+    );
+  }
+
+  private async getProductName() {
+    return (await storage.getGlobalSetting(PRODUCT_NAME_SETTING))?.value || DEFAULT_PRODUCT_NAME;
+  }
+
+  // Stored templates are validated when saved; one that still fails to render
+  // falls back to the built-in default rather than losing the notification
+  private async renderTemplate(event: NotificationEvent, context: TemplateContext) {
+    const fullContext = { ...context, productName: await this.getProductName() };
+    const stored = await storage.getActiveNotificationTemplate(event);
+    if (stored) {
+      try {
+        return renderNotificationTemplate(stored, fullContext);
+      } catch (error) {
+        console.error(`Notification template "${event}" v${stored.version} failed to render, using the default:`, error);
+      }
+    }
+    return renderNotificationTemplate(defaultNotificationTemplates[event], fullContext);
+  }
+
   private async getEmailSettings() {
     const defaultFrom = await storage.getGlobalSetting('email_default_from');
     const defaultCc = await storage.getGlobalSetting('email_default_cc');
     const defaultBcc = await storage.getGlobalSetting('email_default_bcc');
+    const enabled = await storage.getGlobalSetting('notification_enabled');
 
     return {
       from: defaultFrom?.value || process.env.GMAIL_USER || 'noreply@releasemaster.com',
       cc: defaultCc?.value ? defaultCc.value.split(',').map(email => email.trim()) : [],
       bcc: defaultBcc?.value ? defaultBcc.value.split(',').map(email => email.trim()) : [],
+      enabled: enabled?.value !== 'false',
     };
   }
 
   async sendStepAssignmentNotification(to: string, step: ReleaseStep, role: 'team_lead' | 'poc' = 'team_lead') {
-    if (!this.initialized) return;
-
     try {
-      const settings = await this.getEmailSettings();
-      
-      const roleText = role === 'team_lead' ? 'team lead' : 'Point of Contact (POC)';
-      const actionText = role === 'team_lead' ? 'assign a POC and manage the step execution' : 'execute this step';
-      
-      const subject = `iPlan: Step Assignment - ${step.name}`;
-      const html = `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-            <h2 style="color: #2563eb;">Step Assignment Notification</h2>
-            <p>You have been assigned as the ${roleText} for the following step:</p>
-            
-            <div style="background-color: #f8fafc; padding: 20px; border-radius: 8px; margin: 20px 0;">
-              <h3 style="margin-top: 0; color: #1e293b;">${step.name}</h3>
-              <p><strong>Description:</strong> ${step.description || 'No description provided'}</p>
-              <p><strong>Category:</strong> ${step.category.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}</p>
-              <p><strong>Status:</strong> ${step.status.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}</p>
-              ${step.scheduledTime ? `<p><strong>Scheduled Time:</strong> ${new Date(step.scheduledTime).toLocaleString()}</p>` : ''}
-            </div>
-            
-            <p>Please log into iPlan to review the step details and ${actionText}.</p>
-            
-            <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; color: #64748b; font-size: 14px;">
-              <p>This is an automated notification from iPlan Release Management System.</p>
-            </div>
-          </div>
-        `;
-
-      await this.sendEmail(to, subject, html, settings.cc, settings.bcc);
+      const rendered = await this.renderTemplate('step_assignment', {
+        step: stepTemplateContext(step),
+        role: role === 'team_lead' ? 'team lead' : 'Point of Contact (POC)',
+        action: role === 'team_lead' ? 'assign a POC and manage the step execution' : 'execute this step',
+      });
+
+      await this.sendEmail({ event: 'step_assignment', to, ...rendered });
       console.log(`Step assignment notification sent to ${to} (${role})`);
     } catch (error) {
       console.error('Failed to send step assignment notification:', error);
     }
   }
 
+  async sendUserInvitation(to: string, temporaryPassword: string, invitedBy: string) {
+    try {
+      const rendered = await this.renderTemplate('user_invitation', { email: to, temporaryPassword, invitedBy });
+
+      await this.sendEmail({ event: 'user_invitation', to, ...rendered, sensitive: true });
+      console.log(`User invitation sent to ${to}`);
+    } catch (error) {
+      console.error('Failed to send user invitation:', error);
+    }
+  }
+
+  async sendPasswordResetNotification(to: string, temporaryPassword: string, resetBy: string) {
+    try {
+      const rendered = await this.renderTemplate('password_reset', { temporaryPassword, resetBy });
+
+      await this.sendEmail({ event: 'password_reset', to, ...rendered, sensitive: true });
+      console.log(`Password reset notification sent to ${to}`);
+    } catch (error) {
+      console.error('Failed to send password reset notification:', error);
+    }
+  }
+
   async sendPocReassignmentNotification(emails: string[], step: ReleaseStep, assignedBy: string) {
-    if (!this.initialized || emails.length === 0) return;
+    if (emails.length === 0) return;
 
     try {
-      const settings = await this.getEmailSettings();
-      
-      const subject = `iPlan: POC Assignment - ${step.name}`;
-      const html = `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-            <h2 style="color: #2563eb;">POC Assignment Notification</h2>
-            <p>You have been assigned as a Point of Contact (POC) for the following step by ${assignedBy}:</p>
-            
-            <div style="background-color: #f0fdf4; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #10b981;">
-              <h3 style="margin-top: 0; color: #1e293b;">${step.name}</h3>
-              <p><strong>Description:</strong> ${step.description || 'No description provided'}</p>
-              <p><strong>Category:</strong> ${step.category.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}</p>
-              <p><strong>Status:</strong> ${step.status.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}</p>
-              ${step.scheduledTime ? `<p><strong>Scheduled Time:</strong> ${new Date(step.scheduledTime).toLocaleString()}</p>` : ''}
-              <p><strong>Assigned At:</strong> ${new Date().toLocaleString()}</p>
-            </div>
-            
-            <p>Please log into iPlan to review the step details. You will be notified when this step is triggered for execution.</p>
-            
-            <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; color: #64748b; font-size: 14px;">
-              <p>This is an automated notification from iPlan Release Management System.</p>
-            </div>
-          </div>
-        `;
-
-      await this.sendEmail(emails, subject, html, settings.cc, settings.bcc);
+      const rendered = await this.renderTemplate('poc_assignment', {
+        step: stepTemplateContext(step),
+        assignedBy,
+        assignedAt: new Date().toLocaleString(),
+      });
+
+      await this.sendEmail({ event: 'poc_assignment', to: emails, ...rendered });
       console.log(`POC assignment notification sent to ${emails.length} recipients`);
     } catch (error) {
       console.error('Failed to send POC assignment notification:', error);
     }
   }
 
-  async sendStepTriggerNotification(emails: string[], step: ReleaseStep) {
-    if (!this.initialized || emails.length === 0) return;
+  // Only the POC who must acknowledge the step gets the acknowledgement link;
+  // the link acts as them, so shared channels get a copy without it
+  async sendStepTriggerNotification(emails: string[], step: ReleaseStep, acknowledgeUrl = '') {
+    if (emails.length === 0) return;
 
     try {
-      const settings = await this.getEmailSettings();
-      
-      const subject = `iPlan: Step Triggered - ${step.name}`;
-      const html = `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-            <h2 style="color: #2563eb;">Step Triggered</h2>
-            <p>The following step has been triggered and is ready for execution:</p>
-            
-            <div style="background-color: #fef3c7; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #f59e0b;">
-              <h3 style="margin-top: 0; color: #1e293b;">${step.name}</h3>
-              <p><strong>Description:</strong> ${step.description || 'No description provided'}</p>
-              <p><strong>Category:</strong> ${step.category.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}</p>
-              <p><strong>Status:</strong> Started</p>
-              <p><strong>Triggered At:</strong> ${new Date().toLocaleString()}</p>
-            </div>
-            
-            <p><strong>Action Required:</strong> Please proceed with the execution of this step and update the status to "In Progress" and then "Completed" once finished.</p>
-            
-            <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; color: #64748b; font-size: 14px;">
-              <p>This is an automated notification from iPlan Release Management System.</p>
-            </div>
-          </div>
-        `;
-
-      await this.sendEmail(emails, subject, html, settings.cc, settings.bcc);
+      const context = {
+        step: stepTemplateContext(step),
+        triggeredAt: new Date().toLocaleString(),
+      };
+      const rendered = await this.renderTemplate('step_trigger', {
+        ...context,
+        acknowledgeUrl,
+        acknowledgeBy: acknowledgeUrl && step.acknowledgementDueAt ? new Date(step.acknowledgementDueAt).toLocaleString() : '',
+      });
+      const sharedCopy = acknowledgeUrl
+        ? await this.renderTemplate('step_trigger', { ...context, acknowledgeUrl: '', acknowledgeBy: '' })
+        : undefined;
+
+      await this.sendEmail({ event: 'step_trigger', to: emails, ...rendered, sharedCopy });
       console.log(`Step trigger notification sent to ${emails.length} recipients`);
     } catch (error) {
       console.error('Failed to send step trigger notification:', error);
@@ -210,60 +323,83 @@ class EmailService {
   }
 
   async sendStatusChangeNotification(emails: string[], step: ReleaseStep, previousStatus: string, newStatus: string, updatedBy: string) {
-    if (!this.initialized || emails.length === 0) return;
+    if (emails.length === 0) return;
 
     try {
-      const settings = await this.getEmailSettings();
-      
-      const statusColors = {
-        not_started: '#6b7280',
-        started: '#3b82f6',
-        in_progress: '#f59e0b',
-        completed: '#10b981',
-        failed: '#ef4444',
-      };
+      const rendered = await this.renderTemplate('status_change', {
+        step: stepTemplateContext(step),
+        previousStatus: formatLabel(previousStatus),
+        previousStatusColor: statusColors[previousStatus] || DEFAULT_STATUS_COLOR,
+        newStatus: formatLabel(newStatus),
+        newStatusColor: statusColors[newStatus] || DEFAULT_STATUS_COLOR,
+        updatedBy,
+        updatedAt: new Date().toLocaleString(),
+      });
 
-      const subject = `iPlan: Status Update - ${step.name}`;
-      const html = `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-            <h2 style="color: #2563eb;">Step Status Update</h2>
-            <p>The status of the following step has been updated by ${updatedBy}:</p>
-            
-            <div style="background-color: #f8fafc; padding: 20px; border-radius: 8px; margin: 20px 0;">
-              <h3 style="margin-top: 0; color: #1e293b;">${step.name}</h3>
-              <p><strong>Description:</strong> ${step.description || 'No description provided'}</p>
-              <p><strong>Category:</strong> ${step.category.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}</p>
-              
-              <div style="margin: 15px 0;">
-                <span style="background-color: ${statusColors[previousStatus as keyof typeof statusColors] || '#6b7280'}; color: white; padding: 4px 8px; border-radius: 4px; font-size: 12px;">
-                  ${previousStatus.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
-                </span>
-                <span style="margin: 0 10px;">→</span>
-                <span style="background-color: ${statusColors[newStatus as keyof typeof statusColors] || '#6b7280'}; color: white; padding: 4px 8px; border-radius: 4px; font-size: 12px;">
-                  ${newStatus.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
-                </span>
-              </div>
-              
-              <p><strong>Updated At:</strong> ${new Date().toLocaleString()}</p>
-              <p><strong>Updated By:</strong> ${updatedBy}</p>
-            </div>
-            
-            <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; color: #64748b; font-size: 14px;">
-              <p>This is an automated notification from iPlan Release Management System.</p>
-            </div>
-          </div>
-        `;
-
-      await this.sendEmail(emails, subject, html, settings.cc, settings.bcc);
+      await this.sendEmail({ event: 'status_change', to: emails, ...rendered });
       console.log(`Status change notification sent to ${emails.length} recipients`);
     } catch (error) {
       console.error('Failed to send status change notification:', error);
     }
   }
 
-  async checkAndNotifyReleaseCompletion(releasePlanId: string) {
-    if (!this.initialized) return;
+  async sendStepOverdueNotification(emails: string[], step: ReleaseStep, reason: string, stage: string) {
+    if (emails.length === 0) return;
+
+    try {
+      const rendered = await this.renderTemplate('step_overdue', {
+        step: stepTemplateContext(step),
+        reason,
+        overdueSince: step.overdueSince ? new Date(step.overdueSince).toLocaleString() : '',
+        stage,
+      });
+
+      await this.sendEmail({ event: 'step_overdue', to: emails, ...rendered });
+      console.log(`Step overdue notification sent to ${emails.length} recipients`);
+    } catch (error) {
+      console.error('Failed to send step overdue notification:', error);
+    }
+  }
+
+  async sendPocFailoverNotification(
+    emails: string[],
+    step: ReleaseStep,
+    handover: { previousPoc: string; newPoc: string; windowMinutes: string },
+    acknowledgeUrl = '',
+  ) {
+    if (emails.length === 0) return;
+
+    try {
+      const context = { step: stepTemplateContext(step), ...handover };
+      const rendered = await this.renderTemplate('poc_failover', { ...context, acknowledgeUrl });
+      const sharedCopy = acknowledgeUrl
+        ? await this.renderTemplate('poc_failover', { ...context, acknowledgeUrl: '' })
+        : undefined;
+
+      await this.sendEmail({ event: 'poc_failover', to: emails, ...rendered, sharedCopy });
+      console.log(`POC failover notification sent to ${emails.length} recipients`);
+    } catch (error) {
+      console.error('Failed to send POC failover notification:', error);
+    }
+  }
+
+  async sendCommentMentionNotification(
+    emails: string[],
+    mention: { author: string; target: string; comment: string; url: string },
+  ) {
+    if (emails.length === 0) return;
 
+    try {
+      const rendered = await this.renderTemplate('comment_mention', mention);
+
+      await this.sendEmail({ event: 'comment_mention', to: emails, ...rendered });
+      console.log(`Comment mention notification sent to ${emails.length} recipients`);
+    } catch (error) {
+      console.error('Failed to send comment mention notification:', error);
+    }
+  }
+
+  async checkAndNotifyReleaseCompletion(releasePlanId: string) {
     try {
       // Get release plan and all its steps
       const releasePlan = await storage.getReleasePlan(releasePlanId);
@@ -272,8 +408,8 @@ class EmailService {
       const steps = await storage.getStepsByReleasePlan(releasePlanId);
       if (steps.length === 0) return;
 
-      // Check if all steps are completed
-      const allCompleted = steps.every((step: any) => step.status === 'completed');
+      // Check if all steps are completed (skipped steps count as done)
+      const allCompleted = steps.every((step: any) => isStepFinished(step.status));
       if (!allCompleted) return;
 
       console.log(`All steps completed for release ${releasePlan.name} ${releasePlan.version}. Sending completion notifications.`);
@@ -321,33 +457,20 @@ class EmailService {
   }
 
   async sendReleaseCompletionNotification(releasePlan: ReleasePlan, stakeholderEmails: string[]) {
-    if (!this.initialized || stakeholderEmails.length === 0) return;
+    if (stakeholderEmails.length === 0) return;
 
     try {
-      const settings = await this.getEmailSettings();
-      
-      const subject = `iPlan: Release Completed - ${releasePlan.name} ${releasePlan.version}`;
-      const html = `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-            <h2 style="color: #10b981;">🎉 Release Completed Successfully!</h2>
-            <p>We're pleased to announce that the following release has been completed:</p>
-            
-            <div style="background-color: #ecfdf5; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #10b981;">
-              <h3 style="margin-top: 0; color: #1e293b;">${releasePlan.name} ${releasePlan.version}</h3>
-              <p><strong>Description:</strong> ${releasePlan.description || 'No description provided'}</p>
-              <p><strong>Completion Time:</strong> ${new Date().toLocaleString()}</p>
-              ${releasePlan.scheduledDate ? `<p><strong>Originally Scheduled:</strong> ${new Date(releasePlan.scheduledDate).toLocaleString()}</p>` : ''}
-            </div>
-            
-            <p>All release steps have been successfully executed. Thank you to everyone involved in making this release a success!</p>
-            
-            <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; color: #64748b; font-size: 14px;">
-              <p>This is an automated notification from iPlan Release Management System.</p>
-            </div>
-          </div>
-        `;
-
-      await this.sendEmail(stakeholderEmails, subject, html, settings.cc, settings.bcc);
+      const rendered = await this.renderTemplate('release_completion', {
+        release: {
+          name: releasePlan.name,
+          version: releasePlan.version,
+          description: releasePlan.description || '',
+          scheduledDate: releasePlan.scheduledDate ? new Date(releasePlan.scheduledDate).toLocaleString() : '',
+        },
+        completedAt: new Date().toLocaleString(),
+      });
+
+      await this.sendEmail({ event: 'release_completion', to: stakeholderEmails, ...rendered });
       console.log(`Release completion notification sent to ${stakeholderEmails.length} recipients`);
     } catch (error) {
       console.error('Failed to send release completion notification:', error);
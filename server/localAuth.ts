@@ -3,8 +3,11 @@ import passport from 'passport';
 import { Strategy as LocalStrategy } from 'passport-local';
 import session from 'express-session';
 import connectPg from 'connect-pg-simple';
-import type { Express, Request, Response, NextFunction } from 'express';
+import type { Express, Request, Response, NextFunction, RequestHandler } from 'express';
+import type { IncomingMessage } from 'http';
 import { storage } from './storage';
+import { recordAudit } from './audit';
+import { authenticateApiToken } from './apiTokens';
 import { 
   createUserSchema, 
   loginUserSchema, 
@@ -16,6 +19,10 @@ const SALT_ROUNDS = 10;
 
 type SessionUser = Omit<User, 'password'>;
 
+export function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, SALT_ROUNDS);
+}
+
 interface AuthenticatedRequest extends Request {
   user?: SessionUser;
 }
@@ -43,11 +50,17 @@ export function getSession() {
   });
 }
 
+// Kept so WebSocket upgrades can read the same sessions as Express routes
+let sessionMiddleware: RequestHandler | null = null;
+
 export async function setupAuth(app: Express) {
   app.set('trust proxy', 1);
-  app.use(getSession());
+  sessionMiddleware = getSession();
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
+  // CI/CD pipelines and scripts send an API token instead of a session cookie
+  app.use('/api', authenticateApiToken);
 
   // Configure local strategy
   passport.use(new LocalStrategy(
@@ -63,6 +76,12 @@ export async function setupAuth(app: Express) {
         if (!isValid) {
           return done(null, false, { message: 'Invalid email or password' });
         }
+        if (!user.isActive) {
+          return done(null, false, { message: 'This account has been deactivated' });
+        }
+        if (user.isServiceAccount) {
+          return done(null, false, { message: 'Service accounts sign in with API tokens' });
+        }
 
         // Remove password from user object before returning
         const { password: _, ...userWithoutPassword } = user;
@@ -80,7 +99,8 @@ export async function setupAuth(app: Express) {
   passport.deserializeUser(async (id: string, done) => {
     try {
       const user = await storage.getUser(id);
-      if (user) {
+      // Deactivating a user ends their existing sessions too
+      if (user?.isActive) {
         const { password: _, ...userWithoutPassword } = user;
         done(null, userWithoutPassword as any);
       } else {
@@ -96,18 +116,25 @@ export async function setupAuth(app: Express) {
     try {
       const { email, password } = loginUserSchema.parse(req.body);
       
-      passport.authenticate('local', (err: any, user: any, info: any) => {
+      passport.authenticate('local', async (err: any, user: any, info: any) => {
         if (err) {
           return res.status(500).json({ message: 'Internal server error' });
         }
         if (!user) {
+          await recordAudit(req, {
+            entityType: 'user',
+            action: 'login_failed',
+            actorId: null,
+            after: { email },
+          });
           return res.status(401).json({ message: info?.message || 'Authentication failed' });
         }
         
-        req.logIn(user, (err) => {
+        req.logIn(user, async (err) => {
           if (err) {
             return res.status(500).json({ message: 'Login failed' });
           }
+          await recordAudit(req, { entityType: 'user', entityId: user.id, action: 'login', actorId: user.id });
           return res.json({ message: 'Login successful', user });
         });
       })(req, res, next);
@@ -131,7 +158,7 @@ export async function setupAuth(app: Express) {
       }
 
       // Hash password
-      const hashedPassword = await bcrypt.hash(userData.password, SALT_ROUNDS);
+      const hashedPassword = await hashPassword(userData.password);
       
       // Create user
       const newUser = await storage.createUser({
@@ -142,6 +169,14 @@ export async function setupAuth(app: Express) {
       // Remove password from response
       const { password: _, ...userWithoutPassword } = newUser;
       
+      await recordAudit(req, {
+        entityType: 'user',
+        entityId: newUser.id,
+        action: 'register',
+        actorId: newUser.id,
+        after: userWithoutPassword,
+      });
+
       // Auto login after registration
       req.logIn(userWithoutPassword as any, (err) => {
         if (err) {
@@ -163,10 +198,14 @@ export async function setupAuth(app: Express) {
 
   // Logout route
   app.post('/api/logout', (req: Request, res: Response) => {
-    req.logout((err) => {
+    const userId = (req.user as { id?: string } | undefined)?.id;
+    req.logout(async (err) => {
       if (err) {
         return res.status(500).json({ message: 'Logout failed' });
       }
+      if (userId) {
+        await recordAudit(req, { entityType: 'user', entityId: userId, action: 'logout', actorId: userId });
+      }
       res.json({ message: 'Logout successful' });
     });
   });
@@ -182,4 +221,27 @@ export const isAuthenticated = (req: AuthenticatedRequest, res: Response, next:
     return next();
   }
   return res.status(401).json({ message: 'Unauthorized' });
-};
\ No newline at end of file
+};
+
+// Resolves the logged-in user behind a request that never reaches the Express
+// stack, such as a WebSocket upgrade. Like deserializeUser, deactivated users
+// count as logged out.
+export function getSessionUser(request: IncomingMessage): Promise<SessionUser | null> {
+  return new Promise((resolve, reject) => {
+    if (!sessionMiddleware) return resolve(null);
+
+    const req = request as Request;
+    sessionMiddleware(req, {} as Response, async (error?: any) => {
+      if (error) return reject(error);
+      try {
+        const userId = (req.session as any)?.passport?.user;
+        const user = userId ? await storage.getUser(userId) : undefined;
+        if (!user?.isActive) return resolve(null);
+        const { password: _, ...userWithoutPassword } = user;
+        resolve(userWithoutPassword);
+      } catch (lookupError) {
+        reject(lookupError);
+      }
+    });
+  });
+}
@@ -0,0 +1,243 @@
+import { createHmac } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { storage } from './storage';
+import {
+  NOTIFICATION_CHANNELS_SETTING,
+  isNotificationSecretEnv,
+  isNotificationSubdirectory,
+  parseNotificationChannels,
+  type NotificationChannelConfig,
+  type NotificationEvent,
+  type NotificationMessage,
+} from '@shared/notificationChannels';
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// File channels only ever write below this directory
+const NOTIFICATION_FILE_ROOT = path.resolve(process.env.NOTIFICATION_FILE_DIR || 'notifications');
+
+// Addresses the channel accepted the message for but could not deliver to
+export interface DeliveryResult {
+  rejected: string[];
+}
+
+export interface NotificationChannel {
+  readonly config: NotificationChannelConfig;
+  send(message: NotificationMessage): Promise<DeliveryResult | void>;
+}
+
+// Chat and webhook channels post everything to one shared destination
+const sharedDestinationTypes = new Set<NotificationChannelConfig['type']>(['slack', 'teams', 'webhook']);
+
+export function isSharedChannel(config: NotificationChannelConfig): boolean {
+  return sharedDestinationTypes.has(config.type);
+}
+
+// File and console output is readable by anyone with access to the server, so
+// messages carrying credentials only go out by email
+function acceptsSensitive(config: NotificationChannelConfig): boolean {
+  return config.type === 'smtp';
+}
+
+// Settings are validated on save, but older saved values may name any variable
+function readSecretEnv(name: string | undefined): string | undefined {
+  if (!name) return undefined;
+  if (!isNotificationSecretEnv(name)) {
+    console.error(`Ignoring notification secret variable ${name}: it must start with NOTIFY_`);
+    return undefined;
+  }
+  return process.env[name];
+}
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(br|\/p|\/div|\/h[1-6]|\/li)\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+  }
+}
+
+class SmtpChannel implements NotificationChannel {
+  private transporter: nodemailer.Transporter;
+
+  constructor(
+    readonly config: Extract<NotificationChannelConfig, { type: 'smtp' }>,
+    password: string | undefined = readSecretEnv(config.passwordEnv),
+  ) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: password } : undefined,
+    });
+  }
+
+  async send(message: NotificationMessage): Promise<DeliveryResult> {
+    const info = await this.transporter.sendMail({
+      from: this.config.from || message.from,
+      to: message.to.join(', '),
+      cc: message.cc.join(', ') || undefined,
+      bcc: message.bcc.join(', ') || undefined,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+    });
+    return {
+      rejected: (info.rejected || []).map((address: string | { address: string }) =>
+        typeof address === 'string' ? address : address.address
+      ),
+    };
+  }
+}
+
+class ChatWebhookChannel implements NotificationChannel {
+  constructor(readonly config: Extract<NotificationChannelConfig, { type: 'slack' | 'teams' }>) {}
+
+  async send(message: NotificationMessage) {
+    // Slack reads mrkdwn, Teams reads markdown
+    const text = this.config.type === 'slack'
+      ? `*${message.subject}*\n${message.text}`
+      : `**${message.subject}**\n\n${message.text.replace(/\n/g, '\n\n')}`;
+    await postJson(this.config.url, { text });
+  }
+}
+
+class WebhookChannel implements NotificationChannel {
+  constructor(readonly config: Extract<NotificationChannelConfig, { type: 'webhook' }>) {}
+
+  async send(message: NotificationMessage) {
+    const body = JSON.stringify({
+      event: message.event,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      recipients: message.to,
+      sentAt: new Date().toISOString(),
+    });
+
+    // Receivers can verify the payload with the shared secret
+    const secret = readSecretEnv(this.config.secretEnv);
+    const headers: Record<string, string> = secret
+      ? { 'X-IPlan-Signature': `sha256=${createHmac('sha256', secret).update(body).digest('hex')}` }
+      : {};
+    await postJson(this.config.url, body, headers);
+  }
+}
+
+class FileChannel implements NotificationChannel {
+  constructor(readonly config: Extract<NotificationChannelConfig, { type: 'file' }>) {}
+
+  async send(message: NotificationMessage) {
+    const directory = path.resolve(NOTIFICATION_FILE_ROOT, this.config.directory);
+    if (!isNotificationSubdirectory(this.config.directory) ||
+        (directory !== NOTIFICATION_FILE_ROOT && !directory.startsWith(NOTIFICATION_FILE_ROOT + path.sep))) {
+      throw new Error(`File channel directory ${this.config.directory} is outside ${NOTIFICATION_FILE_ROOT}`);
+    }
+    await mkdir(directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.event}-${Math.random().toString(36).slice(2, 8)}.json`;
+    await writeFile(path.join(directory, fileName), JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2));
+  }
+}
+
+class ConsoleChannel implements NotificationChannel {
+  constructor(readonly config: Extract<NotificationChannelConfig, { type: 'console' }>) {}
+
+  async send(message: NotificationMessage) {
+    console.log(`📨 [${this.config.name}] ${message.subject}\nTo: ${message.to.join(', ')}\n${message.text}`);
+  }
+}
+
+export function createNotificationChannel(config: NotificationChannelConfig): NotificationChannel {
+  switch (config.type) {
+    case 'smtp':
+      return new SmtpChannel(config);
+    case 'slack':
+    case 'teams':
+      return new ChatWebhookChannel(config);
+    case 'webhook':
+      return new WebhookChannel(config);
+    case 'file':
+      return new FileChannel(config);
+    case 'console':
+      return new ConsoleChannel(config);
+  }
+}
+
+// Installs that predate channel settings keep sending through Gmail. The
+// password comes straight from GMAIL_APP_PASSWORD rather than a configurable
+// variable name.
+function legacyGmailChannel(): NotificationChannel[] {
+  if (!process.env.GMAIL_USER || !process.env.GMAIL_APP_PASSWORD) return [];
+  return [new SmtpChannel({
+    id: 'gmail',
+    name: 'Gmail',
+    type: 'smtp',
+    enabled: true,
+    events: [],
+    host: 'smtp.gmail.com',
+    port: 587,
+    secure: false,
+    user: process.env.GMAIL_USER,
+  }, process.env.GMAIL_APP_PASSWORD)];
+}
+
+// Builds channels from global settings and picks the ones each message goes
+// to. Channels are rebuilt only when the setting changes.
+class NotificationChannelRegistry {
+  private cachedValue: string | null | undefined;
+  private channels: NotificationChannel[] = [];
+
+  async getChannels(): Promise<NotificationChannel[]> {
+    const setting = await storage.getGlobalSetting(NOTIFICATION_CHANNELS_SETTING);
+    const value = setting?.value ?? null;
+    if (value === this.cachedValue) return this.channels;
+
+    try {
+      this.channels = value ? parseNotificationChannels(value).map(createNotificationChannel) : legacyGmailChannel();
+    } catch (error) {
+      console.error('Invalid notification channel settings, notifications are disabled:', error instanceof Error ? error.message : String(error));
+      this.channels = [];
+    }
+    this.cachedValue = value;
+    return this.channels;
+  }
+
+  // Channels that address recipients directly, which users can pick between
+  async getPersonalChannels(): Promise<NotificationChannel[]> {
+    return (await this.getChannels()).filter(channel => channel.config.enabled && !isSharedChannel(channel.config));
+  }
+
+  // The enabled channels a message goes to; sensitive messages only go by email
+  async getChannelsFor(message: NotificationMessage, accepts: (config: NotificationChannelConfig) => boolean = () => true): Promise<NotificationChannel[]> {
+    return (await this.getChannels()).filter(channel =>
+      channel.config.enabled &&
+      accepts(channel.config) &&
+      (channel.config.events.length === 0 || channel.config.events.includes(message.event as NotificationEvent)) &&
+      (!message.sensitive || acceptsSensitive(channel.config))
+    );
+  }
+}
+
+export const notificationChannels = new NotificationChannelRegistry();
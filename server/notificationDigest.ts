@@ -0,0 +1,75 @@
+import { storage } from './storage';
+import { emailService } from './emailService';
+import type { NotificationDigestItem } from '@shared/schema';
+import {
+  notificationCategories,
+  notificationCategoryByEvent,
+  notificationCategoryLabels,
+  type NotificationEvent,
+} from '@shared/notificationChannels';
+import type { TemplateContext } from '@shared/notificationTemplates';
+
+// Daily digests cover the 24 hours up to this hour (UTC)
+const DAILY_DIGEST_HOUR_UTC = 8;
+
+type DigestFrequency = 'hourly' | 'daily';
+
+// One section per category, oldest notification first
+export function buildNotificationDigest(items: NotificationDigestItem[], frequency: DigestFrequency): TemplateContext {
+  const sections = notificationCategories
+    .map(category => ({
+      label: notificationCategoryLabels[category],
+      items: items.filter(item => notificationCategoryByEvent[item.event as NotificationEvent] === category),
+    }))
+    .filter(section => section.items.length > 0)
+    .map(section => ({
+      label: section.label,
+      count: section.items.length,
+      items: section.items.map(item => ({
+        subject: item.subject,
+        time: item.createdAt ? new Date(item.createdAt).toLocaleString() : '',
+        body: item.body,
+      })),
+    }));
+
+  return {
+    period: frequency === 'hourly' ? 'Hourly' : 'Daily',
+    summary: `${items.length} notification${items.length === 1 ? '' : 's'}`,
+    sections,
+  };
+}
+
+// A digest is due once the hour, or the day's digest hour, after its items were
+// queued has passed, so a tick missed while the server was down only delays it
+function getDigestCutoff(frequency: DigestFrequency, now: Date): Date {
+  const cutoff = new Date(now);
+  if (frequency === 'hourly') {
+    cutoff.setUTCMinutes(0, 0, 0);
+    return cutoff;
+  }
+  cutoff.setUTCHours(DAILY_DIGEST_HOUR_UTC, 0, 0, 0);
+  if (cutoff > now) cutoff.setUTCDate(cutoff.getUTCDate() - 1);
+  return cutoff;
+}
+
+export async function sendDueNotificationDigests(now = new Date()) {
+  const frequencies: DigestFrequency[] = ['hourly', 'daily'];
+  for (const frequency of frequencies) {
+    const items = await storage.getDueNotificationDigestItems(frequency, getDigestCutoff(frequency, now));
+    if (items.length === 0) continue;
+
+    const itemsByUser = new Map<string, NotificationDigestItem[]>();
+    items.forEach(item => itemsByUser.set(item.userId, [...(itemsByUser.get(item.userId) || []), item]));
+
+    for (const [userId, userItems] of Array.from(itemsByUser)) {
+      const user = await storage.getUser(userId);
+      if (user?.isActive) {
+        const preference = await storage.getNotificationPreference(userId);
+        await emailService.sendNotificationDigest(user.email, preference?.channelId ?? null, buildNotificationDigest(userItems, frequency));
+      }
+      await storage.deleteNotificationDigestItems(userItems.map(item => item.id));
+    }
+
+    console.log(`Sent ${frequency} notification digests to ${itemsByUser.size} users`);
+  }
+}
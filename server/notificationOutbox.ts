@@ -0,0 +1,176 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { storage } from './storage';
+import { notificationChannels } from './notificationChannels';
+import type { NotificationOutboxEntry } from '@shared/schema';
+import type {
+  NotificationChannelConfig,
+  NotificationMessage,
+  NotificationRecipientStatus,
+} from '@shared/notificationChannels';
+
+// A message is retried after 1, 2, 4, 8 and 16 minutes before it is dead-lettered
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// A send that has not finished by now was interrupted by a restart
+const STALE_SENDING_MS = 10 * 60 * 1000;
+const BATCH_SIZE = 50;
+const REDACTED = '[redacted]';
+
+function getRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+function getRecipients(message: NotificationMessage): NotificationRecipientStatus[] {
+  const addresses = Array.from(new Set([...message.to, ...message.cc, ...message.bcc]));
+  return addresses.map(address => ({ address, status: 'pending' }));
+}
+
+function redactMessage(message: NotificationMessage): NotificationMessage {
+  const { sealed, ...rest } = message;
+  return { ...rest, html: REDACTED, text: REDACTED };
+}
+
+function getSealingKey(): Buffer {
+  const secret = process.env.SESSION_SECRET || 'your-secret-key-change-in-production';
+  return createHash('sha256').update(`notification-outbox:${secret}`).digest();
+}
+
+// Sensitive bodies are stored encrypted while they wait to be sent, and
+// dropped for good once the message is sent or dead-lettered
+function sealMessage(message: NotificationMessage): NotificationMessage {
+  if (!message.sensitive) return message;
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getSealingKey(), iv);
+  const body = Buffer.concat([cipher.update(JSON.stringify({ html: message.html, text: message.text }), 'utf8'), cipher.final()]);
+  return {
+    ...redactMessage(message),
+    sealed: [iv, cipher.getAuthTag(), body].map(part => part.toString('base64')).join('.'),
+  };
+}
+
+function unsealMessage(message: NotificationMessage): NotificationMessage {
+  if (!message.sealed) return message;
+  const [iv, tag, body] = message.sealed.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', getSealingKey(), iv);
+  decipher.setAuthTag(tag);
+  const { html, text } = JSON.parse(Buffer.concat([decipher.update(body), decipher.final()]).toString('utf8'));
+  const { sealed, ...rest } = message;
+  return { ...rest, html, text };
+}
+
+// Invitations and password resets carry credentials, which never leave the server
+export function redactOutboxEntry(entry: NotificationOutboxEntry): NotificationOutboxEntry {
+  return entry.message.sensitive ? { ...entry, message: redactMessage(entry.message) } : entry;
+}
+
+// Every notification is written to the outbox before it is sent, so a channel
+// outage delays messages instead of losing them
+class NotificationOutbox {
+  private processing = false;
+
+  async dispatch(message: NotificationMessage, accepts?: (config: NotificationChannelConfig) => boolean) {
+    const channels = await notificationChannels.getChannelsFor(message, accepts);
+    if (channels.length === 0) {
+      console.warn(`No notification channel accepts "${message.event}" - "${message.subject}" was not sent`);
+      return;
+    }
+
+    await storage.enqueueNotifications(channels.map(channel => ({
+      event: message.event,
+      channelId: channel.config.id,
+      channelName: channel.config.name,
+      message: sealMessage(message),
+      recipients: getRecipients(message),
+    })));
+    this.kick();
+  }
+
+  // Sends straight away; anything left over is picked up on the next scheduler tick
+  kick() {
+    this.processDue().catch(error => {
+      console.error('Error processing notification outbox:', error);
+    });
+  }
+
+  async processDue(now = new Date()) {
+    if (this.processing) return;
+    this.processing = true;
+    try {
+      await storage.releaseStaleNotificationOutboxEntries(new Date(now.getTime() - STALE_SENDING_MS));
+      const entries = await storage.getDueNotificationOutboxEntries(now, BATCH_SIZE);
+      for (let index = 0; index < entries.length; index++) {
+        await this.deliver(entries[index].id);
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  // Dead-lettered messages go back in the queue with a fresh set of attempts.
+  // Sensitive ones no longer have a body to send.
+  async resend(id: string): Promise<NotificationOutboxEntry | undefined> {
+    const entry = await storage.getNotificationOutboxEntry(id);
+    if (!entry || entry.status !== 'dead' || entry.message.sensitive) return undefined;
+
+    const updated = await storage.updateNotificationOutboxEntry(id, {
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lastError: null,
+      recipients: getRecipients(entry.message),
+    });
+    this.kick();
+    return updated;
+  }
+
+  private async deliver(id: string) {
+    const entry = await storage.claimNotificationOutboxEntry(id, 'pending');
+    if (!entry) return;
+
+    const attempts = entry.attempts + 1;
+    try {
+      const channel = (await notificationChannels.getChannels())
+        .find(candidate => candidate.config.id === entry.channelId && candidate.config.enabled);
+      if (!channel) {
+        throw new Error(`Channel "${entry.channelName}" is no longer configured or enabled`);
+      }
+
+      const result = await channel.send(unsealMessage(entry.message));
+      const rejected = new Set(result ? result.rejected : []);
+      await storage.updateNotificationOutboxEntry(id, {
+        status: 'sent',
+        attempts,
+        sentAt: new Date(),
+        lastError: rejected.size > 0 ? `Rejected by the server: ${Array.from(rejected).join(', ')}` : null,
+        recipients: entry.recipients.map(recipient => rejected.has(recipient.address)
+          ? { address: recipient.address, status: 'failed', error: 'Rejected by the server' }
+          : { address: recipient.address, status: 'sent' }),
+        message: entry.message.sensitive ? redactMessage(entry.message) : entry.message,
+      });
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      const dead = attempts >= MAX_ATTEMPTS;
+      await storage.updateNotificationOutboxEntry(id, {
+        status: dead ? 'dead' : 'pending',
+        attempts,
+        lastError,
+        nextAttemptAt: dead ? entry.nextAttemptAt : new Date(Date.now() + getRetryDelayMs(attempts)),
+        recipients: entry.recipients.map(recipient => ({
+          address: recipient.address,
+          status: dead ? 'failed' : 'pending',
+          error: lastError,
+        })),
+        ...(dead && entry.message.sensitive ? { message: redactMessage(entry.message) } : {}),
+      });
+
+      if (dead) {
+        console.error(`❌ Notification "${entry.message.subject}" via ${entry.channelName} failed after ${attempts} attempts:`, lastError);
+      } else {
+        console.warn(`Notification "${entry.message.subject}" via ${entry.channelName} failed (attempt ${attempts}), retrying:`, lastError);
+      }
+    }
+  }
+}
+
+export const notificationOutbox = new NotificationOutbox();
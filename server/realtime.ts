@@ -0,0 +1,269 @@
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import { storage } from './storage';
+import { getSessionUser } from './localAuth';
+import type { NumberedEvent } from './broadcastBus';
+import { can } from '@shared/permissions';
+import {
+  commentEventTypes,
+  getEventTopics,
+  getTopicPlanId,
+  isGlobalTopic,
+  planTopic,
+  clientMessageSchema,
+} from '@shared/realtime';
+import {
+  REALTIME_PROTOCOL_VERSION,
+  type RealtimeControlMap,
+  type RealtimeControlType,
+  type RealtimeEvent,
+} from '@shared/realtimeEvents';
+
+const WS_PATH = '/ws';
+// Sent when a deactivated user or an expired link loses its socket
+const POLICY_VIOLATION = 1008;
+// Past this many missed events the client is better off refetching
+const MAX_REPLAY = 200;
+
+// Who is on the other end of a socket: a logged-in user, or someone holding a
+// shareable link, who only ever sees that link's plan
+type Viewer =
+  | { kind: 'user'; userId: string }
+  | { kind: 'share'; releasePlanId: string; allowComments: boolean; expiresAt: Date | null };
+
+interface Connection {
+  viewer: Viewer;
+  topics: Set<string>;
+  // Client messages are handled one at a time, so a resume sees the
+  // subscriptions sent before it
+  handling: Promise<void>;
+  // Live events held back while missed ones are replayed
+  heldBack: NumberedEvent[] | null;
+}
+
+// Accepts WebSocket connections from logged-in users and shareable-link
+// holders, and delivers each broadcast only to sockets subscribed to one of
+// its topics.
+class RealtimeServer {
+  private readonly wss = new WebSocketServer({ noServer: true });
+  private readonly connections = new Map<WebSocket, Connection>();
+
+  attach(httpServer: Server) {
+    httpServer.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+      // Other upgrades, such as the Vite dev server's, are left to their own handlers
+      if (new URL(request.url || '/', 'http://localhost').pathname !== WS_PATH) return;
+
+      this.authenticate(request)
+        .then((viewer) => {
+          if (!viewer) {
+            socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+            socket.destroy();
+            return;
+          }
+          this.wss.handleUpgrade(request, socket, head, (ws) => this.onConnection(ws, viewer));
+        })
+        .catch((error) => {
+          console.error('Error authenticating WebSocket upgrade:', error);
+          socket.write('HTTP/1.1 500 Internal Server Error\r\nConnection: close\r\n\r\n');
+          socket.destroy();
+        });
+    });
+  }
+
+  // Sends a broadcast to this instance's subscribers
+  deliver(event: NumberedEvent) {
+    // A deactivated user's sockets close wherever they are connected
+    if (event.type === 'user_updated' && event.data.isActive === false) {
+      this.disconnectUser(event.data.id);
+    }
+
+    const topics = getEventTopics(event);
+    this.connections.forEach((connection, ws) => {
+      if (connection.heldBack) {
+        connection.heldBack.push(event);
+      } else {
+        this.sendEvent(ws, connection, event, topics);
+      }
+    });
+  }
+
+  private sendEvent(
+    ws: WebSocket,
+    connection: Connection,
+    event: NumberedEvent & { replayed?: boolean },
+    topics = getEventTopics(event),
+  ) {
+    if (ws.readyState !== WebSocket.OPEN) return;
+    if (!topics.some(topic => connection.topics.has(topic))) return;
+
+    if (connection.viewer.kind === 'share') {
+      if (connection.viewer.expiresAt && new Date() > connection.viewer.expiresAt) {
+        ws.close(POLICY_VIOLATION, 'Link has expired');
+        return;
+      }
+      if (!connection.viewer.allowComments && commentEventTypes.includes(event.type)) return;
+      event = toSharedEvent(event);
+    }
+    ws.send(JSON.stringify({ ...event, version: REALTIME_PROTOCOL_VERSION }));
+  }
+
+  private sendControl<T extends RealtimeControlType>(ws: WebSocket, type: T, data: RealtimeControlMap[T]) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type, data, version: REALTIME_PROTOCOL_VERSION }));
+    }
+  }
+
+  private async authenticate(request: IncomingMessage): Promise<Viewer | null> {
+    const shareToken = new URL(request.url || '/', 'http://localhost').searchParams.get('share');
+    if (shareToken) {
+      const link = await storage.getShareableLink(shareToken);
+      if (!link || !link.isActive) return null;
+      if (link.expiresAt && new Date() > link.expiresAt) return null;
+      return {
+        kind: 'share',
+        releasePlanId: link.releasePlanId,
+        allowComments: !!link.allowComments,
+        expiresAt: link.expiresAt,
+      };
+    }
+
+    const user = await getSessionUser(request);
+    return user ? { kind: 'user', userId: user.id } : null;
+  }
+
+  private onConnection(ws: WebSocket, viewer: Viewer) {
+    // Link holders are read-only and limited to their plan, so they start subscribed to it
+    const topics = new Set<string>(viewer.kind === 'share' ? [planTopic(viewer.releasePlanId)] : []);
+    const connection: Connection = { viewer, topics, handling: Promise.resolve(), heldBack: null };
+    this.connections.set(ws, connection);
+
+    ws.on('message', (raw) => {
+      connection.handling = connection.handling
+        .then(() => this.onMessage(ws, raw.toString()))
+        .catch((error) => {
+          console.error('Error handling WebSocket message:', error);
+        });
+    });
+
+    ws.on('close', () => {
+      this.connections.delete(ws);
+    });
+
+    ws.on('error', (error) => {
+      console.error('WebSocket error:', error);
+      this.connections.delete(ws);
+    });
+
+    // The current sequence number lets a client resume if this connection drops
+    storage.getLatestBroadcastSeq()
+      .then((seq) => this.sendControl(ws, 'connected', { topics: Array.from(topics), seq }))
+      .catch((error) => console.error('Error reading broadcast sequence:', error));
+  }
+
+  private async onMessage(ws: WebSocket, raw: string) {
+    const connection = this.connections.get(ws);
+    if (!connection) return;
+
+    let parsed;
+    try {
+      parsed = clientMessageSchema.safeParse(JSON.parse(raw));
+    } catch {
+      parsed = null;
+    }
+    if (!parsed?.success) {
+      this.sendControl(ws, 'error', { message: 'Invalid message' });
+      return;
+    }
+
+    const request = parsed.data;
+    if (request.type === 'resume') {
+      await this.replay(ws, connection, request.lastSeq);
+      return;
+    }
+
+    const rejected: string[] = [];
+    if (request.type === 'subscribe') {
+      for (const topic of request.topics) {
+        if (await this.canSubscribe(connection.viewer, topic)) {
+          connection.topics.add(topic);
+        } else {
+          rejected.push(topic);
+        }
+      }
+    } else {
+      // Link holders cannot drop the one topic they are there for
+      for (const topic of request.topics) {
+        if (connection.viewer.kind === 'user') connection.topics.delete(topic);
+      }
+    }
+
+    this.sendControl(ws, 'subscribed', { topics: Array.from(connection.topics), rejected });
+  }
+
+  // Sends the subscribed events after lastSeq, or tells the client to refetch
+  // everything when they are no longer in the log or there are too many
+  private async replay(ws: WebSocket, connection: Connection, lastSeq: number) {
+    connection.heldBack = [];
+    try {
+      const latestSeq = await storage.getLatestBroadcastSeq();
+      const oldestSeq = await storage.getOldestBroadcastSeq();
+      const missed = await storage.getBroadcastEventsAfter(lastSeq, MAX_REPLAY + 1);
+
+      const tooOld = lastSeq < latestSeq && oldestSeq !== null && oldestSeq > lastSeq + 1;
+      if (lastSeq > latestSeq || tooOld || missed.length > MAX_REPLAY) {
+        this.sendControl(ws, 'resync', { seq: latestSeq });
+      } else {
+        for (const event of missed) {
+          const replayed = { type: event.type, data: event.data, seq: event.seq } as NumberedEvent;
+          this.sendEvent(ws, connection, { ...replayed, replayed: true });
+        }
+        this.sendControl(ws, 'replayed', { count: missed.length, seq: latestSeq });
+      }
+
+      // Anything that arrived meanwhile and was not just replayed
+      for (const event of connection.heldBack) {
+        if (!(typeof event.seq === 'number' && event.seq <= latestSeq)) {
+          this.sendEvent(ws, connection, event);
+        }
+      }
+    } finally {
+      connection.heldBack = null;
+    }
+  }
+
+  private async canSubscribe(viewer: Viewer, topic: string): Promise<boolean> {
+    const releasePlanId = getTopicPlanId(topic);
+    if (viewer.kind === 'share') return releasePlanId === viewer.releasePlanId;
+
+    // Every logged-in user can read every plan, so only the topic itself is
+    // checked, plus the role behind the scheduler's missed-trigger queue
+    const user = await storage.getUser(viewer.userId);
+    if (!user?.isActive) return false;
+    if (topic === 'scheduler') return can(user, 'scheduler.resolve');
+    return !!releasePlanId || isGlobalTopic(topic);
+  }
+
+  private disconnectUser(userId: string) {
+    this.connections.forEach((connection, ws) => {
+      if (connection.viewer.kind === 'user' && connection.viewer.userId === userId) {
+        ws.close(POLICY_VIOLATION, 'Account deactivated');
+      }
+    });
+  }
+}
+
+// Link holders see comments without who was mentioned or who deleted them,
+// matching the shared dashboard API, and overdue steps without who was emailed
+function toSharedEvent<T extends NumberedEvent>(event: T): T {
+  if (event.type === 'step_overdue') {
+    return { ...event, data: { ...event.data, notified: [] } };
+  }
+  if (commentEventTypes.includes(event.type)) {
+    const { mentionedUserIds, deletedBy, ...comment } = event.data as RealtimeEvent<'comment_created'>['data'];
+    return { ...event, data: comment };
+  }
+  return event;
+}
+
+export const realtimeServer = new RealtimeServer();
@@ -0,0 +1,210 @@
+import { randomUUID } from 'crypto';
+import { getPredecessorIds } from '@shared/stepDependencies';
+import type { IStorage } from './storage';
+import type {
+  ChecklistItemBlueprint,
+  InsertReleasePlanTemplateStep,
+  ReleasePlan,
+  ReleasePlanTemplateStep,
+  ReleaseStep,
+  StepChecklistItem,
+  StepDependency,
+} from '@shared/schema';
+
+// A step definition detached from any plan. Links refer to other blueprints by
+// key, and fixed times are minute offsets from the owning plan's scheduledDate.
+// Relative steps already store their offset, so they carry over unchanged, and
+// checklists carry over with every item open.
+export interface StepBlueprint {
+  key: string;
+  name: string;
+  description: string | null;
+  category: string;
+  order: number;
+  teamId: string | null;
+  teamLeadId: string | null;
+  primaryPocId: string | null;
+  backupPocId: string | null;
+  schedulingType: string;
+  scheduleOffsetMinutes: number | null;
+  timezone: string | null;
+  dependsOnKeys: string[];
+  simultaneousWithKey: string | null;
+  relativeTo: string | null;
+  relativeOffsetMinutes: number | null;
+  relativeToKey: string | null;
+  expectedDurationMinutes: number | null;
+  checklist: ChecklistItemBlueprint[];
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Fixed times are measured from the plan date, or from the earliest scheduled
+// step when the plan itself was never given a date
+function getScheduleAnchor(plan: ReleasePlan, steps: ReleaseStep[]): Date | null {
+  if (plan.scheduledDate) return new Date(plan.scheduledDate);
+
+  const times = steps
+    .filter(step => step.scheduledTime)
+    .map(step => new Date(step.scheduledTime!).getTime());
+  return times.length > 0 ? new Date(Math.min(...times)) : null;
+}
+
+export function blueprintsFromSteps(
+  plan: ReleasePlan,
+  steps: ReleaseStep[],
+  dependencies: StepDependency[],
+  checklistItems: StepChecklistItem[],
+): StepBlueprint[] {
+  const anchor = getScheduleAnchor(plan, steps);
+  const stepIds = new Set(steps.map(step => step.id));
+
+  return steps.map(step => ({
+    key: step.id,
+    name: step.name,
+    description: step.description,
+    category: step.category,
+    order: step.order,
+    teamId: step.teamId,
+    teamLeadId: step.teamLeadId,
+    primaryPocId: step.primaryPocId,
+    backupPocId: step.backupPocId,
+    schedulingType: step.schedulingType,
+    scheduleOffsetMinutes: step.scheduledTime && anchor
+      ? Math.round((new Date(step.scheduledTime).getTime() - anchor.getTime()) / MINUTE_MS)
+      : null,
+    timezone: step.timezone,
+    dependsOnKeys: getPredecessorIds(step, dependencies).filter(id => stepIds.has(id)),
+    simultaneousWithKey: step.simultaneousWithStepId && stepIds.has(step.simultaneousWithStepId)
+      ? step.simultaneousWithStepId
+      : null,
+    relativeTo: step.relativeTo,
+    relativeOffsetMinutes: step.relativeOffsetMinutes,
+    relativeToKey: step.relativeToStepId && stepIds.has(step.relativeToStepId) ? step.relativeToStepId : null,
+    expectedDurationMinutes: step.expectedDurationMinutes,
+    checklist: checklistItems
+      .filter(item => item.stepId === step.id)
+      .map(item => ({ label: item.label, isRequired: item.isRequired })),
+  }));
+}
+
+export function blueprintsFromTemplateSteps(templateSteps: ReleasePlanTemplateStep[]): StepBlueprint[] {
+  return templateSteps.map(step => ({
+    key: step.id,
+    name: step.name,
+    description: step.description,
+    category: step.category,
+    order: step.order,
+    teamId: step.teamId,
+    teamLeadId: step.teamLeadId,
+    primaryPocId: step.primaryPocId,
+    backupPocId: step.backupPocId,
+    schedulingType: step.schedulingType,
+    scheduleOffsetMinutes: step.scheduleOffsetMinutes,
+    timezone: step.timezone,
+    dependsOnKeys: step.dependsOnTemplateStepIds,
+    simultaneousWithKey: step.simultaneousWithTemplateStepId,
+    relativeTo: step.relativeTo,
+    relativeOffsetMinutes: step.relativeOffsetMinutes,
+    relativeToKey: step.relativeToTemplateStepId,
+    expectedDurationMinutes: step.expectedDurationMinutes,
+    checklist: step.checklist,
+  }));
+}
+
+// Template steps get their IDs up front so sibling links can be written in one insert
+export function templateStepsFromBlueprints(
+  blueprints: StepBlueprint[],
+): Omit<InsertReleasePlanTemplateStep, 'templateId'>[] {
+  const ids = new Map<string, string>(blueprints.map(blueprint => [blueprint.key, randomUUID()]));
+
+  return blueprints.map(blueprint => ({
+    id: ids.get(blueprint.key)!,
+    name: blueprint.name,
+    description: blueprint.description,
+    category: blueprint.category,
+    order: blueprint.order,
+    teamId: blueprint.teamId,
+    teamLeadId: blueprint.teamLeadId,
+    primaryPocId: blueprint.primaryPocId,
+    backupPocId: blueprint.backupPocId,
+    schedulingType: blueprint.schedulingType,
+    scheduleOffsetMinutes: blueprint.scheduleOffsetMinutes,
+    timezone: blueprint.timezone,
+    dependsOnTemplateStepIds: blueprint.dependsOnKeys
+      .map(key => ids.get(key))
+      .filter((id): id is string => !!id),
+    simultaneousWithTemplateStepId: blueprint.simultaneousWithKey
+      ? ids.get(blueprint.simultaneousWithKey) ?? null
+      : null,
+    relativeTo: blueprint.relativeTo,
+    relativeOffsetMinutes: blueprint.relativeOffsetMinutes,
+    relativeToTemplateStepId: blueprint.relativeToKey ? ids.get(blueprint.relativeToKey) ?? null : null,
+    expectedDurationMinutes: blueprint.expectedDurationMinutes,
+    checklist: blueprint.checklist,
+  }));
+}
+
+// Creates fresh, not-started steps on a plan and remaps every link to the new step IDs
+export async function createStepsFromBlueprints(
+  storage: IStorage,
+  releasePlan: ReleasePlan,
+  blueprints: StepBlueprint[],
+): Promise<ReleaseStep[]> {
+  const anchor = releasePlan.scheduledDate ? new Date(releasePlan.scheduledDate) : null;
+  const stepIdsByKey = new Map<string, string>();
+  const createdSteps: ReleaseStep[] = [];
+
+  for (const blueprint of blueprints) {
+    const scheduledTime = anchor && blueprint.scheduleOffsetMinutes !== null
+      ? new Date(anchor.getTime() + blueprint.scheduleOffsetMinutes * MINUTE_MS)
+      : null;
+
+    const step = await storage.createStep({
+      releasePlanId: releasePlan.id,
+      name: blueprint.name,
+      description: blueprint.description,
+      category: blueprint.category,
+      order: blueprint.order,
+      teamId: blueprint.teamId,
+      teamLeadId: blueprint.teamLeadId,
+      primaryPocId: blueprint.primaryPocId,
+      backupPocId: blueprint.backupPocId,
+      schedulingType: blueprint.schedulingType,
+      scheduledTime,
+      timezone: blueprint.timezone,
+      relativeTo: blueprint.relativeTo,
+      relativeOffsetMinutes: blueprint.relativeOffsetMinutes,
+      expectedDurationMinutes: blueprint.expectedDurationMinutes,
+    });
+    await storage.createChecklistItems(step.id, blueprint.checklist);
+    stepIdsByKey.set(blueprint.key, step.id);
+    createdSteps.push(step);
+  }
+
+  // Links can point forwards, so they are written once every step exists
+  for (let index = 0; index < blueprints.length; index++) {
+    const blueprint = blueprints[index];
+    const stepId = createdSteps[index].id;
+    const dependsOnStepIds = blueprint.dependsOnKeys
+      .map(key => stepIdsByKey.get(key))
+      .filter((id): id is string => !!id);
+    const simultaneousWithStepId = blueprint.simultaneousWithKey
+      ? stepIdsByKey.get(blueprint.simultaneousWithKey) ?? null
+      : null;
+    const relativeToStepId = blueprint.relativeToKey
+      ? stepIdsByKey.get(blueprint.relativeToKey) ?? null
+      : null;
+
+    if (dependsOnStepIds.length === 0 && !simultaneousWithStepId && !relativeToStepId) continue;
+
+    createdSteps[index] = await storage.updateStep(stepId, {
+      dependsOnStepId: dependsOnStepIds[0] ?? null,
+      simultaneousWithStepId,
+      relativeToStepId,
+    });
+    await storage.setStepDependencies(stepId, dependsOnStepIds);
+  }
+
+  return createdSteps;
+}
@@ -1,15 +1,91 @@
 import type { Express, Request, Response } from "express";
-import { createServer, type Server, type IncomingMessage } from "http";
-import { WebSocketServer, WebSocket } from "ws";
+import { createServer, type Server } from "http";
+import { randomBytes } from "crypto";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./localAuth";
+import { setupAuth, isAuthenticated, hashPassword } from "./localAuth";
 import { emailService } from "./emailService";
 import { schedulerService } from "./schedulerService";
+import { broadcastBus } from "./broadcastBus";
+import { realtimeServer } from "./realtime";
+import { recordAudit } from "./audit";
+import { notificationChannels } from "./notificationChannels";
+import { notificationOutbox, redactOutboxEntry } from "./notificationOutbox";
+import { requirePermission } from "./authorization";
+import { issueApiToken } from "./apiTokens";
+import { assertPublicWebhookUrl, generateWebhookSecret, WebhookError, webhookDispatcher } from "./webhooks";
+import { findDependencyCycle } from "./stepDependencies";
+import {
+  getAcknowledgementUrl,
+  getAppUrl,
+  isCurrentAcknowledgementRequest,
+  requestAcknowledgement,
+  verifyAcknowledgementToken,
+} from "./stepAcknowledgement";
+import {
+  blueprintsFromSteps,
+  blueprintsFromTemplateSteps,
+  createStepsFromBlueprints,
+  templateStepsFromBlueprints,
+} from "./releaseTemplates";
+import {
+  canTransitionStepStatus,
+  deriveReleasePlanStatus,
+  isRecoveryTransition,
+} from "@shared/stepStatus";
+import { validateRelativeSchedule } from "@shared/stepScheduling";
+import { validateRealtimeEvent, type RealtimeEvent } from "@shared/realtimeEvents";
+import { isAwaitingAcknowledgement } from "@shared/stepSla";
+import { getPredecessorIds } from "@shared/stepDependencies";
+import {
+  checklistItemInputSchema,
+  checklistItemUpdateSchema,
+  checklistOrderSchema,
+  getChecklistCompletionError,
+} from "@shared/stepChecklist";
+import {
+  commentInputSchema,
+  commentToPlainText,
+  commentUpdateSchema,
+  getMentionedUserIds,
+} from "@shared/comments";
+import {
+  getClosedGates,
+  getReleaseGateStatus,
+  releaseGateInputSchema,
+  releaseGateVoteInputSchema,
+} from "@shared/releaseGates";
+import {
+  NOTIFICATION_CHANNELS_SETTING,
+  notificationEvents,
+  notificationOutboxStatuses,
+  notificationPreferencesSchema,
+  parseNotificationChannels,
+  type NotificationEvent,
+} from "@shared/notificationChannels";
+import {
+  defaultNotificationTemplates,
+  notificationTemplateContentSchema,
+  validateNotificationTemplate,
+} from "@shared/notificationTemplates";
+import { can, getStepUpdatePermissions, userRoles } from "@shared/permissions";
+import { apiTokenInputSchema } from "@shared/apiTokens";
+import { webhookInputSchema, webhookUpdateSchema } from "@shared/webhooks";
 import {
   insertReleasePlanSchema,
   insertReleaseStepSchema,
   insertGlobalSettingSchema,
   insertShareableLinkSchema,
+  insertReleasePlanTemplateSchema,
+  insertTeamSchema,
+  type ApiToken,
+  type Comment,
+  type PublicApiToken,
+  type PublicUser,
+  type PublicWebhookSubscription,
+  type ReleaseGateWithVotes,
+  type ReleaseStep,
+  type User,
+  type WebhookSubscription,
 } from "@shared/schema";
 import { z } from "zod";
 
@@ -23,41 +99,191 @@ async function updateReleasePlanStatus(releasePlanId: string) {
     const steps = await storage.getStepsByReleasePlan(releasePlanId);
     if (steps.length === 0) return;
 
-    const stepStatuses = steps.map(step => step.status);
-    const hasStarted = stepStatuses.some(status => 
-      status === 'started' || status === 'in_progress' || status === 'completed'
-    );
-    const allCompleted = stepStatuses.every(status => status === 'completed');
-
-    let newStatus = 'planning';
-    if (allCompleted) {
-      newStatus = 'completed';
-    } else if (hasStarted) {
-      newStatus = 'active';
-    }
+    const newStatus = deriveReleasePlanStatus(steps.map(step => step.status));
 
     // Update the release plan status
-    await storage.updateReleasePlan(releasePlanId, { status: newStatus as any });
+    await storage.updateReleasePlan(releasePlanId, { status: newStatus });
     console.log(`Release plan ${releasePlanId} status updated to: ${newStatus}`);
   } catch (error) {
     console.error('Error updating release plan status:', error);
   }
 }
 
+const dependsOnStepIdsSchema = z.array(z.string().uuid());
+
+// Helper function to check requested predecessors for a step. Returns an error
+// message when a predecessor is outside the plan or the links would deadlock it.
+async function validateStepDependencies(
+  releasePlanId: string,
+  stepId: string,
+  dependsOnStepIds: string[],
+  simultaneousWithStepId: string | null | undefined,
+  relativeToStepId: string | null | undefined,
+): Promise<string | null> {
+  const steps = await storage.getStepsByReleasePlan(releasePlanId);
+  const stepIds = new Set(steps.map(step => step.id));
+
+  const linkedIds = [simultaneousWithStepId, relativeToStepId].reduce<string[]>(
+    (ids, id) => (id ? [...ids, id] : ids),
+    dependsOnStepIds,
+  );
+  if (linkedIds.includes(stepId)) {
+    return "A step cannot depend on itself";
+  }
+  if (linkedIds.some(id => !stepIds.has(id))) {
+    return "Dependencies must be steps in the same release plan";
+  }
+
+  const dependencies = await storage.getStepDependenciesByReleasePlan(releasePlanId);
+  const cycle = findDependencyCycle(steps, dependencies, {
+    stepId,
+    dependsOnStepIds,
+    simultaneousWithStepId,
+    relativeToStepId,
+  });
+  if (cycle) {
+    const names = cycle.map(id => steps.find(step => step.id === id)?.name || "this step");
+    return `Dependency would create a cycle: ${names.join(" → ")}`;
+  }
+  return null;
+}
+
+// Steps can only be assigned to people who can still sign in
+async function validateStepAssignees(assigneeIds: Array<string | null | undefined>): Promise<string | null> {
+  for (const assigneeId of assigneeIds) {
+    if (!assigneeId) continue;
+    const assignee = await storage.getUser(assigneeId);
+    if (!assignee) {
+      return "Assigned user not found";
+    }
+    if (!assignee.isActive) {
+      return `${assignee.email} has been deactivated and cannot be assigned to steps`;
+    }
+    if (assignee.isServiceAccount) {
+      return "Service accounts cannot be assigned to steps";
+    }
+  }
+  return null;
+}
+
+// Records an acknowledgement made in the app or through an emailed link
+async function recordAcknowledgement(req: Pick<Request, "ip">, step: ReleaseStep, userId: string): Promise<ReleaseStep | undefined> {
+  const acknowledgedStep = await storage.acknowledgeStep(step.id, userId);
+  if (!acknowledgedStep) return undefined;
+
+  await recordAudit(req, {
+    entityType: "release_step",
+    entityId: step.id,
+    releasePlanId: step.releasePlanId,
+    action: "acknowledge",
+    before: step,
+    after: acknowledgedStep,
+    actorId: userId,
+  });
+  await storage.addStepHistory({
+    stepId: step.id,
+    previousStatus: step.status,
+    newStatus: step.status,
+    changedBy: userId,
+    notes: "Acknowledged",
+  });
+  return acknowledgedStep;
+}
+
+// Re-derives a gate's decision from its votes and approvers. Approving it
+// releases the phase it was holding back.
+async function decideReleaseGate(gate: ReleaseGateWithVotes): Promise<ReleaseGateWithVotes> {
+  const status = getReleaseGateStatus(gate, gate.approverIds, gate.votes);
+  if (status === gate.status) return gate;
+
+  const decidedGate = await storage.setReleaseGateStatus(gate.id, status, status === "pending" ? null : new Date());
+  if (status === "approved") {
+    await schedulerService.onGatesChanged();
+  }
+  return decidedGate;
+}
+
+// Mentions of unknown users are left as plain text rather than stored
+async function getValidMentions(body: string): Promise<string[]> {
+  const mentioned = await Promise.all(getMentionedUserIds(body).map(userId => storage.getUser(userId)));
+  return mentioned.filter((user): user is User => !!user).map(user => user.id);
+}
+
+// Emails people mentioned for the first time in this version of the comment
+async function notifyCommentMentions(comment: Comment, author: User, alreadyMentioned: string[] = []) {
+  const mentionedIds = comment.mentionedUserIds.filter(userId => userId !== author.id && !alreadyMentioned.includes(userId));
+  if (mentionedIds.length === 0) return;
+
+  const emails: string[] = [];
+  for (const userId of mentionedIds) {
+    const user = await storage.getUser(userId);
+    if (user?.email && user.isActive) emails.push(user.email);
+  }
+
+  const plan = await storage.getReleasePlan(comment.releasePlanId);
+  const step = comment.stepId ? await storage.getStep(comment.stepId) : undefined;
+  const planName = plan ? `${plan.name} ${plan.version}` : "a release plan";
+  await emailService.sendCommentMentionNotification(emails, {
+    author: `${author.firstName} ${author.lastName}`,
+    target: step ? `step ${step.name} in ${planName}` : `release plan ${planName}`,
+    comment: commentToPlainText(comment.body),
+    url: `${getAppUrl()}/`,
+  });
+}
+
+async function validateStepTeam(teamId: string | null | undefined): Promise<string | null> {
+  if (!teamId) return null;
+  const team = await storage.getTeam(teamId);
+  return team ? null : "Team not found";
+}
+
+// Password hashes never leave the server
+function toPublicUser(user: User): PublicUser {
+  const { password: _, ...publicUser } = user;
+  return publicUser;
+}
+
+function toPublicApiToken(token: ApiToken): PublicApiToken {
+  const { tokenHash: _, ...publicToken } = token;
+  return publicToken;
+}
+
+function toPublicWebhook(subscription: WebhookSubscription): PublicWebhookSubscription {
+  const { secret: _, ...publicSubscription } = subscription;
+  return publicSubscription;
+}
+
+function generateTemporaryPassword(): string {
+  return randomBytes(12).toString("base64url");
+}
+
+// Postgres reports a unique index violation with this code
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { code?: unknown }).code === "23505";
+}
+
+// Administration must always stay in someone's hands
+async function isLastActiveReleaseManager(user: User): Promise<boolean> {
+  if (user.role !== "release_manager" || !user.isActive) return false;
+  const managers = await storage.getUsers({ role: "release_manager", status: "active" });
+  return managers.length <= 1;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
 
-  // WebSocket connections store
-  const wsConnections = new Set<WebSocket>();
-
-  // Broadcast function for real-time updates
-  function broadcast(data: any) {
-    const message = JSON.stringify(data);
-    wsConnections.forEach((ws) => {
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.send(message);
-      }
+  // Broadcast function for real-time updates, relayed to every instance and
+  // delivered to the sockets subscribed to the update's plan or topic. Matching
+  // webhook subscriptions are queued here, once, rather than on every instance.
+  function broadcast(event: RealtimeEvent) {
+    if (!validateRealtimeEvent(event)) {
+      console.error(`Not broadcasting malformed ${event.type} event`);
+      return;
+    }
+    broadcastBus.publish(event);
+    webhookDispatcher.dispatch(event).catch((error) => {
+      console.error(`Error queueing webhooks for ${event.type}:`, error);
     });
   }
 
@@ -98,7 +324,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/release-plans', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
+  app.post('/api/release-plans', isAuthenticated, requirePermission("release_plan.create"), async (req: AuthenticatedRequest, res: Response) => {
     try {
       const userId = req.user?.id;
       if (!userId) {
@@ -107,6 +333,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const planData = insertReleasePlanSchema.parse({ ...req.body, createdBy: userId });
       const plan = await storage.createReleasePlan(planData);
+      await recordAudit(req, {
+        entityType: "release_plan",
+        entityId: plan.id,
+        releasePlanId: plan.id,
+        action: "create",
+        after: plan,
+      });
       
       broadcast({ type: "release_plan_created", data: plan });
       res.status(201).json(plan);
@@ -119,22 +352,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/release-plans/:id', isAuthenticated, async (req, res) => {
+  app.patch('/api/release-plans/:id', isAuthenticated, requirePermission("release_plan.update"), async (req, res) => {
     try {
-      const updates = req.body;
+      const updates = insertReleasePlanSchema.partial().parse(req.body);
+      const before = await storage.getReleasePlan(req.params.id);
       const plan = await storage.updateReleasePlan(req.params.id, updates);
+      await recordAudit(req, {
+        entityType: "release_plan",
+        entityId: plan.id,
+        releasePlanId: plan.id,
+        action: "update",
+        before,
+        after: plan,
+      });
+
+      // Moving the plan date moves every step scheduled relative to it
+      await schedulerService.syncReleasePlanJobs(plan.id);
       
       broadcast({ type: "release_plan_updated", data: plan });
       res.json(plan);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
       console.error("Error updating release plan:", error);
       res.status(500).json({ message: "Failed to update release plan" });
     }
   });
 
-  app.delete('/api/release-plans/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/release-plans/:id', isAuthenticated, requirePermission("release_plan.delete"), async (req, res) => {
     try {
+      const before = await storage.getReleasePlan(req.params.id);
       await storage.deleteReleasePlan(req.params.id);
+      await recordAudit(req, {
+        entityType: "release_plan",
+        entityId: req.params.id,
+        releasePlanId: req.params.id,
+        action: "delete",
+        before,
+      });
       
       broadcast({ type: "release_plan_deleted", data: { id: req.params.id } });
       res.status(204).send();
@@ -144,10 +400,193 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Clone a previous release onto a new date
+  app.post('/api/release-plans/:id/clone', isAuthenticated, requirePermission("release_plan.clone"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+
+      const sourcePlan = await storage.getReleasePlan(req.params.id);
+      if (!sourcePlan) {
+        return res.status(404).json({ message: "Release plan not found" });
+      }
+
+      const planData = insertReleasePlanSchema.parse({
+        description: sourcePlan.description,
+        timezone: sourcePlan.timezone,
+        ...req.body,
+        status: "planning",
+        createdBy: userId,
+      });
+      if (!planData.scheduledDate) {
+        return res.status(400).json({ message: "A scheduled date is required to place the cloned steps" });
+      }
+
+      const sourceSteps = await storage.getStepsByReleasePlan(sourcePlan.id);
+      const sourceDependencies = await storage.getStepDependenciesByReleasePlan(sourcePlan.id);
+      const sourceChecklistItems = await storage.getChecklistItemsByReleasePlan(sourcePlan.id);
+
+      // A clone that fails halfway leaves nothing behind
+      const { plan, steps } = await storage.transaction(async (tx) => {
+        const plan = await tx.createReleasePlan(planData);
+        const steps = await createStepsFromBlueprints(
+          tx,
+          plan,
+          blueprintsFromSteps(sourcePlan, sourceSteps, sourceDependencies, sourceChecklistItems),
+        );
+        return { plan, steps };
+      });
+      await schedulerService.syncReleasePlanJobs(plan.id);
+      await recordAudit(req, {
+        entityType: "release_plan",
+        entityId: plan.id,
+        releasePlanId: plan.id,
+        action: "clone",
+        after: { ...plan, clonedFrom: sourcePlan.id, stepCount: steps.length },
+      });
+
+      broadcast({ type: "release_plan_created", data: plan });
+      res.status(201).json({ ...plan, stepCount: steps.length });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error cloning release plan:", error);
+      res.status(500).json({ message: "Failed to clone release plan" });
+    }
+  });
+
+  // Release Plan Template routes
+  app.get('/api/release-plan-templates', isAuthenticated, async (req, res) => {
+    try {
+      const templates = await storage.getReleasePlanTemplates();
+      res.json(templates);
+    } catch (error) {
+      console.error("Error fetching release plan templates:", error);
+      res.status(500).json({ message: "Failed to fetch release plan templates" });
+    }
+  });
+
+  app.get('/api/release-plan-templates/:id', isAuthenticated, async (req, res) => {
+    try {
+      const template = await storage.getReleasePlanTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      const steps = await storage.getReleasePlanTemplateSteps(template.id);
+      res.json({ ...template, steps });
+    } catch (error) {
+      console.error("Error fetching release plan template:", error);
+      res.status(500).json({ message: "Failed to fetch release plan template" });
+    }
+  });
+
+  // Capture an existing plan's steps as a reusable template
+  app.post('/api/release-plan-templates', isAuthenticated, requirePermission("template.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+
+      const { sourceReleasePlanId } = z.object({ sourceReleasePlanId: z.string().uuid() }).parse(req.body);
+      const templateData = insertReleasePlanTemplateSchema.parse({ ...req.body, createdBy: userId });
+
+      const sourcePlan = await storage.getReleasePlan(sourceReleasePlanId);
+      if (!sourcePlan) {
+        return res.status(404).json({ message: "Release plan not found" });
+      }
+
+      const sourceSteps = await storage.getStepsByReleasePlan(sourcePlan.id);
+      const sourceDependencies = await storage.getStepDependenciesByReleasePlan(sourcePlan.id);
+      const sourceChecklistItems = await storage.getChecklistItemsByReleasePlan(sourcePlan.id);
+      const template = await storage.createReleasePlanTemplate(
+        templateData,
+        templateStepsFromBlueprints(blueprintsFromSteps(sourcePlan, sourceSteps, sourceDependencies, sourceChecklistItems)),
+      );
+      await recordAudit(req, {
+        entityType: "release_plan_template",
+        entityId: template.id,
+        releasePlanId: sourcePlan.id,
+        action: "create",
+        after: template,
+      });
+
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating release plan template:", error);
+      res.status(500).json({ message: "Failed to create release plan template" });
+    }
+  });
+
+  app.delete('/api/release-plan-templates/:id', isAuthenticated, requirePermission("template.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+
+      const before = await storage.getReleasePlanTemplate(req.params.id);
+      await storage.deleteReleasePlanTemplate(req.params.id);
+      await recordAudit(req, {
+        entityType: "release_plan_template",
+        entityId: req.params.id,
+        action: "delete",
+        before,
+      });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting release plan template:", error);
+      res.status(500).json({ message: "Failed to delete release plan template" });
+    }
+  });
+
+  // Create a new release plan from a template
+  app.post('/api/release-plan-templates/:id/release-plans', isAuthenticated, requirePermission("release_plan.create"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+
+      const template = await storage.getReleasePlanTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      const planData = insertReleasePlanSchema.parse({
+        description: template.description,
+        ...req.body,
+        status: "planning",
+        createdBy: userId,
+      });
+      if (!planData.scheduledDate) {
+        return res.status(400).json({ message: "A scheduled date is required to place the template steps" });
+      }
+
+      const templateSteps = await storage.getReleasePlanTemplateSteps(template.id);
+      const { plan, steps } = await storage.transaction(async (tx) => {
+        const plan = await tx.createReleasePlan(planData);
+        const steps = await createStepsFromBlueprints(tx, plan, blueprintsFromTemplateSteps(templateSteps));
+        return { plan, steps };
+      });
+      await schedulerService.syncReleasePlanJobs(plan.id);
+      await recordAudit(req, {
+        entityType: "release_plan",
+        entityId: plan.id,
+        releasePlanId: plan.id,
+        action: "create_from_template",
+        after: { ...plan, templateId: template.id, stepCount: steps.length },
+      });
+
+      broadcast({ type: "release_plan_created", data: plan });
+      res.status(201).json({ ...plan, stepCount: steps.length });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating release plan from template:", error);
+      res.status(500).json({ message: "Failed to create release plan from template" });
+    }
+  });
+
   // Release Step routes
   app.get('/api/release-plans/:id/steps', isAuthenticated, async (req, res) => {
     try {
-      const steps = await storage.getStepsByReleasePlan(req.params.id);
+      const teamId = typeof req.query.teamId === "string" ? req.query.teamId : undefined;
+      const steps = await storage.getStepsByReleasePlan(req.params.id, { teamId });
       res.json(steps);
     } catch (error) {
       console.error("Error fetching steps:", error);
@@ -155,6 +594,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/release-plans/:id/step-dependencies', isAuthenticated, async (req, res) => {
+    try {
+      const dependencies = await storage.getStepDependenciesByReleasePlan(req.params.id);
+      res.json(dependencies);
+    } catch (error) {
+      console.error("Error fetching step dependencies:", error);
+      res.status(500).json({ message: "Failed to fetch step dependencies" });
+    }
+  });
+
+  app.get('/api/release-plans/:id/checklist-items', isAuthenticated, async (req, res) => {
+    try {
+      const items = await storage.getChecklistItemsByReleasePlan(req.params.id);
+      res.json(items);
+    } catch (error) {
+      console.error("Error fetching checklist items:", error);
+      res.status(500).json({ message: "Failed to fetch checklist items" });
+    }
+  });
+
   app.get('/api/steps/:id', isAuthenticated, async (req, res) => {
     try {
       const step = await storage.getStep(req.params.id);
@@ -168,18 +627,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/steps', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
+  app.post('/api/steps', isAuthenticated, requirePermission("step.create"), async (req: AuthenticatedRequest, res: Response) => {
     try {
       console.log("Step creation - original request body:", req.body);
       
-      // Check permissions - only release managers can create steps
-      const user = await storage.getUser(req.user?.id || "");
-      if (!user || user.role !== "release_manager") {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
+      const userId = req.user!.id;
 
       // Handle date conversion for all timestamp fields before validation
-      const requestBody = { ...req.body };
+      const { dependsOnStepIds: rawDependsOnStepIds, ...requestBody } = req.body;
       const timestampFields = ['scheduledTime', 'startedAt', 'completedAt', 'createdAt', 'updatedAt'];
       timestampFields.forEach(field => {
         if (requestBody[field]) {
@@ -196,8 +651,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       console.log("Step creation - data after date conversion:", requestBody);
+      const dependsOnStepIds = rawDependsOnStepIds === undefined
+        ? (requestBody.dependsOnStepId ? [requestBody.dependsOnStepId] : [])
+        : dependsOnStepIdsSchema.parse(rawDependsOnStepIds);
+      if (dependsOnStepIds.length > 0) {
+        requestBody.dependsOnStepId = dependsOnStepIds[0];
+      }
+
       const stepData = insertReleaseStepSchema.parse(requestBody);
-      const step = await storage.createStep(stepData);
+
+      // Only steps relative to another step's completion keep an anchor step
+      if (stepData.schedulingType !== "relative" || stepData.relativeTo !== "step_completion") {
+        stepData.relativeToStepId = null;
+      }
+      const scheduleError = validateRelativeSchedule(stepData);
+      if (scheduleError) {
+        return res.status(400).json({ message: scheduleError });
+      }
+      const assigneeError = await validateStepAssignees([stepData.teamLeadId, stepData.primaryPocId, stepData.backupPocId])
+        ?? await validateStepTeam(stepData.teamId);
+      if (assigneeError) {
+        return res.status(400).json({ message: assigneeError });
+      }
+
+      // A new step has no dependents yet, so only plan membership needs checking
+      const dependencyError = await validateStepDependencies(
+        stepData.releasePlanId,
+        "",
+        dependsOnStepIds,
+        stepData.simultaneousWithStepId,
+        stepData.relativeToStepId,
+      );
+      if (dependencyError) {
+        return res.status(400).json({ message: dependencyError });
+      }
+
+      const step = await storage.transaction(async (tx) => {
+        const step = await tx.createStep(stepData);
+        await tx.setStepDependencies(step.id, dependsOnStepIds);
+        return step;
+      });
+      await schedulerService.syncReleasePlanJobs(step.releasePlanId);
+      await recordAudit(req, {
+        entityType: "release_step",
+        entityId: step.id,
+        releasePlanId: step.releasePlanId,
+        action: "create",
+        after: { ...step, dependsOnStepIds },
+      });
       
       // Send assignment notifications
       if (step.teamLeadId) {
@@ -219,7 +720,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       if (pocEmails.length > 0) {
-        const creator = await storage.getUser(user.id);
+        const creator = await storage.getUser(userId);
         const creatorName = creator ? `${creator.firstName} ${creator.lastName}` : 'System';
         await emailService.sendPocReassignmentNotification(pocEmails, step, creatorName);
       }
@@ -252,33 +753,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Step not found" });
       }
 
-      const updates = req.body;
-      
-      // Check permissions based on what's being updated
-      const isStatusOnlyUpdate = Object.keys(updates).length === 1 && updates.hasOwnProperty('status');
-      const isPocAssignmentOnly = Object.keys(updates).every(key => ['primaryPocId', 'backupPocId'].includes(key));
-      const canUpdateStatus = user.role === "release_manager" || user.role === "team_lead" || user.role === "poc";
-      const canReassignPocs = user.role === "release_manager" || user.role === "team_lead";
-      const canFullEdit = user.role === "release_manager";
-      
-      console.log("Step update permissions check:", {
-        userRole: user.role,
-        updateKeys: Object.keys(updates),
-        isStatusOnlyUpdate,
-        isPocAssignmentOnly,
-        canUpdateStatus,
-        canReassignPocs,
-        canFullEdit
-      });
-      
-      if (isStatusOnlyUpdate && !canUpdateStatus) {
-        return res.status(403).json({ message: "Insufficient permissions to update status" });
-      } else if (isPocAssignmentOnly && !canReassignPocs) {
-        return res.status(403).json({ message: "Insufficient permissions to reassign POCs" });
-      } else if (!isStatusOnlyUpdate && !isPocAssignmentOnly && !canFullEdit) {
-        return res.status(403).json({ message: "Insufficient permissions to edit step details" });
+      const { dependsOnStepIds: rawDependsOnStepIds, notes, ...updates } = req.body;
+
+      // Every field being changed needs its permission on this particular step
+      const requiredPermissions = getStepUpdatePermissions(
+        currentStep,
+        rawDependsOnStepIds === undefined ? updates : { ...updates, dependsOnStepIds: rawDependsOnStepIds },
+      );
+      const deniedPermission = requiredPermissions.find(permission => !can(user, permission, currentStep));
+      if (deniedPermission) {
+        return res.status(403).json({ message: `Insufficient permissions (${deniedPermission})` });
       }
       
+      // Enforce the step state machine
+      const isStatusChange = updates.status && updates.status !== currentStep.status;
+      if (isStatusChange) {
+        if (!canTransitionStepStatus(currentStep.status, updates.status)) {
+          return res.status(400).json({
+            message: `Cannot change step status from ${currentStep.status} to ${updates.status}`,
+          });
+        }
+        if (updates.status === "completed") {
+          const checklistError = getChecklistCompletionError(await storage.getChecklistItems(currentStep.id));
+          if (checklistError) {
+            return res.status(409).json({ message: `Cannot complete step: ${checklistError}` });
+          }
+        }
+        if (isRecoveryTransition(currentStep.status, updates.status)) {
+          if (!can(user, "step.recover", currentStep)) {
+            return res.status(403).json({ message: "Only release managers can retry, unblock or skip steps" });
+          }
+          if (typeof notes !== "string" || notes.trim() === "") {
+            return res.status(400).json({ message: "A note explaining the retry, unblock or skip is required" });
+          }
+        }
+      }
+
+      // A closed Go/No-Go gate holds back its phase: steps in it cannot be
+      // started, manually or by unblocking, nor moved out of it to escape the gate
+      const isGatedStart = isStatusChange && updates.status === "started" &&
+        (currentStep.status === "not_started" || currentStep.status === "blocked");
+      const isCategoryChange = 'category' in updates && updates.category !== currentStep.category;
+      if (isGatedStart || isCategoryChange) {
+        const [closedGate] = getClosedGates(currentStep.category, await storage.getReleaseGates(currentStep.releasePlanId));
+        if (closedGate) {
+          return res.status(409).json({
+            message: isGatedStart
+              ? `Waiting for the "${closedGate.name}" gate to be approved`
+              : `Cannot move the step out of its phase until the "${closedGate.name}" gate is approved`,
+          });
+        }
+      }
+
+      // Escalation, acknowledgement and cascade-blocking state belong to the scheduler
+      delete updates.escalationLevel;
+      delete updates.overdueSince;
+      delete updates.lastEscalatedAt;
+      delete updates.acknowledgementDueAt;
+      delete updates.acknowledgedAt;
+      delete updates.acknowledgedBy;
+      delete updates.failedOverAt;
+      delete updates.blockedByStepId;
+      // A step moved by hand is no longer the cascade's to release
+      if (isStatusChange) {
+        updates.blockedByStepId = null;
+      }
+      // Moving a step on shows someone has picked it up
+      if (isStatusChange && isAwaitingAcknowledgement(currentStep)) {
+        updates.acknowledgedAt = new Date();
+        updates.acknowledgedBy = user.id;
+      }
+      // A retried or unblocked step starts over, so escalation does too
+      if (isStatusChange && (updates.status === "started" || updates.status === "not_started")) {
+        updates.escalationLevel = 0;
+        updates.overdueSince = null;
+        updates.lastEscalatedAt = null;
+      }
+      if ('expectedDurationMinutes' in updates) {
+        const duration = updates.expectedDurationMinutes;
+        if (duration !== null && !(Number.isInteger(duration) && duration > 0)) {
+          return res.status(400).json({ message: "Expected duration must be a whole number of minutes" });
+        }
+      }
+
       // Handle date conversion for all timestamp fields
       const timestampFields = ['scheduledTime', 'startedAt', 'completedAt', 'createdAt', 'updatedAt'];
       timestampFields.forEach(field => {
@@ -296,17 +853,97 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       console.log("Updates after date conversion:", updates);
+
+      // Validate relative scheduling against the step as it will be saved
+      const schedulingFields = ['schedulingType', 'relativeTo', 'relativeOffsetMinutes', 'relativeToStepId'];
+      const isSchedulingChange = schedulingFields.some(field => field in updates);
+      if (isSchedulingChange) {
+        const scheduling = { ...currentStep, ...updates };
+        if (scheduling.schedulingType !== "relative" || scheduling.relativeTo !== "step_completion") {
+          updates.relativeToStepId = null;
+          scheduling.relativeToStepId = null;
+        }
+        const scheduleError = validateRelativeSchedule(scheduling);
+        if (scheduleError) {
+          return res.status(400).json({ message: scheduleError });
+        }
+      }
+
+      // Existing assignments to deactivated users can stay, new ones cannot
+      const assignmentFields = ['teamLeadId', 'primaryPocId', 'backupPocId'] as const;
+      const assigneeError = await validateStepAssignees(
+        assignmentFields
+          .filter(field => field in updates && updates[field] !== currentStep[field])
+          .map(field => updates[field]),
+      ) ?? ('teamId' in updates ? await validateStepTeam(updates.teamId) : null);
+      if (assigneeError) {
+        return res.status(400).json({ message: assigneeError });
+      }
+
+      // Validate dependency changes before anything is written
+      const existingDependencies = await storage.getStepDependencies(currentStep.id);
+      const previousDependencyIds = getPredecessorIds(currentStep, existingDependencies);
+      let dependsOnStepIds: string[] | undefined;
+      if (rawDependsOnStepIds !== undefined) {
+        dependsOnStepIds = dependsOnStepIdsSchema.parse(rawDependsOnStepIds);
+        updates.dependsOnStepId = dependsOnStepIds[0] ?? null;
+      } else if ('dependsOnStepId' in updates && updates.dependsOnStepId !== currentStep.dependsOnStepId) {
+        // Older clients only set the single column; it replaces the step it
+        // used to name, and the join table follows
+        dependsOnStepIds = [
+          ...(updates.dependsOnStepId ? [updates.dependsOnStepId] : []),
+          ...previousDependencyIds.filter(id => id !== currentStep.dependsOnStepId && id !== updates.dependsOnStepId),
+        ];
+      }
+      if (
+        dependsOnStepIds !== undefined ||
+        isSchedulingChange ||
+        'dependsOnStepId' in updates ||
+        'simultaneousWithStepId' in updates
+      ) {
+        const dependencyError = await validateStepDependencies(
+          currentStep.releasePlanId,
+          currentStep.id,
+          dependsOnStepIds ?? getPredecessorIds({ ...currentStep, ...updates }, existingDependencies),
+          'simultaneousWithStepId' in updates ? updates.simultaneousWithStepId : currentStep.simultaneousWithStepId,
+          'relativeToStepId' in updates ? updates.relativeToStepId : currentStep.relativeToStepId,
+        );
+        if (dependencyError) {
+          return res.status(400).json({ message: dependencyError });
+        }
+      }
       
-      const updatedStep = await storage.updateStep(req.params.id, updates);
+      const updatedStep = await storage.transaction(async (tx) => {
+        const updatedStep = await tx.updateStep(req.params.id, updates);
+        if (dependsOnStepIds !== undefined) {
+          await tx.setStepDependencies(currentStep.id, dependsOnStepIds);
+        }
+        return updatedStep;
+      });
+      await recordAudit(req, {
+        entityType: "release_step",
+        entityId: currentStep.id,
+        releasePlanId: currentStep.releasePlanId,
+        action: isStatusChange ? "status_change" : "update",
+        before: {
+          ...currentStep,
+          dependsOnStepIds: dependsOnStepIds !== undefined ? previousDependencyIds : undefined,
+          notes: undefined,
+        },
+        after: { ...updatedStep, dependsOnStepIds, notes },
+      });
+      if (isSchedulingChange || 'scheduledTime' in updates) {
+        await schedulerService.syncReleasePlanJobs(currentStep.releasePlanId);
+      }
 
       // Log status change if status was updated
-      if (updates.status && updates.status !== currentStep.status) {
+      if (isStatusChange) {
         await storage.addStepHistory({
           stepId: req.params.id,
           previousStatus: currentStep.status,
           newStatus: updates.status,
           changedBy: user.id,
-          notes: updates.notes || null,
+          notes: notes || null,
         });
 
         // Send status change notification
@@ -338,8 +975,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           );
         }
 
-        // Update timestamps based on status
-        if (updates.status === "started" && !updatedStep.startedAt) {
+        // Update timestamps based on status. A retry starts the clock again.
+        if (updates.status === "started" && (!updatedStep.startedAt || currentStep.status === "failed")) {
           await storage.updateStep(req.params.id, { startedAt: new Date() } as any);
         } else if (updates.status === "completed" && !updatedStep.completedAt) {
           await storage.updateStep(req.params.id, { completedAt: new Date() } as any);
@@ -348,8 +985,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Update release plan status based on steps
         if (updatedStep.releasePlanId) {
           await updateReleasePlanStatus(updatedStep.releasePlanId);
-          await emailService.checkAndNotifyReleaseCompletion(updatedStep.releasePlanId);
         }
+
+        // Block or release dependents, trigger anything now unblocked and
+        // announce the release if this was its last step
+        await schedulerService.onStepStatusChange(req.params.id);
       }
 
       // Send POC assignment notifications if POCs were assigned/reassigned
@@ -386,22 +1026,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
       broadcast({ type: "step_updated", data: updatedStep });
       res.json(updatedStep);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
       console.error("Error updating step:", error);
       res.status(500).json({ message: "Failed to update step" });
     }
   });
 
-  app.delete('/api/steps/:id', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
+  app.delete('/api/steps/:id', isAuthenticated, requirePermission("step.delete"), async (req: AuthenticatedRequest, res: Response) => {
     try {
-      // Check permissions - only release managers can delete steps
-      const user = await storage.getUser(req.user?.id || "");
-      if (!user || user.role !== "release_manager") {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
 
+      const before = await storage.getStep(req.params.id);
       await storage.deleteStep(req.params.id);
+      await recordAudit(req, {
+        entityType: "release_step",
+        entityId: req.params.id,
+        releasePlanId: before?.releasePlanId,
+        action: "delete",
+        before,
+      });
       
-      broadcast({ type: "step_deleted", data: { id: req.params.id } });
+      broadcast({ type: "step_deleted", data: { id: req.params.id, releasePlanId: before?.releasePlanId } });
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting step:", error);
@@ -418,23 +1064,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const user = await storage.getUser(userId);
-      if (!user || user.role !== "release_manager") {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
-
       const step = await storage.getStep(req.params.id);
       if (!step) {
         return res.status(404).json({ message: "Step not found" });
       }
+      if (!user || !can(user, "step.trigger", step)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
 
       if (step.status !== "not_started") {
         return res.status(400).json({ message: "Step cannot be triggered" });
       }
 
-      const updatedStep = await storage.updateStep(req.params.id, {
-        status: "started",
-        startedAt: new Date(),
-      } as any);
+      const [closedGate] = getClosedGates(step.category, await storage.getReleaseGates(step.releasePlanId));
+      if (closedGate) {
+        return res.status(409).json({ message: `Waiting for the "${closedGate.name}" gate to be approved` });
+      }
+
+      // The scheduler may have started it in the meantime
+      const updatedStep = await storage.startStepIfNotStarted(req.params.id);
+      if (!updatedStep) {
+        return res.status(409).json({ message: "Step has already been triggered" });
+      }
+      await schedulerService.syncReleasePlanJobs(updatedStep.releasePlanId);
+      await recordAudit(req, {
+        entityType: "release_step",
+        entityId: step.id,
+        releasePlanId: step.releasePlanId,
+        action: "trigger",
+        before: step,
+        after: updatedStep,
+      });
 
       // Log the manual trigger
       await storage.addStepHistory({
@@ -445,7 +1105,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         notes: "Manually triggered",
       });
 
-      // Send trigger notification to team lead and POCs
+      // The POC has to acknowledge before the backup POC takes over
+      const awaitingStep = await requestAcknowledgement(updatedStep);
+
+      // Send trigger notification to team lead and POCs; only the POC gets the acknowledgement link
       const triggerEmails: string[] = [];
       
       if (step.teamLeadId) {
@@ -455,7 +1118,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       if (step.primaryPocId) {
         const primaryPoc = await storage.getUser(step.primaryPocId);
-        if (primaryPoc?.email) triggerEmails.push(primaryPoc.email);
+        if (primaryPoc?.email) {
+          await emailService.sendStepTriggerNotification([primaryPoc.email], awaitingStep, getAcknowledgementUrl(awaitingStep));
+        }
       }
       
       if (step.backupPocId) {
@@ -464,7 +1129,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       if (triggerEmails.length > 0) {
-        await emailService.sendStepTriggerNotification(triggerEmails, updatedStep);
+        await emailService.sendStepTriggerNotification(triggerEmails, awaitingStep);
       }
 
       // Update release plan status based on steps
@@ -473,179 +1138,1744 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await emailService.checkAndNotifyReleaseCompletion(updatedStep.releasePlanId);
       }
 
-      broadcast({ type: "step_triggered", data: updatedStep });
-      res.json(updatedStep);
+      broadcast({ type: "step_triggered", data: awaitingStep });
+      res.json(awaitingStep);
     } catch (error) {
       console.error("Error triggering step:", error);
       res.status(500).json({ message: "Failed to trigger step" });
     }
   });
 
-  // Step history
-  app.get('/api/steps/:id/history', isAuthenticated, async (req, res) => {
+  app.post('/api/steps/:id/acknowledge', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const history = await storage.getStepHistory(req.params.id);
-      res.json(history);
-    } catch (error) {
-      console.error("Error fetching step history:", error);
-      res.status(500).json({ message: "Failed to fetch step history" });
-    }
-  });
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
 
-  // Global Settings routes
-  app.get('/api/settings', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
-    try {
-      const user = await storage.getUser(req.user?.id || "");
-      if (!user || user.role !== "release_manager") {
-        return res.status(403).json({ message: "Insufficient permissions" });
+      const user = await storage.getUser(userId);
+      const step = await storage.getStep(req.params.id);
+      if (!step) {
+        return res.status(404).json({ message: "Step not found" });
+      }
+      if (!user || !can(user, "step.acknowledge", step)) {
+        return res.status(403).json({ message: "Only the step's POC can acknowledge it" });
       }
 
-      const settings = await storage.getGlobalSettings();
-      res.json(settings);
+      const acknowledgedStep = isAwaitingAcknowledgement(step)
+        ? await recordAcknowledgement(req, step, user.id)
+        : undefined;
+      if (!acknowledgedStep) {
+        return res.status(409).json({ message: "Step is not waiting to be acknowledged" });
+      }
+
+      broadcast({ type: "step_updated", data: acknowledgedStep });
+      res.json(acknowledgedStep);
     } catch (error) {
-      console.error("Error fetching settings:", error);
-      res.status(500).json({ message: "Failed to fetch settings" });
+      console.error("Error acknowledging step:", error);
+      res.status(500).json({ message: "Failed to acknowledge step" });
     }
   });
 
-  app.post('/api/settings', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
+  // Acknowledgement links from trigger emails; the signed token identifies the POC
+  app.post('/api/acknowledgements', async (req, res) => {
     try {
-      const userId = req.user?.id;
-      if (!userId) {
-        return res.status(401).json({ message: "Unauthorized" });
+      const { token: value } = z.object({ token: z.string() }).parse(req.body);
+      const token = verifyAcknowledgementToken(value);
+      if (!token) {
+        return res.status(400).json({ message: "This acknowledgement link is invalid" });
       }
 
-      const user = await storage.getUser(userId);
-      if (!user || user.role !== "release_manager") {
-        return res.status(403).json({ message: "Insufficient permissions" });
+      const step = await storage.getStep(token.stepId);
+      if (!step) {
+        return res.status(404).json({ message: "Step not found" });
+      }
+      const user = await storage.getUser(token.userId);
+      if (!user?.isActive) {
+        return res.status(403).json({ message: "This account has been deactivated" });
       }
 
-      const settingData = insertGlobalSettingSchema.parse({ ...req.body, updatedBy: userId });
-      const setting = await storage.upsertGlobalSetting(settingData);
-      
-      res.json(setting);
+      // Opening the link twice is fine
+      if (step.acknowledgedAt && step.acknowledgedBy === user.id) {
+        return res.json({ stepName: step.name, acknowledgedAt: step.acknowledgedAt });
+      }
+      const acknowledgedStep = isCurrentAcknowledgementRequest(token, step)
+        ? await recordAcknowledgement(req, step, user.id)
+        : undefined;
+      if (!acknowledgedStep) {
+        return res.status(410).json({
+          message: "This link has expired: the step was acknowledged, handed to the backup POC or triggered again",
+        });
+      }
+
+      broadcast({ type: "step_updated", data: acknowledgedStep });
+      res.json({ stepName: acknowledgedStep.name, acknowledgedAt: acknowledgedStep.acknowledgedAt });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error acknowledging step:", error);
+      res.status(500).json({ message: "Failed to acknowledge step" });
+    }
+  });
+
+  // Scheduled jobs held back by the "ask" catch-up policy
+  app.get('/api/scheduled-jobs', isAuthenticated, requirePermission("scheduler.resolve"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+
+      const status = typeof req.query.status === "string" ? req.query.status : "awaiting_decision";
+      const jobs = await storage.getScheduledJobsByStatus(status);
+      const jobsWithSteps = await Promise.all(
+        jobs.map(async job => ({ ...job, step: await storage.getStep(job.stepId) }))
+      );
+      res.json(jobsWithSteps);
+    } catch (error) {
+      console.error("Error fetching scheduled jobs:", error);
+      res.status(500).json({ message: "Failed to fetch scheduled jobs" });
+    }
+  });
+
+  app.post('/api/scheduled-jobs/:id/resolve', isAuthenticated, requirePermission("scheduler.resolve"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+
+      const { action } = z.object({ action: z.enum(["fire", "skip"]) }).parse(req.body);
+      const job = await storage.getScheduledJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Scheduled job not found" });
+      }
+
+      const resolvedJob = await schedulerService.resolveMissedTrigger(job.id, action, userId);
+      if (!resolvedJob) {
+        return res.status(409).json({ message: "This trigger has already been resolved" });
+      }
+      const step = await storage.getStep(job.stepId);
+      await recordAudit(req, {
+        entityType: "scheduled_job",
+        entityId: job.id,
+        releasePlanId: step?.releasePlanId,
+        action: "resolve",
+        before: job,
+        after: resolvedJob,
+      });
+      res.json(resolvedJob);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error resolving scheduled job:", error);
+      res.status(500).json({ message: "Failed to resolve scheduled job" });
+    }
+  });
+
+  // Release gate routes
+  app.get('/api/release-plans/:id/gates', isAuthenticated, async (req, res) => {
+    try {
+      const gates = await storage.getReleaseGates(req.params.id);
+      res.json(gates);
+    } catch (error) {
+      console.error("Error fetching release gates:", error);
+      res.status(500).json({ message: "Failed to fetch release gates" });
+    }
+  });
+
+  app.post('/api/release-plans/:id/gates', isAuthenticated, requirePermission("gate.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { approverIds, ...gateData } = releaseGateInputSchema.parse(req.body);
+      const plan = await storage.getReleasePlan(req.params.id);
+      if (!plan) {
+        return res.status(404).json({ message: "Release plan not found" });
+      }
+      const approverError = await validateStepAssignees(approverIds);
+      if (approverError) {
+        return res.status(400).json({ message: approverError });
+      }
+
+      const gate = await storage.createReleaseGate(
+        { ...gateData, releasePlanId: plan.id, createdBy: req.user!.id },
+        approverIds,
+      );
+      await recordAudit(req, {
+        entityType: "release_gate",
+        entityId: gate.id,
+        releasePlanId: plan.id,
+        action: "create",
+        after: gate,
+      });
+
+      broadcast({ type: "release_gate_updated", data: gate });
+      res.status(201).json(gate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating release gate:", error);
+      res.status(500).json({ message: "Failed to create release gate" });
+    }
+  });
+
+  app.put('/api/gates/:id', isAuthenticated, requirePermission("gate.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { approverIds, ...gateData } = releaseGateInputSchema.parse(req.body);
+      const before = await storage.getReleaseGate(req.params.id);
+      if (!before) {
+        return res.status(404).json({ message: "Gate not found" });
+      }
+
+      // Only newly added approvers need to be active
+      const approverError = await validateStepAssignees(approverIds.filter(userId => !before.approverIds.includes(userId)));
+      if (approverError) {
+        return res.status(400).json({ message: approverError });
+      }
+
+      // A new quorum or approver list can change the decision
+      const gate = await decideReleaseGate(await storage.updateReleaseGate(before.id, gateData, approverIds));
+      await recordAudit(req, {
+        entityType: "release_gate",
+        entityId: gate.id,
+        releasePlanId: gate.releasePlanId,
+        action: "update",
+        before,
+        after: gate,
+      });
+
+      broadcast({ type: "release_gate_updated", data: gate });
+      res.json(gate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating release gate:", error);
+      res.status(500).json({ message: "Failed to update release gate" });
+    }
+  });
+
+  app.delete('/api/gates/:id', isAuthenticated, requirePermission("gate.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const before = await storage.getReleaseGate(req.params.id);
+      if (!before) {
+        return res.status(404).json({ message: "Gate not found" });
+      }
+
+      await storage.deleteReleaseGate(before.id);
+      await recordAudit(req, {
+        entityType: "release_gate",
+        entityId: before.id,
+        releasePlanId: before.releasePlanId,
+        action: "delete",
+        before,
+      });
+      await schedulerService.onGatesChanged();
+
+      broadcast({ type: "release_gate_deleted", data: { id: before.id, releasePlanId: before.releasePlanId } });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting release gate:", error);
+      res.status(500).json({ message: "Failed to delete release gate" });
+    }
+  });
+
+  // Approvers vote until the gate is decided; a later vote replaces an earlier one
+  app.post('/api/gates/:id/votes', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const { vote, comment } = releaseGateVoteInputSchema.parse(req.body);
+      const before = await storage.getReleaseGate(req.params.id);
+      if (!before) {
+        return res.status(404).json({ message: "Gate not found" });
+      }
+      if (!before.approverIds.includes(userId)) {
+        return res.status(403).json({ message: "Only this gate's approvers can vote" });
+      }
+      if (before.status !== "pending") {
+        return res.status(409).json({ message: "This gate has already been decided" });
+      }
+
+      const castVote = await storage.castReleaseGateVote({ gateId: before.id, userId, vote, comment: comment || null });
+      const gate = await decideReleaseGate((await storage.getReleaseGate(before.id))!);
+      await recordAudit(req, {
+        entityType: "release_gate",
+        entityId: gate.id,
+        releasePlanId: gate.releasePlanId,
+        action: "vote",
+        before: before.votes.find(existing => existing.userId === userId) ?? null,
+        after: castVote,
+      });
+
+      broadcast({ type: "release_gate_updated", data: gate });
+      if (gate.status !== before.status) {
+        broadcast({ type: "release_gate_decided", data: gate });
+      }
+      res.json(gate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error voting on release gate:", error);
+      res.status(500).json({ message: "Failed to record vote" });
+    }
+  });
+
+  // Starts voting again, e.g. after the problems behind a No-Go are fixed
+  app.post('/api/gates/:id/reopen', isAuthenticated, requirePermission("gate.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const before = await storage.getReleaseGate(req.params.id);
+      if (!before) {
+        return res.status(404).json({ message: "Gate not found" });
+      }
+
+      await storage.clearReleaseGateVotes(before.id);
+      const gate = await storage.setReleaseGateStatus(before.id, "pending", null);
+      await recordAudit(req, {
+        entityType: "release_gate",
+        entityId: gate.id,
+        releasePlanId: gate.releasePlanId,
+        action: "reopen",
+        before,
+        after: gate,
+      });
+
+      broadcast({ type: "release_gate_updated", data: gate });
+      res.json(gate);
+    } catch (error) {
+      console.error("Error reopening release gate:", error);
+      res.status(500).json({ message: "Failed to reopen release gate" });
+    }
+  });
+
+  // Step checklist routes. Step editors shape the list; anyone who can update
+  // the step's status checks items off.
+  const broadcastChecklist = async (step: ReleaseStep) => {
+    const items = await storage.getChecklistItems(step.id);
+    broadcast({ type: "step_checklist_updated", data: { stepId: step.id, releasePlanId: step.releasePlanId, items } });
+    return items;
+  };
+
+  app.get('/api/steps/:id/checklist', isAuthenticated, async (req, res) => {
+    try {
+      const items = await storage.getChecklistItems(req.params.id);
+      res.json(items);
+    } catch (error) {
+      console.error("Error fetching checklist:", error);
+      res.status(500).json({ message: "Failed to fetch checklist" });
+    }
+  });
+
+  app.post('/api/steps/:id/checklist', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const itemData = checklistItemInputSchema.parse(req.body);
+      const user = await storage.getUser(req.user!.id);
+      const step = await storage.getStep(req.params.id);
+      if (!step) {
+        return res.status(404).json({ message: "Step not found" });
+      }
+      if (!can(user, "step.edit", step)) {
+        return res.status(403).json({ message: "Insufficient permissions (step.edit)" });
+      }
+
+      const [item] = await storage.createChecklistItems(step.id, [itemData]);
+      await recordAudit(req, {
+        entityType: "step_checklist_item",
+        entityId: item.id,
+        releasePlanId: step.releasePlanId,
+        action: "create",
+        after: item,
+      });
+
+      await broadcastChecklist(step);
+      res.status(201).json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating checklist item:", error);
+      res.status(500).json({ message: "Failed to create checklist item" });
+    }
+  });
+
+  app.put('/api/steps/:id/checklist/order', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { itemIds } = checklistOrderSchema.parse(req.body);
+      const user = await storage.getUser(req.user!.id);
+      const step = await storage.getStep(req.params.id);
+      if (!step) {
+        return res.status(404).json({ message: "Step not found" });
+      }
+      if (!can(user, "step.edit", step)) {
+        return res.status(403).json({ message: "Insufficient permissions (step.edit)" });
+      }
+
+      const before = await storage.getChecklistItems(step.id);
+      const items = await storage.reorderChecklistItems(step.id, itemIds);
+      await recordAudit(req, {
+        entityType: "release_step",
+        entityId: step.id,
+        releasePlanId: step.releasePlanId,
+        action: "reorder_checklist",
+        before: { checklist: before.map(item => item.label) },
+        after: { checklist: items.map(item => item.label) },
+      });
+
+      await broadcastChecklist(step);
+      res.json(items);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error reordering checklist:", error);
+      res.status(500).json({ message: "Failed to reorder checklist" });
+    }
+  });
+
+  app.patch('/api/checklist-items/:id', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const updates = checklistItemUpdateSchema.parse(req.body);
+      const user = await storage.getUser(req.user!.id);
+      const before = await storage.getChecklistItem(req.params.id);
+      const step = before && await storage.getStep(before.stepId);
+      if (!before || !step) {
+        return res.status(404).json({ message: "Checklist item not found" });
+      }
+      if (!can(user, "step.edit", step)) {
+        return res.status(403).json({ message: "Insufficient permissions (step.edit)" });
+      }
+
+      const item = await storage.updateChecklistItem(before.id, updates);
+      await recordAudit(req, {
+        entityType: "step_checklist_item",
+        entityId: item.id,
+        releasePlanId: step.releasePlanId,
+        action: "update",
+        before,
+        after: item,
+      });
+
+      await broadcastChecklist(step);
+      res.json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating checklist item:", error);
+      res.status(500).json({ message: "Failed to update checklist item" });
+    }
+  });
+
+  // Checking an item off records who did it and when; unchecking clears both
+  app.post('/api/checklist-items/:id/check', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { checked } = z.object({ checked: z.boolean() }).parse(req.body);
+      const user = await storage.getUser(req.user!.id);
+      const before = await storage.getChecklistItem(req.params.id);
+      const step = before && await storage.getStep(before.stepId);
+      if (!before || !step) {
+        return res.status(404).json({ message: "Checklist item not found" });
+      }
+      if (!user || !can(user, "step.update_status", step)) {
+        return res.status(403).json({ message: "Insufficient permissions (step.update_status)" });
+      }
+      if (checked === !!before.completedAt) {
+        return res.json(before);
+      }
+
+      const item = await storage.setChecklistItemCompleted(before.id, checked ? user.id : null);
+      await recordAudit(req, {
+        entityType: "step_checklist_item",
+        entityId: item.id,
+        releasePlanId: step.releasePlanId,
+        action: checked ? "check" : "uncheck",
+        before,
+        after: item,
+      });
+
+      await broadcastChecklist(step);
+      res.json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error checking checklist item:", error);
+      res.status(500).json({ message: "Failed to update checklist item" });
+    }
+  });
+
+  app.delete('/api/checklist-items/:id', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      const before = await storage.getChecklistItem(req.params.id);
+      const step = before && await storage.getStep(before.stepId);
+      if (!before || !step) {
+        return res.status(404).json({ message: "Checklist item not found" });
+      }
+      if (!can(user, "step.edit", step)) {
+        return res.status(403).json({ message: "Insufficient permissions (step.edit)" });
+      }
+
+      await storage.deleteChecklistItem(before.id);
+      await recordAudit(req, {
+        entityType: "step_checklist_item",
+        entityId: before.id,
+        releasePlanId: step.releasePlanId,
+        action: "delete",
+        before,
+      });
+
+      await broadcastChecklist(step);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting checklist item:", error);
+      res.status(500).json({ message: "Failed to delete checklist item" });
+    }
+  });
+
+  // Comment routes. Plans and steps each have their own thread.
+  const postComment = async (req: AuthenticatedRequest, res: Response, releasePlanId: string, stepId: string | null) => {
+    const { body, parentId } = commentInputSchema.parse(req.body);
+    const author = await storage.getUser(req.user!.id);
+    if (!author || !can(author, "comment.create")) {
+      return res.status(403).json({ message: "Insufficient permissions (comment.create)" });
+    }
+
+    // Replies stay in their parent's thread
+    if (parentId) {
+      const parent = await storage.getComment(parentId);
+      if (!parent || parent.releasePlanId !== releasePlanId || parent.stepId !== stepId) {
+        return res.status(400).json({ message: "The comment being replied to is not in this thread" });
+      }
+      if (parent.deletedAt) {
+        return res.status(400).json({ message: "Cannot reply to a deleted comment" });
+      }
+    }
+
+    const comment = await storage.createComment({
+      releasePlanId,
+      stepId,
+      parentId: parentId ?? null,
+      authorId: author.id,
+      body,
+      mentionedUserIds: await getValidMentions(body),
+    });
+    await recordAudit(req, {
+      entityType: "comment",
+      entityId: comment.id,
+      releasePlanId,
+      action: "create",
+      after: comment,
+    });
+    await notifyCommentMentions(comment, author);
+
+    // Sent in the shape the threads list, so clients can add it without refetching
+    const authorName = [author.firstName, author.lastName].filter(Boolean).join(" ") || author.email;
+    broadcast({ type: "comment_created", data: { ...comment, authorName, revisionCount: 0 } });
+    res.status(201).json(comment);
+  };
+
+  app.get('/api/release-plans/:id/comments', isAuthenticated, async (req, res) => {
+    try {
+      const planComments = await storage.getComments({ releasePlanId: req.params.id, stepId: null });
+      res.json(planComments);
+    } catch (error) {
+      console.error("Error fetching comments:", error);
+      res.status(500).json({ message: "Failed to fetch comments" });
+    }
+  });
+
+  app.post('/api/release-plans/:id/comments', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const plan = await storage.getReleasePlan(req.params.id);
+      if (!plan) {
+        return res.status(404).json({ message: "Release plan not found" });
+      }
+      await postComment(req, res, plan.id, null);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating comment:", error);
+      res.status(500).json({ message: "Failed to create comment" });
+    }
+  });
+
+  app.get('/api/steps/:id/comments', isAuthenticated, async (req, res) => {
+    try {
+      const step = await storage.getStep(req.params.id);
+      if (!step) {
+        return res.status(404).json({ message: "Step not found" });
+      }
+      const stepComments = await storage.getComments({ releasePlanId: step.releasePlanId, stepId: step.id });
+      res.json(stepComments);
+    } catch (error) {
+      console.error("Error fetching comments:", error);
+      res.status(500).json({ message: "Failed to fetch comments" });
+    }
+  });
+
+  app.post('/api/steps/:id/comments', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const step = await storage.getStep(req.params.id);
+      if (!step) {
+        return res.status(404).json({ message: "Step not found" });
+      }
+      await postComment(req, res, step.releasePlanId, step.id);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating comment:", error);
+      res.status(500).json({ message: "Failed to create comment" });
+    }
+  });
+
+  // Only the author edits a comment; the previous body is kept as a revision
+  app.patch('/api/comments/:id', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { body } = commentUpdateSchema.parse(req.body);
+      const author = await storage.getUser(req.user!.id);
+      const before = await storage.getComment(req.params.id);
+      if (!before || before.deletedAt) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (!author || before.authorId !== author.id) {
+        return res.status(403).json({ message: "Only the author can edit a comment" });
+      }
+      if (body === before.body) {
+        return res.json(before);
+      }
+
+      const comment = await storage.updateCommentBody(before.id, body, await getValidMentions(body), author.id);
+      await recordAudit(req, {
+        entityType: "comment",
+        entityId: comment.id,
+        releasePlanId: comment.releasePlanId,
+        action: "update",
+        before,
+        after: comment,
+      });
+      await notifyCommentMentions(comment, author, before.mentionedUserIds);
+
+      broadcast({ type: "comment_updated", data: comment });
+      res.json(comment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating comment:", error);
+      res.status(500).json({ message: "Failed to update comment" });
+    }
+  });
+
+  // Authors delete their own comments; moderators can delete anyone's
+  app.delete('/api/comments/:id', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      const before = await storage.getComment(req.params.id);
+      if (!before || before.deletedAt) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (!user || (before.authorId !== user.id && !can(user, "comment.moderate"))) {
+        return res.status(403).json({ message: "Only the author or a release manager can delete a comment" });
+      }
+
+      const comment = await storage.deleteComment(before.id, user.id);
+      await recordAudit(req, {
+        entityType: "comment",
+        entityId: comment.id,
+        releasePlanId: comment.releasePlanId,
+        action: "delete",
+        before,
+      });
+
+      broadcast({ type: "comment_deleted", data: comment });
+      res.json(comment);
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      res.status(500).json({ message: "Failed to delete comment" });
+    }
+  });
+
+  // A deleted comment's last words are kept for moderators only
+  app.get('/api/comments/:id/revisions', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const comment = await storage.getComment(req.params.id);
+      if (!comment) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (comment.deletedAt) {
+        const user = await storage.getUser(req.user!.id);
+        if (!user || !can(user, "comment.moderate")) {
+          return res.status(403).json({ message: "Only release managers can see the history of a deleted comment" });
+        }
+      }
+
+      const revisions = await storage.getCommentRevisions(comment.id);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching comment revisions:", error);
+      res.status(500).json({ message: "Failed to fetch comment revisions" });
+    }
+  });
+
+  // Step history
+  app.get('/api/steps/:id/history', isAuthenticated, async (req, res) => {
+    try {
+      const history = await storage.getStepHistory(req.params.id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching step history:", error);
+      res.status(500).json({ message: "Failed to fetch step history" });
+    }
+  });
+
+  // Global Settings routes
+  app.get('/api/settings', isAuthenticated, requirePermission("settings.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+
+      const settings = await storage.getGlobalSettings();
+      res.json(settings);
+    } catch (error) {
+      console.error("Error fetching settings:", error);
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  app.post('/api/settings', isAuthenticated, requirePermission("settings.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const settingData = insertGlobalSettingSchema.parse({ ...req.body, updatedBy: userId });
+      if (settingData.key === NOTIFICATION_CHANNELS_SETTING) {
+        try {
+          parseNotificationChannels(settingData.value);
+        } catch (error) {
+          if (error instanceof z.ZodError) throw error;
+          return res.status(400).json({ message: "Notification channels must be a JSON list" });
+        }
+      }
+      const before = await storage.getGlobalSetting(settingData.key);
+      const setting = await storage.upsertGlobalSetting(settingData);
+      await recordAudit(req, {
+        entityType: "global_setting",
+        entityId: setting.key,
+        action: before ? "update" : "create",
+        before,
+        after: setting,
+      });
+      
+      res.json(setting);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating setting:", error);
+      res.status(500).json({ message: "Failed to update setting" });
+    }
+  });
+
+  // Sends a sample message through one channel and reports the delivery error, if any
+  app.post('/api/settings/notification-channels/:id/test', isAuthenticated, requirePermission("settings.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const channel = (await notificationChannels.getChannels()).find(c => c.config.id === req.params.id);
+      if (!channel) {
+        return res.status(404).json({ message: "Notification channel not found" });
+      }
+      const user = await storage.getUser(req.user!.id);
+      if (!user?.email) {
+        return res.status(400).json({ message: "Your account has no email address to send the test to" });
+      }
+
+      const html = `<p>This is a test notification from iPlan, sent by ${user.email}.</p>`;
+      await channel.send({
+        event: "test",
+        from: (await storage.getGlobalSetting("email_default_from"))?.value || user.email,
+        to: [user.email],
+        cc: [],
+        bcc: [],
+        subject: "iPlan: Test notification",
+        html,
+        text: `This is a test notification from iPlan, sent by ${user.email}.`,
+        sensitive: false,
+      });
+      res.json({ message: "Test notification sent" });
+    } catch (error) {
+      console.error("Error sending test notification:", error);
+      res.status(502).json({ message: `Test notification failed: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+
+  // Notification template routes. Events without a saved version report the
+  // built-in default as version 0.
+  const isNotificationEvent = (value: string): value is NotificationEvent =>
+    (notificationEvents as readonly string[]).includes(value);
+
+  app.get('/api/notification-templates', isAuthenticated, requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const saved = await storage.getActiveNotificationTemplates();
+      res.json(notificationEvents.map(event => {
+        const template = saved.find(candidate => candidate.event === event);
+        return template
+          ? { ...template, isDefault: false }
+          : { event, version: 0, ...defaultNotificationTemplates[event], createdBy: null, createdAt: null, isDefault: true };
+      }));
+    } catch (error) {
+      console.error("Error fetching notification templates:", error);
+      res.status(500).json({ message: "Failed to fetch notification templates" });
+    }
+  });
+
+  app.get('/api/notification-templates/:event/versions', isAuthenticated, requirePermission("settings.manage"), async (req, res) => {
+    try {
+      if (!isNotificationEvent(req.params.event)) {
+        return res.status(404).json({ message: "Unknown notification event" });
+      }
+      const versions = await storage.getNotificationTemplateVersions(req.params.event);
+      res.json(versions);
+    } catch (error) {
+      console.error("Error fetching notification template versions:", error);
+      res.status(500).json({ message: "Failed to fetch notification template versions" });
+    }
+  });
+
+  app.put('/api/notification-templates/:event', isAuthenticated, requirePermission("settings.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const event = req.params.event;
+      if (!isNotificationEvent(event)) {
+        return res.status(404).json({ message: "Unknown notification event" });
+      }
+      const content = notificationTemplateContentSchema.parse(req.body);
+      const errors = validateNotificationTemplate(event, content);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: `Template has errors: ${errors.join("; ")}` });
+      }
+
+      const before = await storage.getActiveNotificationTemplate(event);
+      const template = await storage.createNotificationTemplateVersion({ event, ...content, createdBy: req.user!.id });
+      await recordAudit(req, {
+        entityType: "notification_template",
+        entityId: event,
+        action: "update",
+        before: before ? { version: before.version, subject: before.subject, html: before.html, text: before.text } : undefined,
+        after: { version: template.version, subject: template.subject, html: template.html, text: template.text },
+      });
+
+      res.json({ ...template, isDefault: false });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error saving notification template:", error);
+      res.status(500).json({ message: "Failed to save notification template" });
+    }
+  });
+
+  // Sends the unsaved draft, filled with sample data, to the editor
+  app.post('/api/notification-templates/:event/test', isAuthenticated, requirePermission("settings.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const event = req.params.event;
+      if (!isNotificationEvent(event)) {
+        return res.status(404).json({ message: "Unknown notification event" });
+      }
+      const content = notificationTemplateContentSchema.parse(req.body);
+      const errors = validateNotificationTemplate(event, content);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: `Template has errors: ${errors.join("; ")}` });
+      }
+      const user = await storage.getUser(req.user!.id);
+      if (!user?.email) {
+        return res.status(400).json({ message: "Your account has no email address to send the test to" });
+      }
+
+      await emailService.sendTemplateTest(user.email, event, content);
+      res.json({ message: "Test notification queued" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error sending test notification:", error);
+      res.status(500).json({ message: "Failed to send test notification" });
+    }
+  });
+
+  // Audit log
+  const auditQuerySchema = z.object({
+    entityType: z.string().optional(),
+    entityId: z.string().optional(),
+    releasePlanId: z.string().optional(),
+    actorId: z.string().optional(),
+    action: z.string().optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    limit: z.coerce.number().int().min(1).max(500).default(100),
+    offset: z.coerce.number().int().min(0).default(0),
+  });
+
+  app.get('/api/audit', isAuthenticated, requirePermission("audit.view"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+
+      const filters = auditQuerySchema.parse(req.query);
+      const entries = await storage.getAuditLogs(filters);
+      res.json(entries);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
+  // Shareable Links routes
+  app.get('/api/release-plans/:id/share-links', isAuthenticated, requirePermission("share_link.manage"), async (req, res) => {
+    try {
+      const links = await storage.getShareableLinksByReleasePlan(req.params.id);
+      res.json(links);
+    } catch (error) {
+      console.error("Error fetching shareable links:", error);
+      res.status(500).json({ message: "Failed to fetch shareable links" });
+    }
+  });
+
+  app.post('/api/release-plans/:id/share-links', isAuthenticated, requirePermission("share_link.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const linkData = insertShareableLinkSchema.parse({
+        ...req.body,
+        releasePlanId: req.params.id,
+        createdBy: userId,
+      });
+      
+      const link = await storage.createShareableLink(linkData);
+      await recordAudit(req, {
+        entityType: "shareable_link",
+        entityId: link.id,
+        releasePlanId: link.releasePlanId,
+        action: "create",
+        after: link,
+      });
+      res.status(201).json(link);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating shareable link:", error);
+      res.status(500).json({ message: "Failed to create shareable link" });
+    }
+  });
+
+  // Public shareable dashboard access
+  app.get('/api/shared/:token', async (req, res) => {
+    try {
+      const link = await storage.getShareableLink(req.params.token);
+      if (!link || !link.isActive) {
+        return res.status(404).json({ message: "Link not found or expired" });
+      }
+
+      if (link.expiresAt && new Date() > link.expiresAt) {
+        return res.status(404).json({ message: "Link has expired" });
+      }
+
+      const releasePlan = await storage.getReleasePlan(link.releasePlanId);
+      if (!releasePlan) {
+        return res.status(404).json({ message: "Release plan not found" });
+      }
+
+      const steps = await storage.getStepsByReleasePlan(link.releasePlanId);
+      // Plan and step threads together; link holders see names but not who was mentioned
+      const sharedComments = link.allowComments
+        ? (await storage.getComments({ releasePlanId: link.releasePlanId }))
+          .map(({ mentionedUserIds, deletedBy, ...comment }) => comment)
+        : undefined;
+
+      res.json({
+        releasePlan,
+        steps,
+        comments: sharedComments,
+        readOnly: true,
+      });
+    } catch (error) {
+      console.error("Error accessing shared dashboard:", error);
+      res.status(500).json({ message: "Failed to access shared dashboard" });
+    }
+  });
+
+  // Users routes
+  // Active people only, which is what pickers want. Views that show existing
+  // assignments opt in to deactivated users with includeInactive=true.
+  // Service accounts are never listed.
+  app.get('/api/users', isAuthenticated, async (req, res) => {
+    try {
+      const { role } = req.query;
+      const status = req.query.includeInactive === "true" ? "all" : "active";
+      const roles = role && typeof role === "string" ? [role] : ["team_lead", "poc"];
+
+      const users: User[] = [];
+      for (const listedRole of roles) {
+        users.push(...await storage.getUsers({ role: listedRole, status, isServiceAccount: false }));
+      }
+      
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  // Notification preference routes
+  app.get('/api/notification-channels', isAuthenticated, async (req, res) => {
+    try {
+      // Only what the preferences picker needs; channel settings stay with release managers
+      const channels = await notificationChannels.getPersonalChannels();
+      res.json(channels.map(({ config }) => ({ id: config.id, name: config.name, type: config.type })));
+    } catch (error) {
+      console.error("Error fetching notification channels:", error);
+      res.status(500).json({ message: "Failed to fetch notification channels" });
+    }
+  });
+
+  app.get('/api/notification-preferences', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const preference = await storage.getNotificationPreference(req.user!.id);
+      res.json({
+        channelId: preference?.channelId ?? null,
+        deliveries: preference?.deliveries ?? {},
+      });
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ message: "Failed to fetch notification preferences" });
+    }
+  });
+
+  app.put('/api/notification-preferences', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const preferences = notificationPreferencesSchema.parse(req.body);
+      if (preferences.channelId) {
+        const channels = await notificationChannels.getPersonalChannels();
+        if (!channels.some(channel => channel.config.id === preferences.channelId)) {
+          return res.status(400).json({ message: "Notification channel not found" });
+        }
+      }
+
+      const before = await storage.getNotificationPreference(userId);
+      const preference = await storage.upsertNotificationPreference({ userId, ...preferences });
+      await recordAudit(req, {
+        entityType: "notification_preference",
+        entityId: userId,
+        action: before ? "update" : "create",
+        before,
+        after: preference,
+      });
+
+      res.json({ channelId: preference.channelId, deliveries: preference.deliveries });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating notification preferences:", error);
+      res.status(500).json({ message: "Failed to update notification preferences" });
+    }
+  });
+
+  // Notification outbox routes
+  const notificationOutboxQuerySchema = z.object({
+    status: z.enum(notificationOutboxStatuses).optional(),
+    event: z.string().optional(),
+    limit: z.coerce.number().int().min(1).max(500).default(100),
+    offset: z.coerce.number().int().min(0).default(0),
+  });
+
+  app.get('/api/notifications/outbox', isAuthenticated, requirePermission("notifications.manage"), async (req, res) => {
+    try {
+      const filters = notificationOutboxQuerySchema.parse(req.query);
+      const entries = await storage.getNotificationOutboxEntries(filters);
+      res.json(entries.map(redactOutboxEntry));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error fetching notification outbox:", error);
+      res.status(500).json({ message: "Failed to fetch notification outbox" });
+    }
+  });
+
+  app.post('/api/notifications/outbox/:id/resend', isAuthenticated, requirePermission("notifications.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const before = await storage.getNotificationOutboxEntry(req.params.id);
+      if (!before) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      if (before.message.sensitive) {
+        return res.status(409).json({ message: "Invitations and password resets cannot be resent; issue a new one instead" });
+      }
+
+      const entry = await notificationOutbox.resend(before.id);
+      if (!entry) {
+        return res.status(409).json({ message: "Only failed notifications can be resent" });
+      }
+
+      await recordAudit(req, {
+        entityType: "notification",
+        entityId: entry.id,
+        action: "resend",
+        before: { status: before.status, attempts: before.attempts, lastError: before.lastError },
+        after: { status: entry.status, attempts: entry.attempts },
+      });
+
+      res.json(redactOutboxEntry(entry));
+    } catch (error) {
+      console.error("Error resending notification:", error);
+      res.status(500).json({ message: "Failed to resend notification" });
+    }
+  });
+
+  // Webhook routes. Subscriptions receive the same events as broadcast(); the
+  // secret is only returned when it is created or rotated.
+  const webhookDeliveryQuerySchema = z.object({
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+  });
+
+  async function isUnknownReleasePlan(releasePlanId: string | null | undefined): Promise<boolean> {
+    return !!releasePlanId && !(await storage.getReleasePlan(releasePlanId));
+  }
+
+  app.get('/api/webhooks', isAuthenticated, requirePermission("webhooks.manage"), async (req, res) => {
+    try {
+      const subscriptions = await storage.getWebhookSubscriptions();
+      res.json(subscriptions.map(toPublicWebhook));
+    } catch (error) {
+      console.error("Error fetching webhooks:", error);
+      res.status(500).json({ message: "Failed to fetch webhooks" });
+    }
+  });
+
+  app.post('/api/webhooks', isAuthenticated, requirePermission("webhooks.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const input = webhookInputSchema.parse(req.body);
+      if (await isUnknownReleasePlan(input.releasePlanId)) {
+        return res.status(400).json({ message: "Release plan not found" });
+      }
+      await assertPublicWebhookUrl(input.url);
+
+      const secret = generateWebhookSecret();
+      const subscription = await storage.createWebhookSubscription({
+        ...input,
+        secret,
+        createdBy: req.user!.id,
+      });
+      await recordAudit(req, {
+        entityType: "webhook_subscription",
+        entityId: subscription.id,
+        releasePlanId: subscription.releasePlanId,
+        action: "create",
+        after: subscription,
+      });
+
+      res.status(201).json({ webhook: toPublicWebhook(subscription), secret });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
-      console.error("Error updating setting:", error);
-      res.status(500).json({ message: "Failed to update setting" });
+      if (error instanceof WebhookError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating webhook:", error);
+      res.status(500).json({ message: "Failed to create webhook" });
     }
   });
 
-  // Shareable Links routes
-  app.get('/api/release-plans/:id/share-links', isAuthenticated, async (req, res) => {
+  app.patch('/api/webhooks/:id', isAuthenticated, requirePermission("webhooks.manage"), async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const links = await storage.getShareableLinksByReleasePlan(req.params.id);
-      res.json(links);
+      const updates = webhookUpdateSchema.parse(req.body);
+      const before = await storage.getWebhookSubscription(req.params.id);
+      if (!before) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      if (await isUnknownReleasePlan(updates.releasePlanId)) {
+        return res.status(400).json({ message: "Release plan not found" });
+      }
+      if (updates.url !== undefined) {
+        await assertPublicWebhookUrl(updates.url);
+      }
+
+      const subscription = await storage.updateWebhookSubscription(before.id, updates);
+      await recordAudit(req, {
+        entityType: "webhook_subscription",
+        entityId: subscription.id,
+        releasePlanId: subscription.releasePlanId,
+        action: "update",
+        before,
+        after: subscription,
+      });
+
+      res.json(toPublicWebhook(subscription));
     } catch (error) {
-      console.error("Error fetching shareable links:", error);
-      res.status(500).json({ message: "Failed to fetch shareable links" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof WebhookError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error updating webhook:", error);
+      res.status(500).json({ message: "Failed to update webhook" });
     }
   });
 
-  app.post('/api/release-plans/:id/share-links', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
+  // Its delivery history goes with it
+  app.delete('/api/webhooks/:id', isAuthenticated, requirePermission("webhooks.manage"), async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const userId = req.user?.id;
-      if (!userId) {
-        return res.status(401).json({ message: "Unauthorized" });
+      const before = await storage.getWebhookSubscription(req.params.id);
+      if (!before) {
+        return res.status(404).json({ message: "Webhook not found" });
       }
 
-      const linkData = insertShareableLinkSchema.parse({
-        ...req.body,
-        releasePlanId: req.params.id,
-        createdBy: userId,
+      await storage.deleteWebhookSubscription(before.id);
+      await recordAudit(req, {
+        entityType: "webhook_subscription",
+        entityId: before.id,
+        releasePlanId: before.releasePlanId,
+        action: "delete",
+        before,
       });
-      
-      const link = await storage.createShareableLink(linkData);
-      res.status(201).json(link);
+
+      res.json({ message: "Webhook deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
+      res.status(500).json({ message: "Failed to delete webhook" });
+    }
+  });
+
+  app.post('/api/webhooks/:id/rotate-secret', isAuthenticated, requirePermission("webhooks.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const before = await storage.getWebhookSubscription(req.params.id);
+      if (!before) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+
+      const secret = generateWebhookSecret();
+      const subscription = await storage.updateWebhookSubscription(before.id, { secret });
+      await recordAudit(req, {
+        entityType: "webhook_subscription",
+        entityId: subscription.id,
+        releasePlanId: subscription.releasePlanId,
+        action: "rotate_secret",
+        before,
+        after: subscription,
+      });
+
+      res.json({ webhook: toPublicWebhook(subscription), secret });
+    } catch (error) {
+      console.error("Error rotating webhook secret:", error);
+      res.status(500).json({ message: "Failed to rotate webhook secret" });
+    }
+  });
+
+  // Waits for the receiver's answer so the result can be shown straight away
+  app.post('/api/webhooks/:id/test', isAuthenticated, requirePermission("webhooks.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const subscription = await storage.getWebhookSubscription(req.params.id);
+      if (!subscription) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+
+      const actor = await storage.getUser(req.user!.id);
+      const actorName = actor ? `${actor.firstName} ${actor.lastName}` : 'An administrator';
+      const delivery = await webhookDispatcher.sendTest(subscription, actorName);
+      res.json(delivery);
+    } catch (error) {
+      console.error("Error sending test webhook:", error);
+      res.status(500).json({ message: "Failed to send test webhook" });
+    }
+  });
+
+  app.get('/api/webhooks/:id/deliveries', isAuthenticated, requirePermission("webhooks.manage"), async (req, res) => {
+    try {
+      const { limit } = webhookDeliveryQuerySchema.parse(req.query);
+      const deliveries = await storage.getWebhookDeliveries(req.params.id, limit);
+      res.json(deliveries);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
-      console.error("Error creating shareable link:", error);
-      res.status(500).json({ message: "Failed to create shareable link" });
+      console.error("Error fetching webhook deliveries:", error);
+      res.status(500).json({ message: "Failed to fetch webhook deliveries" });
     }
   });
 
-  // Public shareable dashboard access
-  app.get('/api/shared/:token', async (req, res) => {
+  app.post('/api/webhook-deliveries/:id/redeliver', isAuthenticated, requirePermission("webhooks.manage"), async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const link = await storage.getShareableLink(req.params.token);
-      if (!link || !link.isActive) {
-        return res.status(404).json({ message: "Link not found or expired" });
+      const delivery = await storage.getWebhookDelivery(req.params.id);
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      const subscription = await storage.getWebhookSubscription(delivery.subscriptionId);
+      if (!subscription?.isActive && !delivery.isTest) {
+        return res.status(409).json({ message: "Enable the webhook before redelivering its events" });
       }
 
-      if (link.expiresAt && new Date() > link.expiresAt) {
-        return res.status(404).json({ message: "Link has expired" });
+      const redelivery = await webhookDispatcher.redeliver(delivery);
+      await recordAudit(req, {
+        entityType: "webhook_delivery",
+        entityId: redelivery.id,
+        releasePlanId: subscription?.releasePlanId,
+        action: "redeliver",
+        before: { id: delivery.id, status: delivery.status, lastError: delivery.lastError },
+        after: { id: redelivery.id, status: redelivery.status },
+      });
+
+      res.status(201).json(redelivery);
+    } catch (error) {
+      console.error("Error redelivering webhook:", error);
+      res.status(500).json({ message: "Failed to redeliver webhook" });
+    }
+  });
+
+  // Team routes
+  const teamBodySchema = insertTeamSchema.extend({
+    memberIds: z.array(z.string()).default([]),
+  });
+
+  app.get('/api/teams', isAuthenticated, async (req, res) => {
+    try {
+      const teams = await storage.getTeams();
+      res.json(teams);
+    } catch (error) {
+      console.error("Error fetching teams:", error);
+      res.status(500).json({ message: "Failed to fetch teams" });
+    }
+  });
+
+  app.post('/api/teams', isAuthenticated, requirePermission("teams.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { memberIds, ...teamData } = teamBodySchema.parse(req.body);
+      const assigneeError = await validateStepAssignees([teamData.leadId, ...memberIds]);
+      if (assigneeError) {
+        return res.status(400).json({ message: assigneeError });
       }
 
-      const releasePlan = await storage.getReleasePlan(link.releasePlanId);
-      if (!releasePlan) {
-        return res.status(404).json({ message: "Release plan not found" });
+      const team = await storage.createTeam(teamData, memberIds);
+      await recordAudit(req, {
+        entityType: "team",
+        entityId: team.id,
+        action: "create",
+        after: team,
+      });
+
+      broadcast({ type: "team_updated", data: team });
+      res.status(201).json(team);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A team with this name already exists" });
+      }
+      console.error("Error creating team:", error);
+      res.status(500).json({ message: "Failed to create team" });
+    }
+  });
 
-      const steps = await storage.getStepsByReleasePlan(link.releasePlanId);
+  app.patch('/api/teams/:id', isAuthenticated, requirePermission("teams.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { memberIds, ...teamData } = teamBodySchema.partial().parse(req.body);
+      const before = await storage.getTeam(req.params.id);
+      if (!before) {
+        return res.status(404).json({ message: "Team not found" });
+      }
 
-      res.json({
-        releasePlan,
-        steps,
-        readOnly: true,
+      // Only newly added people need to be active
+      const addedIds = [teamData.leadId, ...(memberIds || [])]
+        .filter(userId => userId && userId !== before.leadId && !before.memberIds.includes(userId));
+      const assigneeError = await validateStepAssignees(addedIds);
+      if (assigneeError) {
+        return res.status(400).json({ message: assigneeError });
+      }
+
+      const team = await storage.updateTeam(before.id, teamData, memberIds);
+      await recordAudit(req, {
+        entityType: "team",
+        entityId: team.id,
+        action: "update",
+        before,
+        after: team,
       });
+
+      broadcast({ type: "team_updated", data: team });
+      res.json(team);
     } catch (error) {
-      console.error("Error accessing shared dashboard:", error);
-      res.status(500).json({ message: "Failed to access shared dashboard" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A team with this name already exists" });
+      }
+      console.error("Error updating team:", error);
+      res.status(500).json({ message: "Failed to update team" });
     }
   });
 
-  // Users routes
-  app.get('/api/users', isAuthenticated, async (req, res) => {
+  app.delete('/api/teams/:id', isAuthenticated, requirePermission("teams.manage"), async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const { role } = req.query;
-      let users;
-      
-      if (role && typeof role === "string") {
-        users = await storage.getUsersByRole(role);
-      } else {
-        // For simplicity, return users by common roles
-        const teamLeads = await storage.getUsersByRole("team_lead");
-        const pocs = await storage.getUsersByRole("poc");
-        users = [...teamLeads, ...pocs];
-      }
-      
-      res.json(users);
+      const before = await storage.getTeam(req.params.id);
+      await storage.deleteTeam(req.params.id);
+      await recordAudit(req, {
+        entityType: "team",
+        entityId: req.params.id,
+        action: "delete",
+        before,
+      });
+
+      broadcast({ type: "team_deleted", data: { id: req.params.id } });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting team:", error);
+      res.status(500).json({ message: "Failed to delete team" });
+    }
+  });
+
+  // User administration
+  const userQuerySchema = z.object({
+    search: z.string().trim().optional(),
+    role: z.enum(userRoles).optional(),
+    status: z.enum(["active", "inactive", "all"]).default("all"),
+  });
+  const inviteUserSchema = z.object({
+    email: z.string().email(),
+    firstName: z.string().trim().min(1),
+    lastName: z.string().trim().min(1),
+    role: z.enum(userRoles),
+  });
+  const updateUserSchema = inviteUserSchema.omit({ email: true }).partial();
+
+  app.get('/api/admin/users', isAuthenticated, requirePermission("users.manage"), async (req, res) => {
+    try {
+      const filters = userQuerySchema.parse(req.query);
+      const users = await storage.getUsers(filters);
+      res.json(users.map(toPublicUser));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
       console.error("Error fetching users:", error);
       res.status(500).json({ message: "Failed to fetch users" });
     }
   });
 
-  // Initialize scheduler service
-  schedulerService.initialize(storage, broadcast);
+  // Creates the account with a temporary password, which is emailed to the new
+  // user and returned once so it can be handed over if email is not set up
+  app.post('/api/admin/users', isAuthenticated, requirePermission("users.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userData = inviteUserSchema.parse(req.body);
+      const existingUser = await storage.getUserByEmail(userData.email);
+      if (existingUser) {
+        return res.status(409).json({ message: "User already exists" });
+      }
 
-  // Create HTTP server
-  const httpServer = createServer(app);
+      const temporaryPassword = generateTemporaryPassword();
+      const user = await storage.createUser({
+        ...userData,
+        password: await hashPassword(temporaryPassword),
+      });
+      await recordAudit(req, {
+        entityType: "user",
+        entityId: user.id,
+        action: "invite",
+        after: toPublicUser(user),
+      });
 
-  // Setup WebSocket server
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+      const inviter = await storage.getUser(req.user!.id);
+      const inviterName = inviter ? `${inviter.firstName} ${inviter.lastName}` : 'An administrator';
+      await emailService.sendUserInvitation(user.email, temporaryPassword, inviterName);
 
-  wss.on('connection', (ws: WebSocket, request: IncomingMessage) => {
-    console.log('WebSocket client connected');
-    wsConnections.add(ws);
+      res.status(201).json({ user: toPublicUser(user), temporaryPassword });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error inviting user:", error);
+      res.status(500).json({ message: "Failed to invite user" });
+    }
+  });
 
-    ws.on('close', () => {
-      console.log('WebSocket client disconnected');
-      wsConnections.delete(ws);
-    });
+  app.patch('/api/admin/users/:id', isAuthenticated, requirePermission("users.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const updates = updateUserSchema.parse(req.body);
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
 
-    ws.on('error', (error) => {
-      console.error('WebSocket error:', error);
-      wsConnections.delete(ws);
-    });
+      if (updates.role && updates.role !== user.role && await isLastActiveReleaseManager(user)) {
+        return res.status(400).json({ message: "There must be at least one active release manager" });
+      }
+
+      const updatedUser = await storage.updateUser(user.id, updates);
+      await recordAudit(req, {
+        entityType: "user",
+        entityId: user.id,
+        action: updates.role && updates.role !== user.role ? "role_change" : "update",
+        before: toPublicUser(user),
+        after: toPublicUser(updatedUser),
+      });
+
+      broadcast({ type: "user_updated", data: toPublicUser(updatedUser) });
+      res.json(toPublicUser(updatedUser));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating user:", error);
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
+  app.post('/api/admin/users/:id/deactivate', isAuthenticated, requirePermission("users.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.id === req.user!.id) {
+        return res.status(400).json({ message: "You cannot deactivate your own account" });
+      }
+      if (await isLastActiveReleaseManager(user)) {
+        return res.status(400).json({ message: "There must be at least one active release manager" });
+      }
+
+      const updatedUser = await storage.updateUser(user.id, { isActive: false, deactivatedAt: new Date() });
+      await recordAudit(req, {
+        entityType: "user",
+        entityId: user.id,
+        action: "deactivate",
+        before: toPublicUser(user),
+        after: toPublicUser(updatedUser),
+      });
+
+      broadcast({ type: "user_updated", data: toPublicUser(updatedUser) });
+      res.json(toPublicUser(updatedUser));
+    } catch (error) {
+      console.error("Error deactivating user:", error);
+      res.status(500).json({ message: "Failed to deactivate user" });
+    }
+  });
+
+  app.post('/api/admin/users/:id/reactivate', isAuthenticated, requirePermission("users.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const updatedUser = await storage.updateUser(user.id, { isActive: true, deactivatedAt: null });
+      await recordAudit(req, {
+        entityType: "user",
+        entityId: user.id,
+        action: "reactivate",
+        before: toPublicUser(user),
+        after: toPublicUser(updatedUser),
+      });
+
+      broadcast({ type: "user_updated", data: toPublicUser(updatedUser) });
+      res.json(toPublicUser(updatedUser));
+    } catch (error) {
+      console.error("Error reactivating user:", error);
+      res.status(500).json({ message: "Failed to reactivate user" });
+    }
+  });
+
+  app.post('/api/admin/users/:id/reset-password', isAuthenticated, requirePermission("users.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (user.isServiceAccount) {
+        return res.status(400).json({ message: "Service accounts sign in with API tokens, not passwords" });
+      }
+
+      const temporaryPassword = generateTemporaryPassword();
+      const updatedUser = await storage.updateUser(user.id, { password: await hashPassword(temporaryPassword) });
+      await recordAudit(req, {
+        entityType: "user",
+        entityId: user.id,
+        action: "reset_password",
+        before: { password: user.password },
+        after: { password: updatedUser.password },
+      });
+
+      const admin = await storage.getUser(req.user!.id);
+      const adminName = admin ? `${admin.firstName} ${admin.lastName}` : 'An administrator';
+      await emailService.sendPasswordResetNotification(user.email, temporaryPassword, adminName);
+
+      res.json({ temporaryPassword });
+    } catch (error) {
+      console.error("Error resetting password:", error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  // Service accounts. Users that only ever act through API tokens, so a
+  // pipeline's changes are not attributed to whoever set it up.
+  const serviceAccountSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    role: z.enum(userRoles),
+  });
 
-    // Send initial connection message
-    ws.send(JSON.stringify({ type: "connected", message: "Real-time updates enabled" }));
+  app.get('/api/admin/service-accounts', isAuthenticated, requirePermission("users.manage"), async (req, res) => {
+    try {
+      const accounts = await storage.getUsers({ status: "all", isServiceAccount: true });
+      res.json(accounts.map(toPublicUser));
+    } catch (error) {
+      console.error("Error fetching service accounts:", error);
+      res.status(500).json({ message: "Failed to fetch service accounts" });
+    }
+  });
+
+  app.post('/api/admin/service-accounts', isAuthenticated, requirePermission("users.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { name, role } = serviceAccountSchema.parse(req.body);
+      const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "service";
+
+      // Nobody knows the password, and the login form turns service accounts away regardless
+      const account = await storage.createUser({
+        email: `${slug}.${randomBytes(4).toString("hex")}@service-accounts.invalid`,
+        password: await hashPassword(randomBytes(32).toString("base64url")),
+        firstName: name,
+        lastName: null,
+        role,
+        isServiceAccount: true,
+      });
+      await recordAudit(req, {
+        entityType: "user",
+        entityId: account.id,
+        action: "create",
+        after: toPublicUser(account),
+      });
+
+      broadcast({ type: "user_updated", data: toPublicUser(account) });
+      res.status(201).json(toPublicUser(account));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating service account:", error);
+      res.status(500).json({ message: "Failed to create service account" });
+    }
+  });
+
+  app.post('/api/admin/service-accounts/:id/api-tokens', isAuthenticated, requirePermission("users.manage"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const input = apiTokenInputSchema.parse(req.body);
+      const account = await storage.getUser(req.params.id);
+      if (!account?.isServiceAccount) {
+        return res.status(404).json({ message: "Service account not found" });
+      }
+
+      const { token, secret } = await issueApiToken(account.id, input, req.user!.id);
+      await recordAudit(req, {
+        entityType: "api_token",
+        entityId: token.id,
+        action: "create",
+        after: toPublicApiToken(token),
+      });
+
+      res.status(201).json({ token: toPublicApiToken(token), secret });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating service account API token:", error);
+      res.status(500).json({ message: "Failed to create API token" });
+    }
+  });
+
+  // Every user's and service account's tokens, so any of them can be revoked
+  app.get('/api/admin/api-tokens', isAuthenticated, requirePermission("users.manage"), async (req, res) => {
+    try {
+      res.json(await storage.getApiTokens({}));
+    } catch (error) {
+      console.error("Error fetching API tokens:", error);
+      res.status(500).json({ message: "Failed to fetch API tokens" });
+    }
+  });
+
+  // Personal API tokens. These routes take a browser session; a token cannot
+  // list, mint or revoke tokens.
+  app.get('/api/api-tokens', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      res.json(await storage.getApiTokens({ userId: req.user!.id }));
+    } catch (error) {
+      console.error("Error fetching API tokens:", error);
+      res.status(500).json({ message: "Failed to fetch API tokens" });
+    }
+  });
+
+  // The secret is only ever in this response
+  app.post('/api/api-tokens', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const input = apiTokenInputSchema.parse(req.body);
+      const { token, secret } = await issueApiToken(req.user!.id, input, req.user!.id);
+      await recordAudit(req, {
+        entityType: "api_token",
+        entityId: token.id,
+        action: "create",
+        after: toPublicApiToken(token),
+      });
+
+      res.status(201).json({ token: toPublicApiToken(token), secret });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating API token:", error);
+      res.status(500).json({ message: "Failed to create API token" });
+    }
+  });
+
+  // Owners revoke their own tokens; user managers can revoke anyone's
+  app.delete('/api/api-tokens/:id', isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const token = await storage.getApiToken(req.params.id);
+      if (!token) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+      if (token.userId !== req.user!.id) {
+        const user = await storage.getUser(req.user!.id);
+        if (!can(user, "users.manage")) {
+          return res.status(403).json({ message: "Insufficient permissions" });
+        }
+      }
+      if (token.revokedAt) {
+        return res.json(toPublicApiToken(token));
+      }
+
+      const revokedToken = await storage.revokeApiToken(token.id, req.user!.id);
+      await recordAudit(req, {
+        entityType: "api_token",
+        entityId: token.id,
+        action: "revoke",
+        before: toPublicApiToken(token),
+        after: toPublicApiToken(revokedToken),
+      });
+
+      res.json(toPublicApiToken(revokedToken));
+    } catch (error) {
+      console.error("Error revoking API token:", error);
+      res.status(500).json({ message: "Failed to revoke API token" });
+    }
   });
 
+  // Relay broadcasts between instances, then start the scheduler
+  await broadcastBus.start((data) => realtimeServer.deliver(data));
+  schedulerService.initialize(storage, broadcast);
+
+  // Create HTTP server
+  const httpServer = createServer(app);
+
+  // WebSocket connections need a session or a shareable link
+  realtimeServer.attach(httpServer);
+
   return httpServer;
 }
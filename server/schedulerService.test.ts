@@ -0,0 +1,74 @@
+import { beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { schedulerService } from "./schedulerService";
+import type { IStorage } from "./storage";
+import type { ReleaseStep } from "@shared/schema";
+
+let steps: Map<string, ReleaseStep>;
+
+function makeStep(id: string, overrides: Partial<ReleaseStep> = {}): ReleaseStep {
+  return {
+    id,
+    releasePlanId: "plan-1",
+    name: id,
+    status: "not_started",
+    schedulingType: "manual",
+    dependsOnStepId: null,
+    simultaneousWithStepId: null,
+    relativeToStepId: null,
+    scheduledTime: null,
+    blockedByStepId: null,
+    ...overrides,
+  } as ReleaseStep;
+}
+
+function setStep(id: string, changes: Partial<ReleaseStep>): ReleaseStep {
+  const step = { ...steps.get(id)!, ...changes };
+  steps.set(id, step);
+  return step;
+}
+
+const fakeStorage = {
+  getStep: async (id: string) => steps.get(id),
+  getStepsByReleasePlan: async () => Array.from(steps.values()),
+  getStepDependenciesByReleasePlan: async () => [],
+  getReleasePlan: async () => undefined,
+  updateReleasePlan: async () => undefined,
+  getScheduledJobByStep: async () => undefined,
+  cancelScheduledJob: async () => undefined,
+  upsertScheduledJob: async () => undefined,
+  addStepHistory: async () => undefined,
+  blockStepBehind: async (id: string, haltedStepId: string) =>
+    steps.get(id)?.status === "not_started" ? setStep(id, { status: "blocked", blockedByStepId: haltedStepId }) : undefined,
+  releaseCascadeBlockedStep: async (id: string) =>
+    steps.get(id)?.status === "blocked" && steps.get(id)?.blockedByStepId
+      ? setStep(id, { status: "not_started", blockedByStepId: null })
+      : undefined,
+} as unknown as IStorage;
+
+beforeEach(() => {
+  steps = new Map([
+    ["build", makeStep("build", { status: "failed" })],
+    ["deploy", makeStep("deploy", { schedulingType: "after_step", dependsOnStepId: "build" })],
+  ]);
+  Object.assign(schedulerService, { storageInstance: fakeStorage, broadcastFn: () => undefined });
+});
+
+test("a step blocked by the cascade is released once its predecessor is retried", async () => {
+  await schedulerService.onStepStatusChange("build");
+  assert.equal(steps.get("deploy")!.status, "blocked");
+  assert.equal(steps.get("deploy")!.blockedByStepId, "build");
+
+  setStep("build", { status: "started" });
+  await schedulerService.onStepStatusChange("build");
+  assert.equal(steps.get("deploy")!.status, "not_started");
+  assert.equal(steps.get("deploy")!.blockedByStepId, null);
+});
+
+test("a step blocked by hand stays blocked when its predecessor progresses", async () => {
+  setStep("build", { status: "started" });
+  setStep("deploy", { status: "blocked" });
+
+  await schedulerService.onStepStatusChange("build");
+  assert.equal(steps.get("deploy")!.status, "blocked");
+});
@@ -1,45 +1,477 @@
 import cron from 'node-cron';
 import { storage } from './storage';
+import { pool } from './db';
 import { emailService } from './emailService';
+import { sendDueNotificationDigests } from './notificationDigest';
+import { notificationOutbox } from './notificationOutbox';
+import { webhookDispatcher } from './webhooks';
+import { getPredecessorIds } from '@shared/stepDependencies';
+import { getAcknowledgementUrl, getAcknowledgementWindowMinutes, requestAcknowledgement } from './stepAcknowledgement';
 import type { IStorage } from './storage';
-import type { ReleaseStep } from '@shared/schema';
+import type { ReleaseStep, ScheduledJob, User } from '@shared/schema';
+import type { RealtimeBroadcast } from '@shared/realtimeEvents';
+import { deriveReleasePlanStatus, isStepFinished, isStepHalted } from '@shared/stepStatus';
+import { getClosedGates } from '@shared/releaseGates';
+import {
+  CATCH_UP_POLICY_SETTING,
+  getEffectiveTriggerTime,
+  isCatchUpPolicy,
+  type CatchUpPolicy,
+} from '@shared/stepScheduling';
+import {
+  DEFAULT_SLA_ESCALATION_INTERVAL_MINUTES,
+  DEFAULT_SLA_PICKUP_MINUTES,
+  SLA_ESCALATION_INTERVAL_SETTING,
+  SLA_PICKUP_SETTING,
+  escalationStageLabels,
+  escalationStages,
+  formatDurationMinutes,
+  getOverdueState,
+  type EscalationStage,
+  type OverdueState,
+} from '@shared/stepSla';
+
+// A job due longer ago than this was missed while no scheduler was running,
+// rather than just waiting for the next minute tick
+const MISSED_TRIGGER_GRACE_MS = 5 * 60 * 1000;
+
+// Postgres advisory lock held by whichever instance runs the scheduler tick
+const SCHEDULER_LOCK_KEY = 72617001;
+
+interface TriggerOptions {
+  changedBy?: string | null;
+  notes?: string;
+}
+
+function formatUserName(user: User): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email;
+}
 
 class SchedulerService {
-  private cronJobs: Map<string, any> = new Map();
-  private broadcastFn: ((data: any) => void) | null = null;
+  private broadcastFn: RealtimeBroadcast | null = null;
   private storageInstance: IStorage | null = null;
 
-  initialize(storageInstance: IStorage, broadcastFn: (data: any) => void) {
+  initialize(storageInstance: IStorage, broadcastFn: RealtimeBroadcast) {
     this.storageInstance = storageInstance;
     this.broadcastFn = broadcastFn;
     
     // Start the main scheduler that runs every minute
     this.startMainScheduler();
+
+    // Rebuild jobs for anything scheduled before this release of the scheduler
+    // and apply the catch-up policy to triggers missed while the server was down
+    this.withSchedulerLock(async () => {
+      await this.syncAllJobs();
+      await this.checkScheduledSteps();
+    });
     console.log('Scheduler service initialized');
   }
 
   private startMainScheduler() {
     // Run every minute to check for steps that need to be triggered
     cron.schedule('* * * * *', async () => {
-      await this.checkScheduledSteps();
-      await this.checkDependentSteps();
+      await this.withSchedulerLock(async () => {
+        await this.checkScheduledSteps();
+        await this.checkDependentSteps();
+        await this.checkUnacknowledgedSteps();
+        await this.checkOverdueSteps();
+        await this.sendNotificationDigests();
+        await this.processNotificationOutbox();
+        await this.processWebhookDeliveries();
+      });
+    });
+  }
+
+  // Runs the task only if no other instance is mid-tick. Jobs and steps are
+  // also claimed with conditional updates, so this mainly saves duplicate work.
+  private async withSchedulerLock(task: () => Promise<void>) {
+    let client;
+    try {
+      client = await pool.connect();
+      const { rows } = await client.query('SELECT pg_try_advisory_lock($1) AS acquired', [SCHEDULER_LOCK_KEY]);
+      if (!rows[0]?.acquired) return;
+
+      try {
+        await task();
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [SCHEDULER_LOCK_KEY]);
+      }
+    } catch (error) {
+      console.error('Error running scheduler tick:', error);
+    } finally {
+      client?.release();
+    }
+  }
+
+  private async sendNotificationDigests() {
+    try {
+      await sendDueNotificationDigests();
+    } catch (error) {
+      console.error('Error sending notification digests:', error);
+    }
+  }
+
+  // Retries notifications whose backoff has passed
+  private async processNotificationOutbox() {
+    try {
+      await notificationOutbox.processDue();
+    } catch (error) {
+      console.error('Error processing notification outbox:', error);
+    }
+  }
+
+  // Retries webhook deliveries whose backoff has passed
+  private async processWebhookDeliveries() {
+    try {
+      await webhookDispatcher.processDue();
+    } catch (error) {
+      console.error('Error processing webhook deliveries:', error);
+    }
+  }
+
+  // Hands triggered steps whose POC never acknowledged them to the backup POC.
+  // This happens once per trigger; after that the SLA escalation takes over.
+  private async checkUnacknowledgedSteps() {
+    if (!this.storageInstance || !this.broadcastFn) return;
+
+    try {
+      const steps = await this.storageInstance.getStepsAwaitingFailover(new Date());
+      for (const step of steps) {
+        await this.failOverStep(step);
+      }
+    } catch (error) {
+      console.error('Error checking unacknowledged steps:', error);
+    }
+  }
+
+  private async failOverStep(step: ReleaseStep) {
+    if (!this.storageInstance || !this.broadcastFn || !step.primaryPocId) return;
+
+    const windowMinutes = await getAcknowledgementWindowMinutes();
+    const window = formatDurationMinutes(windowMinutes);
+    const previousPoc = await this.storageInstance.getUser(step.primaryPocId);
+    const backupPoc = step.backupPocId ? await this.storageInstance.getUser(step.backupPocId) : undefined;
+    const previousPocName = previousPoc ? formatUserName(previousPoc) : 'The POC';
+
+    if (!backupPoc?.isActive) {
+      // Nothing to hand over to, so stop waiting
+      const expiredStep = await this.storageInstance.handOverUnacknowledgedStep(step.id, step.primaryPocId, {
+        acknowledgementDueAt: null,
+      });
+      if (!expiredStep) return;
+
+      await this.storageInstance.addStepHistory({
+        stepId: step.id,
+        previousStatus: step.status,
+        newStatus: step.status,
+        changedBy: null,
+        notes: `Not acknowledged by ${previousPocName} within ${window}; there is no active backup POC to hand it to`,
+      });
+      this.broadcastFn({ type: 'step_updated', data: expiredStep });
+      return;
+    }
+
+    const now = new Date();
+    const handedOverStep = await this.storageInstance.handOverUnacknowledgedStep(step.id, step.primaryPocId, {
+      primaryPocId: backupPoc.id,
+      backupPocId: step.primaryPocId,
+      acknowledgementDueAt: new Date(now.getTime() + windowMinutes * 60 * 1000),
+      failedOverAt: now,
+    });
+    if (!handedOverStep) return;
+
+    const backupPocName = formatUserName(backupPoc);
+    await this.storageInstance.addStepHistory({
+      stepId: step.id,
+      previousStatus: step.status,
+      newStatus: step.status,
+      changedBy: null,
+      notes: `Not acknowledged by ${previousPocName} within ${window}; handed to backup POC ${backupPocName}`,
+    });
+
+    // Only the new POC gets a link to acknowledge with
+    await emailService.sendPocFailoverNotification(
+      [backupPoc.email],
+      handedOverStep,
+      { previousPoc: previousPocName, newPoc: backupPocName, windowMinutes: window },
+      getAcknowledgementUrl(handedOverStep),
+    );
+    const teamLead = step.teamLeadId ? await this.storageInstance.getUser(step.teamLeadId) : undefined;
+    const otherEmails = [previousPoc, teamLead]
+      .filter((user): user is User => !!user?.isActive && user.id !== backupPoc.id)
+      .map(user => user.email);
+    await emailService.sendPocFailoverNotification(
+      Array.from(new Set(otherEmails)),
+      handedOverStep,
+      { previousPoc: previousPocName, newPoc: backupPocName, windowMinutes: window },
+    );
+
+    this.broadcastFn({
+      type: 'step_failover',
+      data: { step: handedOverStep, previousPocId: step.primaryPocId, newPocId: backupPoc.id },
+    });
+    console.log(`Step ${step.name} (${step.id}) was not acknowledged; handed to backup POC ${backupPoc.email}`);
+  }
+
+  // Flags steps that ran past their expected duration or were never picked up,
+  // then escalates one stage per interval until someone acts on them
+  private async checkOverdueSteps() {
+    if (!this.storageInstance || !this.broadcastFn) return;
+
+    try {
+      const now = new Date();
+      const pickupMinutes = await this.getMinutesSetting(SLA_PICKUP_SETTING, DEFAULT_SLA_PICKUP_MINUTES);
+      const intervalMinutes = await this.getMinutesSetting(SLA_ESCALATION_INTERVAL_SETTING, DEFAULT_SLA_ESCALATION_INTERVAL_MINUTES);
+      const steps = await this.storageInstance.getStepsForSlaCheck();
+
+      for (const step of steps) {
+        const overdue = getOverdueState(step, now, pickupMinutes);
+
+        if (!overdue) {
+          // Back on track: the next time it runs late starts from the first stage again
+          if (step.escalationLevel === 0 && !step.overdueSince) continue;
+          const cleared = await this.storageInstance.updateStepEscalation(step.id, step.escalationLevel, {
+            escalationLevel: 0,
+            overdueSince: null,
+            lastEscalatedAt: null,
+          });
+          if (cleared) this.broadcastFn({ type: 'step_updated', data: cleared });
+          continue;
+        }
+
+        if (step.escalationLevel >= escalationStages.length) continue;
+        const nextEscalationAt = step.lastEscalatedAt
+          ? new Date(step.lastEscalatedAt).getTime() + intervalMinutes * 60 * 1000
+          : 0;
+        if (now.getTime() < nextEscalationAt) continue;
+
+        await this.escalateStep(step, overdue, now);
+      }
+    } catch (error) {
+      console.error('Error checking overdue steps:', error);
+    }
+  }
+
+  private async escalateStep(step: ReleaseStep, overdue: OverdueState, now: Date) {
+    if (!this.storageInstance || !this.broadcastFn) return;
+
+    // Stages with nobody to tell are passed over
+    let level = step.escalationLevel;
+    let recipients: User[] = [];
+    while (level < escalationStages.length && recipients.length === 0) {
+      recipients = await this.getEscalationRecipients(step, escalationStages[level]);
+      level++;
+    }
+    const stage = escalationStages[level - 1];
+
+    const escalatedStep = await this.storageInstance.updateStepEscalation(step.id, step.escalationLevel, {
+      escalationLevel: level,
+      overdueSince: step.overdueSince ?? overdue.since,
+      lastEscalatedAt: now,
     });
+    if (!escalatedStep) return;
+
+    const emails = recipients.map(user => user.email);
+    await this.storageInstance.addStepHistory({
+      stepId: step.id,
+      previousStatus: step.status,
+      newStatus: step.status,
+      changedBy: null,
+      notes: emails.length > 0
+        ? `Overdue (${overdue.reason}); escalated to ${escalationStageLabels[stage]}: ${emails.join(', ')}`
+        : `Overdue (${overdue.reason}); nobody left to escalate to`,
+    });
+
+    await emailService.sendStepOverdueNotification(emails, escalatedStep, overdue.reason, escalationStageLabels[stage]);
+
+    this.broadcastFn({
+      type: 'step_overdue',
+      data: { step: escalatedStep, stage, reason: overdue.reason, notified: emails },
+    });
+    console.log(`Step ${step.name} (${step.id}) is overdue; escalated to ${stage}`);
+  }
+
+  private async getEscalationRecipients(step: ReleaseStep, stage: EscalationStage): Promise<User[]> {
+    if (!this.storageInstance) return [];
+
+    if (stage === 'release_manager') {
+      const managers = await this.storageInstance.getUsersByRole('release_manager');
+      return managers.filter(user => user.isActive && !user.isServiceAccount);
+    }
+
+    const userId = stage === 'primary_poc' ? step.primaryPocId : stage === 'backup_poc' ? step.backupPocId : step.teamLeadId;
+    if (!userId) return [];
+    const user = await this.storageInstance.getUser(userId);
+    return user?.isActive && !user.isServiceAccount ? [user] : [];
+  }
+
+  private async getMinutesSetting(key: string, fallback: number): Promise<number> {
+    const setting = await this.storageInstance?.getGlobalSetting(key);
+    const minutes = Number(setting?.value);
+    return Number.isInteger(minutes) && minutes > 0 ? minutes : fallback;
   }
 
   private async checkScheduledSteps() {
     if (!this.storageInstance) return;
 
     try {
-      const stepsToCheck = await this.storageInstance.getStepsForScheduling();
       const now = new Date();
+      const dueJobs = await this.storageInstance.getDueScheduledJobs(now);
+      if (dueJobs.length === 0) return;
+
+      const policy = await this.getCatchUpPolicy();
+      for (const job of dueJobs) {
+        const step = await this.storageInstance.getStep(job.stepId);
+        const gates = step ? await this.getPhaseGates(step) : { held: false, openedAt: null };
+        // The job stays pending until the gate holding its phase is approved
+        if (gates.held) continue;
+
+        // A trigger held back by a gate counts from when the gate opened
+        const dueAt = Math.max(new Date(job.nextFireAt).getTime(), gates.openedAt?.getTime() ?? 0);
+        const missed = now.getTime() - dueAt > MISSED_TRIGGER_GRACE_MS;
+        await this.processDueJob(job, missed ? policy : 'fire', missed, now);
+      }
+    } catch (error) {
+      console.error('Error checking scheduled steps:', error);
+    }
+  }
 
-      for (const step of stepsToCheck) {
-        if (step.scheduledTime && new Date(step.scheduledTime) <= now) {
-          await this.triggerStep(step);
+  private async processDueJob(job: ScheduledJob, action: CatchUpPolicy, missed: boolean, now: Date) {
+    if (!this.storageInstance || !this.broadcastFn) return;
+
+    const status = action === 'fire' ? 'fired' : action === 'skip' ? 'skipped' : 'awaiting_decision';
+
+    // Claiming the job is what stops a second instance acting on it too
+    const claimedJob = await this.storageInstance.claimScheduledJob(job.id, 'pending', {
+      status,
+      firedAt: action === 'fire' ? now : undefined,
+    });
+    if (!claimedJob) return;
+
+    const step = await this.storageInstance.getStep(job.stepId);
+    if (!step) return;
+
+    if (action === 'fire') {
+      await this.triggerStep(step, {
+        notes: missed
+          ? `Triggered by scheduler after missing its ${new Date(job.nextFireAt).toISOString()} trigger`
+          : undefined,
+      });
+      return;
+    }
+
+    if (action === 'skip') {
+      await this.storageInstance.addStepHistory({
+        stepId: step.id,
+        previousStatus: step.status,
+        newStatus: step.status,
+        changedBy: null,
+        notes: `Missed ${new Date(job.nextFireAt).toISOString()} trigger skipped; trigger the step manually if it is still needed`,
+      });
+    }
+
+    this.broadcastFn({
+      type: 'scheduled_trigger_missed',
+      data: { job: claimedJob, step },
+    });
+    console.log(`Missed trigger for step ${step.name} (${step.id}): ${action}`);
+  }
+
+  // Whether a Go/No-Go gate still holds back the step's phase, and when the
+  // last of its gates was approved
+  private async getPhaseGates(step: ReleaseStep): Promise<{ held: boolean; openedAt: Date | null }> {
+    if (!this.storageInstance) return { held: false, openedAt: null };
+
+    const gates = (await this.storageInstance.getReleaseGates(step.releasePlanId))
+      .filter(gate => gate.phase === step.category);
+    if (getClosedGates(step.category, gates).length > 0) return { held: true, openedAt: null };
+
+    const openedAt = gates.reduce<Date | null>((latest, gate) =>
+      gate.decidedAt && (!latest || new Date(gate.decidedAt) > latest) ? new Date(gate.decidedAt) : latest, null);
+    return { held: false, openedAt };
+  }
+
+  // Fires whatever an approved or deleted gate was holding back
+  async onGatesChanged() {
+    await this.checkScheduledSteps();
+    await this.checkDependentSteps();
+  }
+
+  private async getCatchUpPolicy(): Promise<CatchUpPolicy> {
+    const setting = await this.storageInstance?.getGlobalSetting(CATCH_UP_POLICY_SETTING);
+    return isCatchUpPolicy(setting?.value) ? setting.value : 'fire';
+  }
+
+  // Fires or skips a trigger that the "ask" catch-up policy held back.
+  // Returns undefined when someone else already resolved it.
+  async resolveMissedTrigger(jobId: string, action: 'fire' | 'skip', userId: string) {
+    if (!this.storageInstance || !this.broadcastFn) return undefined;
+
+    const resolvedJob = await this.storageInstance.claimScheduledJob(jobId, 'awaiting_decision', {
+      status: action === 'fire' ? 'fired' : 'skipped',
+      firedAt: action === 'fire' ? new Date() : undefined,
+      resolvedBy: userId,
+    });
+    if (!resolvedJob) return undefined;
+
+    const step = await this.storageInstance.getStep(resolvedJob.stepId);
+    if (step && action === 'fire') {
+      await this.triggerStep(step, { changedBy: userId, notes: 'Missed trigger fired by release manager' });
+    } else if (step) {
+      await this.storageInstance.addStepHistory({
+        stepId: step.id,
+        previousStatus: step.status,
+        newStatus: step.status,
+        changedBy: userId,
+        notes: 'Missed trigger skipped by release manager',
+      });
+    }
+
+    this.broadcastFn({ type: 'scheduled_trigger_resolved', data: resolvedJob });
+    return resolvedJob;
+  }
+
+  // Brings the persisted jobs for a plan in line with its steps. Called whenever
+  // steps, their scheduling or the plan date change.
+  async syncReleasePlanJobs(releasePlanId: string) {
+    if (!this.storageInstance) return;
+
+    try {
+      const releasePlan = await this.storageInstance.getReleasePlan(releasePlanId);
+      const steps = await this.storageInstance.getStepsByReleasePlan(releasePlanId);
+
+      for (const step of steps) {
+        // Blocked steps keep their job so it fires once they are released
+        const waiting = step.status === 'not_started' || step.status === 'blocked';
+        const fireAt = waiting ? getEffectiveTriggerTime(step, releasePlan, steps) : null;
+        const job = await this.storageInstance.getScheduledJobByStep(step.id);
+
+        if (!fireAt) {
+          if (job) await this.storageInstance.cancelScheduledJob(step.id);
+          continue;
+        }
+
+        // A moved trigger time re-arms the job, even one already skipped
+        if (!job || new Date(job.nextFireAt).getTime() !== fireAt.getTime()) {
+          await this.storageInstance.upsertScheduledJob(step.id, fireAt);
         }
       }
     } catch (error) {
-      console.error('Error checking scheduled steps:', error);
+      console.error(`Error syncing scheduled jobs for release plan ${releasePlanId}:`, error);
+    }
+  }
+
+  private async syncAllJobs() {
+    if (!this.storageInstance) return;
+
+    try {
+      const steps = await this.storageInstance.getStepsForScheduling();
+      const releasePlanIds = new Set(steps.map(step => step.releasePlanId));
+      for (const releasePlanId of Array.from(releasePlanIds)) {
+        await this.syncReleasePlanJobs(releasePlanId);
+      }
+    } catch (error) {
+      console.error('Error syncing scheduled jobs:', error);
     }
   }
 
@@ -51,10 +483,18 @@ class SchedulerService {
       const allSteps = await this.storageInstance.getStepsByStatus('not_started');
       
       for (const step of allSteps) {
-        if (step.schedulingType === 'after_step' && step.dependsOnStepId) {
-          const dependencyStep = await this.storageInstance.getStep(step.dependsOnStepId);
-          
-          if (dependencyStep && dependencyStep.status === 'completed') {
+        if (step.schedulingType === 'after_step') {
+          // Fire only once every predecessor has completed (or was skipped)
+          const dependencies = await this.storageInstance.getStepDependencies(step.id);
+          const predecessorIds = getPredecessorIds(step, dependencies);
+          if (predecessorIds.length === 0) continue;
+
+          const predecessors = await Promise.all(
+            predecessorIds.map(id => this.storageInstance!.getStep(id))
+          );
+          const allFinished = predecessors.every(predecessor => predecessor && isStepFinished(predecessor.status));
+
+          if (allFinished) {
             await this.triggerStep(step);
           }
         } else if (step.schedulingType === 'simultaneous' && step.simultaneousWithStepId) {
@@ -70,41 +510,41 @@ class SchedulerService {
     }
   }
 
-  private async triggerStep(step: ReleaseStep) {
+  private async triggerStep(step: ReleaseStep, options: TriggerOptions = {}) {
     if (!this.storageInstance || !this.broadcastFn) return;
 
     try {
-      // Update step status to started
-      const updatedStep = await this.storageInstance.updateStep(step.id, {
-        status: 'started',
-      });
-      
-      // Update started timestamp separately
-      await this.storageInstance.updateStep(step.id, {
-        startedAt: new Date(),
-      } as any);
+      // Steps behind an undecided or No-Go gate wait for it
+      if ((await this.getPhaseGates(step)).held) return;
+
+      // Start the step unless something else already has
+      const updatedStep = await this.storageInstance.startStepIfNotStarted(step.id);
+      if (!updatedStep) return;
 
       // Log the automated trigger
       await this.storageInstance.addStepHistory({
         stepId: step.id,
         previousStatus: 'not_started',
         newStatus: 'started',
-        changedBy: 'system',
-        notes: 'Automatically triggered by scheduler',
+        changedBy: options.changedBy ?? null,
+        notes: options.notes || 'Automatically triggered by scheduler',
       });
 
+      // The POC has to acknowledge before the backup POC takes over
+      const awaitingStep = await requestAcknowledgement(updatedStep);
+
       // Send trigger notification to POC
       if (step.primaryPocId) {
         const poc = await this.storageInstance.getUser(step.primaryPocId);
         if (poc?.email) {
-          await emailService.sendStepTriggerNotification(poc.email, updatedStep);
+          await emailService.sendStepTriggerNotification([poc.email], awaitingStep, getAcknowledgementUrl(awaitingStep));
         }
       }
 
       // Broadcast real-time update
       this.broadcastFn({
         type: 'step_triggered',
-        data: updatedStep,
+        data: awaitingStep,
       });
 
       console.log(`Step ${step.name} (${step.id}) triggered automatically`);
@@ -133,51 +573,14 @@ class SchedulerService {
     }
   }
 
-  async scheduleStep(step: ReleaseStep) {
-    if (step.schedulingType === 'fixed_time' && step.scheduledTime) {
-      const stepId = step.id;
-      const scheduledTime = new Date(step.scheduledTime);
-      
-      // Cancel existing job if any
-      if (this.cronJobs.has(stepId)) {
-        this.cronJobs.get(stepId).stop();
-        this.cronJobs.delete(stepId);
-      }
-
-      // Create cron expression for the scheduled time
-      const cronExpression = `${scheduledTime.getMinutes()} ${scheduledTime.getHours()} ${scheduledTime.getDate()} ${scheduledTime.getMonth() + 1} *`;
-      
-      const job = cron.schedule(cronExpression, async () => {
-        await this.triggerStep(step);
-        // Remove the job after execution
-        this.cronJobs.delete(stepId);
-      }, {
-        timezone: step.timezone || 'UTC',
-      });
-
-      this.cronJobs.set(stepId, job);
-      job.start();
-      
-      console.log(`Step ${step.name} scheduled for ${scheduledTime.toISOString()}`);
-    }
-  }
-
-  async unscheduleStep(stepId: string) {
-    if (this.cronJobs.has(stepId)) {
-      this.cronJobs.get(stepId).stop();
-      this.cronJobs.delete(stepId);
-      console.log(`Step ${stepId} unscheduled`);
-    }
-  }
-
   async checkReleaseCompletion(releasePlanId: string) {
     if (!this.storageInstance || !this.broadcastFn) return;
 
     try {
       const steps = await this.storageInstance.getStepsByReleasePlan(releasePlanId);
-      const allCompleted = steps.every(step => step.status === 'completed');
+      const allFinished = steps.every(step => isStepFinished(step.status));
 
-      if (allCompleted && steps.length > 0) {
+      if (allFinished && steps.length > 0) {
         // Update release plan status
         const releasePlan = await this.storageInstance.updateReleasePlan(releasePlanId, {
           status: 'completed',
@@ -210,15 +613,31 @@ class SchedulerService {
     }
   }
 
-  // Method to manually trigger step completion check
+  // Called after a step's status changes outside the scheduler
   async onStepStatusChange(stepId: string) {
     if (!this.storageInstance) return;
 
     try {
       const step = await this.storageInstance.getStep(stepId);
-      if (step && step.status === 'completed') {
-        // Check if this completion triggers any dependent steps
+      if (!step) return;
+
+      // A started step no longer needs its job, and a finished one may have
+      // just given relative steps their trigger time
+      await this.syncReleasePlanJobs(step.releasePlanId);
+
+      if (isStepHalted(step.status)) {
+        // A failed or blocked step holds up everything waiting on it
+        await this.blockDependentSteps(step);
+        await this.updateReleasePlanStatus(step.releasePlanId);
+      } else {
+        await this.releaseBlockedDependents(step);
+      }
+
+      if (isStepFinished(step.status)) {
+        // Check if this completion triggers any dependent steps, including
+        // relative steps with no offset from it
         await this.checkDependentSteps();
+        await this.checkScheduledSteps();
         
         // Check if the entire release is complete
         await this.checkReleaseCompletion(step.releasePlanId);
@@ -227,6 +646,84 @@ class SchedulerService {
       console.error('Error handling step status change:', error);
     }
   }
+
+  private async getDependentSteps(step: ReleaseStep): Promise<ReleaseStep[]> {
+    if (!this.storageInstance) return [];
+
+    const steps = await this.storageInstance.getStepsByReleasePlan(step.releasePlanId);
+    const dependencies = await this.storageInstance.getStepDependenciesByReleasePlan(step.releasePlanId);
+    return steps.filter(candidate =>
+      (candidate.schedulingType === 'after_step' && getPredecessorIds(candidate, dependencies).includes(step.id)) ||
+      (candidate.schedulingType === 'simultaneous' && candidate.simultaneousWithStepId === step.id) ||
+      (candidate.schedulingType === 'relative' && candidate.relativeToStepId === step.id)
+    );
+  }
+
+  private async blockDependentSteps(haltedStep: ReleaseStep) {
+    if (!this.storageInstance || !this.broadcastFn) return;
+
+    const dependents = await this.getDependentSteps(haltedStep);
+    for (const dependent of dependents) {
+      if (dependent.status !== 'not_started') continue;
+
+      const blockedStep = await this.storageInstance.blockStepBehind(dependent.id, haltedStep.id);
+      if (!blockedStep) continue;
+      await this.storageInstance.addStepHistory({
+        stepId: dependent.id,
+        previousStatus: 'not_started',
+        newStatus: 'blocked',
+        changedBy: null,
+        notes: `Blocked because "${haltedStep.name}" is ${haltedStep.status}`,
+      });
+      this.broadcastFn({ type: 'step_updated', data: blockedStep });
+
+      // Blocking cascades so the whole downstream chain is visibly held
+      await this.blockDependentSteps(blockedStep);
+    }
+  }
+
+  private async releaseBlockedDependents(step: ReleaseStep) {
+    if (!this.storageInstance || !this.broadcastFn) return;
+
+    const dependents = await this.getDependentSteps(step);
+    const dependencies = await this.storageInstance.getStepDependenciesByReleasePlan(step.releasePlanId);
+
+    for (const dependent of dependents) {
+      // Steps blocked by hand wait for a release manager to unblock them
+      if (dependent.status !== 'blocked' || !dependent.blockedByStepId) continue;
+
+      // Stay blocked while any other predecessor is still halted
+      const otherPredecessorIds = getPredecessorIds(dependent, dependencies).filter(id => id !== step.id);
+      const otherPredecessors = await Promise.all(otherPredecessorIds.map(id => this.storageInstance!.getStep(id)));
+      if (otherPredecessors.some(predecessor => predecessor && isStepHalted(predecessor.status))) continue;
+
+      const releasedStep = await this.storageInstance.releaseCascadeBlockedStep(dependent.id);
+      if (!releasedStep) continue;
+      await this.storageInstance.addStepHistory({
+        stepId: dependent.id,
+        previousStatus: 'blocked',
+        newStatus: 'not_started',
+        changedBy: null,
+        notes: `Unblocked because "${step.name}" is ${step.status}`,
+      });
+      this.broadcastFn({ type: 'step_updated', data: releasedStep });
+
+      await this.releaseBlockedDependents(releasedStep);
+    }
+
+    await this.updateReleasePlanStatus(step.releasePlanId);
+  }
+
+  private async updateReleasePlanStatus(releasePlanId: string) {
+    if (!this.storageInstance || !this.broadcastFn) return;
+
+    const steps = await this.storageInstance.getStepsByReleasePlan(releasePlanId);
+    if (steps.length === 0) return;
+
+    const status = deriveReleasePlanStatus(steps.map(step => step.status));
+    const releasePlan = await this.storageInstance.updateReleasePlan(releasePlanId, { status });
+    this.broadcastFn({ type: 'release_plan_updated', data: releasePlan });
+  }
 }
 
 export const schedulerService = new SchedulerService();
@@ -0,0 +1,80 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { storage } from './storage';
+import type { ReleaseStep } from '@shared/schema';
+import {
+  ACKNOWLEDGEMENT_WINDOW_SETTING,
+  DEFAULT_ACKNOWLEDGEMENT_WINDOW_MINUTES,
+  isAwaitingAcknowledgement,
+} from '@shared/stepSla';
+
+// Acknowledgement links are signed rather than stored. Each one names a single
+// acknowledgement request, so it stops working once the step is acknowledged,
+// handed to the backup POC or triggered again.
+export interface AcknowledgementToken {
+  stepId: string;
+  userId: string;
+  dueAt: number;
+}
+
+function sign(payload: string): string {
+  const secret = process.env.SESSION_SECRET || 'your-secret-key-change-in-production';
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+// Where links in notifications point; the scheduler has no request to take it from
+export function getAppUrl(): string {
+  return (process.env.APP_URL || `http://localhost:${process.env.PORT || 5000}`).replace(/\/+$/, '');
+}
+
+export async function getAcknowledgementWindowMinutes(): Promise<number> {
+  const setting = await storage.getGlobalSetting(ACKNOWLEDGEMENT_WINDOW_SETTING);
+  const minutes = Number(setting?.value);
+  return Number.isInteger(minutes) && minutes > 0 ? minutes : DEFAULT_ACKNOWLEDGEMENT_WINDOW_MINUTES;
+}
+
+// Steps without a POC have nobody to wait for
+export async function requestAcknowledgement(step: ReleaseStep): Promise<ReleaseStep> {
+  if (!step.primaryPocId) return step;
+
+  const minutes = await getAcknowledgementWindowMinutes();
+  const requested = await storage.requestStepAcknowledgement(step.id, new Date(Date.now() + minutes * 60 * 1000));
+  return requested ?? step;
+}
+
+export function getAcknowledgementUrl(step: ReleaseStep): string {
+  if (!step.primaryPocId || !step.acknowledgementDueAt) return '';
+
+  const token: AcknowledgementToken = {
+    stepId: step.id,
+    userId: step.primaryPocId,
+    dueAt: new Date(step.acknowledgementDueAt).getTime(),
+  };
+  const payload = Buffer.from(JSON.stringify(token)).toString('base64url');
+  return `${getAppUrl()}/acknowledge?token=${payload}.${sign(payload)}`;
+}
+
+export function verifyAcknowledgementToken(value: string): AcknowledgementToken | null {
+  const [payload, signature] = value.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const token = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof token?.stepId !== 'string' || typeof token.userId !== 'string' || typeof token.dueAt !== 'number') {
+      return null;
+    }
+    return token;
+  } catch {
+    return null;
+  }
+}
+
+// Whether a verified token is for the acknowledgement the step is waiting on now
+export function isCurrentAcknowledgementRequest(token: AcknowledgementToken, step: ReleaseStep): boolean {
+  return isAwaitingAcknowledgement(step)
+    && step.primaryPocId === token.userId
+    && new Date(step.acknowledgementDueAt!).getTime() === token.dueAt;
+}
@@ -0,0 +1,54 @@
+import type { ReleaseStep, StepDependency } from '@shared/schema';
+import { getPredecessorIds } from '@shared/stepDependencies';
+
+interface ProposedEdges {
+  stepId: string;
+  dependsOnStepIds: string[];
+  simultaneousWithStepId?: string | null;
+  relativeToStepId?: string | null;
+}
+
+// Returns the step IDs forming a cycle (first ID repeated at the end) if the
+// proposed edges would deadlock the plan, or null when the graph stays acyclic.
+// "After", "simultaneous with" and "relative to completion" links are all
+// waits, so all of them count as edges.
+export function findDependencyCycle(
+  steps: ReleaseStep[],
+  dependencies: StepDependency[],
+  proposed: ProposedEdges,
+): string[] | null {
+  const edges = new Map<string, string[]>();
+
+  for (const step of steps) {
+    if (step.id === proposed.stepId) continue;
+    const targets = getPredecessorIds(step, dependencies);
+    if (step.simultaneousWithStepId) targets.push(step.simultaneousWithStepId);
+    if (step.relativeToStepId) targets.push(step.relativeToStepId);
+    edges.set(step.id, targets);
+  }
+
+  const proposedTargets = [...proposed.dependsOnStepIds];
+  if (proposed.simultaneousWithStepId) proposedTargets.push(proposed.simultaneousWithStepId);
+  if (proposed.relativeToStepId) proposedTargets.push(proposed.relativeToStepId);
+  edges.set(proposed.stepId, proposedTargets);
+
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    const cycleStart = path.indexOf(id);
+    if (cycleStart !== -1) return [...path.slice(cycleStart), id];
+    if (visited.has(id)) return null;
+
+    visited.add(id);
+    path.push(id);
+    for (const next of edges.get(id) || []) {
+      const cycle = visit(next);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    return null;
+  };
+
+  return visit(proposed.stepId);
+}
@@ -2,27 +2,139 @@ import {
   users,
   releasePlans,
   releaseSteps,
+  stepDependencies,
   stepHistory,
   globalSettings,
   shareableLinks,
+  apiTokens,
+  releasePlanTemplates,
+  releasePlanTemplateSteps,
+  scheduledJobs,
+  broadcastEvents,
+  auditLogs,
+  teams,
+  teamMembers,
+  notificationPreferences,
+  notificationDigestItems,
+  notificationOutbox,
+  notificationTemplates,
+  webhookSubscriptions,
+  webhookDeliveries,
+  stepChecklistItems,
+  comments,
+  commentRevisions,
+  releaseGates,
+  releaseGateApprovers,
+  releaseGateVotes,
   type User,
   type UpsertUser,
   type ReleasePlan,
   type InsertReleasePlan,
   type ReleaseStep,
   type InsertReleaseStep,
+  type StepDependency,
   type StepHistory,
   type InsertStepHistory,
   type GlobalSetting,
   type InsertGlobalSetting,
   type ShareableLink,
   type InsertShareableLink,
+  type ApiToken,
+  type InsertApiToken,
+  type ApiTokenWithUser,
+  type ReleasePlanTemplate,
+  type InsertReleasePlanTemplate,
+  type ReleasePlanTemplateStep,
+  type InsertReleasePlanTemplateStep,
+  type ScheduledJob,
+  type BroadcastEvent,
+  type AuditLog,
+  type InsertAuditLog,
+  type AuditLogWithActor,
+  type Team,
+  type InsertTeam,
+  type TeamWithMembers,
+  type NotificationPreference,
+  type InsertNotificationPreference,
+  type NotificationDigestItem,
+  type InsertNotificationDigestItem,
+  type NotificationOutboxEntry,
+  type InsertNotificationOutboxEntry,
+  type NotificationTemplate,
+  type InsertNotificationTemplate,
+  type WebhookSubscription,
+  type InsertWebhookSubscription,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  type ReleaseGate,
+  type InsertReleaseGate,
+  type ReleaseGateVote,
+  type InsertReleaseGateVote,
+  type ReleaseGateWithVotes,
+  type StepChecklistItem,
+  type InsertStepChecklistItem,
+  type ChecklistItemBlueprint,
+  type Comment,
+  type InsertComment,
+  type CommentRevision,
+  type CommentWithAuthor,
 } from "@shared/schema";
+import type * as schema from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, asc, and, or, inArray } from "drizzle-orm";
+import { eq, desc, asc, and, or, inArray, notInArray, isNull, isNotNull, gt, lt, lte, gte, ilike, type ExtractTablesWithRelations, type SQL } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import type { NodePgQueryResultHKT } from "drizzle-orm/node-postgres";
 import { randomUUID } from "crypto";
 
+export interface UserFilters {
+  // Matched against email, first and last name
+  search?: string;
+  role?: string;
+  status: "active" | "inactive" | "all";
+  isServiceAccount?: boolean;
+}
+
+// Leaving userId out lists every user's tokens
+export interface ApiTokenFilters {
+  userId?: string;
+  serviceAccountsOnly?: boolean;
+}
+
+// stepId null means the plan's own thread; leaving it out includes every step's too
+export interface CommentFilters {
+  releasePlanId: string;
+  stepId?: string | null;
+}
+
+export interface AuditLogFilters {
+  entityType?: string;
+  entityId?: string;
+  releasePlanId?: string;
+  actorId?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+export interface NotificationOutboxFilters {
+  status?: string;
+  event?: string;
+  limit: number;
+  offset: number;
+}
+
+export type StepEscalation = Pick<ReleaseStep, "escalationLevel" | "overdueSince" | "lastEscalatedAt">;
+
+export type StepHandover = Partial<Pick<ReleaseStep, "primaryPocId" | "backupPocId" | "acknowledgementDueAt" | "failedOverAt">>;
+
+// The connection pool, or one transaction on it
+type Database = PgDatabase<NodePgQueryResultHKT, typeof schema, ExtractTablesWithRelations<typeof schema>>;
+
 export interface IStorage {
+  transaction<T>(fn: (storage: IStorage) => Promise<T>): Promise<T>;
+
   // User operations
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
@@ -30,6 +142,9 @@ export interface IStorage {
   upsertUser(user: UpsertUser): Promise<User>;
   getUsersByIds(ids: string[]): Promise<User[]>;
   getUsersByRole(role: string): Promise<User[]>;
+  getUsers(filters: UserFilters): Promise<User[]>;
+  updateUser(id: string, updates: Partial<Omit<User, "id" | "createdAt">>): Promise<User>;
+  getUsersByEmails(emails: string[]): Promise<User[]>;
 
   // Release Plan operations
   getReleasePlans(): Promise<ReleasePlan[]>;
@@ -40,7 +155,7 @@ export interface IStorage {
   getActiveReleasePlan(): Promise<ReleasePlan | undefined>;
 
   // Release Step operations
-  getStepsByReleasePlan(releasePlanId: string): Promise<ReleaseStep[]>;
+  getStepsByReleasePlan(releasePlanId: string, filters?: { teamId?: string }): Promise<ReleaseStep[]>;
   getStep(id: string): Promise<ReleaseStep | undefined>;
   createStep(step: InsertReleaseStep): Promise<ReleaseStep>;
   updateStep(id: string, step: Partial<InsertReleaseStep>): Promise<ReleaseStep>;
@@ -48,11 +163,43 @@ export interface IStorage {
   getStepsByStatus(status: string): Promise<ReleaseStep[]>;
   getStepsByCategory(category: string): Promise<ReleaseStep[]>;
   getStepsForScheduling(): Promise<ReleaseStep[]>;
+  startStepIfNotStarted(id: string): Promise<ReleaseStep | undefined>;
+  getStepsForSlaCheck(): Promise<ReleaseStep[]>;
+  updateStepEscalation(id: string, fromLevel: number, escalation: StepEscalation): Promise<ReleaseStep | undefined>;
+  requestStepAcknowledgement(id: string, dueAt: Date): Promise<ReleaseStep | undefined>;
+  acknowledgeStep(id: string, userId: string): Promise<ReleaseStep | undefined>;
+  getStepsAwaitingFailover(now: Date): Promise<ReleaseStep[]>;
+  handOverUnacknowledgedStep(id: string, fromPocId: string, handover: StepHandover): Promise<ReleaseStep | undefined>;
+  blockStepBehind(id: string, haltedStepId: string): Promise<ReleaseStep | undefined>;
+  releaseCascadeBlockedStep(id: string): Promise<ReleaseStep | undefined>;
+
+  // Step Dependency operations
+  getStepDependencies(stepId: string): Promise<StepDependency[]>;
+  getStepDependenciesByReleasePlan(releasePlanId: string): Promise<StepDependency[]>;
+  setStepDependencies(stepId: string, dependsOnStepIds: string[]): Promise<StepDependency[]>;
 
   // Step History operations
   getStepHistory(stepId: string): Promise<StepHistory[]>;
   addStepHistory(history: InsertStepHistory): Promise<StepHistory>;
 
+  // Step Checklist operations
+  getChecklistItems(stepId: string): Promise<StepChecklistItem[]>;
+  getChecklistItemsByReleasePlan(releasePlanId: string): Promise<StepChecklistItem[]>;
+  getChecklistItem(id: string): Promise<StepChecklistItem | undefined>;
+  createChecklistItems(stepId: string, items: ChecklistItemBlueprint[]): Promise<StepChecklistItem[]>;
+  updateChecklistItem(id: string, item: Partial<Pick<InsertStepChecklistItem, "label" | "isRequired">>): Promise<StepChecklistItem>;
+  setChecklistItemCompleted(id: string, completedBy: string | null): Promise<StepChecklistItem>;
+  deleteChecklistItem(id: string): Promise<void>;
+  reorderChecklistItems(stepId: string, itemIds: string[]): Promise<StepChecklistItem[]>;
+
+  // Comment operations
+  getComments(filters: CommentFilters): Promise<CommentWithAuthor[]>;
+  getComment(id: string): Promise<Comment | undefined>;
+  createComment(comment: InsertComment): Promise<Comment>;
+  updateCommentBody(id: string, body: string, mentionedUserIds: string[], changedBy: string): Promise<Comment>;
+  deleteComment(id: string, deletedBy: string): Promise<Comment>;
+  getCommentRevisions(commentId: string): Promise<CommentRevision[]>;
+
   // Global Settings operations
   getGlobalSettings(): Promise<GlobalSetting[]>;
   getGlobalSetting(key: string): Promise<GlobalSetting | undefined>;
@@ -65,27 +212,141 @@ export interface IStorage {
   createShareableLink(link: InsertShareableLink): Promise<ShareableLink>;
   updateShareableLink(id: string, link: Partial<InsertShareableLink>): Promise<ShareableLink>;
   deleteShareableLink(id: string): Promise<void>;
+
+  // API Token operations
+  getApiTokens(filters: ApiTokenFilters): Promise<ApiTokenWithUser[]>;
+  getApiToken(id: string): Promise<ApiToken | undefined>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  revokeApiToken(id: string, revokedBy: string): Promise<ApiToken>;
+  touchApiToken(id: string): Promise<void>;
+
+  // Release Plan Template operations
+  getReleasePlanTemplates(): Promise<ReleasePlanTemplate[]>;
+  getReleasePlanTemplate(id: string): Promise<ReleasePlanTemplate | undefined>;
+  getReleasePlanTemplateSteps(templateId: string): Promise<ReleasePlanTemplateStep[]>;
+  createReleasePlanTemplate(
+    template: InsertReleasePlanTemplate,
+    steps: Omit<InsertReleasePlanTemplateStep, "templateId">[],
+  ): Promise<ReleasePlanTemplate>;
+  deleteReleasePlanTemplate(id: string): Promise<void>;
+
+  // Scheduled Job operations
+  getScheduledJob(id: string): Promise<ScheduledJob | undefined>;
+  getScheduledJobByStep(stepId: string): Promise<ScheduledJob | undefined>;
+  getScheduledJobsByStatus(status: string): Promise<ScheduledJob[]>;
+  getDueScheduledJobs(now: Date): Promise<ScheduledJob[]>;
+  upsertScheduledJob(stepId: string, nextFireAt: Date): Promise<ScheduledJob>;
+  claimScheduledJob(
+    id: string,
+    fromStatus: string,
+    update: { status: string; firedAt?: Date; resolvedBy?: string | null },
+  ): Promise<ScheduledJob | undefined>;
+  cancelScheduledJob(stepId: string): Promise<void>;
+
+  // Broadcast Event operations
+  appendBroadcastEvent(type: string, data: unknown): Promise<BroadcastEvent>;
+  getLatestBroadcastSeq(): Promise<number>;
+  getOldestBroadcastSeq(): Promise<number | null>;
+  getBroadcastEventsAfter(seq: number, limit: number): Promise<BroadcastEvent[]>;
+  pruneBroadcastEvents(keepAfterSeq: number): Promise<void>;
+
+  // Team operations
+  getTeams(): Promise<TeamWithMembers[]>;
+  getTeam(id: string): Promise<TeamWithMembers | undefined>;
+  createTeam(team: InsertTeam, memberIds: string[]): Promise<TeamWithMembers>;
+  updateTeam(id: string, team: Partial<InsertTeam>, memberIds?: string[]): Promise<TeamWithMembers>;
+  deleteTeam(id: string): Promise<void>;
+
+  // Release Gate operations
+  getReleaseGates(releasePlanId: string): Promise<ReleaseGateWithVotes[]>;
+  getReleaseGate(id: string): Promise<ReleaseGateWithVotes | undefined>;
+  createReleaseGate(gate: InsertReleaseGate, approverIds: string[]): Promise<ReleaseGateWithVotes>;
+  updateReleaseGate(id: string, gate: Partial<InsertReleaseGate>, approverIds?: string[]): Promise<ReleaseGateWithVotes>;
+  deleteReleaseGate(id: string): Promise<void>;
+  castReleaseGateVote(vote: InsertReleaseGateVote): Promise<ReleaseGateVote>;
+  clearReleaseGateVotes(gateId: string): Promise<void>;
+  setReleaseGateStatus(id: string, status: string, decidedAt: Date | null): Promise<ReleaseGateWithVotes>;
+
+  // Notification Preference operations
+  getNotificationPreferences(userIds: string[]): Promise<NotificationPreference[]>;
+  getNotificationPreference(userId: string): Promise<NotificationPreference | undefined>;
+  upsertNotificationPreference(preference: InsertNotificationPreference): Promise<NotificationPreference>;
+
+  // Notification Digest operations
+  addNotificationDigestItems(items: InsertNotificationDigestItem[]): Promise<void>;
+  getDueNotificationDigestItems(frequency: string, before: Date): Promise<NotificationDigestItem[]>;
+  deleteNotificationDigestItems(ids: string[]): Promise<void>;
+
+  // Notification Outbox operations
+  enqueueNotifications(entries: InsertNotificationOutboxEntry[]): Promise<NotificationOutboxEntry[]>;
+  getNotificationOutboxEntry(id: string): Promise<NotificationOutboxEntry | undefined>;
+  getNotificationOutboxEntries(filters: NotificationOutboxFilters): Promise<NotificationOutboxEntry[]>;
+  getDueNotificationOutboxEntries(now: Date, limit: number): Promise<NotificationOutboxEntry[]>;
+  claimNotificationOutboxEntry(id: string, fromStatus: string): Promise<NotificationOutboxEntry | undefined>;
+  updateNotificationOutboxEntry(id: string, updates: Partial<Omit<NotificationOutboxEntry, "id" | "createdAt">>): Promise<NotificationOutboxEntry>;
+  releaseStaleNotificationOutboxEntries(before: Date): Promise<void>;
+
+  // Notification Template operations
+  getActiveNotificationTemplates(): Promise<NotificationTemplate[]>;
+  getActiveNotificationTemplate(event: string): Promise<NotificationTemplate | undefined>;
+  getNotificationTemplateVersions(event: string): Promise<NotificationTemplate[]>;
+  createNotificationTemplateVersion(template: InsertNotificationTemplate): Promise<NotificationTemplate>;
+
+  // Webhook operations
+  getWebhookSubscriptions(): Promise<WebhookSubscription[]>;
+  getActiveWebhookSubscriptions(): Promise<WebhookSubscription[]>;
+  getWebhookSubscription(id: string): Promise<WebhookSubscription | undefined>;
+  createWebhookSubscription(subscription: InsertWebhookSubscription): Promise<WebhookSubscription>;
+  updateWebhookSubscription(
+    id: string,
+    updates: Partial<Omit<WebhookSubscription, "id" | "createdAt">>,
+  ): Promise<WebhookSubscription>;
+  deleteWebhookSubscription(id: string): Promise<void>;
+  enqueueWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]>;
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveries(subscriptionId: string, limit: number): Promise<WebhookDelivery[]>;
+  getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]>;
+  claimWebhookDelivery(id: string, fromStatus: string): Promise<WebhookDelivery | undefined>;
+  updateWebhookDelivery(id: string, updates: Partial<Omit<WebhookDelivery, "id" | "createdAt">>): Promise<WebhookDelivery>;
+  releaseStaleWebhookDeliveries(before: Date): Promise<void>;
+
+  // Audit Log operations
+  addAuditLog(entry: InsertAuditLog): Promise<AuditLog>;
+  getAuditLogs(filters: AuditLogFilters): Promise<AuditLogWithActor[]>;
 }
 
 export class DatabaseStorage implements IStorage {
+  private readonly db: Database;
+
+  constructor(database: Database = db) {
+    this.db = database;
+  }
+
+  // Every query made through the storage passed to fn runs in one
+  // transaction, which is rolled back if fn throws
+  async transaction<T>(fn: (storage: IStorage) => Promise<T>): Promise<T> {
+    return await this.db.transaction(async (tx) => await fn(new DatabaseStorage(tx)));
+  }
+
   // User operations
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user;
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.email, email));
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
     return user;
   }
 
   async createUser(userData: any): Promise<User> {
-    const [user] = await db.insert(users).values(userData).returning();
+    const [user] = await this.db.insert(users).values(userData).returning();
     return user;
   }
 
   async upsertUser(userData: UpsertUser): Promise<User> {
-    const [user] = await db
+    const [user] = await this.db
       .insert(users)
       .values(userData)
       .onConflictDoUpdate({
@@ -100,30 +361,65 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getUsersByIds(ids: string[]): Promise<User[]> {
-    return await db.select().from(users).where(inArray(users.id, ids));
+    return await this.db.select().from(users).where(inArray(users.id, ids));
   }
 
   async getUsersByRole(role: string): Promise<User[]> {
-    return await db.select().from(users).where(eq(users.role, role));
+    return await this.db.select().from(users).where(eq(users.role, role));
+  }
+
+  async getUsers(filters: UserFilters): Promise<User[]> {
+    const conditions: SQL[] = [];
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(or(
+        ilike(users.email, pattern),
+        ilike(users.firstName, pattern),
+        ilike(users.lastName, pattern),
+      )!);
+    }
+    if (filters.role) conditions.push(eq(users.role, filters.role));
+    if (filters.status !== "all") conditions.push(eq(users.isActive, filters.status === "active"));
+    if (filters.isServiceAccount !== undefined) conditions.push(eq(users.isServiceAccount, filters.isServiceAccount));
+
+    return await this.db
+      .select()
+      .from(users)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(users.firstName), asc(users.lastName), asc(users.email));
+  }
+
+  async updateUser(id: string, updates: Partial<Omit<User, "id" | "createdAt">>): Promise<User> {
+    const [user] = await this.db
+      .update(users)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async getUsersByEmails(emails: string[]): Promise<User[]> {
+    if (emails.length === 0) return [];
+    return await this.db.select().from(users).where(inArray(users.email, emails));
   }
 
   // Release Plan operations
   async getReleasePlans(): Promise<ReleasePlan[]> {
-    return await db.select().from(releasePlans).orderBy(desc(releasePlans.createdAt));
+    return await this.db.select().from(releasePlans).orderBy(desc(releasePlans.createdAt));
   }
 
   async getReleasePlan(id: string): Promise<ReleasePlan | undefined> {
-    const [plan] = await db.select().from(releasePlans).where(eq(releasePlans.id, id));
+    const [plan] = await this.db.select().from(releasePlans).where(eq(releasePlans.id, id));
     return plan;
   }
 
   async createReleasePlan(plan: InsertReleasePlan): Promise<ReleasePlan> {
-    const [newPlan] = await db.insert(releasePlans).values(plan).returning();
+    const [newPlan] = await this.db.insert(releasePlans).values(plan).returning();
     return newPlan;
   }
 
   async updateReleasePlan(id: string, plan: Partial<InsertReleasePlan>): Promise<ReleasePlan> {
-    const [updatedPlan] = await db
+    const [updatedPlan] = await this.db
       .update(releasePlans)
       .set({ ...plan, updatedAt: new Date() })
       .where(eq(releasePlans.id, id))
@@ -132,12 +428,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteReleasePlan(id: string): Promise<void> {
-    await db.delete(releasePlans).where(eq(releasePlans.id, id));
+    await this.db.delete(releasePlans).where(eq(releasePlans.id, id));
   }
 
   async getActiveReleasePlan(): Promise<ReleasePlan | undefined> {
     // First try to get an active release plan
-    const [activePlan] = await db
+    const [activePlan] = await this.db
       .select()
       .from(releasePlans)
       .where(eq(releasePlans.status, "active"))
@@ -149,7 +445,7 @@ export class DatabaseStorage implements IStorage {
     }
     
     // If no active plan, get the most recent planning release plan
-    const [planningPlan] = await db
+    const [planningPlan] = await this.db
       .select()
       .from(releasePlans)
       .where(eq(releasePlans.status, "planning"))
@@ -160,22 +456,25 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Release Step operations
-  async getStepsByReleasePlan(releasePlanId: string): Promise<ReleaseStep[]> {
-    const result = await db
+  async getStepsByReleasePlan(releasePlanId: string, filters: { teamId?: string } = {}): Promise<ReleaseStep[]> {
+    const conditions: SQL[] = [eq(releaseSteps.releasePlanId, releasePlanId)];
+    if (filters.teamId) conditions.push(eq(releaseSteps.teamId, filters.teamId));
+
+    const result = await this.db
       .select()
       .from(releaseSteps)
-      .where(eq(releaseSteps.releasePlanId, releasePlanId))
+      .where(and(...conditions))
       .orderBy(asc(releaseSteps.order));
     return result as ReleaseStep[];
   }
 
   async getStep(id: string): Promise<ReleaseStep | undefined> {
-    const [step] = await db.select().from(releaseSteps).where(eq(releaseSteps.id, id));
+    const [step] = await this.db.select().from(releaseSteps).where(eq(releaseSteps.id, id));
     return step as ReleaseStep | undefined;
   }
 
   async createStep(step: InsertReleaseStep): Promise<ReleaseStep> {
-    const [newStep] = await db.insert(releaseSteps).values(step).returning();
+    const [newStep] = await this.db.insert(releaseSteps).values(step).returning();
     return newStep as ReleaseStep;
   }
 
@@ -190,7 +489,7 @@ export class DatabaseStorage implements IStorage {
     
     console.log("Storage updateStep - cleaned data:", cleanStep);
     
-    const [updatedStep] = await db
+    const [updatedStep] = await this.db
       .update(releaseSteps)
       .set({ ...cleanStep, updatedAt: new Date() })
       .where(eq(releaseSteps.id, id))
@@ -199,35 +498,202 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteStep(id: string): Promise<void> {
-    await db.delete(releaseSteps).where(eq(releaseSteps.id, id));
+    await this.db.delete(releaseSteps).where(eq(releaseSteps.id, id));
   }
 
   async getStepsByStatus(status: string): Promise<ReleaseStep[]> {
-    const result = await db.select().from(releaseSteps).where(eq(releaseSteps.status, status));
+    const result = await this.db.select().from(releaseSteps).where(eq(releaseSteps.status, status));
     return result as ReleaseStep[];
   }
 
   async getStepsByCategory(category: string): Promise<ReleaseStep[]> {
-    const result = await db.select().from(releaseSteps).where(eq(releaseSteps.category, category));
+    const result = await this.db.select().from(releaseSteps).where(eq(releaseSteps.category, category));
     return result as ReleaseStep[];
   }
 
   async getStepsForScheduling(): Promise<ReleaseStep[]> {
-    const result = await db
+    const result = await this.db
       .select()
       .from(releaseSteps)
       .where(
         and(
-          eq(releaseSteps.schedulingType, "fixed_time"),
+          inArray(releaseSteps.schedulingType, ["fixed_time", "relative"]),
           eq(releaseSteps.status, "not_started")
         )
       );
     return result as ReleaseStep[];
   }
 
+  // Only one caller can move a step out of not_started, so a trigger raced by
+  // another instance (or a manual trigger) comes back undefined
+  async startStepIfNotStarted(id: string): Promise<ReleaseStep | undefined> {
+    const now = new Date();
+    const [startedStep] = await this.db
+      .update(releaseSteps)
+      .set({ status: "started", startedAt: now, updatedAt: now })
+      .where(and(eq(releaseSteps.id, id), eq(releaseSteps.status, "not_started")))
+      .returning();
+    return startedStep as ReleaseStep | undefined;
+  }
+
+  // Live steps that can run late, plus any still flagged from an earlier check.
+  // Steps of completed or cancelled plans are left alone.
+  async getStepsForSlaCheck(): Promise<ReleaseStep[]> {
+    const result = await this.db
+      .select({ step: releaseSteps })
+      .from(releaseSteps)
+      .innerJoin(releasePlans, eq(releaseSteps.releasePlanId, releasePlans.id))
+      .where(
+        and(
+          notInArray(releasePlans.status, ["completed", "cancelled"]),
+          inArray(releaseSteps.status, ["not_started", "started", "in_progress"]),
+          or(
+            isNotNull(releaseSteps.expectedDurationMinutes),
+            eq(releaseSteps.schedulingType, "fixed_time"),
+            gt(releaseSteps.escalationLevel, 0)
+          )
+        )
+      );
+    return result.map(row => row.step);
+  }
+
+  // Conditional on the current level so an escalation stage is only ever notified once
+  async updateStepEscalation(id: string, fromLevel: number, escalation: StepEscalation): Promise<ReleaseStep | undefined> {
+    const [step] = await this.db
+      .update(releaseSteps)
+      .set({ ...escalation, updatedAt: new Date() })
+      .where(and(eq(releaseSteps.id, id), eq(releaseSteps.escalationLevel, fromLevel)))
+      .returning();
+    return step;
+  }
+
+  // Starts a fresh acknowledgement window, also when a retried step triggers
+  // again, and with it a fresh run of escalations
+  async requestStepAcknowledgement(id: string, dueAt: Date): Promise<ReleaseStep | undefined> {
+    const [step] = await this.db
+      .update(releaseSteps)
+      .set({
+        acknowledgementDueAt: dueAt,
+        acknowledgedAt: null,
+        acknowledgedBy: null,
+        failedOverAt: null,
+        escalationLevel: 0,
+        overdueSince: null,
+        lastEscalatedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(releaseSteps.id, id), eq(releaseSteps.status, "started")))
+      .returning();
+    return step;
+  }
+
+  // Conditional so only the first of two concurrent acknowledgements is recorded
+  async acknowledgeStep(id: string, userId: string): Promise<ReleaseStep | undefined> {
+    const now = new Date();
+    const [step] = await this.db
+      .update(releaseSteps)
+      .set({ acknowledgedAt: now, acknowledgedBy: userId, updatedAt: now })
+      .where(
+        and(
+          eq(releaseSteps.id, id),
+          isNotNull(releaseSteps.acknowledgementDueAt),
+          isNull(releaseSteps.acknowledgedAt)
+        )
+      )
+      .returning();
+    return step;
+  }
+
+  async getStepsAwaitingFailover(now: Date): Promise<ReleaseStep[]> {
+    return await this.db
+      .select()
+      .from(releaseSteps)
+      .where(
+        and(
+          eq(releaseSteps.status, "started"),
+          lte(releaseSteps.acknowledgementDueAt, now),
+          isNull(releaseSteps.acknowledgedAt),
+          isNull(releaseSteps.failedOverAt)
+        )
+      );
+  }
+
+  // Conditional on the POC still being assigned and silent, so an acknowledgement
+  // or reassignment that lands first wins
+  async handOverUnacknowledgedStep(id: string, fromPocId: string, handover: StepHandover): Promise<ReleaseStep | undefined> {
+    const [step] = await this.db
+      .update(releaseSteps)
+      .set({ ...handover, updatedAt: new Date() })
+      .where(
+        and(
+          eq(releaseSteps.id, id),
+          eq(releaseSteps.primaryPocId, fromPocId),
+          isNull(releaseSteps.acknowledgedAt),
+          isNull(releaseSteps.failedOverAt)
+        )
+      )
+      .returning();
+    return step;
+  }
+
+  // Conditional so a step someone has already picked up is left alone
+  async blockStepBehind(id: string, haltedStepId: string): Promise<ReleaseStep | undefined> {
+    const [step] = await this.db
+      .update(releaseSteps)
+      .set({ status: "blocked", blockedByStepId: haltedStepId, updatedAt: new Date() })
+      .where(and(eq(releaseSteps.id, id), eq(releaseSteps.status, "not_started")))
+      .returning();
+    return step;
+  }
+
+  // Only undoes blockStepBehind: a step blocked by hand needs a release manager
+  async releaseCascadeBlockedStep(id: string): Promise<ReleaseStep | undefined> {
+    const [step] = await this.db
+      .update(releaseSteps)
+      .set({ status: "not_started", blockedByStepId: null, updatedAt: new Date() })
+      .where(
+        and(
+          eq(releaseSteps.id, id),
+          eq(releaseSteps.status, "blocked"),
+          isNotNull(releaseSteps.blockedByStepId)
+        )
+      )
+      .returning();
+    return step;
+  }
+
+  // Step Dependency operations
+  async getStepDependencies(stepId: string): Promise<StepDependency[]> {
+    return await this.db
+      .select()
+      .from(stepDependencies)
+      .where(eq(stepDependencies.stepId, stepId));
+  }
+
+  async getStepDependenciesByReleasePlan(releasePlanId: string): Promise<StepDependency[]> {
+    const result = await this.db
+      .select({ dependency: stepDependencies })
+      .from(stepDependencies)
+      .innerJoin(releaseSteps, eq(stepDependencies.stepId, releaseSteps.id))
+      .where(eq(releaseSteps.releasePlanId, releasePlanId));
+    return result.map(row => row.dependency);
+  }
+
+  async setStepDependencies(stepId: string, dependsOnStepIds: string[]): Promise<StepDependency[]> {
+    const uniqueIds = Array.from(new Set(dependsOnStepIds));
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(stepDependencies).where(eq(stepDependencies.stepId, stepId));
+      if (uniqueIds.length === 0) return [];
+      return await tx
+        .insert(stepDependencies)
+        .values(uniqueIds.map(dependsOnStepId => ({ stepId, dependsOnStepId })))
+        .returning();
+    });
+  }
+
   // Step History operations
   async getStepHistory(stepId: string): Promise<StepHistory[]> {
-    return await db
+    return await this.db
       .select()
       .from(stepHistory)
       .where(eq(stepHistory.stepId, stepId))
@@ -235,22 +701,188 @@ export class DatabaseStorage implements IStorage {
   }
 
   async addStepHistory(history: InsertStepHistory): Promise<StepHistory> {
-    const [newHistory] = await db.insert(stepHistory).values(history).returning();
+    const [newHistory] = await this.db.insert(stepHistory).values(history).returning();
     return newHistory;
   }
 
+  // Step Checklist operations
+  async getChecklistItems(stepId: string): Promise<StepChecklistItem[]> {
+    return await this.db
+      .select()
+      .from(stepChecklistItems)
+      .where(eq(stepChecklistItems.stepId, stepId))
+      .orderBy(asc(stepChecklistItems.order), asc(stepChecklistItems.createdAt));
+  }
+
+  async getChecklistItemsByReleasePlan(releasePlanId: string): Promise<StepChecklistItem[]> {
+    const result = await this.db
+      .select({ item: stepChecklistItems })
+      .from(stepChecklistItems)
+      .innerJoin(releaseSteps, eq(stepChecklistItems.stepId, releaseSteps.id))
+      .where(eq(releaseSteps.releasePlanId, releasePlanId))
+      .orderBy(asc(stepChecklistItems.order), asc(stepChecklistItems.createdAt));
+    return result.map(row => row.item);
+  }
+
+  async getChecklistItem(id: string): Promise<StepChecklistItem | undefined> {
+    const [item] = await this.db.select().from(stepChecklistItems).where(eq(stepChecklistItems.id, id));
+    return item;
+  }
+
+  // New items go after the step's existing ones
+  async createChecklistItems(stepId: string, items: ChecklistItemBlueprint[]): Promise<StepChecklistItem[]> {
+    if (items.length === 0) return [];
+    const existing = await this.getChecklistItems(stepId);
+    const nextOrder = existing.length > 0 ? existing[existing.length - 1].order + 1 : 0;
+    return await this.db
+      .insert(stepChecklistItems)
+      .values(items.map((item, index) => ({
+        stepId,
+        label: item.label,
+        isRequired: item.isRequired,
+        order: nextOrder + index,
+      })))
+      .returning();
+  }
+
+  async updateChecklistItem(
+    id: string,
+    item: Partial<Pick<InsertStepChecklistItem, "label" | "isRequired">>,
+  ): Promise<StepChecklistItem> {
+    const [updatedItem] = await this.db
+      .update(stepChecklistItems)
+      .set({ ...item, updatedAt: new Date() })
+      .where(eq(stepChecklistItems.id, id))
+      .returning();
+    return updatedItem;
+  }
+
+  async setChecklistItemCompleted(id: string, completedBy: string | null): Promise<StepChecklistItem> {
+    const [updatedItem] = await this.db
+      .update(stepChecklistItems)
+      .set({
+        completedAt: completedBy ? new Date() : null,
+        completedBy,
+        updatedAt: new Date(),
+      })
+      .where(eq(stepChecklistItems.id, id))
+      .returning();
+    return updatedItem;
+  }
+
+  async deleteChecklistItem(id: string): Promise<void> {
+    await this.db.delete(stepChecklistItems).where(eq(stepChecklistItems.id, id));
+  }
+
+  // Items left out of itemIds keep their relative order after the listed ones
+  async reorderChecklistItems(stepId: string, itemIds: string[]): Promise<StepChecklistItem[]> {
+    const existing = await this.getChecklistItems(stepId);
+    const ordered = [
+      ...itemIds.filter(id => existing.some(item => item.id === id)),
+      ...existing.map(item => item.id).filter(id => !itemIds.includes(id)),
+    ];
+    await this.db.transaction(async (tx) => {
+      for (let index = 0; index < ordered.length; index++) {
+        await tx
+          .update(stepChecklistItems)
+          .set({ order: index, updatedAt: new Date() })
+          .where(and(eq(stepChecklistItems.id, ordered[index]), eq(stepChecklistItems.stepId, stepId)));
+      }
+    });
+    return await this.getChecklistItems(stepId);
+  }
+
+  // Comment operations
+  async getComments(filters: CommentFilters): Promise<CommentWithAuthor[]> {
+    const conditions: SQL[] = [eq(comments.releasePlanId, filters.releasePlanId)];
+    if (filters.stepId === null) conditions.push(isNull(comments.stepId));
+    else if (filters.stepId) conditions.push(eq(comments.stepId, filters.stepId));
+
+    const result = await this.db
+      .select({
+        comment: comments,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(comments)
+      .leftJoin(users, eq(comments.authorId, users.id))
+      .where(and(...conditions))
+      .orderBy(asc(comments.createdAt));
+    if (result.length === 0) return [];
+
+    const revisions = await this.db
+      .select({ commentId: commentRevisions.commentId })
+      .from(commentRevisions)
+      .where(inArray(commentRevisions.commentId, result.map(row => row.comment.id)));
+
+    return result.map(row => ({
+      ...row.comment,
+      authorName: row.firstName || row.lastName
+        ? `${row.firstName || ""} ${row.lastName || ""}`.trim()
+        : row.email,
+      revisionCount: revisions.filter(revision => revision.commentId === row.comment.id).length,
+    }));
+  }
+
+  async getComment(id: string): Promise<Comment | undefined> {
+    const [comment] = await this.db.select().from(comments).where(eq(comments.id, id));
+    return comment;
+  }
+
+  async createComment(commentData: InsertComment): Promise<Comment> {
+    const [comment] = await this.db.insert(comments).values(commentData).returning();
+    return comment;
+  }
+
+  // The previous body is kept as a revision
+  async updateCommentBody(id: string, body: string, mentionedUserIds: string[], changedBy: string): Promise<Comment> {
+    return await this.db.transaction(async (tx) => {
+      const [current] = await tx.select().from(comments).where(eq(comments.id, id));
+      await tx.insert(commentRevisions).values({ commentId: id, body: current.body, changedBy });
+      const [comment] = await tx
+        .update(comments)
+        .set({ body, mentionedUserIds, editedAt: new Date(), updatedAt: new Date() })
+        .where(eq(comments.id, id))
+        .returning();
+      return comment;
+    });
+  }
+
+  // Replies keep their place under a blanked placeholder; the body survives as a revision
+  async deleteComment(id: string, deletedBy: string): Promise<Comment> {
+    return await this.db.transaction(async (tx) => {
+      const [current] = await tx.select().from(comments).where(eq(comments.id, id));
+      await tx.insert(commentRevisions).values({ commentId: id, body: current.body, changedBy: deletedBy });
+      const [comment] = await tx
+        .update(comments)
+        .set({ body: "", mentionedUserIds: [], deletedAt: new Date(), deletedBy, updatedAt: new Date() })
+        .where(eq(comments.id, id))
+        .returning();
+      return comment;
+    });
+  }
+
+  async getCommentRevisions(commentId: string): Promise<CommentRevision[]> {
+    return await this.db
+      .select()
+      .from(commentRevisions)
+      .where(eq(commentRevisions.commentId, commentId))
+      .orderBy(desc(commentRevisions.createdAt));
+  }
+
   // Global Settings operations
   async getGlobalSettings(): Promise<GlobalSetting[]> {
-    return await db.select().from(globalSettings).orderBy(asc(globalSettings.key));
+    return await this.db.select().from(globalSettings).orderBy(asc(globalSettings.key));
   }
 
   async getGlobalSetting(key: string): Promise<GlobalSetting | undefined> {
-    const [setting] = await db.select().from(globalSettings).where(eq(globalSettings.key, key));
+    const [setting] = await this.db.select().from(globalSettings).where(eq(globalSettings.key, key));
     return setting;
   }
 
   async upsertGlobalSetting(setting: InsertGlobalSetting): Promise<GlobalSetting> {
-    const [upsertedSetting] = await db
+    const [upsertedSetting] = await this.db
       .insert(globalSettings)
       .values(setting)
       .onConflictDoUpdate({
@@ -267,12 +899,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteGlobalSetting(key: string): Promise<void> {
-    await db.delete(globalSettings).where(eq(globalSettings.key, key));
+    await this.db.delete(globalSettings).where(eq(globalSettings.key, key));
   }
 
   // Shareable Links operations
   async getShareableLink(token: string): Promise<ShareableLink | undefined> {
-    const [link] = await db
+    const [link] = await this.db
       .select()
       .from(shareableLinks)
       .where(and(eq(shareableLinks.token, token), eq(shareableLinks.isActive, true)));
@@ -280,7 +912,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getShareableLinksByReleasePlan(releasePlanId: string): Promise<ShareableLink[]> {
-    return await db
+    return await this.db
       .select()
       .from(shareableLinks)
       .where(eq(shareableLinks.releasePlanId, releasePlanId))
@@ -289,7 +921,7 @@ export class DatabaseStorage implements IStorage {
 
   async createShareableLink(link: InsertShareableLink): Promise<ShareableLink> {
     const token = randomUUID();
-    const [newLink] = await db
+    const [newLink] = await this.db
       .insert(shareableLinks)
       .values({ ...link, token })
       .returning();
@@ -297,7 +929,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateShareableLink(id: string, link: Partial<InsertShareableLink>): Promise<ShareableLink> {
-    const [updatedLink] = await db
+    const [updatedLink] = await this.db
       .update(shareableLinks)
       .set(link)
       .where(eq(shareableLinks.id, id))
@@ -306,7 +938,654 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteShareableLink(id: string): Promise<void> {
-    await db.delete(shareableLinks).where(eq(shareableLinks.id, id));
+    await this.db.delete(shareableLinks).where(eq(shareableLinks.id, id));
+  }
+
+  // API Token operations
+  async getApiTokens(filters: ApiTokenFilters): Promise<ApiTokenWithUser[]> {
+    const conditions: SQL[] = [];
+    if (filters.userId) conditions.push(eq(apiTokens.userId, filters.userId));
+    if (filters.serviceAccountsOnly) conditions.push(eq(users.isServiceAccount, true));
+
+    const result = await this.db
+      .select({
+        token: apiTokens,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+        isServiceAccount: users.isServiceAccount,
+      })
+      .from(apiTokens)
+      .innerJoin(users, eq(apiTokens.userId, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(apiTokens.createdAt));
+
+    return result.map(({ token: { tokenHash, ...token }, ...row }) => ({
+      ...token,
+      userName: row.firstName || row.lastName
+        ? `${row.firstName || ""} ${row.lastName || ""}`.trim()
+        : row.email,
+      isServiceAccount: row.isServiceAccount,
+    }));
+  }
+
+  async getApiToken(id: string): Promise<ApiToken | undefined> {
+    const [token] = await this.db.select().from(apiTokens).where(eq(apiTokens.id, id));
+    return token;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await this.db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const [newToken] = await this.db.insert(apiTokens).values(token).returning();
+    return newToken;
+  }
+
+  async revokeApiToken(id: string, revokedBy: string): Promise<ApiToken> {
+    const [token] = await this.db
+      .update(apiTokens)
+      .set({ revokedAt: new Date(), revokedBy })
+      .where(eq(apiTokens.id, id))
+      .returning();
+    return token;
+  }
+
+  async touchApiToken(id: string): Promise<void> {
+    await this.db.update(apiTokens).set({ lastUsedAt: new Date() }).where(eq(apiTokens.id, id));
+  }
+
+  // Release Plan Template operations
+  async getReleasePlanTemplates(): Promise<ReleasePlanTemplate[]> {
+    return await this.db.select().from(releasePlanTemplates).orderBy(asc(releasePlanTemplates.name));
+  }
+
+  async getReleasePlanTemplate(id: string): Promise<ReleasePlanTemplate | undefined> {
+    const [template] = await this.db.select().from(releasePlanTemplates).where(eq(releasePlanTemplates.id, id));
+    return template;
+  }
+
+  async getReleasePlanTemplateSteps(templateId: string): Promise<ReleasePlanTemplateStep[]> {
+    return await this.db
+      .select()
+      .from(releasePlanTemplateSteps)
+      .where(eq(releasePlanTemplateSteps.templateId, templateId))
+      .orderBy(asc(releasePlanTemplateSteps.order));
+  }
+
+  async createReleasePlanTemplate(
+    template: InsertReleasePlanTemplate,
+    steps: Omit<InsertReleasePlanTemplateStep, "templateId">[],
+  ): Promise<ReleasePlanTemplate> {
+    return await this.db.transaction(async (tx) => {
+      const [newTemplate] = await tx.insert(releasePlanTemplates).values(template).returning();
+      if (steps.length > 0) {
+        await tx
+          .insert(releasePlanTemplateSteps)
+          .values(steps.map(step => ({ ...step, templateId: newTemplate.id })));
+      }
+      return newTemplate;
+    });
+  }
+
+  async deleteReleasePlanTemplate(id: string): Promise<void> {
+    await this.db.delete(releasePlanTemplates).where(eq(releasePlanTemplates.id, id));
+  }
+
+  // Scheduled Job operations
+  async getScheduledJob(id: string): Promise<ScheduledJob | undefined> {
+    const [job] = await this.db.select().from(scheduledJobs).where(eq(scheduledJobs.id, id));
+    return job;
+  }
+
+  async getScheduledJobByStep(stepId: string): Promise<ScheduledJob | undefined> {
+    const [job] = await this.db.select().from(scheduledJobs).where(eq(scheduledJobs.stepId, stepId));
+    return job;
+  }
+
+  async getScheduledJobsByStatus(status: string): Promise<ScheduledJob[]> {
+    return await this.db
+      .select()
+      .from(scheduledJobs)
+      .where(eq(scheduledJobs.status, status))
+      .orderBy(asc(scheduledJobs.nextFireAt));
+  }
+
+  // Jobs for blocked steps stay pending until the step is released
+  async getDueScheduledJobs(now: Date): Promise<ScheduledJob[]> {
+    const result = await this.db
+      .select({ job: scheduledJobs })
+      .from(scheduledJobs)
+      .innerJoin(releaseSteps, eq(scheduledJobs.stepId, releaseSteps.id))
+      .where(
+        and(
+          eq(scheduledJobs.status, "pending"),
+          lte(scheduledJobs.nextFireAt, now),
+          eq(releaseSteps.status, "not_started")
+        )
+      )
+      .orderBy(asc(scheduledJobs.nextFireAt));
+    return result.map(row => row.job);
+  }
+
+  async upsertScheduledJob(stepId: string, nextFireAt: Date): Promise<ScheduledJob> {
+    const [job] = await this.db
+      .insert(scheduledJobs)
+      .values({ stepId, nextFireAt })
+      .onConflictDoUpdate({
+        target: scheduledJobs.stepId,
+        set: {
+          nextFireAt,
+          status: "pending",
+          firedAt: null,
+          resolvedBy: null,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return job;
+  }
+
+  // Conditional status change; returns undefined when another instance got there first
+  async claimScheduledJob(
+    id: string,
+    fromStatus: string,
+    update: { status: string; firedAt?: Date; resolvedBy?: string | null },
+  ): Promise<ScheduledJob | undefined> {
+    const [job] = await this.db
+      .update(scheduledJobs)
+      .set({ ...update, updatedAt: new Date() })
+      .where(and(eq(scheduledJobs.id, id), eq(scheduledJobs.status, fromStatus)))
+      .returning();
+    return job;
+  }
+
+  // Fired and skipped jobs are kept as a record; only outstanding ones are removed
+  async cancelScheduledJob(stepId: string): Promise<void> {
+    await this.db
+      .delete(scheduledJobs)
+      .where(
+        and(
+          eq(scheduledJobs.stepId, stepId),
+          inArray(scheduledJobs.status, ["pending", "awaiting_decision"])
+        )
+      );
+  }
+
+  // Broadcast Event operations
+  async appendBroadcastEvent(type: string, data: unknown): Promise<BroadcastEvent> {
+    const [event] = await this.db.insert(broadcastEvents).values({ type, data }).returning();
+    return event;
+  }
+
+  async getLatestBroadcastSeq(): Promise<number> {
+    const [latest] = await this.db
+      .select({ seq: broadcastEvents.seq })
+      .from(broadcastEvents)
+      .orderBy(desc(broadcastEvents.seq))
+      .limit(1);
+    return latest?.seq ?? 0;
+  }
+
+  async getOldestBroadcastSeq(): Promise<number | null> {
+    const [oldest] = await this.db
+      .select({ seq: broadcastEvents.seq })
+      .from(broadcastEvents)
+      .orderBy(asc(broadcastEvents.seq))
+      .limit(1);
+    return oldest?.seq ?? null;
+  }
+
+  async getBroadcastEventsAfter(seq: number, limit: number): Promise<BroadcastEvent[]> {
+    return await this.db
+      .select()
+      .from(broadcastEvents)
+      .where(gt(broadcastEvents.seq, seq))
+      .orderBy(asc(broadcastEvents.seq))
+      .limit(limit);
+  }
+
+  async pruneBroadcastEvents(keepAfterSeq: number): Promise<void> {
+    await this.db.delete(broadcastEvents).where(lte(broadcastEvents.seq, keepAfterSeq));
+  }
+
+  // Team operations
+  private async withMemberIds(teamRows: Team[]): Promise<TeamWithMembers[]> {
+    if (teamRows.length === 0) return [];
+    const members = await this.db
+      .select()
+      .from(teamMembers)
+      .where(inArray(teamMembers.teamId, teamRows.map(team => team.id)));
+    return teamRows.map(team => ({
+      ...team,
+      memberIds: members.filter(member => member.teamId === team.id).map(member => member.userId),
+    }));
+  }
+
+  async getTeams(): Promise<TeamWithMembers[]> {
+    return this.withMemberIds(await this.db.select().from(teams).orderBy(asc(teams.name)));
+  }
+
+  async getTeam(id: string): Promise<TeamWithMembers | undefined> {
+    const [team] = await this.withMemberIds(await this.db.select().from(teams).where(eq(teams.id, id)));
+    return team;
+  }
+
+  async createTeam(teamData: InsertTeam, memberIds: string[]): Promise<TeamWithMembers> {
+    const uniqueIds = Array.from(new Set(memberIds));
+    return await this.db.transaction(async (tx) => {
+      const [team] = await tx.insert(teams).values(teamData).returning();
+      if (uniqueIds.length > 0) {
+        await tx.insert(teamMembers).values(uniqueIds.map(userId => ({ teamId: team.id, userId })));
+      }
+      return { ...team, memberIds: uniqueIds };
+    });
+  }
+
+  async updateTeam(id: string, teamData: Partial<InsertTeam>, memberIds?: string[]): Promise<TeamWithMembers> {
+    const uniqueIds = memberIds ? Array.from(new Set(memberIds)) : undefined;
+    await this.db.transaction(async (tx) => {
+      await tx
+        .update(teams)
+        .set({ ...teamData, updatedAt: new Date() })
+        .where(eq(teams.id, id));
+      if (uniqueIds) {
+        await tx.delete(teamMembers).where(eq(teamMembers.teamId, id));
+        if (uniqueIds.length > 0) {
+          await tx.insert(teamMembers).values(uniqueIds.map(userId => ({ teamId: id, userId })));
+        }
+      }
+    });
+    const team = await this.getTeam(id);
+    return team!;
+  }
+
+  async deleteTeam(id: string): Promise<void> {
+    await this.db.delete(teams).where(eq(teams.id, id));
+  }
+
+  // Release Gate operations
+  private async withApproversAndVotes(gateRows: ReleaseGate[]): Promise<ReleaseGateWithVotes[]> {
+    if (gateRows.length === 0) return [];
+    const gateIds = gateRows.map(gate => gate.id);
+    const approvers = await this.db
+      .select()
+      .from(releaseGateApprovers)
+      .where(inArray(releaseGateApprovers.gateId, gateIds));
+    const votes = await this.db
+      .select()
+      .from(releaseGateVotes)
+      .where(inArray(releaseGateVotes.gateId, gateIds))
+      .orderBy(asc(releaseGateVotes.createdAt));
+    return gateRows.map(gate => ({
+      ...gate,
+      approverIds: approvers.filter(approver => approver.gateId === gate.id).map(approver => approver.userId),
+      votes: votes.filter(vote => vote.gateId === gate.id),
+    }));
+  }
+
+  async getReleaseGates(releasePlanId: string): Promise<ReleaseGateWithVotes[]> {
+    return this.withApproversAndVotes(
+      await this.db
+        .select()
+        .from(releaseGates)
+        .where(eq(releaseGates.releasePlanId, releasePlanId))
+        .orderBy(asc(releaseGates.createdAt))
+    );
+  }
+
+  async getReleaseGate(id: string): Promise<ReleaseGateWithVotes | undefined> {
+    const [gate] = await this.withApproversAndVotes(await this.db.select().from(releaseGates).where(eq(releaseGates.id, id)));
+    return gate;
+  }
+
+  async createReleaseGate(gateData: InsertReleaseGate, approverIds: string[]): Promise<ReleaseGateWithVotes> {
+    const uniqueIds = Array.from(new Set(approverIds));
+    return await this.db.transaction(async (tx) => {
+      const [gate] = await tx.insert(releaseGates).values(gateData).returning();
+      if (uniqueIds.length > 0) {
+        await tx.insert(releaseGateApprovers).values(uniqueIds.map(userId => ({ gateId: gate.id, userId })));
+      }
+      return { ...gate, approverIds: uniqueIds, votes: [] };
+    });
+  }
+
+  async updateReleaseGate(id: string, gateData: Partial<InsertReleaseGate>, approverIds?: string[]): Promise<ReleaseGateWithVotes> {
+    const uniqueIds = approverIds ? Array.from(new Set(approverIds)) : undefined;
+    await this.db.transaction(async (tx) => {
+      await tx
+        .update(releaseGates)
+        .set({ ...gateData, updatedAt: new Date() })
+        .where(eq(releaseGates.id, id));
+      if (uniqueIds) {
+        await tx.delete(releaseGateApprovers).where(eq(releaseGateApprovers.gateId, id));
+        if (uniqueIds.length > 0) {
+          await tx.insert(releaseGateApprovers).values(uniqueIds.map(userId => ({ gateId: id, userId })));
+        }
+      }
+    });
+    const gate = await this.getReleaseGate(id);
+    return gate!;
+  }
+
+  async deleteReleaseGate(id: string): Promise<void> {
+    await this.db.delete(releaseGates).where(eq(releaseGates.id, id));
+  }
+
+  // An approver's later vote replaces their earlier one
+  async castReleaseGateVote(voteData: InsertReleaseGateVote): Promise<ReleaseGateVote> {
+    const [vote] = await this.db
+      .insert(releaseGateVotes)
+      .values(voteData)
+      .onConflictDoUpdate({
+        target: [releaseGateVotes.gateId, releaseGateVotes.userId],
+        set: {
+          vote: voteData.vote,
+          comment: voteData.comment ?? null,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return vote;
+  }
+
+  async clearReleaseGateVotes(gateId: string): Promise<void> {
+    await this.db.delete(releaseGateVotes).where(eq(releaseGateVotes.gateId, gateId));
+  }
+
+  async setReleaseGateStatus(id: string, status: string, decidedAt: Date | null): Promise<ReleaseGateWithVotes> {
+    await this.db
+      .update(releaseGates)
+      .set({ status, decidedAt, updatedAt: new Date() })
+      .where(eq(releaseGates.id, id));
+    const gate = await this.getReleaseGate(id);
+    return gate!;
+  }
+
+  // Notification Preference operations
+  async getNotificationPreferences(userIds: string[]): Promise<NotificationPreference[]> {
+    if (userIds.length === 0) return [];
+    return await this.db.select().from(notificationPreferences).where(inArray(notificationPreferences.userId, userIds));
+  }
+
+  async getNotificationPreference(userId: string): Promise<NotificationPreference | undefined> {
+    const [preference] = await this.db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+    return preference;
+  }
+
+  async upsertNotificationPreference(preference: InsertNotificationPreference): Promise<NotificationPreference> {
+    const [upserted] = await this.db
+      .insert(notificationPreferences)
+      .values(preference)
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: {
+          channelId: preference.channelId,
+          deliveries: preference.deliveries,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return upserted;
+  }
+
+  // Notification Digest operations
+  async addNotificationDigestItems(items: InsertNotificationDigestItem[]): Promise<void> {
+    if (items.length === 0) return;
+    await this.db.insert(notificationDigestItems).values(items);
+  }
+
+  async getDueNotificationDigestItems(frequency: string, before: Date): Promise<NotificationDigestItem[]> {
+    return await this.db
+      .select()
+      .from(notificationDigestItems)
+      .where(and(eq(notificationDigestItems.frequency, frequency), lt(notificationDigestItems.createdAt, before)))
+      .orderBy(asc(notificationDigestItems.createdAt));
+  }
+
+  async deleteNotificationDigestItems(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.db.delete(notificationDigestItems).where(inArray(notificationDigestItems.id, ids));
+  }
+
+  // Notification Outbox operations
+  async enqueueNotifications(entries: InsertNotificationOutboxEntry[]): Promise<NotificationOutboxEntry[]> {
+    if (entries.length === 0) return [];
+    return await this.db.insert(notificationOutbox).values(entries).returning();
+  }
+
+  async getNotificationOutboxEntry(id: string): Promise<NotificationOutboxEntry | undefined> {
+    const [entry] = await this.db.select().from(notificationOutbox).where(eq(notificationOutbox.id, id));
+    return entry;
+  }
+
+  async getNotificationOutboxEntries(filters: NotificationOutboxFilters): Promise<NotificationOutboxEntry[]> {
+    const conditions: SQL[] = [];
+    if (filters.status) conditions.push(eq(notificationOutbox.status, filters.status));
+    if (filters.event) conditions.push(eq(notificationOutbox.event, filters.event));
+
+    return await this.db
+      .select()
+      .from(notificationOutbox)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(notificationOutbox.createdAt))
+      .limit(filters.limit)
+      .offset(filters.offset);
+  }
+
+  async getDueNotificationOutboxEntries(now: Date, limit: number): Promise<NotificationOutboxEntry[]> {
+    return await this.db
+      .select()
+      .from(notificationOutbox)
+      .where(and(eq(notificationOutbox.status, "pending"), lte(notificationOutbox.nextAttemptAt, now)))
+      .orderBy(asc(notificationOutbox.nextAttemptAt))
+      .limit(limit);
+  }
+
+  // Only one worker wins the conditional update, so a message is never sent twice at once
+  async claimNotificationOutboxEntry(id: string, fromStatus: string): Promise<NotificationOutboxEntry | undefined> {
+    const [entry] = await this.db
+      .update(notificationOutbox)
+      .set({ status: "sending", updatedAt: new Date() })
+      .where(and(eq(notificationOutbox.id, id), eq(notificationOutbox.status, fromStatus)))
+      .returning();
+    return entry;
+  }
+
+  async updateNotificationOutboxEntry(
+    id: string,
+    updates: Partial<Omit<NotificationOutboxEntry, "id" | "createdAt">>,
+  ): Promise<NotificationOutboxEntry> {
+    const [entry] = await this.db
+      .update(notificationOutbox)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(notificationOutbox.id, id))
+      .returning();
+    return entry;
+  }
+
+  // Rows left in "sending" by a server that stopped mid-send go back in the queue
+  async releaseStaleNotificationOutboxEntries(before: Date): Promise<void> {
+    await this.db
+      .update(notificationOutbox)
+      .set({ status: "pending", updatedAt: new Date() })
+      .where(and(eq(notificationOutbox.status, "sending"), lt(notificationOutbox.updatedAt, before)));
+  }
+
+  // Notification Template operations
+  async getActiveNotificationTemplates(): Promise<NotificationTemplate[]> {
+    return await this.db
+      .selectDistinctOn([notificationTemplates.event])
+      .from(notificationTemplates)
+      .orderBy(notificationTemplates.event, desc(notificationTemplates.version));
+  }
+
+  async getActiveNotificationTemplate(event: string): Promise<NotificationTemplate | undefined> {
+    const [template] = await this.db
+      .select()
+      .from(notificationTemplates)
+      .where(eq(notificationTemplates.event, event))
+      .orderBy(desc(notificationTemplates.version))
+      .limit(1);
+    return template;
+  }
+
+  async getNotificationTemplateVersions(event: string): Promise<NotificationTemplate[]> {
+    return await this.db
+      .select()
+      .from(notificationTemplates)
+      .where(eq(notificationTemplates.event, event))
+      .orderBy(desc(notificationTemplates.version));
+  }
+
+  // Versions are never edited; two concurrent saves collide on the unique index
+  async createNotificationTemplateVersion(template: InsertNotificationTemplate): Promise<NotificationTemplate> {
+    return await this.db.transaction(async (tx) => {
+      const [latest] = await tx
+        .select({ version: notificationTemplates.version })
+        .from(notificationTemplates)
+        .where(eq(notificationTemplates.event, template.event))
+        .orderBy(desc(notificationTemplates.version))
+        .limit(1);
+
+      const [created] = await tx
+        .insert(notificationTemplates)
+        .values({ ...template, version: (latest?.version ?? 0) + 1 })
+        .returning();
+      return created;
+    });
+  }
+
+  // Webhook operations
+  async getWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+    return await this.db.select().from(webhookSubscriptions).orderBy(asc(webhookSubscriptions.name));
+  }
+
+  async getActiveWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+    return await this.db.select().from(webhookSubscriptions).where(eq(webhookSubscriptions.isActive, true));
+  }
+
+  async getWebhookSubscription(id: string): Promise<WebhookSubscription | undefined> {
+    const [subscription] = await this.db.select().from(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+    return subscription;
+  }
+
+  async createWebhookSubscription(subscription: InsertWebhookSubscription): Promise<WebhookSubscription> {
+    const [newSubscription] = await this.db.insert(webhookSubscriptions).values(subscription).returning();
+    return newSubscription;
+  }
+
+  async updateWebhookSubscription(
+    id: string,
+    updates: Partial<Omit<WebhookSubscription, "id" | "createdAt">>,
+  ): Promise<WebhookSubscription> {
+    const [subscription] = await this.db
+      .update(webhookSubscriptions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(webhookSubscriptions.id, id))
+      .returning();
+    return subscription;
+  }
+
+  async deleteWebhookSubscription(id: string): Promise<void> {
+    await this.db.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+  }
+
+  async enqueueWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    if (deliveries.length === 0) return [];
+    return await this.db.insert(webhookDeliveries).values(deliveries).returning();
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery;
+  }
+
+  async getWebhookDeliveries(subscriptionId: string, limit: number): Promise<WebhookDelivery[]> {
+    return await this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.subscriptionId, subscriptionId))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return await this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, now)))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit);
+  }
+
+  // Only one worker wins the conditional update, so an event is never posted twice at once
+  async claimWebhookDelivery(id: string, fromStatus: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db
+      .update(webhookDeliveries)
+      .set({ status: "sending", updatedAt: new Date() })
+      .where(and(eq(webhookDeliveries.id, id), eq(webhookDeliveries.status, fromStatus)))
+      .returning();
+    return delivery;
+  }
+
+  async updateWebhookDelivery(
+    id: string,
+    updates: Partial<Omit<WebhookDelivery, "id" | "createdAt">>,
+  ): Promise<WebhookDelivery> {
+    const [delivery] = await this.db
+      .update(webhookDeliveries)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return delivery;
+  }
+
+  async releaseStaleWebhookDeliveries(before: Date): Promise<void> {
+    await this.db
+      .update(webhookDeliveries)
+      .set({ status: "pending", updatedAt: new Date() })
+      .where(and(eq(webhookDeliveries.status, "sending"), lt(webhookDeliveries.updatedAt, before)));
+  }
+
+  // Audit Log operations
+  async addAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    const [log] = await this.db.insert(auditLogs).values(entry).returning();
+    return log;
+  }
+
+  async getAuditLogs(filters: AuditLogFilters): Promise<AuditLogWithActor[]> {
+    const conditions: SQL[] = [];
+    if (filters.entityType) conditions.push(eq(auditLogs.entityType, filters.entityType));
+    if (filters.entityId) conditions.push(eq(auditLogs.entityId, filters.entityId));
+    if (filters.releasePlanId) conditions.push(eq(auditLogs.releasePlanId, filters.releasePlanId));
+    if (filters.actorId) conditions.push(eq(auditLogs.actorId, filters.actorId));
+    if (filters.action) conditions.push(eq(auditLogs.action, filters.action));
+    if (filters.from) conditions.push(gte(auditLogs.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(auditLogs.createdAt, filters.to));
+
+    const result = await this.db
+      .select({
+        log: auditLogs,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(auditLogs)
+      .leftJoin(users, eq(auditLogs.actorId, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLogs.createdAt))
+      .limit(filters.limit)
+      .offset(filters.offset);
+
+    return result.map(row => ({
+      ...row.log,
+      actorName: row.firstName || row.lastName
+        ? `${row.firstName || ""} ${row.lastName || ""}`.trim()
+        : row.email,
+    }));
   }
 }
 
@@ -0,0 +1,49 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { WebhookError, webhookDispatcher } from "./webhooks";
+import type { WebhookDelivery, WebhookSubscription } from "@shared/schema";
+
+let server: Server;
+let port: number;
+let received: number;
+
+before(async () => {
+  received = 0;
+  server = createServer((req, res) => {
+    received++;
+    res.end();
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+after(() => {
+  server.close();
+});
+
+const delivery = {
+  id: "delivery-1",
+  eventType: "step_updated",
+  isTest: false,
+  createdAt: new Date(),
+  payload: { type: "step_updated", data: {} },
+} as unknown as WebhookDelivery;
+
+function post(url: string): Promise<number> {
+  const subscription = { id: "subscription-1", url, secret: "whsec_test" } as WebhookSubscription;
+  return (webhookDispatcher as any).post(subscription, delivery);
+}
+
+test("a hostname resolving to a private address is refused when connecting", async () => {
+  await assert.rejects(post(`http://localhost:${port}/hook`), (error: unknown) =>
+    error instanceof WebhookError && /not a public address/.test(error.message));
+  assert.equal(received, 0);
+});
+
+test("a private address written into the URL is refused", async () => {
+  await assert.rejects(post(`http://127.0.0.1:${port}/hook`), WebhookError);
+  await assert.rejects(post(`http://[::ffff:127.0.0.1]:${port}/hook`), WebhookError);
+  assert.equal(received, 0);
+});
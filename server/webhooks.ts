@@ -0,0 +1,303 @@
+import { createHmac, randomBytes } from 'crypto';
+import { lookup as lookupCallback } from 'dns';
+import { lookup } from 'dns/promises';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { isIP, type LookupFunction } from 'net';
+import { storage } from './storage';
+import { getEventTopics, getTopicPlanId } from '@shared/realtime';
+import { REALTIME_PROTOCOL_VERSION, type RealtimeEvent } from '@shared/realtimeEvents';
+import { WEBHOOK_TEST_EVENT } from '@shared/webhooks';
+import type { WebhookDelivery, WebhookSubscription } from '@shared/schema';
+
+// Same schedule as the notification outbox: retried after 1, 2, 4, 8 and 16
+// minutes before it is dead-lettered
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// A send that has not finished by now was interrupted by a restart
+const STALE_SENDING_MS = 10 * 60 * 1000;
+const BATCH_SIZE = 50;
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+function getRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+// Receivers verify X-IPlan-Signature by computing the same HMAC over the raw body
+export function signWebhookPayload(secret: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+function matchesSubscription(subscription: WebhookSubscription, event: RealtimeEvent): boolean {
+  if (!subscription.eventTypes.includes(event.type)) return false;
+  if (!subscription.releasePlanId) return true;
+  return getEventTopics(event).some(topic => getTopicPlanId(topic) === subscription.releasePlanId);
+}
+
+export class WebhookError extends Error {
+  constructor(message: string, readonly responseStatus: number | null = null) {
+    super(message);
+  }
+}
+
+function isPublicIPv4(address: string): boolean {
+  const [a, b, c] = address.split('.').map(Number);
+  if (a === 0 || a === 10 || a === 127) return false;
+  if (a === 100 && b >= 64 && b <= 127) return false;
+  if (a === 169 && b === 254) return false;
+  if (a === 172 && b >= 16 && b <= 31) return false;
+  if (a === 192 && b === 168) return false;
+  if (a === 192 && b === 0 && c === 0) return false;
+  if (a === 198 && (b === 18 || b === 19)) return false;
+  // Multicast and reserved
+  return a < 224;
+}
+
+function isPublicAddress(address: string): boolean {
+  if (isIP(address) === 4) return isPublicIPv4(address);
+
+  const normalized = address.toLowerCase();
+  // IPv4-mapped addresses, written either way
+  const dotted = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) return isPublicIPv4(dotted[1]);
+  const hex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (hex) {
+    const high = parseInt(hex[1], 16);
+    const low = parseInt(hex[2], 16);
+    return isPublicIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  if (normalized === '::' || normalized === '::1' || normalized.startsWith('64:ff9b:')) return false;
+  // Unique local fc00::/7, link-local fe80::/10 and multicast ff00::/8
+  return !/^(f[cd]|fe[89ab]|ff)/.test(normalized);
+}
+
+function assertPublicAddresses(hostname: string, addresses: string[]) {
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new WebhookError(`${hostname} is not a public address; webhooks can only be sent to the internet`);
+  }
+}
+
+function getUrlHostname(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, '');
+}
+
+// Receivers must be on the public internet, so a webhook cannot reach loopback,
+// the private network or the cloud metadata service at 169.254.169.254.
+// Checked when a subscription is saved, and again by publicOnlyLookup for
+// every send, since DNS can change in between.
+export async function assertPublicWebhookUrl(url: string): Promise<void> {
+  const hostname = getUrlHostname(new URL(url));
+
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await lookup(hostname, { all: true })).map(result => result.address);
+    } catch {
+      throw new WebhookError(`Could not resolve ${hostname}`);
+    }
+  }
+
+  assertPublicAddresses(hostname, addresses);
+}
+
+// Resolves the receiver for the connection itself, so the addresses checked are
+// the ones connected to and a rebinding DNS answer cannot slip in between
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(new WebhookError(`Could not resolve ${hostname}`), '');
+    try {
+      assertPublicAddresses(hostname, addresses.map(result => result.address));
+    } catch (refused) {
+      return callback(refused as WebhookError, '');
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+type WebhookResponse = { status: number; statusText: string };
+
+function postJson(url: string, headers: Record<string, string>, body: string): Promise<WebhookResponse> {
+  const target = new URL(url);
+  // Node does not look up a literal address, so it is checked here instead
+  const hostname = getUrlHostname(target);
+  if (isIP(hostname)) assertPublicAddresses(hostname, [hostname]);
+
+  const request = target.protocol === 'https:' ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const req = request(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+      lookup: publicOnlyLookup,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    }, (res) => {
+      // Only the status matters; the body is drained so the socket is freed
+      res.resume();
+      resolve({ status: res.statusCode ?? 0, statusText: res.statusMessage ?? '' });
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+// Every matching broadcast is written to the delivery log before it is posted,
+// so a receiver that is down gets the event once it recovers
+class WebhookDispatcher {
+  private processing = false;
+
+  // Called with every broadcast on the instance that made it, so each event
+  // is queued once however many instances are running
+  async dispatch(event: RealtimeEvent) {
+    const subscriptions = (await storage.getActiveWebhookSubscriptions())
+      .filter(subscription => matchesSubscription(subscription, event));
+    if (subscriptions.length === 0) return;
+
+    await storage.enqueueWebhookDeliveries(subscriptions.map(subscription => ({
+      subscriptionId: subscription.id,
+      eventType: event.type,
+      payload: event,
+    })));
+    this.kick();
+  }
+
+  // Sends straight away; anything left over is picked up on the next scheduler tick
+  kick() {
+    this.processDue().catch(error => {
+      console.error('Error processing webhook deliveries:', error);
+    });
+  }
+
+  async processDue(now = new Date()) {
+    if (this.processing) return;
+    this.processing = true;
+    try {
+      await storage.releaseStaleWebhookDeliveries(new Date(now.getTime() - STALE_SENDING_MS));
+      const deliveries = await storage.getDueWebhookDeliveries(now, BATCH_SIZE);
+      for (let index = 0; index < deliveries.length; index++) {
+        await this.deliver(deliveries[index].id);
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  // Posted immediately, even to a disabled subscription, so the receiver can
+  // be checked before it is switched on. Returns the delivery with its outcome.
+  async sendTest(subscription: WebhookSubscription, actorName: string): Promise<WebhookDelivery> {
+    const [delivery] = await storage.enqueueWebhookDeliveries([{
+      subscriptionId: subscription.id,
+      eventType: WEBHOOK_TEST_EVENT,
+      payload: {
+        type: WEBHOOK_TEST_EVENT,
+        data: { subscriptionId: subscription.id, name: subscription.name, sentBy: actorName },
+      },
+      isTest: true,
+    }]);
+    return await this.deliver(delivery.id) || delivery;
+  }
+
+  // Queues the same event again as a new delivery, leaving the original in the log
+  async redeliver(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const [copy] = await storage.enqueueWebhookDeliveries([{
+      subscriptionId: delivery.subscriptionId,
+      eventType: delivery.eventType,
+      payload: delivery.payload,
+      isTest: delivery.isTest,
+      redeliveryOf: delivery.id,
+    }]);
+    this.kick();
+    return copy;
+  }
+
+  private async deliver(id: string): Promise<WebhookDelivery | undefined> {
+    const delivery = await storage.claimWebhookDelivery(id, 'pending');
+    if (!delivery) return undefined;
+
+    const attempts = delivery.attempts + 1;
+    try {
+      const subscription = await storage.getWebhookSubscription(delivery.subscriptionId);
+      if (!subscription) {
+        throw new WebhookError('The subscription no longer exists');
+      }
+      // Retries stop once a subscription is switched off
+      if (!subscription.isActive && !delivery.isTest) {
+        return await storage.updateWebhookDelivery(id, {
+          status: 'dead',
+          attempts,
+          lastError: 'The subscription was disabled before this event was delivered',
+        });
+      }
+
+      const responseStatus = await this.post(subscription, delivery);
+      return await storage.updateWebhookDelivery(id, {
+        status: 'sent',
+        attempts,
+        responseStatus,
+        lastError: null,
+        deliveredAt: new Date(),
+      });
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      const responseStatus = error instanceof WebhookError ? error.responseStatus : null;
+      // A test reports its result straight away rather than retrying
+      const dead = attempts >= MAX_ATTEMPTS || delivery.isTest;
+      const updated = await storage.updateWebhookDelivery(id, {
+        status: dead ? 'dead' : 'pending',
+        attempts,
+        responseStatus,
+        lastError,
+        nextAttemptAt: dead ? delivery.nextAttemptAt : new Date(Date.now() + getRetryDelayMs(attempts)),
+      });
+
+      if (dead) {
+        console.error(`❌ Webhook delivery ${id} (${delivery.eventType}) failed after ${attempts} attempts:`, lastError);
+      } else {
+        console.warn(`Webhook delivery ${id} (${delivery.eventType}) failed (attempt ${attempts}), retrying:`, lastError);
+      }
+      return updated;
+    }
+  }
+
+  private async post(subscription: WebhookSubscription, delivery: WebhookDelivery): Promise<number> {
+    const body = JSON.stringify({
+      id: delivery.id,
+      event: delivery.eventType,
+      version: REALTIME_PROTOCOL_VERSION,
+      test: delivery.isTest,
+      createdAt: delivery.createdAt,
+      data: delivery.payload.data,
+    });
+
+    let response: WebhookResponse;
+    try {
+      // Redirects are never followed: one could lead anywhere, including
+      // addresses publicOnlyLookup refuses
+      response = await postJson(subscription.url, {
+        'Content-Type': 'application/json',
+        'X-IPlan-Event': delivery.eventType,
+        'X-IPlan-Delivery': delivery.id,
+        'X-IPlan-Signature': signWebhookPayload(subscription.secret, body),
+      }, body);
+    } catch (error) {
+      if (error instanceof WebhookError) throw error;
+      throw new WebhookError(error instanceof Error ? error.message : String(error));
+    }
+
+    if (response.status >= 300 && response.status < 400) {
+      throw new WebhookError(`Webhook redirected with ${response.status}; redirects are not followed`, response.status);
+    }
+    if (response.status < 200 || response.status >= 300) {
+      throw new WebhookError(`Webhook responded with ${response.status} ${response.statusText}`, response.status);
+    }
+    return response.status;
+  }
+}
+
+export const webhookDispatcher = new WebhookDispatcher();
@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getAcceptedApiTokenScopes } from "./apiTokens";
+
+test("session-only routes are refused whatever their case", () => {
+  assert.equal(getAcceptedApiTokenScopes("GET", "/api/API-TOKENS", undefined), null);
+  assert.equal(getAcceptedApiTokenScopes("GET", "/api/Api-Tokens/", undefined), null);
+  assert.equal(getAcceptedApiTokenScopes("GET", "/api/Admin/users", undefined), null);
+  assert.equal(getAcceptedApiTokenScopes("GET", "/api/ADMIN", undefined), null);
+  assert.equal(getAcceptedApiTokenScopes("POST", "/api/Settings", {}), null);
+});
+
+test("share links are refused with or without a trailing slash", () => {
+  for (const path of [
+    "/api/release-plans/plan-1/share-links",
+    "/api/release-plans/plan-1/share-links/",
+    "/api/Release-Plans/plan-1/Share-Links/",
+  ]) {
+    assert.equal(getAcceptedApiTokenScopes("GET", path, undefined), null, path);
+    assert.equal(getAcceptedApiTokenScopes("POST", path, {}), null, path);
+  }
+});
+
+test("reads need the read scope", () => {
+  assert.deepEqual(getAcceptedApiTokenScopes("GET", "/api/release-plans", undefined), ["read"]);
+});
+
+test("status updates accept step:status in any case and with a trailing slash", () => {
+  const body = { status: "completed" };
+  assert.deepEqual(getAcceptedApiTokenScopes("PATCH", "/api/steps/step-1", body), ["step:status", "plan:write"]);
+  assert.deepEqual(getAcceptedApiTokenScopes("PATCH", "/api/Steps/step-1/", body), ["step:status", "plan:write"]);
+  assert.deepEqual(getAcceptedApiTokenScopes("POST", "/api/STEPS/step-1/trigger/", {}), ["step:status", "plan:write"]);
+});
+
+test("other writes need plan:write whatever their case", () => {
+  assert.deepEqual(getAcceptedApiTokenScopes("PATCH", "/api/Steps/step-1", { name: "Deploy" }), ["plan:write"]);
+  assert.deepEqual(getAcceptedApiTokenScopes("POST", "/api/RELEASE-PLANS/", {}), ["plan:write"]);
+  assert.equal(getAcceptedApiTokenScopes("POST", "/api/teams", {}), null);
+});
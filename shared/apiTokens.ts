@@ -0,0 +1,78 @@
+// A token acts as its user, so the user's role still applies on top of its scopes
+import { z } from "zod";
+
+export const apiTokenScopes = ["read", "step:status", "plan:write"] as const;
+
+export type ApiTokenScope = typeof apiTokenScopes[number];
+
+export const apiTokenScopeLabels: Record<ApiTokenScope, string> = {
+  read: "Read",
+  "step:status": "Step status",
+  "plan:write": "Plan write",
+};
+
+export const apiTokenScopeDescriptions: Record<ApiTokenScope, string> = {
+  read: "View release plans, steps, gates, comments and the directory",
+  "step:status": "Start, complete, trigger and acknowledge steps, and check off checklist items",
+  "plan:write": "Create, edit and delete plans, steps, gates, checklist items, templates and comments",
+};
+
+export const API_TOKEN_PREFIX = "rms_";
+
+export const apiTokenInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z.array(z.enum(apiTokenScopes)).min(1, "Choose at least one scope"),
+  // Null for a token that never expires
+  expiresInDays: z.number().int().min(1).max(365).nullable(),
+});
+
+export type ApiTokenInput = z.infer<typeof apiTokenInputSchema>;
+
+// Step updates a pipeline makes as it runs; anything else on a step is an edit
+const STEP_STATUS_FIELDS = ["status", "notes"];
+
+// Express matches routes case-insensitively and with or without a trailing
+// slash, so every pattern here has to as well
+const STEP_STATUS_ROUTES = [
+  /^\/api\/steps\/[^/]+\/(trigger|acknowledge)\/?$/i,
+  /^\/api\/checklist-items\/[^/]+\/check\/?$/i,
+];
+
+const PLAN_WRITE_ROUTES = [
+  /^\/api\/release-plans(\/|$)/i,
+  /^\/api\/release-plan-templates(\/|$)/i,
+  /^\/api\/steps(\/|$)/i,
+  /^\/api\/gates\//i,
+  /^\/api\/checklist-items\//i,
+  /^\/api\/comments\//i,
+  /^\/api\/scheduled-jobs\/[^/]+\/resolve\/?$/i,
+];
+
+// Managing tokens, users, settings and share links always takes a browser session
+const SESSION_ONLY_ROUTES = [
+  /^\/api\/api-tokens(\/|$)/i,
+  /^\/api\/admin(\/|$)/i,
+  /^\/api\/settings(\/|$)/i,
+  /^\/api\/release-plans\/[^/]+\/share-links(\/|$)/i,
+];
+
+// The scopes that each allow a request, or null when an API token may not make
+// it at all
+export function getAcceptedApiTokenScopes(method: string, path: string, body: unknown): ApiTokenScope[] | null {
+  if (SESSION_ONLY_ROUTES.some(route => route.test(path))) return null;
+
+  const verb = method.toUpperCase();
+  if (verb === "GET" || verb === "HEAD") return ["read"];
+
+  const isStatusUpdate = verb === "PATCH"
+    && /^\/api\/steps\/[^/]+\/?$/i.test(path)
+    && typeof body === "object" && body !== null
+    && Object.keys(body).length > 0
+    && Object.keys(body).every(field => STEP_STATUS_FIELDS.includes(field));
+  if (isStatusUpdate || (verb === "POST" && STEP_STATUS_ROUTES.some(route => route.test(path)))) {
+    return ["step:status", "plan:write"];
+  }
+
+  if (PLAN_WRITE_ROUTES.some(route => route.test(path))) return ["plan:write"];
+  return null;
+}
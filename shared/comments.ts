@@ -0,0 +1,50 @@
+import { z } from "zod";
+import type { User } from "./schema";
+
+export const commentInputSchema = z.object({
+  body: z.string().trim().min(1, "Comment cannot be empty").max(10000),
+  parentId: z.string().nullable().optional(),
+});
+
+export const commentUpdateSchema = commentInputSchema.pick({ body: true });
+
+// Mentions are stored as @[Display Name](userId) so renaming a user does not
+// break them and the name still reads sensibly in plain-text notifications
+const MENTION_PATTERN = /@\[([^\]\n]+)\]\(([^)\s]+)\)/g;
+
+export function formatMention(user: Pick<User, "id" | "firstName" | "lastName" | "email">): string {
+  const name = [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || "user";
+  return `@[${name.replace(/[[\]]/g, "")}](${user.id})`;
+}
+
+export function getMentionedUserIds(body: string): string[] {
+  const userIds = new Set<string>();
+  for (const match of Array.from(body.matchAll(MENTION_PATTERN))) {
+    userIds.add(match[2]);
+  }
+  return Array.from(userIds);
+}
+
+export type CommentSegment = { type: "text"; text: string } | { type: "mention"; name: string; userId: string };
+
+// Splits text around mentions for rendering
+export function splitMentions(text: string): CommentSegment[] {
+  const segments: CommentSegment[] = [];
+  let lastIndex = 0;
+  for (const match of Array.from(text.matchAll(MENTION_PATTERN))) {
+    if (match.index! > lastIndex) {
+      segments.push({ type: "text", text: text.slice(lastIndex, match.index) });
+    }
+    segments.push({ type: "mention", name: match[1], userId: match[2] });
+    lastIndex = match.index! + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ type: "text", text: text.slice(lastIndex) });
+  }
+  return segments;
+}
+
+// Mentions read as @Name in notifications and anywhere Markdown is not rendered
+export function commentToPlainText(body: string): string {
+  return body.replace(MENTION_PATTERN, "@$1");
+}
@@ -0,0 +1,204 @@
+import { z } from "zod";
+
+// Where notifications can be delivered. Channels are stored as a JSON list
+// in the notification_channels global setting.
+export const notificationChannelTypes = ["smtp", "slack", "teams", "webhook", "file", "console"] as const;
+
+export type NotificationChannelType = typeof notificationChannelTypes[number];
+
+export const notificationChannelTypeLabels: Record<NotificationChannelType, string> = {
+  smtp: "SMTP email",
+  slack: "Slack webhook",
+  teams: "Microsoft Teams webhook",
+  webhook: "Generic webhook",
+  file: "File (local testing)",
+  console: "Console (local testing)",
+};
+
+export const notificationEvents = [
+  "step_assignment",
+  "poc_assignment",
+  "step_trigger",
+  "status_change",
+  "release_completion",
+  "step_overdue",
+  "poc_failover",
+  "comment_mention",
+  "user_invitation",
+  "password_reset",
+  "digest",
+] as const;
+
+export type NotificationEvent = typeof notificationEvents[number];
+
+export const notificationEventLabels: Record<NotificationEvent, string> = {
+  step_assignment: "Step assignment",
+  poc_assignment: "POC assignment",
+  step_trigger: "Step triggered",
+  status_change: "Status change",
+  release_completion: "Release completed",
+  step_overdue: "Step overdue",
+  poc_failover: "Backup POC failover",
+  comment_mention: "Comment mention",
+  user_invitation: "User invitation",
+  password_reset: "Password reset",
+  digest: "Digest",
+};
+
+export const NOTIFICATION_CHANNELS_SETTING = "notification_channels";
+
+export interface NotificationMessage {
+  event: NotificationEvent | "test";
+  from: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  html: string;
+  text: string;
+  // Carries credentials, so it only goes out by email, never to shared, file or console channels
+  sensitive: boolean;
+  // The encrypted html and text of a sensitive message while it waits in the outbox
+  sealed?: string;
+}
+
+// Outbox rows move pending -> sending -> sent, or back to pending with a
+// backoff until they run out of attempts and are dead-lettered
+export const notificationOutboxStatuses = ["pending", "sending", "sent", "dead"] as const;
+
+export type NotificationOutboxStatus = typeof notificationOutboxStatuses[number];
+
+export const notificationOutboxStatusLabels: Record<NotificationOutboxStatus, string> = {
+  pending: "Pending",
+  sending: "Sending",
+  sent: "Sent",
+  dead: "Failed",
+};
+
+export interface NotificationRecipientStatus {
+  address: string;
+  status: "pending" | "sent" | "failed";
+  error?: string;
+}
+
+const baseChannelSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  enabled: z.boolean().default(true),
+  // Empty means every event
+  events: z.array(z.enum(notificationEvents)).default([]),
+});
+
+// Channels may only read secrets from variables with this prefix, so a channel
+// cannot be pointed at the session secret or database URL
+export const NOTIFICATION_SECRET_ENV_PREFIX = "NOTIFY_";
+
+export function isNotificationSecretEnv(name: string): boolean {
+  return name.startsWith(NOTIFICATION_SECRET_ENV_PREFIX) && /^[A-Z0-9_]+$/.test(name);
+}
+
+const secretEnvSchema = z.string().trim().refine(
+  isNotificationSecretEnv,
+  `Secret variables must be upper case and start with ${NOTIFICATION_SECRET_ENV_PREFIX}`,
+);
+
+// A folder below the server's notification directory; absolute paths and ".."
+// segments are refused
+export function isNotificationSubdirectory(directory: string): boolean {
+  if (/^([a-zA-Z]:)?[\\/]/.test(directory)) return false;
+  return directory.split(/[\\/]/).every(segment => segment !== "..");
+}
+
+// Secrets are read from environment variables so they never land in the settings table
+export const notificationChannelConfigSchema = z.discriminatedUnion("type", [
+  baseChannelSchema.extend({
+    type: z.literal("smtp"),
+    host: z.string().min(1),
+    port: z.number().int().positive().default(587),
+    secure: z.boolean().default(false),
+    user: z.string().optional(),
+    passwordEnv: secretEnvSchema.optional(),
+    from: z.string().optional(),
+  }),
+  baseChannelSchema.extend({
+    type: z.literal("slack"),
+    url: z.string().url(),
+  }),
+  baseChannelSchema.extend({
+    type: z.literal("teams"),
+    url: z.string().url(),
+  }),
+  baseChannelSchema.extend({
+    type: z.literal("webhook"),
+    url: z.string().url(),
+    secretEnv: secretEnvSchema.optional(),
+  }),
+  baseChannelSchema.extend({
+    type: z.literal("file"),
+    directory: z.string().trim().default("").refine(
+      isNotificationSubdirectory,
+      "Use a folder inside the notification directory",
+    ),
+  }),
+  baseChannelSchema.extend({
+    type: z.literal("console"),
+  }),
+]);
+
+export const notificationChannelsSchema = z.array(notificationChannelConfigSchema);
+
+export type NotificationChannelConfig = z.infer<typeof notificationChannelConfigSchema>;
+
+export function parseNotificationChannels(value: string | null | undefined): NotificationChannelConfig[] {
+  if (!value) return [];
+  return notificationChannelsSchema.parse(JSON.parse(value));
+}
+
+// Per-user preferences group events into categories. Account messages such as
+// invitations belong to none and always go out immediately.
+export const notificationCategories = ["assignment", "trigger", "status_change", "completion", "overdue", "mention"] as const;
+
+export type NotificationCategory = typeof notificationCategories[number];
+
+export const notificationCategoryLabels: Record<NotificationCategory, string> = {
+  assignment: "Assigned to a step",
+  trigger: "Step triggered",
+  status_change: "Step status changed",
+  completion: "Release completed",
+  overdue: "Step overdue",
+  mention: "Mentioned in a comment",
+};
+
+export const notificationCategoryByEvent: Partial<Record<NotificationEvent, NotificationCategory>> = {
+  step_assignment: "assignment",
+  poc_assignment: "assignment",
+  step_trigger: "trigger",
+  status_change: "status_change",
+  release_completion: "completion",
+  step_overdue: "overdue",
+  poc_failover: "assignment",
+  comment_mention: "mention",
+};
+
+export const notificationDeliveries = ["immediate", "hourly", "daily", "off"] as const;
+
+export type NotificationDelivery = typeof notificationDeliveries[number];
+
+export const notificationDeliveryLabels: Record<NotificationDelivery, string> = {
+  immediate: "Immediately",
+  hourly: "Hourly digest",
+  daily: "Daily digest",
+  off: "Off",
+};
+
+export type NotificationDeliveries = Partial<Record<NotificationCategory, NotificationDelivery>>;
+
+export function getNotificationDelivery(deliveries: NotificationDeliveries | null | undefined, category: NotificationCategory): NotificationDelivery {
+  return deliveries?.[category] ?? "immediate";
+}
+
+// channelId null means every channel that addresses people directly
+export const notificationPreferencesSchema = z.object({
+  channelId: z.string().nullable().default(null),
+  deliveries: z.record(z.enum(notificationCategories), z.enum(notificationDeliveries)).default({}),
+});
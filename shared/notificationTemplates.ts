@@ -0,0 +1,707 @@
+// Templates use a small Mustache-like language:
+//   {{ step.name }}                               inserts a value, HTML-escaped in the body
+//   {{#if step.description}} ... {{else}} ... {{/if}}
+//   {{#each sections}} ... {{/each}}              repeats for every item of a list
+// There is deliberately no way to insert unescaped HTML.
+import { z } from "zod";
+import type { NotificationEvent } from "./notificationChannels";
+
+export const PRODUCT_NAME_SETTING = "product_name";
+export const DEFAULT_PRODUCT_NAME = "iPlan";
+
+export interface NotificationTemplateContent {
+  subject: string;
+  html: string;
+  // Empty means the plain-text part is generated from the HTML
+  text: string;
+}
+
+export const notificationTemplateContentSchema = z.object({
+  subject: z.string().trim().min(1, "Subject is required").max(300),
+  html: z.string().trim().min(1, "HTML body is required"),
+  text: z.string().default(""),
+});
+
+export interface NotificationTemplateVariable {
+  name: string;
+  description: string;
+  // Groups expose their values as {{name.field}}; lists are walked with {{#each name}}
+  fields?: NotificationTemplateVariable[];
+  list?: boolean;
+}
+
+export type TemplateContext = Record<string, unknown>;
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "value"; path: string }
+  | { type: "if"; path: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: "each"; path: string; body: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { type: "if" | "each" }>;
+
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const PATH = "[A-Za-z_][A-Za-z0-9_]*(?:\\.[A-Za-z_][A-Za-z0-9_]*)*";
+const VALUE_TAG = new RegExp(`^(${PATH})$`);
+const OPEN_TAG = new RegExp(`^#(if|each)\\s+(${PATH})$`);
+const CLOSE_TAG = /^\/(if|each)$/;
+
+function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ block: BlockNode; parent: TemplateNode[]; inElse: boolean }> = [];
+  let target = root;
+  let lastIndex = 0;
+
+  TAG_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TAG_PATTERN.exec(source)) !== null) {
+    if (match.index > lastIndex) target.push({ type: "text", value: source.slice(lastIndex, match.index) });
+    lastIndex = match.index + match[0].length;
+
+    const tag = match[1].trim();
+    const value = VALUE_TAG.exec(tag);
+    const open = OPEN_TAG.exec(tag);
+    const close = CLOSE_TAG.exec(tag);
+    const current = stack[stack.length - 1];
+
+    if (tag === "else") {
+      if (!current || current.block.type !== "if" || current.inElse) {
+        throw new Error("{{else}} must be inside an {{#if}} block");
+      }
+      current.inElse = true;
+      target = current.block.otherwise;
+    } else if (value) {
+      target.push({ type: "value", path: value[1] });
+    } else if (open) {
+      const block: BlockNode = open[1] === "if"
+        ? { type: "if", path: open[2], then: [], otherwise: [] }
+        : { type: "each", path: open[2], body: [] };
+      target.push(block);
+      stack.push({ block, parent: target, inElse: false });
+      target = block.type === "if" ? block.then : block.body;
+    } else if (close) {
+      if (!current || current.block.type !== close[1]) {
+        throw new Error(`{{/${close[1]}}} has no matching {{#${close[1]}}}`);
+      }
+      stack.pop();
+      target = current.parent;
+    } else {
+      throw new Error(`Unrecognised tag "${match[0]}"`);
+    }
+  }
+
+  if (stack.length > 0) {
+    const block = stack[stack.length - 1].block;
+    throw new Error(`{{#${block.type} ${block.path}}} is never closed`);
+  }
+  if (lastIndex < source.length) root.push({ type: "text", value: source.slice(lastIndex) });
+  return root;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Inner scopes (list items) shadow outer ones
+function lookup(scopes: TemplateContext[], path: string): unknown {
+  const [head, ...rest] = path.split(".");
+  for (let index = scopes.length - 1; index >= 0; index--) {
+    if (!Object.prototype.hasOwnProperty.call(scopes[index], head)) continue;
+    let value: unknown = scopes[index][head];
+    for (const segment of rest) {
+      value = value && typeof value === "object" ? (value as Record<string, unknown>)[segment] : undefined;
+    }
+    return value;
+  }
+  return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined || typeof value === "object") return "";
+  return String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateContext[], escape: (value: string) => string): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case "text":
+        return node.value;
+      case "value":
+        return escape(toText(lookup(scopes, node.path)));
+      case "if":
+        return renderNodes(isTruthy(lookup(scopes, node.path)) ? node.then : node.otherwise, scopes, escape);
+      case "each": {
+        const items = lookup(scopes, node.path);
+        if (!Array.isArray(items)) return "";
+        return items
+          .map(item => renderNodes(node.body, [...scopes, item && typeof item === "object" ? item as TemplateContext : {}], escape))
+          .join("");
+      }
+    }
+  }).join("");
+}
+
+// Throws when the template does not parse; values are HTML-escaped unless a
+// different escape is given (the subject and plain-text parts use none)
+export function renderTemplate(source: string, context: TemplateContext, escape: (value: string) => string = escapeHtml): string {
+  return renderNodes(parseTemplate(source), [context], escape);
+}
+
+const noEscape = (value: string) => value;
+
+export function renderNotificationTemplate(template: NotificationTemplateContent, context: TemplateContext) {
+  return {
+    subject: renderTemplate(template.subject, context, noEscape).replace(/\s+/g, " ").trim(),
+    html: renderTemplate(template.html, context),
+    text: template.text.trim() ? renderTemplate(template.text, context, noEscape).trim() : "",
+  };
+}
+
+function findVariable(scopes: NotificationTemplateVariable[][], path: string): NotificationTemplateVariable | undefined {
+  const [head, ...rest] = path.split(".");
+  for (let index = scopes.length - 1; index >= 0; index--) {
+    let variable = scopes[index].find(candidate => candidate.name === head);
+    if (!variable) continue;
+    for (const segment of rest) {
+      variable = variable?.fields?.find(field => field.name === segment);
+    }
+    return variable;
+  }
+  return undefined;
+}
+
+function checkNodes(nodes: TemplateNode[], scopes: NotificationTemplateVariable[][], errors: string[]) {
+  for (const node of nodes) {
+    if (node.type === "text") continue;
+
+    const variable = findVariable(scopes, node.path);
+    if (!variable) {
+      errors.push(`Unknown variable "${node.path}"`);
+      continue;
+    }
+
+    if (node.type === "value" && (variable.list || variable.fields)) {
+      errors.push(`"${node.path}" is a ${variable.list ? "list; use {{#each}}" : "group; use one of its fields"}`);
+    } else if (node.type === "if") {
+      checkNodes(node.then, scopes, errors);
+      checkNodes(node.otherwise, scopes, errors);
+    } else if (node.type === "each") {
+      if (!variable.list) {
+        errors.push(`"${node.path}" is not a list`);
+        continue;
+      }
+      checkNodes(node.body, [...scopes, variable.fields || []], errors);
+    }
+  }
+}
+
+// Returns every syntax error and unknown variable, or an empty list when the template is usable
+export function validateTemplate(source: string, variables: NotificationTemplateVariable[]): string[] {
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseTemplate(source);
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)];
+  }
+
+  const errors: string[] = [];
+  checkNodes(nodes, [variables], errors);
+  return Array.from(new Set(errors));
+}
+
+export function validateNotificationTemplate(event: NotificationEvent, template: NotificationTemplateContent): string[] {
+  const variables = notificationTemplateVariables[event];
+  return [
+    ...validateTemplate(template.subject, variables).map(error => `Subject: ${error}`),
+    ...validateTemplate(template.html, variables).map(error => `HTML: ${error}`),
+    ...validateTemplate(template.text, variables).map(error => `Text: ${error}`),
+  ];
+}
+
+// Variables
+const productNameVariable: NotificationTemplateVariable = {
+  name: "productName",
+  description: "Product name from Global Settings",
+};
+
+const stepVariable: NotificationTemplateVariable = {
+  name: "step",
+  description: "The step",
+  fields: [
+    { name: "name", description: "Step name" },
+    { name: "description", description: "Step description, empty when there is none" },
+    { name: "category", description: "Step category" },
+    { name: "status", description: "Current status" },
+    { name: "scheduledTime", description: "Scheduled time, empty when not scheduled" },
+  ],
+};
+
+const releaseVariable: NotificationTemplateVariable = {
+  name: "release",
+  description: "The release plan",
+  fields: [
+    { name: "name", description: "Release name" },
+    { name: "version", description: "Release version" },
+    { name: "description", description: "Release description, empty when there is none" },
+    { name: "scheduledDate", description: "Originally scheduled date, empty when not scheduled" },
+  ],
+};
+
+export const notificationTemplateVariables: Record<NotificationEvent, NotificationTemplateVariable[]> = {
+  step_assignment: [
+    productNameVariable,
+    stepVariable,
+    { name: "role", description: "\"team lead\" or \"Point of Contact (POC)\"" },
+    { name: "action", description: "What the assignee is expected to do next" },
+  ],
+  poc_assignment: [
+    productNameVariable,
+    stepVariable,
+    { name: "assignedBy", description: "Who made the assignment" },
+    { name: "assignedAt", description: "When the assignment was made" },
+  ],
+  step_trigger: [
+    productNameVariable,
+    stepVariable,
+    { name: "triggeredAt", description: "When the step was triggered" },
+    { name: "acknowledgeUrl", description: "Link the POC opens to acknowledge the step, empty for everyone else" },
+    { name: "acknowledgeBy", description: "When the POC must acknowledge by before the backup POC takes over" },
+  ],
+  status_change: [
+    productNameVariable,
+    stepVariable,
+    { name: "previousStatus", description: "Status before the change" },
+    { name: "previousStatusColor", description: "Badge colour of the previous status" },
+    { name: "newStatus", description: "Status after the change" },
+    { name: "newStatusColor", description: "Badge colour of the new status" },
+    { name: "updatedBy", description: "Who changed the status" },
+    { name: "updatedAt", description: "When the status changed" },
+  ],
+  release_completion: [
+    productNameVariable,
+    releaseVariable,
+    { name: "completedAt", description: "When the last step finished" },
+  ],
+  step_overdue: [
+    productNameVariable,
+    stepVariable,
+    { name: "reason", description: "Why the step is overdue, e.g. \"running longer than its expected 30m\"" },
+    { name: "overdueSince", description: "When the step became overdue" },
+    { name: "stage", description: "Who is being told, e.g. \"Backup POC\"" },
+  ],
+  poc_failover: [
+    productNameVariable,
+    stepVariable,
+    { name: "previousPoc", description: "The POC who did not acknowledge the step" },
+    { name: "newPoc", description: "The backup POC now assigned to the step" },
+    { name: "windowMinutes", description: "How long the POC had to acknowledge, e.g. \"10m\"" },
+    { name: "acknowledgeUrl", description: "Link the new POC opens to acknowledge the step, empty for everyone else" },
+  ],
+  comment_mention: [
+    productNameVariable,
+    { name: "author", description: "Who wrote the comment" },
+    { name: "target", description: "What the comment is on, e.g. \"step Deploy backend in Spring Release v2025.3\"" },
+    { name: "comment", description: "The comment as plain text, with mentions written @Name" },
+    { name: "url", description: "Link to the dashboard" },
+  ],
+  user_invitation: [
+    productNameVariable,
+    { name: "email", description: "The new account's email address" },
+    { name: "temporaryPassword", description: "The generated password" },
+    { name: "invitedBy", description: "Who created the account" },
+  ],
+  password_reset: [
+    productNameVariable,
+    { name: "temporaryPassword", description: "The generated password" },
+    { name: "resetBy", description: "Who reset the password" },
+  ],
+  digest: [
+    productNameVariable,
+    { name: "period", description: "\"Hourly\" or \"Daily\"" },
+    { name: "summary", description: "How many notifications the digest holds, e.g. \"3 notifications\"" },
+    {
+      name: "sections",
+      description: "One section per notification category",
+      list: true,
+      fields: [
+        { name: "label", description: "Category name" },
+        { name: "count", description: "Notifications in this category" },
+        {
+          name: "items",
+          description: "The notifications, oldest first",
+          list: true,
+          fields: [
+            { name: "subject", description: "Notification subject" },
+            { name: "time", description: "When it happened" },
+            { name: "body", description: "Plain-text notification body" },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+// Sample data for previews and test sends
+const sampleStep = {
+  name: "Deploy payment service",
+  description: "Roll out payment-service 4.2 to production <with> a canary first",
+  category: "Before Release",
+  status: "Started",
+  scheduledTime: "3/14/2025, 9:00:00 PM",
+};
+
+export const notificationTemplateSamples: Record<NotificationEvent, TemplateContext> = {
+  step_assignment: { step: sampleStep, role: "team lead", action: "assign a POC and manage the step execution" },
+  poc_assignment: { step: sampleStep, assignedBy: "Jordan Lee", assignedAt: "3/14/2025, 2:15:00 PM" },
+  step_trigger: {
+    step: sampleStep,
+    triggeredAt: "3/14/2025, 9:00:00 PM",
+    acknowledgeUrl: "https://iplan.example.com/acknowledge?token=sample",
+    acknowledgeBy: "3/14/2025, 9:10:00 PM",
+  },
+  status_change: {
+    step: sampleStep,
+    previousStatus: "Started",
+    previousStatusColor: "#3b82f6",
+    newStatus: "In Progress",
+    newStatusColor: "#f59e0b",
+    updatedBy: "Jordan Lee",
+    updatedAt: "3/14/2025, 9:05:00 PM",
+  },
+  release_completion: {
+    release: {
+      name: "Spring Release",
+      version: "v2025.3",
+      description: "Quarterly platform release",
+      scheduledDate: "3/14/2025, 9:00:00 PM",
+    },
+    completedAt: "3/15/2025, 1:30:00 AM",
+  },
+  step_overdue: {
+    step: sampleStep,
+    reason: "running longer than its expected 30m",
+    overdueSince: "3/14/2025, 9:30:00 PM",
+    stage: "Backup POC",
+  },
+  poc_failover: {
+    step: sampleStep,
+    previousPoc: "Sam Patel",
+    newPoc: "Jordan Lee",
+    windowMinutes: "10m",
+    acknowledgeUrl: "https://iplan.example.com/acknowledge?token=sample",
+  },
+  comment_mention: {
+    author: "Jordan Lee",
+    target: "step Deploy payment service in Spring Release v2025.3",
+    comment: "@Sam Patel can you confirm the canary <metrics> look healthy before we continue?",
+    url: "https://iplan.example.com/",
+  },
+  user_invitation: { email: "new.user@example.com", temporaryPassword: "sample-password", invitedBy: "Jordan Lee" },
+  password_reset: { temporaryPassword: "sample-password", resetBy: "Jordan Lee" },
+  digest: {
+    period: "Hourly",
+    summary: "2 notifications",
+    sections: [
+      {
+        label: "Step triggered",
+        count: 2,
+        items: [
+          { subject: "Step Triggered - Deploy payment service", time: "3/14/2025, 9:00:00 PM", body: "The step is ready for execution." },
+          { subject: "Step Triggered - Smoke tests", time: "3/14/2025, 9:30:00 PM", body: "The step is ready for execution." },
+        ],
+      },
+    ],
+  },
+};
+
+// Defaults
+const footer = `
+  <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; color: #64748b; font-size: 14px;">
+    <p>This is an automated notification from {{productName}} Release Management System.</p>
+  </div>`;
+
+const textFooter = `
+--
+This is an automated notification from {{productName}} Release Management System.`;
+
+const stepDetails = `
+    <h3 style="margin-top: 0; color: #1e293b;">{{step.name}}</h3>
+    <p><strong>Description:</strong> {{#if step.description}}{{step.description}}{{else}}No description provided{{/if}}</p>
+    <p><strong>Category:</strong> {{step.category}}</p>`;
+
+const stepTextDetails = `
+Step: {{step.name}}
+Description: {{#if step.description}}{{step.description}}{{else}}No description provided{{/if}}
+Category: {{step.category}}`;
+
+export const defaultNotificationTemplates: Record<NotificationEvent, NotificationTemplateContent> = {
+  step_assignment: {
+    subject: "{{productName}}: Step Assignment - {{step.name}}",
+    html: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <h2 style="color: #2563eb;">Step Assignment Notification</h2>
+  <p>You have been assigned as the {{role}} for the following step:</p>
+
+  <div style="background-color: #f8fafc; padding: 20px; border-radius: 8px; margin: 20px 0;">${stepDetails}
+    <p><strong>Status:</strong> {{step.status}}</p>
+    {{#if step.scheduledTime}}<p><strong>Scheduled Time:</strong> {{step.scheduledTime}}</p>{{/if}}
+  </div>
+
+  <p>Please log into {{productName}} to review the step details and {{action}}.</p>
+${footer}
+</div>`,
+    text: `You have been assigned as the {{role}} for the following step:
+${stepTextDetails}
+Status: {{step.status}}{{#if step.scheduledTime}}
+Scheduled Time: {{step.scheduledTime}}{{/if}}
+
+Please log into {{productName}} to review the step details and {{action}}.
+${textFooter}`,
+  },
+  poc_assignment: {
+    subject: "{{productName}}: POC Assignment - {{step.name}}",
+    html: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <h2 style="color: #2563eb;">POC Assignment Notification</h2>
+  <p>You have been assigned as a Point of Contact (POC) for the following step by {{assignedBy}}:</p>
+
+  <div style="background-color: #f0fdf4; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #10b981;">${stepDetails}
+    <p><strong>Status:</strong> {{step.status}}</p>
+    {{#if step.scheduledTime}}<p><strong>Scheduled Time:</strong> {{step.scheduledTime}}</p>{{/if}}
+    <p><strong>Assigned At:</strong> {{assignedAt}}</p>
+  </div>
+
+  <p>Please log into {{productName}} to review the step details. You will be notified when this step is triggered for execution.</p>
+${footer}
+</div>`,
+    text: `You have been assigned as a Point of Contact (POC) for the following step by {{assignedBy}}:
+${stepTextDetails}
+Status: {{step.status}}{{#if step.scheduledTime}}
+Scheduled Time: {{step.scheduledTime}}{{/if}}
+Assigned At: {{assignedAt}}
+
+Please log into {{productName}} to review the step details. You will be notified when this step is triggered for execution.
+${textFooter}`,
+  },
+  step_trigger: {
+    subject: "{{productName}}: Step Triggered - {{step.name}}",
+    html: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <h2 style="color: #2563eb;">Step Triggered</h2>
+  <p>The following step has been triggered and is ready for execution:</p>
+
+  <div style="background-color: #fef3c7; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #f59e0b;">${stepDetails}
+    <p><strong>Status:</strong> Started</p>
+    <p><strong>Triggered At:</strong> {{triggeredAt}}</p>
+  </div>
+
+  {{#if acknowledgeUrl}}<p style="margin: 20px 0;"><a href="{{acknowledgeUrl}}" style="background-color: #2563eb; color: #ffffff; padding: 10px 20px; border-radius: 6px; text-decoration: none;">Acknowledge Step</a></p>
+  <p>Please acknowledge by {{acknowledgeBy}}, or the step will be handed to the backup POC.</p>{{/if}}
+  <p><strong>Action Required:</strong> Please proceed with the execution of this step and update the status to "In Progress" and then "Completed" once finished.</p>
+${footer}
+</div>`,
+    text: `The following step has been triggered and is ready for execution:
+${stepTextDetails}
+Triggered At: {{triggeredAt}}
+{{#if acknowledgeUrl}}
+Acknowledge by {{acknowledgeBy}}, or the step will be handed to the backup POC:
+{{acknowledgeUrl}}
+{{/if}}
+Action Required: Please proceed with the execution of this step and update the status to "In Progress" and then "Completed" once finished.
+${textFooter}`,
+  },
+  status_change: {
+    subject: "{{productName}}: Status Update - {{step.name}}",
+    html: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <h2 style="color: #2563eb;">Step Status Update</h2>
+  <p>The status of the following step has been updated by {{updatedBy}}:</p>
+
+  <div style="background-color: #f8fafc; padding: 20px; border-radius: 8px; margin: 20px 0;">${stepDetails}
+
+    <div style="margin: 15px 0;">
+      <span style="background-color: {{previousStatusColor}}; color: white; padding: 4px 8px; border-radius: 4px; font-size: 12px;">{{previousStatus}}</span>
+      <span style="margin: 0 10px;">→</span>
+      <span style="background-color: {{newStatusColor}}; color: white; padding: 4px 8px; border-radius: 4px; font-size: 12px;">{{newStatus}}</span>
+    </div>
+
+    <p><strong>Updated At:</strong> {{updatedAt}}</p>
+    <p><strong>Updated By:</strong> {{updatedBy}}</p>
+  </div>
+${footer}
+</div>`,
+    text: `The status of the following step has been updated by {{updatedBy}}:
+${stepTextDetails}
+Status: {{previousStatus}} → {{newStatus}}
+Updated At: {{updatedAt}}
+${textFooter}`,
+  },
+  release_completion: {
+    subject: "{{productName}}: Release Completed - {{release.name}} {{release.version}}",
+    html: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <h2 style="color: #10b981;">🎉 Release Completed Successfully!</h2>
+  <p>We're pleased to announce that the following release has been completed:</p>
+
+  <div style="background-color: #ecfdf5; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #10b981;">
+    <h3 style="margin-top: 0; color: #1e293b;">{{release.name}} {{release.version}}</h3>
+    <p><strong>Description:</strong> {{#if release.description}}{{release.description}}{{else}}No description provided{{/if}}</p>
+    <p><strong>Completion Time:</strong> {{completedAt}}</p>
+    {{#if release.scheduledDate}}<p><strong>Originally Scheduled:</strong> {{release.scheduledDate}}</p>{{/if}}
+  </div>
+
+  <p>All release steps have been successfully executed. Thank you to everyone involved in making this release a success!</p>
+${footer}
+</div>`,
+    text: `The following release has been completed:
+
+Release: {{release.name}} {{release.version}}
+Description: {{#if release.description}}{{release.description}}{{else}}No description provided{{/if}}
+Completion Time: {{completedAt}}{{#if release.scheduledDate}}
+Originally Scheduled: {{release.scheduledDate}}{{/if}}
+
+All release steps have been successfully executed. Thank you to everyone involved in making this release a success!
+${textFooter}`,
+  },
+  step_overdue: {
+    subject: "{{productName}}: Step Overdue - {{step.name}}",
+    html: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <h2 style="color: #ef4444;">Step Overdue</h2>
+  <p>The following step is {{reason}} and has been escalated to you ({{stage}}):</p>
+
+  <div style="background-color: #fef2f2; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #ef4444;">${stepDetails}
+    <p><strong>Status:</strong> {{step.status}}</p>
+    {{#if step.scheduledTime}}<p><strong>Scheduled Time:</strong> {{step.scheduledTime}}</p>{{/if}}
+    <p><strong>Overdue Since:</strong> {{overdueSince}}</p>
+  </div>
+
+  <p><strong>Action Required:</strong> Please log into {{productName}} and update the step, or make sure someone is working on it. It will be escalated further if nothing changes.</p>
+${footer}
+</div>`,
+    text: `The following step is {{reason}} and has been escalated to you ({{stage}}):
+${stepTextDetails}
+Status: {{step.status}}{{#if step.scheduledTime}}
+Scheduled Time: {{step.scheduledTime}}{{/if}}
+Overdue Since: {{overdueSince}}
+
+Action Required: Please log into {{productName}} and update the step, or make sure someone is working on it. It will be escalated further if nothing changes.
+${textFooter}`,
+  },
+  poc_failover: {
+    subject: "{{productName}}: Step Handed to Backup POC - {{step.name}}",
+    html: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <h2 style="color: #f59e0b;">Step Handed to Backup POC</h2>
+  <p>{{previousPoc}} did not acknowledge the following step within {{windowMinutes}}, so it has been handed to {{newPoc}}:</p>
+
+  <div style="background-color: #fef3c7; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #f59e0b;">${stepDetails}
+    <p><strong>Status:</strong> {{step.status}}</p>
+    <p><strong>POC:</strong> {{newPoc}}</p>
+    <p><strong>Backup POC:</strong> {{previousPoc}}</p>
+  </div>
+
+  {{#if acknowledgeUrl}}<p style="margin: 20px 0;"><a href="{{acknowledgeUrl}}" style="background-color: #2563eb; color: #ffffff; padding: 10px 20px; border-radius: 6px; text-decoration: none;">Acknowledge Step</a></p>
+  <p><strong>Action Required:</strong> You are now the POC for this step. Please acknowledge it and proceed with its execution.</p>{{else}}<p>No action is needed unless you want to reassign the step.</p>{{/if}}
+${footer}
+</div>`,
+    text: `{{previousPoc}} did not acknowledge the following step within {{windowMinutes}}, so it has been handed to {{newPoc}}:
+${stepTextDetails}
+Status: {{step.status}}
+POC: {{newPoc}}
+Backup POC: {{previousPoc}}
+{{#if acknowledgeUrl}}
+Action Required: You are now the POC for this step. Please acknowledge it and proceed with its execution:
+{{acknowledgeUrl}}{{else}}
+No action is needed unless you want to reassign the step.{{/if}}
+${textFooter}`,
+  },
+  comment_mention: {
+    subject: "{{productName}}: {{author}} mentioned you",
+    html: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <h2 style="color: #2563eb;">You Were Mentioned</h2>
+  <p>{{author}} mentioned you in a comment on the {{target}}:</p>
+
+  <div style="background-color: #f8fafc; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #2563eb; white-space: pre-wrap;">{{comment}}</div>
+
+  <p><a href="{{url}}">Open {{productName}}</a> to reply.</p>
+${footer}
+</div>`,
+    text: `{{author}} mentioned you in a comment on the {{target}}:
+
+{{comment}}
+
+Open {{productName}} to reply: {{url}}
+${textFooter}`,
+  },
+  user_invitation: {
+    subject: "{{productName}}: You have been invited",
+    html: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <h2 style="color: #2563eb;">Welcome to {{productName}}</h2>
+  <p>{{invitedBy}} has created a {{productName}} account for you.</p>
+
+  <div style="background-color: #f8fafc; padding: 20px; border-radius: 8px; margin: 20px 0;">
+    <p><strong>Email:</strong> {{email}}</p>
+    <p><strong>Temporary Password:</strong> {{temporaryPassword}}</p>
+  </div>
+
+  <p>Please log into {{productName}} with these details.</p>
+${footer}
+</div>`,
+    text: `{{invitedBy}} has created a {{productName}} account for you.
+
+Email: {{email}}
+Temporary Password: {{temporaryPassword}}
+
+Please log into {{productName}} with these details.
+${textFooter}`,
+  },
+  password_reset: {
+    subject: "{{productName}}: Your password has been reset",
+    html: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <h2 style="color: #2563eb;">Password Reset</h2>
+  <p>{{resetBy}} has reset your {{productName}} password.</p>
+
+  <div style="background-color: #f8fafc; padding: 20px; border-radius: 8px; margin: 20px 0;">
+    <p><strong>Temporary Password:</strong> {{temporaryPassword}}</p>
+  </div>
+
+  <p>Please log into {{productName}} with this password.</p>
+${footer}
+</div>`,
+    text: `{{resetBy}} has reset your {{productName}} password.
+
+Temporary Password: {{temporaryPassword}}
+
+Please log into {{productName}} with this password.
+${textFooter}`,
+  },
+  digest: {
+    subject: "{{productName}}: {{period}} digest - {{summary}}",
+    html: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <h2 style="color: #2563eb;">{{period}} Digest</h2>
+  <p>Here is what happened since your last digest:</p>
+  {{#each sections}}
+  <h3 style="color: #1e293b; margin-bottom: 8px;">{{label}} ({{count}})</h3>
+  {{#each items}}
+  <div style="background-color: #f8fafc; padding: 12px 16px; border-radius: 8px; margin-bottom: 8px;">
+    <p style="margin: 0 0 4px;"><strong>{{subject}}</strong></p>
+    <p style="margin: 0 0 4px; color: #64748b; font-size: 12px;">{{time}}</p>
+    <p style="margin: 0; white-space: pre-line;">{{body}}</p>
+  </div>
+  {{/each}}
+  {{/each}}
+  <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; color: #64748b; font-size: 14px;">
+    <p>This is an automated notification from {{productName}} Release Management System. Change how often you receive digests under Notification Preferences.</p>
+  </div>
+</div>`,
+    text: `Here is what happened since your last digest:
+{{#each sections}}
+== {{label}} ({{count}}) =={{#each items}}
+{{subject}} ({{time}})
+{{body}}
+{{/each}}{{/each}}${textFooter}`,
+  },
+};
@@ -0,0 +1,122 @@
+import type { ReleaseStep, User } from "./schema";
+
+export const userRoles = ["release_manager", "team_lead", "poc", "viewer"] as const;
+
+export type UserRole = typeof userRoles[number];
+
+export const userRoleLabels: Record<UserRole, string> = {
+  release_manager: "Release Manager",
+  team_lead: "Team Lead",
+  poc: "POC",
+  viewer: "Viewer",
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === "string" && (userRoles as readonly string[]).includes(value);
+}
+
+export const permissions = [
+  "release_plan.create",
+  "release_plan.update",
+  "release_plan.delete",
+  "release_plan.clone",
+  "template.manage",
+  "step.create",
+  "step.delete",
+  "step.edit",
+  "step.assign_team_lead",
+  "step.assign_poc",
+  "step.update_status",
+  "step.acknowledge",
+  "step.recover",
+  "step.trigger",
+  "scheduler.resolve",
+  "gate.manage",
+  "comment.create",
+  "comment.moderate",
+  "settings.manage",
+  "share_link.manage",
+  "audit.view",
+  "users.manage",
+  "teams.manage",
+  "notifications.manage",
+  "webhooks.manage",
+] as const;
+
+export type Permission = typeof permissions[number];
+
+// How far a grant reaches: every resource, only steps the user leads, only
+// steps the user is a primary or backup POC on, or only those they are the primary POC on
+type PermissionScope = "all" | "led_steps" | "assigned_steps" | "primary_steps";
+
+const rolePolicies: Record<UserRole, Partial<Record<Permission, PermissionScope>>> = {
+  release_manager: Object.fromEntries(
+    permissions.map(permission => [permission, "all"]),
+  ) as Record<Permission, PermissionScope>,
+  team_lead: {
+    "step.edit": "led_steps",
+    "step.assign_poc": "led_steps",
+    "step.update_status": "led_steps",
+    "step.acknowledge": "primary_steps",
+    "comment.create": "all",
+  },
+  poc: {
+    "step.update_status": "assigned_steps",
+    "step.acknowledge": "primary_steps",
+    "comment.create": "all",
+  },
+  viewer: {},
+};
+
+export type PermissionUser = Pick<User, "id" | "role"> & { isActive?: boolean };
+
+export type StepPermissionScope = Pick<ReleaseStep, "teamLeadId" | "primaryPocId" | "backupPocId">;
+
+// Scoped grants need the step they apply to; without one they are refused
+export function can(
+  user: PermissionUser | null | undefined,
+  permission: Permission,
+  step?: StepPermissionScope | null,
+): boolean {
+  if (!user || user.isActive === false) return false;
+
+  const scope = rolePolicies[user.role as UserRole]?.[permission];
+  switch (scope) {
+    case "all":
+      return true;
+    case "led_steps":
+      return !!step && step.teamLeadId === user.id;
+    case "assigned_steps":
+      return !!step && (step.primaryPocId === user.id || step.backupPocId === user.id);
+    case "primary_steps":
+      return !!step && step.primaryPocId === user.id;
+    default:
+      return false;
+  }
+}
+
+// Fields whose changes need something other than step.edit
+const stepFieldPermissions: Record<string, Permission> = {
+  status: "step.update_status",
+  teamLeadId: "step.assign_team_lead",
+  primaryPocId: "step.assign_poc",
+  backupPocId: "step.assign_poc",
+};
+
+// The permissions a step update needs, judged by the fields it actually changes.
+// Forms resend unchanged assignments and status, which need nothing extra.
+export function getStepUpdatePermissions(
+  step: Record<string, unknown>,
+  updates: Record<string, unknown>,
+): Permission[] {
+  const required = new Set<Permission>();
+  for (const [field, value] of Object.entries(updates)) {
+    const permission = stepFieldPermissions[field];
+    if (!permission) {
+      required.add("step.edit");
+    } else if ((value ?? null) !== (step[field] ?? null)) {
+      required.add(permission);
+    }
+  }
+  return required.size > 0 ? Array.from(required) : ["step.edit"];
+}
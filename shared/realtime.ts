@@ -0,0 +1,62 @@
+// A plan topic carries everything inside one release plan; the global topics carry the rest
+import { z } from "zod";
+import type { RealtimeEvent, RealtimeEventType } from "./realtimeEvents";
+
+export const globalTopics = ["release_plans", "directory", "scheduler"] as const;
+export type GlobalTopic = typeof globalTopics[number];
+
+const PLAN_TOPIC_PREFIX = "plan:";
+
+export function planTopic(releasePlanId: string): string {
+  return `${PLAN_TOPIC_PREFIX}${releasePlanId}`;
+}
+
+export function getTopicPlanId(topic: string): string | null {
+  return topic.startsWith(PLAN_TOPIC_PREFIX) && topic.length > PLAN_TOPIC_PREFIX.length
+    ? topic.slice(PLAN_TOPIC_PREFIX.length)
+    : null;
+}
+
+export function isGlobalTopic(topic: string): topic is GlobalTopic {
+  return (globalTopics as readonly string[]).includes(topic);
+}
+
+// What a client may send over the socket. After reconnecting it resumes from
+// the last sequence number it saw to have the events it missed replayed.
+const topicListSchema = z.array(z.string().max(100)).max(50);
+
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("subscribe"), topics: topicListSchema }),
+  z.object({ type: z.literal("unsubscribe"), topics: topicListSchema }),
+  z.object({ type: z.literal("resume"), lastSeq: z.number().int().nonnegative() }),
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+export const commentEventTypes: RealtimeEventType[] = ["comment_created", "comment_updated", "comment_deleted"];
+
+// The topics a broadcast is delivered on
+export function getEventTopics(event: RealtimeEvent): string[] {
+  switch (event.type) {
+    case "release_plan_created":
+    case "release_plan_updated":
+    case "release_plan_deleted":
+    case "release_completed":
+      return ["release_plans", planTopic(event.data.id)];
+    case "step_failover":
+    case "step_overdue":
+      return [planTopic(event.data.step.releasePlanId)];
+    case "step_deleted":
+      return event.data.releasePlanId ? [planTopic(event.data.releasePlanId)] : [];
+    case "scheduled_trigger_missed":
+    case "scheduled_trigger_resolved":
+      return ["scheduler"];
+    case "team_updated":
+    case "team_deleted":
+    case "user_updated":
+      return ["directory"];
+    default:
+      // Steps, gates, checklists and comments all name their plan
+      return [planTopic(event.data.releasePlanId)];
+  }
+}
@@ -0,0 +1,165 @@
+// New event types and payload fields are backwards compatible; anything else must
+// raise REALTIME_PROTOCOL_VERSION so older clients fall back to refetching
+import { z } from "zod";
+import type {
+  Comment,
+  CommentWithAuthor,
+  PublicUser,
+  ReleaseGateWithVotes,
+  ReleasePlan,
+  ReleaseStep,
+  ScheduledJob,
+  StepChecklistItem,
+  TeamWithMembers,
+} from "./schema";
+import type { EscalationStage } from "./stepSla";
+
+export const REALTIME_PROTOCOL_VERSION = 1;
+
+// What each broadcast carries. Dates arrive as ISO strings, as they do from the REST API.
+export interface RealtimeEventMap {
+  release_plan_created: ReleasePlan;
+  release_plan_updated: ReleasePlan;
+  release_plan_deleted: { id: string };
+  release_completed: ReleasePlan;
+  step_created: ReleaseStep;
+  step_updated: ReleaseStep;
+  step_triggered: ReleaseStep;
+  step_deleted: { id: string; releasePlanId?: string };
+  step_failover: { step: ReleaseStep; previousPocId: string | null; newPocId: string };
+  step_overdue: { step: ReleaseStep; stage: EscalationStage; reason: string; notified: string[] };
+  step_checklist_updated: { stepId: string; releasePlanId: string; items: StepChecklistItem[] };
+  release_gate_updated: ReleaseGateWithVotes;
+  release_gate_decided: ReleaseGateWithVotes;
+  release_gate_deleted: { id: string; releasePlanId: string };
+  comment_created: CommentWithAuthor;
+  comment_updated: Comment;
+  comment_deleted: Comment;
+  team_updated: TeamWithMembers;
+  team_deleted: { id: string };
+  user_updated: PublicUser;
+  scheduled_trigger_missed: { job: ScheduledJob; step: ReleaseStep };
+  scheduled_trigger_resolved: ScheduledJob;
+}
+
+// Replies about the connection itself rather than about release data
+export interface RealtimeControlMap {
+  connected: { topics: string[]; seq: number };
+  subscribed: { topics: string[]; rejected: string[] };
+  replayed: { count: number; seq: number };
+  resync: { seq: number };
+  error: { message: string };
+}
+
+export type RealtimeEventType = keyof RealtimeEventMap;
+export type RealtimeControlType = keyof RealtimeControlMap;
+type ServerMessageMap = RealtimeEventMap & RealtimeControlMap;
+export type ServerMessageType = keyof ServerMessageMap;
+
+export type RealtimeEvent<T extends RealtimeEventType = RealtimeEventType> = {
+  [K in T]: { type: K; data: RealtimeEventMap[K] };
+}[T];
+
+// As received: events are numbered for replay, and flagged when they are a replay
+export type ServerMessage<T extends ServerMessageType = ServerMessageType> = {
+  [K in T]: { type: K; data: ServerMessageMap[K]; version: number; seq?: number; replayed?: boolean };
+}[T];
+
+export type RealtimeBroadcast = (event: RealtimeEvent) => void;
+
+// Only the fields routing and the client cache rely on are checked; the rest
+// of each row passes through
+const row = z.object({ id: z.string() }).passthrough();
+const planRow = row.extend({ releasePlanId: z.string() });
+const stepRow = planRow.extend({ name: z.string() });
+const commentRow = planRow.extend({ stepId: z.string().nullable() });
+const topicList = z.array(z.string());
+const seq = z.number().int().nonnegative();
+
+const realtimeEventDataSchemas: Record<RealtimeEventType, z.ZodTypeAny> = {
+  release_plan_created: row,
+  release_plan_updated: row,
+  release_plan_deleted: row,
+  release_completed: row,
+  step_created: stepRow,
+  step_updated: stepRow,
+  step_triggered: stepRow,
+  step_deleted: row.extend({ releasePlanId: z.string().optional() }),
+  step_failover: z.object({ step: stepRow, previousPocId: z.string().nullable(), newPocId: z.string() }).passthrough(),
+  step_overdue: z.object({ step: stepRow, reason: z.string() }).passthrough(),
+  step_checklist_updated: z.object({ stepId: z.string(), releasePlanId: z.string(), items: z.array(row) }),
+  release_gate_updated: planRow,
+  release_gate_decided: planRow,
+  release_gate_deleted: planRow,
+  comment_created: commentRow,
+  comment_updated: commentRow,
+  comment_deleted: commentRow,
+  team_updated: row,
+  team_deleted: row,
+  user_updated: row,
+  scheduled_trigger_missed: z.object({ job: row, step: stepRow }),
+  scheduled_trigger_resolved: row.extend({ stepId: z.string() }),
+};
+
+const controlMessageDataSchemas: Record<RealtimeControlType, z.ZodTypeAny> = {
+  connected: z.object({ topics: topicList, seq }),
+  subscribed: z.object({ topics: topicList, rejected: topicList }),
+  replayed: z.object({ count: z.number().int(), seq }),
+  resync: z.object({ seq }),
+  error: z.object({ message: z.string() }),
+};
+
+export const realtimeEventTypes = Object.keys(realtimeEventDataSchemas) as RealtimeEventType[];
+
+const messageSchemas = Object.entries({ ...realtimeEventDataSchemas, ...controlMessageDataSchemas })
+  .map(([type, data]) => z.object({ type: z.literal(type), data }));
+
+export const serverMessageSchema = z.discriminatedUnion(
+  "type",
+  messageSchemas as [typeof messageSchemas[number], ...typeof messageSchemas],
+);
+
+const envelopeSchema = z.object({
+  version: z.number().int().positive(),
+  seq: seq.optional(),
+  replayed: z.boolean().optional(),
+}).passthrough();
+
+export function isRealtimeEventType(type: string): type is RealtimeEventType {
+  return type in realtimeEventDataSchemas;
+}
+
+export function isRealtimeEvent(message: ServerMessage): message is ServerMessage<RealtimeEventType> {
+  return isRealtimeEventType(message.type);
+}
+
+// Checks a broadcast before it is sent, so a malformed payload is caught on
+// the server rather than discarded by every client
+export function validateRealtimeEvent(event: RealtimeEvent): boolean {
+  return isRealtimeEventType(event.type) && serverMessageSchema.safeParse(event).success;
+}
+
+export type ParsedServerMessage =
+  | { status: "ok"; message: ServerMessage; seq?: number }
+  // Sent by a newer server than this client understands
+  | { status: "unsupported"; version: number; seq?: number }
+  // Unknown to this client, or malformed
+  | { status: "ignored"; seq?: number };
+
+export function parseServerMessage(raw: unknown): ParsedServerMessage {
+  const envelope = envelopeSchema.safeParse(raw);
+  if (!envelope.success) return { status: "ignored" };
+
+  const { version, seq: messageSeq } = envelope.data;
+  if (version > REALTIME_PROTOCOL_VERSION) {
+    return { status: "unsupported", version, seq: messageSeq };
+  }
+
+  const parsed = serverMessageSchema.safeParse(raw);
+  if (!parsed.success) return { status: "ignored", seq: messageSeq };
+  return {
+    status: "ok",
+    message: { ...envelope.data, ...parsed.data } as ServerMessage,
+    seq: messageSeq,
+  };
+}
@@ -0,0 +1,72 @@
+import { z } from "zod";
+import type { ReleaseGate, ReleaseGateVote } from "./schema";
+
+// Phases a gate can hold back; before_release is where a release starts
+export const gatedPhases = ["actual_release", "post_release"] as const;
+
+export type GatedPhase = typeof gatedPhases[number];
+
+export const gatedPhaseLabels: Record<GatedPhase, string> = {
+  actual_release: "Actual Release",
+  post_release: "Post Release",
+};
+
+export const releaseGateStatuses = ["pending", "approved", "rejected"] as const;
+
+export type ReleaseGateStatus = typeof releaseGateStatuses[number];
+
+export const releaseGateStatusLabels: Record<ReleaseGateStatus, string> = {
+  pending: "Awaiting votes",
+  approved: "Go",
+  rejected: "No-Go",
+};
+
+export const releaseGateVoteValues = ["go", "no_go"] as const;
+
+export type ReleaseGateVoteValue = typeof releaseGateVoteValues[number];
+
+export const releaseGateVoteLabels: Record<ReleaseGateVoteValue, string> = {
+  go: "Go",
+  no_go: "No-Go",
+};
+
+export const releaseGateInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(255),
+  phase: z.enum(gatedPhases),
+  quorum: z.number().int().positive(),
+  approverIds: z.array(z.string()).min(1, "A gate needs at least one approver"),
+}).refine(gate => gate.quorum <= new Set(gate.approverIds).size, {
+  message: "The quorum cannot be larger than the number of approvers",
+  path: ["quorum"],
+});
+
+// A No-Go has to say why
+export const releaseGateVoteInputSchema = z.object({
+  vote: z.enum(releaseGateVoteValues),
+  comment: z.string().trim().max(2000).optional(),
+}).refine(input => input.vote === "go" || !!input.comment, {
+  message: "A No-Go vote needs a comment",
+  path: ["comment"],
+});
+
+// Approved once the quorum votes Go; rejected once enough approvers vote
+// No-Go that the quorum can no longer be reached. Votes from people who are
+// no longer approvers do not count.
+export function getReleaseGateStatus(
+  gate: Pick<ReleaseGate, "quorum">,
+  approverIds: string[],
+  votes: Pick<ReleaseGateVote, "userId" | "vote">[],
+): ReleaseGateStatus {
+  const counted = votes.filter(vote => approverIds.includes(vote.userId));
+  const goVotes = counted.filter(vote => vote.vote === "go").length;
+  const noGoVotes = counted.filter(vote => vote.vote === "no_go").length;
+
+  if (goVotes >= gate.quorum) return "approved";
+  if (approverIds.length - noGoVotes < gate.quorum) return "rejected";
+  return "pending";
+}
+
+// The gates still holding back a step category; other categories are never gated
+export function getClosedGates<T extends Pick<ReleaseGate, "phase" | "status">>(category: string, gates: T[]): T[] {
+  return gates.filter(gate => gate.phase === category && gate.status !== "approved");
+}
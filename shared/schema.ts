@@ -1,7 +1,9 @@
 import { sql, relations } from 'drizzle-orm';
 import {
+  bigserial,
   index,
   jsonb,
+  type AnyPgColumn,
   pgTable,
   timestamp,
   varchar,
@@ -10,9 +12,17 @@ import {
   pgEnum,
   boolean,
   integer,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import {
+  notificationPreferencesSchema,
+  type NotificationDeliveries,
+  type NotificationMessage,
+  type NotificationRecipientStatus,
+} from "./notificationChannels";
+import type { WebhookEvent } from "./webhooks";
 
 // Session storage table.
 export const sessions = pgTable(
@@ -34,10 +44,35 @@ export const users = pgTable("users", {
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
   role: varchar("role").notNull().default("viewer"), // release_manager, team_lead, poc, viewer
+  isActive: boolean("is_active").notNull().default(true),
+  deactivatedAt: timestamp("deactivated_at"),
+  isServiceAccount: boolean("is_service_account").notNull().default(false), // API tokens only; cannot log in
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Teams own release steps; their members are the default pool for assignments
+export const teams = pgTable("teams", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 255 }).notNull().unique(),
+  description: text("description"),
+  leadId: varchar("lead_id").references(() => users.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Team Members
+export const teamMembers = pgTable(
+  "team_members",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+    teamId: uuid("team_id").notNull().references(() => teams.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_team_member").on(table.teamId, table.userId)],
+);
+
 // Release Plans (iPlan)
 export const releasePlans = pgTable("release_plans", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -46,7 +81,7 @@ export const releasePlans = pgTable("release_plans", {
   description: text("description"),
   scheduledDate: timestamp("scheduled_date"),
   timezone: varchar("timezone", { length: 50 }).default("UTC"),
-  status: varchar("status").notNull().default("planning"), // planning, active, completed, cancelled
+  status: varchar("status").notNull().default("planning"), // planning, active, at_risk, failed, completed, cancelled
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -59,20 +94,40 @@ export const releaseSteps = pgTable("release_steps", {
   name: varchar("name", { length: 255 }).notNull(),
   description: text("description"),
   category: varchar("category").notNull(), // before_release, actual_release, post_release
-  status: varchar("status").notNull().default("not_started"), // not_started, started, in_progress, completed
+  status: varchar("status").notNull().default("not_started"), // see shared/stepStatus.ts for the allowed transitions
   order: integer("order").notNull().default(0),
   
   // Assignment
+  teamId: uuid("team_id").references(() => teams.id, { onDelete: "set null" }),
   teamLeadId: varchar("team_lead_id").references(() => users.id),
   primaryPocId: varchar("primary_poc_id").references(() => users.id),
   backupPocId: varchar("backup_poc_id").references(() => users.id),
   
   // Scheduling
-  schedulingType: varchar("scheduling_type").notNull().default("manual"), // fixed_time, after_step, simultaneous
+  schedulingType: varchar("scheduling_type").notNull().default("manual"), // fixed_time, after_step, simultaneous, relative
   scheduledTime: timestamp("scheduled_time"),
   timezone: varchar("timezone", { length: 50 }).default("UTC"),
   dependsOnStepId: uuid("depends_on_step_id"),
   simultaneousWithStepId: uuid("simultaneous_with_step_id"),
+  relativeTo: varchar("relative_to"), // release_start, step_completion
+  relativeOffsetMinutes: integer("relative_offset_minutes"), // negative offsets run before the release start
+  relativeToStepId: uuid("relative_to_step_id"),
+
+  // SLA
+  expectedDurationMinutes: integer("expected_duration_minutes"), // null for no running-time limit
+  escalationLevel: integer("escalation_level").notNull().default(0), // escalation stages notified so far, see shared/stepSla.ts
+  overdueSince: timestamp("overdue_since"),
+  lastEscalatedAt: timestamp("last_escalated_at"),
+
+  // Acknowledgement: a triggered step's POC must acknowledge it before acknowledgementDueAt,
+  // or it is handed to the backup POC once (failedOverAt)
+  acknowledgementDueAt: timestamp("acknowledgement_due_at"),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  acknowledgedBy: varchar("acknowledged_by").references(() => users.id),
+  failedOverAt: timestamp("failed_over_at"),
+
+  // The halted predecessor that blocked this step; null when it was blocked by hand
+  blockedByStepId: uuid("blocked_by_step_id"),
   
   // Timestamps
   startedAt: timestamp("started_at"),
@@ -81,17 +136,117 @@ export const releaseSteps = pgTable("release_steps", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Step Dependencies (a step scheduled "after_step" waits for every predecessor listed here)
+export const stepDependencies = pgTable(
+  "step_dependencies",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+    stepId: uuid("step_id").notNull().references(() => releaseSteps.id, { onDelete: "cascade" }),
+    dependsOnStepId: uuid("depends_on_step_id").notNull().references(() => releaseSteps.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_step_dependency").on(table.stepId, table.dependsOnStepId)],
+);
+
 // Step History
 export const stepHistory = pgTable("step_history", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   stepId: uuid("step_id").notNull().references(() => releaseSteps.id, { onDelete: "cascade" }),
   previousStatus: varchar("previous_status"),
   newStatus: varchar("new_status").notNull(),
-  changedBy: varchar("changed_by").notNull().references(() => users.id),
+  changedBy: varchar("changed_by").references(() => users.id), // null when changed by the scheduler
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Step Checklist Items (ordered sub-tasks; open required items keep the step from completing)
+export const stepChecklistItems = pgTable("step_checklist_items", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  stepId: uuid("step_id").notNull().references(() => releaseSteps.id, { onDelete: "cascade" }),
+  label: varchar("label", { length: 500 }).notNull(),
+  order: integer("order").notNull().default(0),
+  isRequired: boolean("is_required").notNull().default(true),
+  completedAt: timestamp("completed_at"),
+  completedBy: varchar("completed_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Comments on a release plan, or on one of its steps when stepId is set.
+// Replies point at their parent; deleted comments stay as placeholders so
+// their replies keep their place in the thread.
+export const comments = pgTable(
+  "comments",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+    releasePlanId: uuid("release_plan_id").notNull().references(() => releasePlans.id, { onDelete: "cascade" }),
+    stepId: uuid("step_id").references(() => releaseSteps.id, { onDelete: "cascade" }),
+    parentId: uuid("parent_id").references((): AnyPgColumn => comments.id, { onDelete: "cascade" }),
+    authorId: varchar("author_id").notNull().references(() => users.id),
+    body: text("body").notNull(), // Markdown; mentions are written @[Name](userId), see shared/comments.ts
+    mentionedUserIds: jsonb("mentioned_user_ids").$type<string[]>().notNull().default([]),
+    editedAt: timestamp("edited_at"),
+    deletedAt: timestamp("deleted_at"),
+    deletedBy: varchar("deleted_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_comments_release_plan").on(table.releasePlanId),
+    index("IDX_comments_step").on(table.stepId),
+  ],
+);
+
+// Comment Revisions. The body a comment had before each edit or its deletion.
+export const commentRevisions = pgTable("comment_revisions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  commentId: uuid("comment_id").notNull().references(() => comments.id, { onDelete: "cascade" }),
+  body: text("body").notNull(),
+  changedBy: varchar("changed_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Release Gates (a Go/No-Go decision that holds back every step of a phase until approved)
+export const releaseGates = pgTable("release_gates", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  releasePlanId: uuid("release_plan_id").notNull().references(() => releasePlans.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  phase: varchar("phase").notNull(), // the step category held back: actual_release, post_release
+  quorum: integer("quorum").notNull().default(1), // Go votes needed to approve
+  status: varchar("status").notNull().default("pending"), // pending, approved, rejected; see shared/releaseGates.ts
+  decidedAt: timestamp("decided_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Release Gate Approvers
+export const releaseGateApprovers = pgTable(
+  "release_gate_approvers",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+    gateId: uuid("gate_id").notNull().references(() => releaseGates.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_release_gate_approver").on(table.gateId, table.userId)],
+);
+
+// Release Gate Votes (one per approver, changeable until the gate is decided)
+export const releaseGateVotes = pgTable(
+  "release_gate_votes",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+    gateId: uuid("gate_id").notNull().references(() => releaseGates.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    vote: varchar("vote").notNull(), // go, no_go
+    comment: text("comment"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_release_gate_vote").on(table.gateId, table.userId)],
+);
+
 // Global Settings
 export const globalSettings = pgTable("global_settings", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -109,10 +264,231 @@ export const shareableLinks = pgTable("shareable_links", {
   token: varchar("token", { length: 255 }).notNull().unique(),
   expiresAt: timestamp("expires_at"),
   isActive: boolean("is_active").default(true),
+  allowComments: boolean("allow_comments").notNull().default(false), // show plan and step comments to link holders
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// API Tokens. Bearer credentials for scripts and CI/CD pipelines, acting as
+// their user (a person or a service account) within the granted scopes. Only
+// a SHA-256 hash of the secret is stored.
+export const apiTokens = pgTable(
+  "api_tokens",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 255 }).notNull(),
+    tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+    tokenPrefix: varchar("token_prefix", { length: 16 }).notNull(), // shown in lists so a token can be recognised
+    scopes: jsonb("scopes").$type<string[]>().notNull().default([]),
+    expiresAt: timestamp("expires_at"),
+    lastUsedAt: timestamp("last_used_at"),
+    revokedAt: timestamp("revoked_at"),
+    revokedBy: varchar("revoked_by").references(() => users.id, { onDelete: "set null" }),
+    createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_api_tokens_user").on(table.userId)],
+);
+
+// Release Plan Templates
+export const releasePlanTemplates = pgTable("release_plan_templates", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Template Steps. Links point at sibling template steps and fixed times are
+// stored as minute offsets from the plan's scheduledDate.
+export const releasePlanTemplateSteps = pgTable("release_plan_template_steps", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  templateId: uuid("template_id").notNull().references(() => releasePlanTemplates.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  category: varchar("category").notNull(),
+  order: integer("order").notNull().default(0),
+
+  // Default assignment
+  teamId: uuid("team_id").references(() => teams.id, { onDelete: "set null" }),
+  teamLeadId: varchar("team_lead_id").references(() => users.id, { onDelete: "set null" }),
+  primaryPocId: varchar("primary_poc_id").references(() => users.id, { onDelete: "set null" }),
+  backupPocId: varchar("backup_poc_id").references(() => users.id, { onDelete: "set null" }),
+
+  // Scheduling
+  schedulingType: varchar("scheduling_type").notNull().default("manual"),
+  scheduleOffsetMinutes: integer("schedule_offset_minutes"),
+  timezone: varchar("timezone", { length: 50 }).default("UTC"),
+  dependsOnTemplateStepIds: jsonb("depends_on_template_step_ids").$type<string[]>().notNull().default([]),
+  simultaneousWithTemplateStepId: uuid("simultaneous_with_template_step_id"),
+  relativeTo: varchar("relative_to"),
+  relativeOffsetMinutes: integer("relative_offset_minutes"),
+  relativeToTemplateStepId: uuid("relative_to_template_step_id"),
+  expectedDurationMinutes: integer("expected_duration_minutes"),
+  checklist: jsonb("checklist").$type<ChecklistItemBlueprint[]>().notNull().default([]),
+
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Scheduled Jobs. One durable trigger per time-based step; the scheduler works
+// from these rows so nothing is lost when the server restarts.
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  stepId: uuid("step_id").notNull().unique().references(() => releaseSteps.id, { onDelete: "cascade" }),
+  nextFireAt: timestamp("next_fire_at").notNull(),
+  status: varchar("status").notNull().default("pending"), // pending, fired, skipped, awaiting_decision
+  firedAt: timestamp("fired_at"),
+  resolvedBy: varchar("resolved_by").references(() => users.id), // release manager who fired or skipped a missed trigger
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Broadcast Events. Every WebSocket broadcast is numbered by this table's
+// sequence, which all instances share, and the most recent ones are kept so a
+// reconnecting client can replay what it missed.
+export const broadcastEvents = pgTable("broadcast_events", {
+  seq: bigserial("seq", { mode: "number" }).primaryKey(),
+  type: varchar("type").notNull(),
+  data: jsonb("data"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Audit Log. One row per mutation; releasePlanId has no foreign key so the
+// trail outlives the plan it describes.
+export const auditLogs = pgTable(
+  "audit_logs",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+    actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }), // null for anonymous or system actions
+    entityType: varchar("entity_type").notNull(), // release_plan, release_step, release_plan_template, global_setting, shareable_link, scheduled_job, user
+    entityId: varchar("entity_id"),
+    releasePlanId: uuid("release_plan_id"),
+    action: varchar("action").notNull(), // create, update, delete, clone, trigger, resolve, register, login, logout
+    changes: jsonb("changes").$type<AuditChanges>().notNull().default({}),
+    ipAddress: varchar("ip_address", { length: 64 }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_audit_logs_release_plan").on(table.releasePlanId),
+    index("IDX_audit_logs_entity").on(table.entityType, table.entityId),
+  ],
+);
+
+// Notification Preferences. Users without a row get every notification
+// immediately through every channel that addresses them.
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  channelId: varchar("channel_id"), // null for every channel that addresses people directly
+  deliveries: jsonb("deliveries").$type<NotificationDeliveries>().notNull().default({}),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Notification Digest Items. Notifications held back for a user's next hourly
+// or daily digest; rows are deleted once the digest goes out.
+export const notificationDigestItems = pgTable(
+  "notification_digest_items",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    event: varchar("event").notNull(),
+    frequency: varchar("frequency").notNull(), // hourly, daily
+    subject: text("subject").notNull(),
+    body: text("body").notNull(), // plain text
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_notification_digest_items_due").on(table.frequency, table.createdAt),
+  ],
+);
+
+// Notification Outbox. One row per message per channel; a background worker
+// sends pending rows and retries failures with exponential backoff.
+export const notificationOutbox = pgTable(
+  "notification_outbox",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+    event: varchar("event").notNull(),
+    channelId: varchar("channel_id").notNull(),
+    channelName: varchar("channel_name").notNull(),
+    message: jsonb("message").$type<NotificationMessage>().notNull(),
+    recipients: jsonb("recipients").$type<NotificationRecipientStatus[]>().notNull().default([]),
+    status: varchar("status").notNull().default("pending"), // pending, sending, sent, dead
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+    lastError: text("last_error"),
+    sentAt: timestamp("sent_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_notification_outbox_due").on(table.status, table.nextAttemptAt),
+  ],
+);
+
+// Notification Templates. Every save adds a version; the highest version of an
+// event is the one in use, and events without a row use the built-in default.
+export const notificationTemplates = pgTable(
+  "notification_templates",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+    event: varchar("event").notNull(),
+    version: integer("version").notNull(),
+    subject: text("subject").notNull(),
+    html: text("html").notNull(),
+    text: text("text").notNull().default(""), // empty to generate it from the HTML
+    createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_notification_template_version").on(table.event, table.version)],
+);
+
+// Webhook Subscriptions. External systems receive the broadcast events they
+// pick, signed with the subscription's secret; without a plan they receive
+// those events from every plan.
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 255 }).notNull(),
+  url: text("url").notNull(),
+  releasePlanId: uuid("release_plan_id").references(() => releasePlans.id, { onDelete: "cascade" }),
+  eventTypes: jsonb("event_types").$type<string[]>().notNull().default([]),
+  secret: varchar("secret", { length: 255 }).notNull(), // kept in full, since payloads are signed with it
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Webhook Deliveries. One row per event per subscription, sent by a background
+// worker with the same backoff as the notification outbox. Redelivering adds a
+// new row, so the history shows every attempt.
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+    subscriptionId: uuid("subscription_id").notNull().references(() => webhookSubscriptions.id, { onDelete: "cascade" }),
+    eventType: varchar("event_type").notNull(),
+    payload: jsonb("payload").$type<WebhookEvent>().notNull(),
+    isTest: boolean("is_test").notNull().default(false),
+    redeliveryOf: uuid("redelivery_of"),
+    status: varchar("status").notNull().default("pending"), // pending, sending, sent, dead
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+    responseStatus: integer("response_status"),
+    lastError: text("last_error"),
+    deliveredAt: timestamp("delivered_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_webhook_deliveries_due").on(table.status, table.nextAttemptAt),
+    index("IDX_webhook_deliveries_subscription").on(table.subscriptionId, table.createdAt),
+  ],
+);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   createdReleasePlans: many(releasePlans),
@@ -120,7 +496,34 @@ export const usersRelations = relations(users, ({ many }) => ({
   primaryPocSteps: many(releaseSteps, { relationName: "primaryPoc" }),
   backupPocSteps: many(releaseSteps, { relationName: "backupPoc" }),
   stepHistories: many(stepHistory),
+  completedChecklistItems: many(stepChecklistItems),
+  comments: many(comments, { relationName: "commentAuthor" }),
   shareableLinks: many(shareableLinks),
+  apiTokens: many(apiTokens, { relationName: "apiTokenUser" }),
+  ledTeams: many(teams),
+  teamMemberships: many(teamMembers),
+  gateApprovals: many(releaseGateApprovers),
+  gateVotes: many(releaseGateVotes),
+}));
+
+export const teamsRelations = relations(teams, ({ one, many }) => ({
+  lead: one(users, {
+    fields: [teams.leadId],
+    references: [users.id],
+  }),
+  members: many(teamMembers),
+  steps: many(releaseSteps),
+}));
+
+export const teamMembersRelations = relations(teamMembers, ({ one }) => ({
+  team: one(teams, {
+    fields: [teamMembers.teamId],
+    references: [teams.id],
+  }),
+  user: one(users, {
+    fields: [teamMembers.userId],
+    references: [users.id],
+  }),
 }));
 
 export const releasePlansRelations = relations(releasePlans, ({ one, many }) => ({
@@ -130,6 +533,8 @@ export const releasePlansRelations = relations(releasePlans, ({ one, many }) =>
   }),
   steps: many(releaseSteps),
   shareableLinks: many(shareableLinks),
+  gates: many(releaseGates),
+  comments: many(comments),
 }));
 
 export const releaseStepsRelations = relations(releaseSteps, ({ one, many }) => ({
@@ -137,6 +542,10 @@ export const releaseStepsRelations = relations(releaseSteps, ({ one, many }) =>
     fields: [releaseSteps.releasePlanId],
     references: [releasePlans.id],
   }),
+  team: one(teams, {
+    fields: [releaseSteps.teamId],
+    references: [teams.id],
+  }),
   teamLead: one(users, {
     fields: [releaseSteps.teamLeadId],
     references: [users.id],
@@ -164,7 +573,24 @@ export const releaseStepsRelations = relations(releaseSteps, ({ one, many }) =>
     relationName: "simultaneous",
   }),
   simultaneousSteps: many(releaseSteps, { relationName: "simultaneous" }),
+  predecessors: many(stepDependencies, { relationName: "successor" }),
+  successors: many(stepDependencies, { relationName: "predecessor" }),
   history: many(stepHistory),
+  checklistItems: many(stepChecklistItems),
+  comments: many(comments),
+}));
+
+export const stepDependenciesRelations = relations(stepDependencies, ({ one }) => ({
+  step: one(releaseSteps, {
+    fields: [stepDependencies.stepId],
+    references: [releaseSteps.id],
+    relationName: "successor",
+  }),
+  dependsOnStep: one(releaseSteps, {
+    fields: [stepDependencies.dependsOnStepId],
+    references: [releaseSteps.id],
+    relationName: "predecessor",
+  }),
 }));
 
 export const stepHistoryRelations = relations(stepHistory, ({ one }) => ({
@@ -178,6 +604,86 @@ export const stepHistoryRelations = relations(stepHistory, ({ one }) => ({
   }),
 }));
 
+export const stepChecklistItemsRelations = relations(stepChecklistItems, ({ one }) => ({
+  step: one(releaseSteps, {
+    fields: [stepChecklistItems.stepId],
+    references: [releaseSteps.id],
+  }),
+  completedBy: one(users, {
+    fields: [stepChecklistItems.completedBy],
+    references: [users.id],
+  }),
+}));
+
+export const commentsRelations = relations(comments, ({ one, many }) => ({
+  releasePlan: one(releasePlans, {
+    fields: [comments.releasePlanId],
+    references: [releasePlans.id],
+  }),
+  step: one(releaseSteps, {
+    fields: [comments.stepId],
+    references: [releaseSteps.id],
+  }),
+  parent: one(comments, {
+    fields: [comments.parentId],
+    references: [comments.id],
+    relationName: "replies",
+  }),
+  replies: many(comments, { relationName: "replies" }),
+  author: one(users, {
+    fields: [comments.authorId],
+    references: [users.id],
+    relationName: "commentAuthor",
+  }),
+  revisions: many(commentRevisions),
+}));
+
+export const commentRevisionsRelations = relations(commentRevisions, ({ one }) => ({
+  comment: one(comments, {
+    fields: [commentRevisions.commentId],
+    references: [comments.id],
+  }),
+  changedBy: one(users, {
+    fields: [commentRevisions.changedBy],
+    references: [users.id],
+  }),
+}));
+
+export const releaseGatesRelations = relations(releaseGates, ({ one, many }) => ({
+  releasePlan: one(releasePlans, {
+    fields: [releaseGates.releasePlanId],
+    references: [releasePlans.id],
+  }),
+  createdBy: one(users, {
+    fields: [releaseGates.createdBy],
+    references: [users.id],
+  }),
+  approvers: many(releaseGateApprovers),
+  votes: many(releaseGateVotes),
+}));
+
+export const releaseGateApproversRelations = relations(releaseGateApprovers, ({ one }) => ({
+  gate: one(releaseGates, {
+    fields: [releaseGateApprovers.gateId],
+    references: [releaseGates.id],
+  }),
+  user: one(users, {
+    fields: [releaseGateApprovers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const releaseGateVotesRelations = relations(releaseGateVotes, ({ one }) => ({
+  gate: one(releaseGates, {
+    fields: [releaseGateVotes.gateId],
+    references: [releaseGates.id],
+  }),
+  user: one(users, {
+    fields: [releaseGateVotes.userId],
+    references: [users.id],
+  }),
+}));
+
 export const shareableLinksRelations = relations(shareableLinks, ({ one }) => ({
   releasePlan: one(releasePlans, {
     fields: [shareableLinks.releasePlanId],
@@ -189,6 +695,91 @@ export const shareableLinksRelations = relations(shareableLinks, ({ one }) => ({
   }),
 }));
 
+export const releasePlanTemplatesRelations = relations(releasePlanTemplates, ({ one, many }) => ({
+  createdBy: one(users, {
+    fields: [releasePlanTemplates.createdBy],
+    references: [users.id],
+  }),
+  steps: many(releasePlanTemplateSteps),
+}));
+
+export const releasePlanTemplateStepsRelations = relations(releasePlanTemplateSteps, ({ one }) => ({
+  template: one(releasePlanTemplates, {
+    fields: [releasePlanTemplateSteps.templateId],
+    references: [releasePlanTemplates.id],
+  }),
+}));
+
+export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
+  actor: one(users, {
+    fields: [auditLogs.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const notificationPreferencesRelations = relations(notificationPreferences, ({ one }) => ({
+  user: one(users, {
+    fields: [notificationPreferences.userId],
+    references: [users.id],
+  }),
+}));
+
+export const notificationDigestItemsRelations = relations(notificationDigestItems, ({ one }) => ({
+  user: one(users, {
+    fields: [notificationDigestItems.userId],
+    references: [users.id],
+  }),
+}));
+
+export const notificationTemplatesRelations = relations(notificationTemplates, ({ one }) => ({
+  creator: one(users, {
+    fields: [notificationTemplates.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const webhookSubscriptionsRelations = relations(webhookSubscriptions, ({ one, many }) => ({
+  releasePlan: one(releasePlans, {
+    fields: [webhookSubscriptions.releasePlanId],
+    references: [releasePlans.id],
+  }),
+  creator: one(users, {
+    fields: [webhookSubscriptions.createdBy],
+    references: [users.id],
+  }),
+  deliveries: many(webhookDeliveries),
+}));
+
+export const webhookDeliveriesRelations = relations(webhookDeliveries, ({ one }) => ({
+  subscription: one(webhookSubscriptions, {
+    fields: [webhookDeliveries.subscriptionId],
+    references: [webhookSubscriptions.id],
+  }),
+}));
+
+export const scheduledJobsRelations = relations(scheduledJobs, ({ one }) => ({
+  step: one(releaseSteps, {
+    fields: [scheduledJobs.stepId],
+    references: [releaseSteps.id],
+  }),
+  resolvedBy: one(users, {
+    fields: [scheduledJobs.resolvedBy],
+    references: [users.id],
+  }),
+}));
+
+export const apiTokensRelations = relations(apiTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [apiTokens.userId],
+    references: [users.id],
+    relationName: "apiTokenUser",
+  }),
+  createdBy: one(users, {
+    fields: [apiTokens.createdBy],
+    references: [users.id],
+  }),
+}));
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   email: true,
@@ -232,6 +823,21 @@ export const insertReleaseStepSchema = createInsertSchema(releaseSteps).omit({
   updatedAt: true,
   startedAt: true,
   completedAt: true,
+  escalationLevel: true,
+  overdueSince: true,
+  lastEscalatedAt: true,
+  acknowledgementDueAt: true,
+  acknowledgedAt: true,
+  acknowledgedBy: true,
+  failedOverAt: true,
+  blockedByStepId: true,
+}).extend({
+  expectedDurationMinutes: z.number().int().positive().nullable().optional(),
+});
+
+export const insertStepDependencySchema = createInsertSchema(stepDependencies).omit({
+  id: true,
+  createdAt: true,
 });
 
 export const insertStepHistorySchema = createInsertSchema(stepHistory).omit({
@@ -239,6 +845,25 @@ export const insertStepHistorySchema = createInsertSchema(stepHistory).omit({
   createdAt: true,
 });
 
+export const insertStepChecklistItemSchema = createInsertSchema(stepChecklistItems).omit({
+  id: true,
+  completedAt: true,
+  completedBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCommentSchema = createInsertSchema(comments).omit({
+  id: true,
+  editedAt: true,
+  deletedAt: true,
+  deletedBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  mentionedUserIds: z.array(z.string()).default([]),
+});
+
 export const insertGlobalSettingSchema = createInsertSchema(globalSettings).omit({
   id: true,
   updatedAt: true,
@@ -249,17 +874,162 @@ export const insertShareableLinkSchema = createInsertSchema(shareableLinks).omit
   createdAt: true,
 });
 
+export const insertApiTokenSchema = createInsertSchema(apiTokens).omit({
+  id: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  revokedBy: true,
+  createdAt: true,
+}).extend({
+  scopes: z.array(z.string()).default([]),
+});
+
+export const insertReleasePlanTemplateSchema = createInsertSchema(releasePlanTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertReleasePlanTemplateStepSchema = createInsertSchema(releasePlanTemplateSteps).omit({
+  createdAt: true,
+}).extend({
+  dependsOnTemplateStepIds: z.array(z.string()).default([]),
+  checklist: z.array(z.object({ label: z.string(), isRequired: z.boolean() })).default([]),
+});
+
+export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  changes: z.custom<AuditChanges>((value) => typeof value === "object" && value !== null).default({}),
+});
+
+export const insertScheduledJobSchema = createInsertSchema(scheduledJobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertReleaseGateSchema = createInsertSchema(releaseGates).omit({
+  id: true,
+  status: true,
+  decidedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertReleaseGateVoteSchema = createInsertSchema(releaseGateVotes).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTeamSchema = createInsertSchema(teams).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertNotificationPreferenceSchema = createInsertSchema(notificationPreferences).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend(notificationPreferencesSchema.shape);
+
+export const insertNotificationOutboxSchema = createInsertSchema(notificationOutbox).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  message: z.custom<NotificationMessage>((value) => typeof value === "object" && value !== null),
+  recipients: z.custom<NotificationRecipientStatus[]>((value) => Array.isArray(value)).default([]),
+});
+
+export const insertNotificationDigestItemSchema = createInsertSchema(notificationDigestItems).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertNotificationTemplateSchema = createInsertSchema(notificationTemplates).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+});
+
+export const insertWebhookSubscriptionSchema = createInsertSchema(webhookSubscriptions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  eventTypes: z.array(z.string()).default([]),
+});
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  payload: z.custom<WebhookEvent>((value) => typeof value === "object" && value !== null),
+});
+
 // Types
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
 export type UpsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
 export type ReleasePlan = typeof releasePlans.$inferSelect;
 export type InsertReleasePlanInput = z.infer<typeof insertReleasePlanInputSchema>;
 export type InsertReleasePlan = z.infer<typeof insertReleasePlanSchema>;
 export type ReleaseStep = typeof releaseSteps.$inferSelect;
 export type InsertReleaseStep = z.infer<typeof insertReleaseStepSchema>;
+export type StepDependency = typeof stepDependencies.$inferSelect;
+export type InsertStepDependency = z.infer<typeof insertStepDependencySchema>;
 export type StepHistory = typeof stepHistory.$inferSelect;
 export type InsertStepHistory = z.infer<typeof insertStepHistorySchema>;
+export type StepChecklistItem = typeof stepChecklistItems.$inferSelect;
+export type InsertStepChecklistItem = z.infer<typeof insertStepChecklistItemSchema>;
+export type ChecklistItemBlueprint = Pick<StepChecklistItem, "label" | "isRequired">;
+export type Comment = typeof comments.$inferSelect;
+export type InsertComment = z.infer<typeof insertCommentSchema>;
+export type CommentRevision = typeof commentRevisions.$inferSelect;
+export type CommentWithAuthor = Comment & { authorName: string | null; revisionCount: number };
 export type GlobalSetting = typeof globalSettings.$inferSelect;
 export type InsertGlobalSetting = z.infer<typeof insertGlobalSettingSchema>;
 export type ShareableLink = typeof shareableLinks.$inferSelect;
 export type InsertShareableLink = z.infer<typeof insertShareableLinkSchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type PublicApiToken = Omit<ApiToken, "tokenHash">;
+export type ApiTokenWithUser = PublicApiToken & { userName: string | null; isServiceAccount: boolean };
+export type ReleasePlanTemplate = typeof releasePlanTemplates.$inferSelect;
+export type InsertReleasePlanTemplate = z.infer<typeof insertReleasePlanTemplateSchema>;
+export type ReleasePlanTemplateStep = typeof releasePlanTemplateSteps.$inferSelect;
+export type InsertReleasePlanTemplateStep = z.infer<typeof insertReleasePlanTemplateStepSchema>;
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type InsertScheduledJob = z.infer<typeof insertScheduledJobSchema>;
+export type BroadcastEvent = typeof broadcastEvents.$inferSelect;
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type AuditLogWithActor = AuditLog & { actorName: string | null };
+export type ReleaseGate = typeof releaseGates.$inferSelect;
+export type InsertReleaseGate = z.infer<typeof insertReleaseGateSchema>;
+export type ReleaseGateVote = typeof releaseGateVotes.$inferSelect;
+export type InsertReleaseGateVote = z.infer<typeof insertReleaseGateVoteSchema>;
+export type ReleaseGateWithVotes = ReleaseGate & { approverIds: string[]; votes: ReleaseGateVote[] };
+export type Team = typeof teams.$inferSelect;
+export type InsertTeam = z.infer<typeof insertTeamSchema>;
+export type TeamMember = typeof teamMembers.$inferSelect;
+export type TeamWithMembers = Team & { memberIds: string[] };
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+export type InsertNotificationPreference = z.infer<typeof insertNotificationPreferenceSchema>;
+export type NotificationDigestItem = typeof notificationDigestItems.$inferSelect;
+export type InsertNotificationDigestItem = z.infer<typeof insertNotificationDigestItemSchema>;
+export type NotificationOutboxEntry = typeof notificationOutbox.$inferSelect;
+export type InsertNotificationOutboxEntry = z.infer<typeof insertNotificationOutboxSchema>;
+export type NotificationTemplate = typeof notificationTemplates.$inferSelect;
+export type InsertNotificationTemplate = z.infer<typeof insertNotificationTemplateSchema>;
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type InsertWebhookSubscription = z.infer<typeof insertWebhookSubscriptionSchema>;
+export type PublicWebhookSubscription = Omit<WebhookSubscription, "secret">;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
@@ -0,0 +1,37 @@
+import { z } from "zod";
+import type { StepChecklistItem } from "./schema";
+
+export const checklistItemInputSchema = z.object({
+  label: z.string().trim().min(1, "Label is required").max(500),
+  isRequired: z.boolean().default(true),
+});
+
+export const checklistItemUpdateSchema = z.object({
+  label: z.string().trim().min(1, "Label is required").max(500).optional(),
+  isRequired: z.boolean().optional(),
+});
+
+export const checklistOrderSchema = z.object({
+  itemIds: z.array(z.string()).min(1),
+});
+
+export interface ChecklistProgress {
+  completed: number;
+  total: number;
+  openRequired: number;
+}
+
+export function getChecklistProgress(items: Pick<StepChecklistItem, "completedAt" | "isRequired">[]): ChecklistProgress {
+  return {
+    completed: items.filter(item => item.completedAt).length,
+    total: items.length,
+    openRequired: items.filter(item => item.isRequired && !item.completedAt).length,
+  };
+}
+
+// Why a step cannot be completed yet, or null once every required item is checked off
+export function getChecklistCompletionError(items: Pick<StepChecklistItem, "completedAt" | "isRequired">[]): string | null {
+  const { openRequired } = getChecklistProgress(items);
+  if (openRequired === 0) return null;
+  return `${openRequired} required checklist item${openRequired === 1 ? " is" : "s are"} still open`;
+}
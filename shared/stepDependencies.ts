@@ -0,0 +1,16 @@
+import type { ReleaseStep, StepDependency } from "./schema";
+
+// Predecessors of a step: rows from step_dependencies plus the legacy single
+// dependsOnStepId column, which older steps still rely on.
+export function getPredecessorIds(
+  step: Pick<ReleaseStep, "id" | "dependsOnStepId">,
+  dependencies: Pick<StepDependency, "stepId" | "dependsOnStepId">[],
+): string[] {
+  const ids = new Set(
+    dependencies
+      .filter(dependency => dependency.stepId === step.id)
+      .map(dependency => dependency.dependsOnStepId)
+  );
+  if (step.dependsOnStepId) ids.add(step.dependsOnStepId);
+  return Array.from(ids);
+}
@@ -0,0 +1,102 @@
+import type { ReleasePlan, ReleaseStep } from "./schema";
+
+export const relativeAnchors = ["release_start", "step_completion"] as const;
+
+export type RelativeAnchor = typeof relativeAnchors[number];
+
+export function isRelativeAnchor(value: unknown): value is RelativeAnchor {
+  return typeof value === "string" && (relativeAnchors as readonly string[]).includes(value);
+}
+
+interface RelativeScheduleFields {
+  id?: string;
+  schedulingType?: string;
+  relativeTo?: string | null;
+  relativeOffsetMinutes?: number | null;
+  relativeToStepId?: string | null;
+}
+
+// Returns an error message when a relative step's settings can never resolve
+// to a trigger time, or null when they are usable
+export function validateRelativeSchedule(step: RelativeScheduleFields): string | null {
+  if (step.schedulingType !== "relative") return null;
+
+  if (!isRelativeAnchor(step.relativeTo)) {
+    return "Relative steps must be relative to the release start or another step's completion";
+  }
+  if (typeof step.relativeOffsetMinutes !== "number" || !Number.isInteger(step.relativeOffsetMinutes)) {
+    return "Relative steps need an offset in whole minutes";
+  }
+  if (step.relativeTo === "step_completion") {
+    if (!step.relativeToStepId) {
+      return "Select the step this step follows";
+    }
+    if (step.relativeToStepId === step.id) {
+      return "A step cannot be relative to itself";
+    }
+    if (step.relativeOffsetMinutes < 0) {
+      return "A step cannot start before the step it follows completes";
+    }
+  }
+  return null;
+}
+
+// A skipped step never gets a completedAt, so the moment it was skipped stands in
+function getFinishTime(step: ReleaseStep): Date | null {
+  if (step.status === "completed" && step.completedAt) return new Date(step.completedAt);
+  if (step.status === "skipped" && step.updatedAt) return new Date(step.updatedAt);
+  return null;
+}
+
+// When the step should fire, or null when that is not yet known (manual and
+// dependency-driven steps, or a relative step whose anchor has not happened)
+export function getEffectiveTriggerTime(
+  step: ReleaseStep,
+  releasePlan: Pick<ReleasePlan, "scheduledDate"> | null | undefined,
+  planSteps: ReleaseStep[],
+): Date | null {
+  if (step.schedulingType === "fixed_time") {
+    return step.scheduledTime ? new Date(step.scheduledTime) : null;
+  }
+  if (step.schedulingType !== "relative" || step.relativeOffsetMinutes === null) {
+    return null;
+  }
+
+  let anchor: Date | null = null;
+  if (step.relativeTo === "release_start") {
+    anchor = releasePlan?.scheduledDate ? new Date(releasePlan.scheduledDate) : null;
+  } else if (step.relativeTo === "step_completion") {
+    const anchorStep = planSteps.find(candidate => candidate.id === step.relativeToStepId);
+    anchor = anchorStep ? getFinishTime(anchorStep) : null;
+  }
+
+  return anchor ? new Date(anchor.getTime() + step.relativeOffsetMinutes * 60 * 1000) : null;
+}
+
+// Formats an offset the way release runbooks write it, e.g. "T-2h" or "+30m"
+export function formatRelativeOffset(minutes: number, relativeTo: string | null): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const absolute = Math.abs(minutes);
+  const hours = Math.floor(absolute / 60);
+  const remainder = absolute % 60;
+  const amount = [hours ? `${hours}h` : "", remainder || !hours ? `${remainder}m` : ""].join("");
+
+  return relativeTo === "release_start" ? `T${sign}${amount}` : `${sign}${amount}`;
+}
+
+// What the scheduler does with a trigger that came due while it was not running
+export const catchUpPolicies = ["fire", "skip", "ask"] as const;
+
+export type CatchUpPolicy = typeof catchUpPolicies[number];
+
+export const catchUpPolicyLabels: Record<CatchUpPolicy, string> = {
+  fire: "Fire missed triggers immediately",
+  skip: "Skip missed triggers",
+  ask: "Ask a release manager",
+};
+
+export const CATCH_UP_POLICY_SETTING = "scheduler_catch_up_policy";
+
+export function isCatchUpPolicy(value: unknown): value is CatchUpPolicy {
+  return typeof value === "string" && (catchUpPolicies as readonly string[]).includes(value);
+}
@@ -0,0 +1,72 @@
+import type { ReleaseStep } from "./schema";
+
+export const SLA_PICKUP_SETTING = "sla_pickup_minutes";
+export const SLA_ESCALATION_INTERVAL_SETTING = "sla_escalation_interval_minutes";
+export const ACKNOWLEDGEMENT_WINDOW_SETTING = "acknowledgement_window_minutes";
+
+// How long a fixed-time step may sit triggered but untouched
+export const DEFAULT_SLA_PICKUP_MINUTES = 15;
+// How long each escalation stage has to respond before the next one is told
+export const DEFAULT_SLA_ESCALATION_INTERVAL_MINUTES = 30;
+// How long the POC of a triggered step has to acknowledge it before the backup POC takes over
+export const DEFAULT_ACKNOWLEDGEMENT_WINDOW_MINUTES = 10;
+
+// Who hears about an overdue step, in order. A step's escalationLevel counts
+// the stages already notified; stages with nobody assigned are passed over.
+export const escalationStages = ["primary_poc", "backup_poc", "team_lead", "release_manager"] as const;
+
+export type EscalationStage = typeof escalationStages[number];
+
+export const escalationStageLabels: Record<EscalationStage, string> = {
+  primary_poc: "Primary POC",
+  backup_poc: "Backup POC",
+  team_lead: "Team Lead",
+  release_manager: "Release Managers",
+};
+
+type SlaStepFields = Pick<ReleaseStep, "status" | "schedulingType" | "startedAt" | "expectedDurationMinutes">;
+
+export interface OverdueState {
+  since: Date;
+  reason: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export function formatDurationMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+// Returns when and why a step became overdue, or null while it is on time
+export function getOverdueState(step: SlaStepFields, now: Date, pickupMinutes: number): OverdueState | null {
+  // Counted from when it was triggered, which can be well after its scheduled
+  // time when a gate or the catch-up policy held it back
+  if (step.status === "started" && step.schedulingType === "fixed_time" && step.startedAt) {
+    const since = new Date(new Date(step.startedAt).getTime() + pickupMinutes * MINUTE_MS);
+    if (now >= since) {
+      return { since, reason: `not picked up within ${formatDurationMinutes(pickupMinutes)} of being triggered` };
+    }
+  }
+
+  if ((step.status === "started" || step.status === "in_progress") && step.expectedDurationMinutes && step.startedAt) {
+    const since = new Date(new Date(step.startedAt).getTime() + step.expectedDurationMinutes * MINUTE_MS);
+    if (now >= since) {
+      return { since, reason: `running longer than its expected ${formatDurationMinutes(step.expectedDurationMinutes)}` };
+    }
+  }
+
+  return null;
+}
+
+// Finished, failed and blocked steps are handled by people already; only live steps stay flagged
+export function isStepOverdue(step: Pick<ReleaseStep, "status" | "overdueSince">): boolean {
+  return !!step.overdueSince && ["not_started", "started", "in_progress"].includes(step.status);
+}
+
+// Only a step that is still just started waits; starting work on it counts as acknowledging it
+export function isAwaitingAcknowledgement(step: Pick<ReleaseStep, "status" | "acknowledgementDueAt" | "acknowledgedAt">): boolean {
+  return step.status === "started" && !!step.acknowledgementDueAt && !step.acknowledgedAt;
+}
@@ -0,0 +1,80 @@
+export const stepStatuses = [
+  "not_started",
+  "started",
+  "in_progress",
+  "completed",
+  "failed",
+  "blocked",
+  "skipped",
+] as const;
+
+export type StepStatus = typeof stepStatuses[number];
+
+export const stepStatusLabels: Record<StepStatus, string> = {
+  not_started: "Not Started",
+  started: "Started",
+  in_progress: "In Progress",
+  completed: "Completed",
+  failed: "Failed",
+  blocked: "Blocked",
+  skipped: "Skipped",
+};
+
+const stepStatusTransitions: Record<StepStatus, StepStatus[]> = {
+  not_started: ["started", "blocked", "skipped"],
+  started: ["in_progress", "completed", "failed", "blocked"],
+  in_progress: ["completed", "failed", "blocked"],
+  failed: ["started", "skipped"],
+  blocked: ["not_started", "started", "skipped"],
+  completed: [],
+  skipped: [],
+};
+
+// Statuses that satisfy a dependency: a skipped step no longer holds anything up
+export const finishedStepStatuses: StepStatus[] = ["completed", "skipped"];
+
+// Statuses that stop dependents from triggering until a release manager intervenes
+export const haltedStepStatuses: StepStatus[] = ["failed", "blocked"];
+
+export function isStepStatus(status: string): status is StepStatus {
+  return (stepStatuses as readonly string[]).includes(status);
+}
+
+export function getAllowedStepTransitions(from: string): StepStatus[] {
+  return isStepStatus(from) ? stepStatusTransitions[from] : [];
+}
+
+export function canTransitionStepStatus(from: string, to: string): boolean {
+  return isStepStatus(to) && getAllowedStepTransitions(from).includes(to);
+}
+
+// Retrying or unblocking a halted step, or skipping any step, is a release
+// manager decision and must be explained in the step history
+export function isRecoveryTransition(from: string, to: string): boolean {
+  return to === "skipped" || (haltedStepStatuses as string[]).includes(from);
+}
+
+export function isStepFinished(status: string): boolean {
+  return (finishedStepStatuses as string[]).includes(status);
+}
+
+export function isStepHalted(status: string): boolean {
+  return (haltedStepStatuses as string[]).includes(status);
+}
+
+export type ReleasePlanProgressStatus = "planning" | "active" | "at_risk" | "failed" | "completed";
+
+// Derives a plan's status from its steps. A plan is "failed" when every
+// unfinished step is failed or blocked, so nothing can move without intervention.
+export function deriveReleasePlanStatus(statuses: string[]): ReleasePlanProgressStatus {
+  if (statuses.every(isStepFinished)) return "completed";
+
+  const unfinished = statuses.filter(status => !isStepFinished(status));
+  if (unfinished.some(isStepHalted)) {
+    const stuck = unfinished.every(isStepHalted) && unfinished.includes("failed");
+    return stuck ? "failed" : "at_risk";
+  }
+
+  const hasStarted = statuses.some(status => status !== "not_started");
+  return hasStarted ? "active" : "planning";
+}
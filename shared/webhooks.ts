@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { isRealtimeEventType, realtimeEventTypes, type RealtimeEventType } from "./realtimeEvents";
+
+// What a delivery carries: a broadcast event, or the test event sent from the
+// subscription's settings
+export type WebhookEvent = { type: string; data: unknown };
+
+export const WEBHOOK_TEST_EVENT = "webhook_test";
+
+export const webhookEventTypes: RealtimeEventType[] = realtimeEventTypes;
+
+export const webhookDeliveryStatuses = ["pending", "sending", "sent", "dead"] as const;
+
+export type WebhookDeliveryStatus = typeof webhookDeliveryStatuses[number];
+
+export const webhookDeliveryStatusLabels: Record<WebhookDeliveryStatus, string> = {
+  pending: "Pending",
+  sending: "Sending",
+  sent: "Delivered",
+  dead: "Failed",
+};
+
+// step_triggered reads as "Step triggered"
+export function formatWebhookEventType(type: string): string {
+  const words = type.split("_").join(" ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export const webhookInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(255),
+  url: z.string().trim().url("Enter a valid URL").refine(
+    (value) => /^https?:\/\//i.test(value),
+    "Webhook URLs must use http or https",
+  ),
+  // Null subscribes to every plan
+  releasePlanId: z.string().uuid().nullable().default(null),
+  eventTypes: z.array(z.string().refine(isRealtimeEventType, "Unknown event type"))
+    .min(1, "Choose at least one event"),
+  isActive: z.boolean().default(true),
+});
+
+export const webhookUpdateSchema = webhookInputSchema.partial();
+
+export type WebhookInput = z.infer<typeof webhookInputSchema>;